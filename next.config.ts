@@ -1,7 +1,14 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  images: {
+    // Open Library covers (reading lists) and YouTube thumbnails. Book and
+    // library images can come from any host, so those render unoptimized.
+    remotePatterns: [
+      { protocol: "https", hostname: "covers.openlibrary.org" },
+      { protocol: "https", hostname: "i.ytimg.com" },
+    ],
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,153 @@
+"use client";
+
+import { useState } from "react";
+import { useFlaggedQuizQuestions } from "@/hooks";
+import { BackButton } from "@/components/layout";
+import type { FillQuizBankResponse, QuizBankQuestion } from "@/types";
+
+const ANSWER_LEVELS = ["advanced", "intermediate", "beginner", "incorrect"] as const;
+
+/** Share of askings that drew a flag, e.g. "12%" */
+function flagRate(question: QuizBankQuestion): string {
+  if (question.times_asked === 0) return "n/a";
+  return `${Math.round((question.flag_count / question.times_asked) * 100)}%`;
+}
+
+/**
+ * Admin Quiz Page
+ *
+ * Review the quiz bank questions users have flagged as unfair, with how
+ * often each was asked, flagged and answered at each level, and retire
+ * those that deserve it. Also pre-fills the bank with generated questions.
+ * Only admins (ADMIN_EMAILS) can load it.
+ */
+export default function AdminQuizPage() {
+  const { questions, loading, error, setStatus, fillBank } =
+    useFlaggedQuizQuestions();
+  const [updating, setUpdating] = useState<string | null>(null);
+  const [filling, setFilling] = useState(false);
+  const [fillResult, setFillResult] = useState<FillQuizBankResponse | null>(null);
+  const [fillError, setFillError] = useState(false);
+
+  const handleStatus = async (
+    id: string,
+    status: QuizBankQuestion["status"]
+  ) => {
+    setUpdating(id);
+    await setStatus(id, status);
+    setUpdating(null);
+  };
+
+  const handleFill = async () => {
+    setFilling(true);
+    setFillError(false);
+    const result = await fillBank();
+    setFillResult(result);
+    setFillError(result === null);
+    setFilling(false);
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto py-8 px-4">
+      <BackButton href="/start" />
+      <div className="flex items-start justify-between gap-4 mt-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-zinc-900 dark:text-zinc-100">
+            Flagged Quiz Questions
+          </h1>
+          <p className="text-zinc-600 dark:text-zinc-400 mt-1">
+            Questions users found unfair, most flagged first
+          </p>
+        </div>
+        <div className="text-right flex-shrink-0">
+          <button
+            type="button"
+            onClick={handleFill}
+            disabled={filling}
+            className="px-4 py-2 bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 rounded-lg text-sm font-medium hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors disabled:opacity-50"
+          >
+            {filling ? "Generating..." : "Fill question bank"}
+          </button>
+          {fillResult && (
+            <p className="text-xs text-zinc-500 dark:text-zinc-400 mt-1">
+              Added {fillResult.created}; {fillResult.remaining} slots still
+              short
+            </p>
+          )}
+          {fillError && (
+            <p className="text-xs text-red-600 dark:text-red-400 mt-1">
+              Failed to fill the bank
+            </p>
+          )}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-10">
+          <div className="w-8 h-8 border-2 border-zinc-300 dark:border-zinc-600 border-t-zinc-900 dark:border-t-zinc-100 rounded-full animate-spin" />
+        </div>
+      ) : error ? (
+        <p className="text-red-600 dark:text-red-400">{error}</p>
+      ) : questions.length === 0 ? (
+        <p className="text-zinc-500 dark:text-zinc-400 italic">
+          No flagged questions.
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {questions.map((question) => (
+            <li
+              key={question.id}
+              className={`p-4 rounded-xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 ${
+                question.status === "retired" ? "opacity-60" : ""
+              }`}
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                    {question.category} &mdash; {question.subtopic} &middot;{" "}
+                    {question.difficulty} &middot; {question.source}
+                  </p>
+                  <p className="font-medium text-zinc-900 dark:text-zinc-100 mt-1">
+                    {question.question}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() =>
+                    handleStatus(
+                      question.id,
+                      question.status === "active" ? "retired" : "active"
+                    )
+                  }
+                  disabled={updating === question.id}
+                  className="flex-shrink-0 px-3 py-1.5 border border-zinc-300 dark:border-zinc-600 text-zinc-700 dark:text-zinc-300 rounded-lg text-sm hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors disabled:opacity-50"
+                >
+                  {question.status === "active" ? "Retire" : "Restore"}
+                </button>
+              </div>
+
+              <ul className="mt-3 space-y-1 text-sm text-zinc-700 dark:text-zinc-300">
+                {question.options.map((option, index) => (
+                  <li key={index}>
+                    <span className="text-zinc-400 dark:text-zinc-500">
+                      {option.level}:
+                    </span>{" "}
+                    {option.text}
+                  </li>
+                ))}
+              </ul>
+
+              <p className="mt-3 text-xs text-zinc-500 dark:text-zinc-400">
+                Flagged {question.flag_count} times ({flagRate(question)} of{" "}
+                {question.times_asked} asked) &middot; Answers:{" "}
+                {ANSWER_LEVELS.map(
+                  (level) => `${question.answer_counts[level] ?? 0} ${level}`
+                ).join(", ")}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,98 +1,315 @@
 "use client";
 
-import { useParams } from "next/navigation";
-import { BackButton } from "@/components/layout";
+import { useEffect, useState, Suspense } from "react";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
+import { BackButton, PathBreadcrumbs } from "@/components/layout";
+import {
+  LessonCard,
+  ActionButtons,
+  BranchOptions,
+  GeneratingOverlay,
+  RateLimitWarning,
+} from "@/components/explore";
+import {
+  DeeperMenu,
+  SocraticDialogue,
+  ExpandedDescription,
+  VideoResults,
+  BookResults,
+  type DeeperOption,
+} from "@/components/deeper";
+import { useConcept, useDeeper, useSocraticDialogue } from "@/hooks";
+import { useExplorationStore, useGraphDataStore } from "@/store";
+import type { Concept, EdgeWithTarget } from "@/types";
 
-/**
- * Explore Page
- *
- * Main concept exploration view.
- * Will be fully implemented in Phase 3 (Core Exploration).
- */
-export default function ExplorePage() {
-  const params = useParams();
-  const slug = params.slug as string;
+type ExplorePanel = "deeper" | "branch" | null;
 
-  // Convert slug to display name
-  const conceptName = slug
-    .split("-")
-    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
-    .join(" ");
+interface DeeperPanelProps {
+  concept: Concept;
+}
+
+function DeeperPanel({ concept }: DeeperPanelProps) {
+  const [option, setOption] = useState<DeeperOption | null>(null);
+  const socratic = useSocraticDialogue(concept.id);
+  const {
+    expanded,
+    expandedDraft,
+    videos,
+    books,
+    loading,
+    errors,
+    fetchExpanded,
+    fetchVideos,
+    fetchBooks,
+  } = useDeeper(concept.id);
+
+  const handleSelect = (next: DeeperOption) => {
+    setOption(next);
+    if (next === "expand") fetchExpanded();
+    if (next === "videos") fetchVideos();
+    if (next === "books") fetchBooks();
+  };
+
+  const resource =
+    option === "expand"
+      ? "expanded"
+      : option === "videos" || option === "books"
+        ? option
+        : null;
+
+  return (
+    <div className="space-y-6">
+      <DeeperMenu active={option} onSelect={handleSelect} />
+
+      {option && (
+        <div className="bg-white dark:bg-zinc-900 rounded-2xl border border-zinc-200 dark:border-zinc-800 p-6">
+          {option === "socratic" ? (
+            <SocraticDialogue
+              conceptId={concept.id}
+              conceptName={concept.name}
+              history={socratic.history}
+              onSend={socratic.send}
+              onStart={socratic.start}
+              isComplete={socratic.isComplete}
+              loading={socratic.loading}
+              error={socratic.error}
+              draft={socratic.draft}
+            />
+          ) : option === "expand" && loading.expanded && expandedDraft ? (
+            <ExpandedDescription text={expandedDraft} streaming />
+          ) : resource && loading[resource] ? (
+            <div className="flex items-center justify-center py-10">
+              <div className="w-8 h-8 border-2 border-zinc-300 dark:border-zinc-600 border-t-zinc-900 dark:border-t-zinc-100 rounded-full animate-spin" />
+            </div>
+          ) : resource && errors[resource] ? (
+            <p className="text-red-600 dark:text-red-400">
+              {errors[resource]}
+            </p>
+          ) : option === "expand" && expanded ? (
+            <ExpandedDescription text={expanded} />
+          ) : option === "videos" && videos ? (
+            <VideoResults videos={videos} />
+          ) : option === "books" && books ? (
+            <BookResults conceptId={concept.id} books={books} />
+          ) : null}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ExploreContentProps {
+  slug: string;
+  name: string | null;
+  /** Panel to open on load (e.g. from a graph node action) */
+  initialPanel: ExplorePanel;
+  /** Edge followed to reach this concept, if any */
+  viaEdgeId: string | null;
+}
+
+function ExploreContent({
+  slug,
+  name,
+  initialPanel,
+  viaEdgeId,
+}: ExploreContentProps) {
+  const router = useRouter();
+  const {
+    concept,
+    edges,
+    loading,
+    generating,
+    job,
+    streamedText,
+    rateLimit,
+    error,
+  } = useConcept(slug, name);
+  const [panel, setPanel] = useState<ExplorePanel>(initialPanel);
+
+  const path = useExplorationStore((state) => state.path);
+  const pushPath = useExplorationStore((state) => state.pushPath);
+  const popPath = useExplorationStore((state) => state.popPath);
+  const graphNodes = useGraphDataStore((state) => state.nodes);
+  const addVisitedNode = useGraphDataStore((state) => state.addVisitedNode);
+  const addEdges = useGraphDataStore((state) => state.addEdges);
+
+  // Record the visit in the session path and graph once the concept loads
+  useEffect(() => {
+    if (!concept) return;
+
+    addVisitedNode(concept);
+    addEdges(concept.id, edges);
+
+    const { path: currentPath } = useExplorationStore.getState();
+    if (currentPath[currentPath.length - 1] !== concept.slug) {
+      pushPath(concept.slug);
+    }
+  }, [concept, edges, addVisitedNode, addEdges, pushPath]);
+
+  // Log the traversal and count the visit towards graph unlock
+  // (server ignores repeat visits for the count)
+  const conceptId = concept?.id;
+  useEffect(() => {
+    if (!conceptId) return;
+
+    fetch("/api/user/explore", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ conceptId, edgeId: viaEdgeId ?? undefined }),
+    }).catch((err) => console.error("Error recording exploration:", err));
+  }, [conceptId, viaEdgeId]);
+
+  const displayName = concept?.name ?? name ?? slug.replace(/-/g, " ");
+
+  const breadcrumbs = path.map((pathSlug) => ({
+    slug: pathSlug,
+    label:
+      graphNodes.find((n) => n.slug === pathSlug)?.label ??
+      pathSlug.replace(/-/g, " "),
+  }));
+  const previousSlug = path.length > 1 ? path[path.length - 2] : null;
+
+  const handleBack = () => {
+    popPath();
+    if (previousSlug) {
+      router.push(`/explore/${previousSlug}`);
+    }
+  };
+
+  const handleSelectEdge = (edge: EdgeWithTarget) => {
+    if (concept) {
+      addEdges(concept.id, [edge]);
+
+      // Record the branch choice for analytics (fire and forget)
+      fetch(`/api/concepts/${encodeURIComponent(concept.id)}/choose`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ branchType: edge.branch_type }),
+      }).catch((err) => console.error("Error recording branch choice:", err));
+    }
+    router.push(
+      `/explore/${edge.target.slug}?via=${encodeURIComponent(edge.id)}`
+    );
+  };
+
+  const handleSelectConcept = (target: Concept) => {
+    router.push(`/explore/${target.slug}`);
+  };
+
+  const togglePanel = (next: Exclude<ExplorePanel, null>) => {
+    setPanel((current) => (current === next ? null : next));
+  };
 
   return (
     <div className="max-w-3xl mx-auto py-8">
-      {/* Back button */}
-      <div className="mb-6">
-        <BackButton label="Back to start" href="/start" />
+      {/* Navigation */}
+      <div className="mb-6 flex items-center gap-4">
+        {previousSlug ? (
+          <BackButton label="Back" onClick={handleBack} />
+        ) : (
+          <BackButton label="Back to start" href="/start" />
+        )}
+        <PathBreadcrumbs path={breadcrumbs} className="min-w-0" />
       </div>
 
       {/* Concept Header */}
       <div className="mb-8">
-        <h1 className="text-3xl font-bold text-zinc-900 dark:text-zinc-100">
-          {conceptName}
+        <h1 className="text-3xl font-bold text-zinc-900 dark:text-zinc-100 capitalize">
+          {displayName}
         </h1>
       </div>
 
-      {/* Placeholder Lesson Card */}
-      <div className="bg-white dark:bg-zinc-900 rounded-2xl border border-zinc-200 dark:border-zinc-800 p-8 mb-8">
-        <div className="prose dark:prose-invert max-w-none">
-          <p className="text-zinc-600 dark:text-zinc-400 italic">
-            Lesson content will be loaded here in Phase 3. This will include:
-          </p>
-          <ul className="text-zinc-600 dark:text-zinc-400">
-            <li>A clear description of the concept</li>
-            <li>Historical origins and key figures</li>
-            <li>Multiple scholarly perspectives</li>
-            <li>Recommended reading list</li>
-          </ul>
+      {/* Lesson */}
+      {generating ? (
+        <GeneratingOverlay
+          conceptName={displayName}
+          job={job}
+          streamedText={streamedText}
+        />
+      ) : loading ? (
+        <div className="bg-white dark:bg-zinc-900 rounded-2xl border border-zinc-200 dark:border-zinc-800 p-8 animate-pulse space-y-3">
+          <div className="h-4 bg-zinc-200 dark:bg-zinc-700 rounded w-full" />
+          <div className="h-4 bg-zinc-200 dark:bg-zinc-700 rounded w-11/12" />
+          <div className="h-4 bg-zinc-200 dark:bg-zinc-700 rounded w-4/5" />
         </div>
-      </div>
+      ) : rateLimit ? (
+        <RateLimitWarning resetAt={rateLimit.resetAt} />
+      ) : error || !concept ? (
+        <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl text-red-700 dark:text-red-400">
+          {error || "This concept could not be loaded."}
+        </div>
+      ) : (
+        <>
+          <div className="mb-8">
+            <LessonCard concept={concept} />
+          </div>
 
-      {/* Action Buttons */}
-      <div className="flex flex-col sm:flex-row gap-4">
-        <button
-          className="flex-1 flex items-center justify-center gap-2 px-6 py-3 rounded-xl bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 font-medium hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors"
-          onClick={() => alert("Go Deeper will be implemented in Phase 4")}
-        >
-          <svg
-            className="w-5 h-5"
-            viewBox="0 0 24 24"
-            fill="none"
-            stroke="currentColor"
-            strokeWidth="2"
-            strokeLinecap="round"
-            strokeLinejoin="round"
-          >
-            <circle cx="12" cy="12" r="10" />
-            <line x1="12" y1="8" x2="12" y2="16" />
-            <line x1="8" y1="12" x2="16" y2="12" />
-          </svg>
-          Go Deeper
-        </button>
-        <button
-          className="flex-1 flex items-center justify-center gap-2 px-6 py-3 rounded-xl border border-zinc-300 dark:border-zinc-700 text-zinc-700 dark:text-zinc-300 font-medium hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
-          onClick={() =>
-            alert("Explore New Branch will be implemented in Phase 3")
-          }
-        >
-          <svg
-            className="w-5 h-5"
-            viewBox="0 0 24 24"
-            fill="none"
-            stroke="currentColor"
-            strokeWidth="2"
-            strokeLinecap="round"
-            strokeLinejoin="round"
-          >
-            <line x1="6" y1="3" x2="6" y2="15" />
-            <circle cx="18" cy="6" r="3" />
-            <circle cx="6" cy="18" r="3" />
-            <path d="M18 9a9 9 0 0 1-9 9" />
-          </svg>
-          Explore New Branch
-        </button>
-      </div>
+          <ActionButtons
+            active={panel}
+            onGoDeeper={() => togglePanel("deeper")}
+            onExploreBranch={() => togglePanel("branch")}
+          />
+
+          {panel === "deeper" && (
+            <div className="mt-8">
+              <DeeperPanel concept={concept} />
+            </div>
+          )}
+
+          {panel === "branch" && (
+            <div className="mt-8">
+              <BranchOptions
+                conceptId={concept.id}
+                existingEdges={edges}
+                onSelectEdge={handleSelectEdge}
+                onSelectConcept={handleSelectConcept}
+              />
+            </div>
+          )}
+        </>
+      )}
     </div>
   );
 }
 
+function ExploreRoute() {
+  const params = useParams();
+  const searchParams = useSearchParams();
+  const slug = params.slug as string;
+  const action = searchParams.get("action");
+  const initialPanel: ExplorePanel =
+    action === "deeper" || action === "branch" ? action : null;
+
+  // Remount per slug so concept state never leaks between lessons
+  return (
+    <ExploreContent
+      key={slug}
+      slug={slug}
+      name={searchParams.get("name")}
+      initialPanel={initialPanel}
+      viaEdgeId={searchParams.get("via")}
+    />
+  );
+}
+
+/**
+ * Explore Page
+ *
+ * Main concept exploration view. Loads the lesson for a slug, generating
+ * it server-side on a miss, and offers Go Deeper and branch navigation.
+ */
+export default function ExplorePage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="max-w-3xl mx-auto py-8">
+          <div className="flex items-center justify-center py-20">
+            <div className="w-8 h-8 border-2 border-zinc-300 dark:border-zinc-600 border-t-zinc-900 dark:border-t-zinc-100 rounded-full animate-spin" />
+          </div>
+        </div>
+      }
+    >
+      <ExploreRoute />
+    </Suspense>
+  );
+}
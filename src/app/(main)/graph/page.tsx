@@ -1,20 +1,75 @@
 "use client";
 
-import { useEffect } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
-import { useAuth } from "@/hooks";
+import type { Core } from "cytoscape";
+import { useAuth, useConceptMap, useGlobalGraph } from "@/hooks";
+import { useGraphDataStore } from "@/store";
 import { BackButton } from "@/components/layout";
+import {
+  GraphCanvas,
+  GraphControls,
+  GraphLockOverlay,
+  NodeTooltip,
+  BRANCH_TYPE_COLORS,
+} from "@/components/graph";
+import { BRANCH_TYPE_LABELS } from "@/components/explore";
+import { CATEGORIES } from "@/lib/onboarding/data";
+import type { BranchType, GraphNode } from "@/types";
+
+const ZOOM_STEP = 1.25;
+
+type GraphView = "mine" | "atlas" | "map";
+
+const VIEW_TITLES: Record<GraphView, string> = {
+  mine: "Your Exploration Graph",
+  atlas: "The Atlas",
+  map: "Semantic Map",
+};
+
+interface SelectedNode {
+  node: GraphNode;
+  position: { x: number; y: number };
+}
 
 /**
  * Graph Page
  *
  * 2D graph visualization of explored concepts.
- * Unlocked after exploring 10+ nodes.
- * Will be fully implemented in Phase 4 (Advanced Features).
+ * Unlocked after exploring 10+ nodes. Clicking a node offers jumping to it,
+ * Go Deeper, or Explore New Branch. Toggles between the user's own path
+ * and the atlas (the shared graph, with visited nodes highlighted, and
+ * optionally limited to one category), or lays the shared graph out by
+ * meaning in the semantic map.
  */
 export default function GraphPage() {
   const { profile } = useAuth();
   const router = useRouter();
+  const myNodes = useGraphDataStore((state) => state.nodes);
+  const myEdges = useGraphDataStore((state) => state.edges);
+  const visitedNodes = useGraphDataStore((state) => state.visitedNodes);
+  const atlas = useGlobalGraph();
+  const conceptMap = useConceptMap();
+  const cyRef = useRef<Core | null>(null);
+  const [view, setView] = useState<GraphView>("mine");
+  const [selected, setSelected] = useState<SelectedNode | null>(null);
+
+  // Shared views: include this session's visits, which may postdate the
+  // server's answer
+  const shared = view === "map" ? conceptMap : view === "atlas" ? atlas : null;
+  const sharedNodes = shared?.graph.nodes;
+  const highlightedNodes = useMemo(
+    () =>
+      (sharedNodes ?? []).map((node) =>
+        !node.visited && visitedNodes.has(node.id)
+          ? { ...node, visited: true }
+          : node
+      ),
+    [sharedNodes, visitedNodes]
+  );
+
+  const nodes = shared ? highlightedNodes : myNodes;
+  const edges = shared ? shared.graph.edges : myEdges;
 
   const graphUnlocked = profile?.graph_unlocked ?? false;
   const nodesExplored = profile?.nodes_explored ?? 0;
@@ -28,85 +83,221 @@ export default function GraphPage() {
   }, [profile, graphUnlocked, router]);
 
   if (!graphUnlocked) {
-    return (
-      <div className="max-w-2xl mx-auto py-16 text-center">
-        <div className="w-20 h-20 rounded-full bg-zinc-100 dark:bg-zinc-800 flex items-center justify-center mx-auto mb-6">
-          <svg
-            className="w-10 h-10 text-zinc-400"
-            viewBox="0 0 24 24"
-            fill="none"
-            stroke="currentColor"
-            strokeWidth="2"
-            strokeLinecap="round"
-            strokeLinejoin="round"
-          >
-            <rect x="3" y="11" width="18" height="11" rx="2" ry="2" />
-            <path d="M7 11V7a5 5 0 0 1 10 0v4" />
-          </svg>
-        </div>
-        <h1 className="text-2xl font-bold text-zinc-900 dark:text-zinc-100 mb-3">
-          Graph View Locked
-        </h1>
-        <p className="text-zinc-600 dark:text-zinc-400 mb-6">
-          Explore {nodesUntilUnlock} more concept
-          {nodesUntilUnlock !== 1 ? "s" : ""} to unlock the graph visualization.
-        </p>
-        <button
-          onClick={() => router.push("/start")}
-          className="px-6 py-2.5 bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 rounded-lg font-medium hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors"
-        >
-          Continue exploring
-        </button>
-      </div>
-    );
+    return <GraphLockOverlay nodesUntilUnlock={nodesUntilUnlock} />;
   }
 
+  const handleReady = (cy: Core) => {
+    cyRef.current = cy;
+    // The tooltip is positioned in screen space, so hide it when the view moves
+    cy.on("viewport", () => setSelected(null));
+  };
+
+  const handleSelectNode = (
+    node: GraphNode | null,
+    position?: { x: number; y: number }
+  ) => {
+    setSelected(node && position ? { node, position } : null);
+  };
+
+  const zoomBy = (factor: number) => {
+    const cy = cyRef.current;
+    if (!cy) return;
+    cy.zoom({
+      level: cy.zoom() * factor,
+      renderedPosition: { x: cy.width() / 2, y: cy.height() / 2 },
+    });
+  };
+
+  const switchView = (next: GraphView) => {
+    setSelected(null);
+    setView(next);
+    if (next === "atlas" && atlas.graph.nodes.length === 0 && !atlas.loading) {
+      atlas.loadTop();
+    }
+    if (
+      next === "map" &&
+      conceptMap.graph.nodes.length === 0 &&
+      !conceptMap.loading
+    ) {
+      conceptMap.load();
+    }
+  };
+
+  const filterAtlas = (category: string | null) => {
+    setSelected(null);
+    atlas.filterByCategory(category);
+  };
+
+  const showNeighbourhood = (node: GraphNode) => {
+    setSelected(null);
+    atlas.loadNeighbourhood(node.id);
+  };
+
+  const openConcept = (node: GraphNode, action?: "deeper" | "branch") => {
+    const query = action ? `?action=${action}` : "";
+    router.push(`/explore/${node.slug}${query}`);
+  };
+
   return (
     <div className="py-8">
       {/* Header */}
-      <div className="flex items-center justify-between mb-8">
+      <div className="flex items-end justify-between mb-8">
         <div>
           <BackButton href="/start" />
           <h1 className="text-2xl font-bold text-zinc-900 dark:text-zinc-100 mt-4">
-            Your Exploration Graph
+            {VIEW_TITLES[view]}
           </h1>
           <p className="text-zinc-600 dark:text-zinc-400 mt-1">
             {nodesExplored} concepts explored
           </p>
+          <div className="inline-flex mt-4 p-1 rounded-lg bg-zinc-100 dark:bg-zinc-800">
+            {(
+              [
+                ["mine", "My path"],
+                ["atlas", "The atlas"],
+                ["map", "Semantic map"],
+              ] as const
+            ).map(([value, label]) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => switchView(value)}
+                className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                  view === value
+                    ? "bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 shadow-sm"
+                    : "text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {view === "atlas" && !atlas.centreId && (
+            <select
+              value={atlas.category ?? ""}
+              onChange={(e) => filterAtlas(e.target.value || null)}
+              disabled={atlas.loading}
+              aria-label="Category"
+              className="ml-3 text-sm rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300 px-2 py-1.5"
+            >
+              <option value="">All categories</option>
+              {CATEGORIES.map((category) => (
+                <option key={category.name} value={category.name}>
+                  {category.name}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        {/* Legend */}
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-zinc-600 dark:text-zinc-400">
+          <span className="flex items-center gap-1.5">
+            <span className="w-3 h-3 rounded-full bg-zinc-900 dark:bg-zinc-100" />
+            Visited
+          </span>
+          <span className="flex items-center gap-1.5">
+            <span className="w-3 h-3 rounded-full border-2 border-dashed border-zinc-400" />
+            Not visited
+          </span>
+          {(Object.keys(BRANCH_TYPE_COLORS) as BranchType[]).map((type) => (
+            <span key={type} className="flex items-center gap-1.5">
+              <span
+                className="w-4 h-0.5"
+                style={{ backgroundColor: BRANCH_TYPE_COLORS[type] }}
+              />
+              {BRANCH_TYPE_LABELS[type]}
+            </span>
+          ))}
         </div>
       </div>
 
-      {/* Placeholder Graph Container */}
-      <div className="bg-white dark:bg-zinc-900 rounded-2xl border border-zinc-200 dark:border-zinc-800 p-8 min-h-[500px] flex items-center justify-center">
-        <div className="text-center">
-          <div className="w-16 h-16 rounded-full bg-zinc-100 dark:bg-zinc-800 flex items-center justify-center mx-auto mb-4">
-            <svg
-              className="w-8 h-8 text-zinc-400"
-              viewBox="0 0 24 24"
-              fill="none"
-              stroke="currentColor"
-              strokeWidth="2"
-              strokeLinecap="round"
-              strokeLinejoin="round"
-            >
-              <circle cx="6" cy="6" r="3" />
-              <circle cx="6" cy="18" r="3" />
-              <circle cx="18" cy="18" r="3" />
-              <line x1="6" y1="9" x2="6" y2="15" />
-              <path d="M6 18h12" />
-              <path d="M18 18V9a3 3 0 0 0-3-3H9" />
-            </svg>
+      {/* Graph */}
+      <div className="relative bg-white dark:bg-zinc-900 rounded-2xl border border-zinc-200 dark:border-zinc-800 h-[600px] overflow-hidden">
+        {shared?.error ? (
+          <div className="h-full flex items-center justify-center text-red-600 dark:text-red-400">
+            {shared.error}
           </div>
-          <h2 className="text-xl font-semibold text-zinc-900 dark:text-zinc-100 mb-2">
-            Graph Visualization Coming Soon
-          </h2>
-          <p className="text-zinc-600 dark:text-zinc-400 max-w-md">
-            The Cytoscape.js graph will be implemented in Phase 4. You&apos;ll
-            be able to see and navigate all the concepts you&apos;ve explored.
-          </p>
-        </div>
+        ) : shared?.loading && nodes.length === 0 ? (
+          <div className="h-full flex items-center justify-center">
+            <div className="w-8 h-8 border-2 border-zinc-300 dark:border-zinc-600 border-t-zinc-900 dark:border-t-zinc-100 rounded-full animate-spin" />
+          </div>
+        ) : nodes.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-zinc-500 dark:text-zinc-400">
+            {view === "mine"
+              ? "Concepts you explore will appear here."
+              : view === "map"
+                ? "No concepts have been mapped yet."
+                : atlas.category
+                  ? `No ${atlas.category} concepts have been explored yet.`
+                  : "No concepts have been explored yet."}
+          </div>
+        ) : (
+          <>
+            <GraphCanvas
+              key={view}
+              nodes={nodes}
+              edges={edges}
+              onSelectNode={handleSelectNode}
+              onReady={handleReady}
+              layoutMode={view === "map" ? "semantic" : "force"}
+            />
+            <GraphControls
+              onZoomIn={() => zoomBy(ZOOM_STEP)}
+              onZoomOut={() => zoomBy(1 / ZOOM_STEP)}
+              onPan={(dx, dy) => cyRef.current?.panBy({ x: dx, y: dy })}
+              onFit={() => cyRef.current?.fit(undefined, 40)}
+            />
+            {selected && (
+              <NodeTooltip
+                node={selected.node}
+                position={selected.position}
+                onJump={(node) => openConcept(node)}
+                onGoDeeper={(node) => openConcept(node, "deeper")}
+                onExploreBranch={(node) => openConcept(node, "branch")}
+                onShowNeighbourhood={
+                  view === "atlas" ? showNeighbourhood : undefined
+                }
+                onClose={() => setSelected(null)}
+              />
+            )}
+          </>
+        )}
       </div>
+
+      {view === "map" && nodes.length > 0 && (
+        <p className="mt-3 text-sm text-zinc-500 dark:text-zinc-400 text-center">
+          Nearby concepts are close in meaning. Empty regions are ideas no one
+          has explored yet; positions are recomputed periodically, so the newest
+          concepts may not appear.
+        </p>
+      )}
+
+      {/* Atlas paging */}
+      {view === "atlas" && (atlas.hasMore || atlas.centreId) && (
+        <div className="mt-4 flex justify-center gap-3">
+          {atlas.centreId && (
+            <button
+              type="button"
+              onClick={atlas.loadTop}
+              disabled={atlas.loading}
+              className="px-4 py-2 rounded-lg border border-zinc-300 dark:border-zinc-700 text-sm text-zinc-700 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800 disabled:opacity-50 transition-colors"
+            >
+              Back to most connected
+            </button>
+          )}
+          {atlas.hasMore && (
+            <button
+              type="button"
+              onClick={atlas.loadMore}
+              disabled={atlas.loading}
+              className="px-4 py-2 rounded-lg bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 text-sm font-medium hover:bg-zinc-800 dark:hover:bg-zinc-200 disabled:opacity-50 transition-colors"
+            >
+              {atlas.loading ? "Loading..." : "Load more concepts"}
+            </button>
+          )}
+        </div>
+      )}
     </div>
   );
 }
-
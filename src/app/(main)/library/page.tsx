@@ -0,0 +1,92 @@
+"use client";
+
+import { useState } from "react";
+import { useLibrary } from "@/hooks";
+import { BackButton } from "@/components/layout";
+import {
+  LibraryEntryCard,
+  LIBRARY_STATUS_LABELS,
+} from "@/components/library";
+import type { LibraryStatus } from "@/types";
+
+type LibraryFilter = LibraryStatus | "all";
+
+/**
+ * Library Page
+ *
+ * The user's personal reading list: books saved from lesson reading lists
+ * and Go Deeper book search. Filter by reading status, update statuses and
+ * notes, and jump back to the concepts where each book was discovered.
+ */
+export default function LibraryPage() {
+  const { entries, loading, error, updateEntry, removeEntry } = useLibrary();
+  const [filter, setFilter] = useState<LibraryFilter>("all");
+
+  const filters: [LibraryFilter, string][] = [
+    ["all", "All"],
+    ...(Object.entries(LIBRARY_STATUS_LABELS) as [LibraryStatus, string][]),
+  ];
+  const visible =
+    filter === "all" ? entries : entries.filter((e) => e.status === filter);
+
+  return (
+    <div className="max-w-3xl mx-auto py-8 px-4">
+      <BackButton href="/start" />
+      <h1 className="text-2xl font-bold text-zinc-900 dark:text-zinc-100 mt-4">
+        Your Library
+      </h1>
+      <p className="text-zinc-600 dark:text-zinc-400 mt-1">
+        Books you&apos;ve saved while exploring
+      </p>
+
+      <div className="inline-flex mt-4 mb-6 p-1 rounded-lg bg-zinc-100 dark:bg-zinc-800">
+        {filters.map(([value, label]) => {
+          const count =
+            value === "all"
+              ? entries.length
+              : entries.filter((e) => e.status === value).length;
+          return (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setFilter(value)}
+              className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                filter === value
+                  ? "bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 shadow-sm"
+                  : "text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100"
+              }`}
+            >
+              {label} ({count})
+            </button>
+          );
+        })}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-10">
+          <div className="w-8 h-8 border-2 border-zinc-300 dark:border-zinc-600 border-t-zinc-900 dark:border-t-zinc-100 rounded-full animate-spin" />
+        </div>
+      ) : error ? (
+        <p className="text-red-600 dark:text-red-400">{error}</p>
+      ) : visible.length === 0 ? (
+        <p className="text-zinc-500 dark:text-zinc-400 italic">
+          {entries.length === 0
+            ? "Nothing here yet. Save books from a lesson's recommended reading or from Go Deeper book search."
+            : "No books with this status."}
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {visible.map((entry) => (
+            <li key={entry.id}>
+              <LibraryEntryCard
+                entry={entry}
+                onUpdate={updateEntry}
+                onRemove={removeEntry}
+              />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -3,18 +3,15 @@
 import { useState, useEffect, useCallback, Suspense } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { QuizQuestion } from "@/components/onboarding";
-import type { QuizAnswer, FamiliarityLevel } from "@/types";
+import type {
+  QuizAnswer,
+  FamiliarityLevel,
+  QuizQuestionResponse,
+  QuizResponse,
+  QuizResultResponse,
+} from "@/types";
 
-interface QuizOption {
-  text: string;
-  level: FamiliarityLevel | "incorrect";
-}
-
-interface QuizQuestionData {
-  question: string;
-  options: QuizOption[];
-  explanation: string;
-}
+type QuizOption = QuizQuestionResponse["options"][number];
 
 function QuizContent() {
   const router = useRouter();
@@ -22,15 +19,17 @@ function QuizContent() {
 
   const category = searchParams.get("category");
   const subtopic = searchParams.get("subtopic");
+  // Where the quiz was started from, and the result goes back to
+  const returnTo =
+    searchParams.get("returnTo") === "/profile" ? "/profile" : "/onboarding";
 
-  const [currentQuestion, setCurrentQuestion] = useState<QuizQuestionData | null>(null);
+  const [currentQuestion, setCurrentQuestion] = useState<QuizQuestionResponse | null>(null);
+  const [maxQuestions, setMaxQuestions] = useState(0);
   const [answers, setAnswers] = useState<QuizAnswer[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [result, setResult] = useState<{
-    familiarity: FamiliarityLevel;
-    reasoning: string;
-  } | null>(null);
+  const [result, setResult] = useState<QuizResultResponse | null>(null);
+  const [flaggedIds, setFlaggedIds] = useState<Set<string>>(new Set());
 
   const fetchQuestion = useCallback(async (priorAnswers: QuizAnswer[]) => {
     if (!category || !subtopic) return;
@@ -54,13 +53,14 @@ function QuizContent() {
         throw new Error(data.error || "Failed to get quiz question");
       }
 
-      const data = await response.json();
+      const data: QuizResponse = await response.json();
 
       if (data.complete) {
         setResult(data.result);
         setCurrentQuestion(null);
       } else {
         setCurrentQuestion(data.question);
+        setMaxQuestions(data.maxQuestions);
       }
     } catch (err) {
       console.error("Error fetching question:", err);
@@ -90,6 +90,8 @@ function QuizContent() {
       question: currentQuestion.question,
       answer: option.text,
       level: option.level,
+      difficulty: currentQuestion.difficulty,
+      questionId: currentQuestion.id,
     };
 
     const updatedAnswers = [...answers, newAnswer];
@@ -99,17 +101,36 @@ function QuizContent() {
     await fetchQuestion(updatedAnswers);
   };
 
+  const handleFlag = async (questionId: string) => {
+    try {
+      const response = await fetch("/api/onboarding/quiz/flag", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ questionId }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to flag question");
+      }
+
+      setFlaggedIds((prev) => new Set(prev).add(questionId));
+    } catch (err) {
+      console.error("Error flagging question:", err);
+    }
+  };
+
   const handleUseResult = () => {
     if (!result) return;
 
-    // Store the result and navigate back to onboarding
+    // Store the result and navigate back to onboarding (or the profile)
     // The result will be used to pre-fill the familiarity for this subtopic
     const params = new URLSearchParams({
       category: category!,
       subtopic: subtopic!,
       familiarity: result.familiarity,
     });
-    router.push(`/onboarding?quizResult=${params.toString()}`);
+    router.push(`${returnTo}?quizResult=${params.toString()}`);
   };
 
   const handleRetry = () => {
@@ -129,7 +150,7 @@ function QuizContent() {
             onboarding page.
           </p>
           <button
-            onClick={() => router.push("/onboarding")}
+            onClick={() => router.push(returnTo)}
             className="mt-4 px-4 py-2 bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 rounded-lg font-medium hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors"
           >
             Go to Onboarding
@@ -202,6 +223,9 @@ function QuizContent() {
             >
               {levelLabels[result.familiarity]}
             </span>
+            <p className="text-sm text-zinc-500 dark:text-zinc-400 mt-2">
+              {Math.round(result.confidence * 100)}% confidence
+            </p>
           </div>
 
           <p className="text-zinc-700 dark:text-zinc-300 text-center mb-6">
@@ -225,10 +249,10 @@ function QuizContent() {
         </div>
 
         <button
-          onClick={() => router.push("/onboarding")}
+          onClick={() => router.push(returnTo)}
           className="mt-4 text-sm text-zinc-500 dark:text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200"
         >
-          &larr; Back to onboarding
+          &larr; Back to {returnTo === "/profile" ? "profile" : "onboarding"}
         </button>
       </div>
     );
@@ -251,14 +275,22 @@ function QuizContent() {
           question={currentQuestion.question}
           options={currentQuestion.options}
           questionNumber={answers.length + 1}
-          totalQuestions={3}
+          maxQuestions={maxQuestions}
           onAnswer={handleAnswer}
+          onFlag={
+            currentQuestion.id
+              ? () => handleFlag(currentQuestion.id!)
+              : undefined
+          }
+          flagged={
+            currentQuestion.id !== null && flaggedIds.has(currentQuestion.id)
+          }
           loading={loading}
         />
       )}
 
       <button
-        onClick={() => router.push("/onboarding")}
+        onClick={() => router.push(returnTo)}
         className="mt-6 text-sm text-zinc-500 dark:text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200"
       >
         &larr; Skip quiz and pick manually
@@ -271,7 +303,8 @@ function QuizContent() {
  * Quiz Page
  *
  * Helps users determine their familiarity level with a subtopic
- * through a short adaptive quiz (3 questions).
+ * through a short adaptive quiz: questions are pitched by the answers so
+ * far, and the quiz ends as soon as the level is clear.
  */
 export default function QuizPage() {
   return (
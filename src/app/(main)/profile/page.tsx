@@ -0,0 +1,278 @@
+"use client";
+
+import { useState, useEffect, Suspense } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useFamiliarityProfile } from "@/hooks";
+import { BackButton } from "@/components/layout";
+import {
+  TextFamiliarityList,
+  CategoryAccordion,
+} from "@/components/onboarding";
+import { CANONICAL_TEXTS, CATEGORIES } from "@/lib/onboarding/data";
+import type {
+  FamiliarityHistoryEntry,
+  FamiliarityLevel,
+  FamiliaritySource,
+  FamiliaritySuggestion,
+} from "@/types";
+
+interface QuizResult {
+  category: string;
+  subtopic: string;
+  familiarity: FamiliarityLevel;
+}
+
+const SOURCE_LABELS: Record<FamiliaritySource, string> = {
+  onboarding: "Onboarding",
+  profile: "Profile",
+  lesson: "Lesson reading list",
+  suggestion: "Suggestion",
+};
+
+/** What changed, e.g. "Ethics: Virtue Ethics beginner → intermediate" */
+function describeChange(entry: FamiliarityHistoryEntry): string {
+  if (entry.text_name) {
+    return `Marked ${entry.text_name} ${entry.new_value}`;
+  }
+  const subject = `${entry.category}: ${entry.subtopic}`;
+  return entry.old_value
+    ? `${subject} ${entry.old_value} → ${entry.new_value}`
+    : `${subject} set to ${entry.new_value}`;
+}
+
+/** Why a level-up is suggested, e.g. "4 lessons and 1 dialogue" */
+function describeActivity(suggestion: FamiliaritySuggestion): string {
+  const parts = [
+    [suggestion.lessons, "lesson"],
+    [suggestion.dialogues, "dialogue"],
+  ] as const;
+  return parts
+    .filter(([count]) => count > 0)
+    .map(([count, noun]) => `${count} ${noun}${count === 1 ? "" : "s"}`)
+    .join(" and ");
+}
+
+function ProfileContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const {
+    texts,
+    categories,
+    history,
+    suggestions,
+    loading,
+    error,
+    save,
+    respondToSuggestion,
+  } = useFamiliarityProfile();
+
+  // A quiz result, when returning from "Help me decide"
+  const [quizResults] = useState<QuizResult[]>(() => {
+    const params = new URLSearchParams(searchParams.get("quizResult") ?? "");
+    const category = params.get("category");
+    const subtopic = params.get("subtopic");
+    const familiarity = params.get("familiarity") as FamiliarityLevel;
+    return category && subtopic && familiarity
+      ? [{ category, subtopic, familiarity }]
+      : [];
+  });
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [responding, setResponding] = useState<string | null>(null);
+
+  // Clear the quiz result param without triggering navigation
+  useEffect(() => {
+    if (quizResults.length > 0) {
+      window.history.replaceState({}, "", "/profile");
+    }
+  }, [quizResults]);
+
+  const handleSave = async (changes: Parameters<typeof save>[0]) => {
+    setSaving(true);
+    setMessage(null);
+    const saved = await save(changes);
+    setMessage(saved ? "Saved" : "Failed to save. Please try again.");
+    setSaving(false);
+  };
+
+  const handleSuggestion = async (
+    suggestion: FamiliaritySuggestion,
+    accept: boolean
+  ) => {
+    setResponding(`${suggestion.category}|${suggestion.subtopic}`);
+    await respondToSuggestion(suggestion, accept);
+    setResponding(null);
+  };
+
+  const handleQuizRequest = (category: string, subtopic: string) => {
+    const params = new URLSearchParams({
+      category,
+      subtopic,
+      returnTo: "/profile",
+    });
+    router.push(`/onboarding/quiz?${params.toString()}`);
+  };
+
+  if (loading) {
+    return (
+      <div className="max-w-2xl mx-auto py-8 px-4">
+        <div className="flex items-center justify-center py-20">
+          <div className="w-8 h-8 border-2 border-zinc-300 dark:border-zinc-600 border-t-zinc-900 dark:border-t-zinc-100 rounded-full animate-spin" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="max-w-2xl mx-auto py-8 px-4">
+        <p className="text-red-600 dark:text-red-400">{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto py-8 px-4">
+      <BackButton href="/start" />
+      <h1 className="text-2xl font-bold text-zinc-900 dark:text-zinc-100 mt-4">
+        Your Profile
+      </h1>
+      <p className="text-zinc-600 dark:text-zinc-400 mt-1 mb-6">
+        Revise what you&apos;ve read and how well you know each topic. Your
+        starting points follow from this.
+      </p>
+
+      {message && (
+        <div className="mb-6 p-3 rounded-xl border border-zinc-200 dark:border-zinc-700 text-sm text-zinc-700 dark:text-zinc-300">
+          {message}
+        </div>
+      )}
+
+      {/* Level-up suggestions */}
+      {suggestions.length > 0 && (
+        <section className="mb-8">
+          <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100 mb-3">
+            Ready to level up?
+          </h2>
+          <ul className="space-y-3">
+            {suggestions.map((suggestion) => {
+              const key = `${suggestion.category}|${suggestion.subtopic}`;
+              return (
+                <li
+                  key={key}
+                  className="p-4 rounded-xl border border-green-200 dark:border-green-800 bg-green-50 dark:bg-green-900/10"
+                >
+                  <p className="text-zinc-800 dark:text-zinc-200">
+                    You&apos;ve done {describeActivity(suggestion)} near{" "}
+                    <span className="font-medium">{suggestion.subtopic}</span>{" "}
+                    since you last rated it {suggestion.current}. Move up to{" "}
+                    {suggestion.suggested}?
+                  </p>
+                  <div className="flex gap-2 mt-3">
+                    <button
+                      type="button"
+                      onClick={() => handleSuggestion(suggestion, true)}
+                      disabled={responding === key}
+                      className="px-3 py-1.5 bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 rounded-lg text-sm font-medium hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors disabled:opacity-50"
+                    >
+                      Raise to {suggestion.suggested}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleSuggestion(suggestion, false)}
+                      disabled={responding === key}
+                      className="px-3 py-1.5 border border-zinc-300 dark:border-zinc-600 text-zinc-700 dark:text-zinc-300 rounded-lg text-sm hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors disabled:opacity-50"
+                    >
+                      Not yet
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      )}
+
+      {/* Texts read */}
+      <section className="mb-8 bg-white dark:bg-zinc-900 rounded-2xl border border-zinc-200 dark:border-zinc-800 p-6">
+        <h2 className="text-xl font-semibold text-zinc-900 dark:text-zinc-100 mb-4">
+          Texts you&apos;ve read
+        </h2>
+        <TextFamiliarityList
+          texts={CANONICAL_TEXTS}
+          initialRead={texts.filter((t) => t.has_read).map((t) => t.text_name)}
+          submitLabel={saving ? "Saving..." : "Save texts"}
+          onComplete={(selections) => handleSave({ texts: selections })}
+        />
+      </section>
+
+      {/* Topic familiarity */}
+      <section className="mb-8 bg-white dark:bg-zinc-900 rounded-2xl border border-zinc-200 dark:border-zinc-800 p-6">
+        <h2 className="text-xl font-semibold text-zinc-900 dark:text-zinc-100 mb-4">
+          Topic familiarity
+        </h2>
+        <CategoryAccordion
+          categories={CATEGORIES}
+          savedValues={categories}
+          initialValues={quizResults}
+          submitLabel={saving ? "Saving..." : "Save levels"}
+          onComplete={(levels) => handleSave({ categories: levels })}
+          onQuizRequest={handleQuizRequest}
+        />
+      </section>
+
+      {/* History */}
+      <section>
+        <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100 mb-3">
+          History
+        </h2>
+        {history.length === 0 ? (
+          <p className="text-zinc-500 dark:text-zinc-400 italic">
+            No changes yet.
+          </p>
+        ) : (
+          <ul className="divide-y divide-zinc-200 dark:divide-zinc-800">
+            {history.map((entry) => (
+              <li
+                key={entry.id}
+                className="py-2 flex items-baseline justify-between gap-4 text-sm"
+              >
+                <span className="text-zinc-800 dark:text-zinc-200">
+                  {describeChange(entry)}
+                </span>
+                <span className="flex-shrink-0 text-xs text-zinc-500 dark:text-zinc-400">
+                  {SOURCE_LABELS[entry.source]} &middot;{" "}
+                  {new Date(entry.changed_at).toLocaleDateString()}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
+
+/**
+ * Profile Page
+ *
+ * Revise the familiarity profile set during onboarding: texts read and
+ * subtopic levels (with the same lists and quiz as onboarding), act on
+ * suggestions to raise a level after enough lessons and dialogues near a
+ * subtopic, and see the history of changes.
+ */
+export default function ProfilePage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="max-w-2xl mx-auto py-8 px-4">
+          <div className="flex items-center justify-center py-20">
+            <div className="w-8 h-8 border-2 border-zinc-300 dark:border-zinc-600 border-t-zinc-900 dark:border-t-zinc-100 rounded-full animate-spin" />
+          </div>
+        </div>
+      }
+    >
+      <ProfileContent />
+    </Suspense>
+  );
+}
@@ -2,19 +2,17 @@
 
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
+import slugify from "slugify";
 import { useAuth } from "@/hooks";
-
-interface RecommendedConcept {
-  slug: string;
-  name: string;
-  description: string;
-}
+import { CATEGORIES } from "@/lib/onboarding/data";
+import type { RecommendedConcept, RecommendationsResponse } from "@/types";
 
 /**
  * Start Page
  *
  * Choose a starting point for exploration:
- * 1. Recommended starting points (based on familiarity profile)
+ * 1. Recommended starting points (concepts near what the user knows),
+ *    optionally in one category
  * 2. Search existing concepts
  * 3. Enter a new concept to explore
  */
@@ -26,15 +24,19 @@ export default function StartPage() {
     RecommendedConcept[]
   >([]);
   const [recommendedLevel, setRecommendedLevel] = useState<string>("beginner");
+  const [category, setCategory] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
   // Fetch personalized recommendations
   useEffect(() => {
     async function fetchRecommendations() {
       try {
-        const response = await fetch("/api/onboarding/recommendations");
+        const query = category
+          ? `?${new URLSearchParams({ category }).toString()}`
+          : "";
+        const response = await fetch(`/api/onboarding/recommendations${query}`);
         if (response.ok) {
-          const data = await response.json();
+          const data: RecommendationsResponse = await response.json();
           setRecommendedConcepts(data.concepts);
           setRecommendedLevel(data.level);
         }
@@ -46,13 +48,22 @@ export default function StartPage() {
     }
 
     fetchRecommendations();
-  }, []);
+  }, [category]);
+
+  const selectCategory = (next: string | null) => {
+    if (next === category) return;
+    setLoading(true);
+    setCategory(next);
+  };
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    if (searchQuery.trim()) {
-      // Navigate to explore page with the search query as slug
-      router.push(`/explore/${searchQuery.toLowerCase().replace(/\s+/g, "-")}`);
+    const name = searchQuery.trim();
+    const slug = slugify(name, { lower: true, strict: true });
+    if (slug) {
+      // Navigate to explore page; the lesson is generated there if it's new
+      const params = new URLSearchParams({ name });
+      router.push(`/explore/${slug}?${params.toString()}`);
     }
   };
 
@@ -60,6 +71,12 @@ export default function StartPage() {
     router.push(`/explore/${slug}`);
   };
 
+  const handleSurpriseMe = () => {
+    if (recommendedConcepts.length === 0) return;
+    const index = Math.floor(Math.random() * recommendedConcepts.length);
+    handleConceptClick(recommendedConcepts[index].slug);
+  };
+
   const levelLabels: Record<string, string> = {
     beginner: "Great starting points",
     intermediate: "Intermediate topics for you",
@@ -118,6 +135,24 @@ export default function StartPage() {
           {loading ? "Loading recommendations..." : levelLabels[recommendedLevel] || "Recommended Starting Points"}
         </h2>
 
+        {/* Category filter */}
+        <div className="flex flex-wrap gap-2 mb-4">
+          {[null, ...CATEGORIES.map((c) => c.name)].map((name) => (
+            <button
+              key={name ?? "all"}
+              type="button"
+              onClick={() => selectCategory(name)}
+              className={`px-3 py-1 rounded-full text-sm transition-colors ${
+                category === name
+                  ? "bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900"
+                  : "bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100"
+              }`}
+            >
+              {name ?? "All"}
+            </button>
+          ))}
+        </div>
+
         {loading ? (
           <div className="grid sm:grid-cols-2 gap-4">
             {[1, 2, 3, 4].map((i) => (
@@ -130,6 +165,11 @@ export default function StartPage() {
               </div>
             ))}
           </div>
+        ) : recommendedConcepts.length === 0 ? (
+          <p className="text-sm text-zinc-500 dark:text-zinc-400">
+            No {category} lessons to recommend yet. Search for a concept to
+            start one.
+          </p>
         ) : (
           <div className="grid sm:grid-cols-2 gap-4">
             {recommendedConcepts.map((concept) => (
@@ -155,9 +195,14 @@ export default function StartPage() {
                     <polyline points="12 5 19 12 12 19" />
                   </svg>
                 </div>
-                <p className="text-sm text-zinc-600 dark:text-zinc-400 mt-1">
+                <p className="text-sm text-zinc-600 dark:text-zinc-400 mt-1 line-clamp-3">
                   {concept.description}
                 </p>
+                {concept.reason && (
+                  <p className="text-xs text-zinc-500 dark:text-zinc-500 mt-2">
+                    {concept.reason}
+                  </p>
+                )}
               </button>
             ))}
           </div>
@@ -176,7 +221,7 @@ export default function StartPage() {
       {/* Random exploration */}
       <div className="text-center">
         <button
-          onClick={() => handleConceptClick("random")}
+          onClick={handleSurpriseMe}
           className="inline-flex items-center gap-2 px-6 py-3 rounded-xl border border-zinc-300 dark:border-zinc-700 text-zinc-700 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
         >
           <svg
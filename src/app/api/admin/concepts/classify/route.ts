@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { isAdminEmail } from "@/lib/admin";
+import { getSupabaseServerClient } from "@/lib/supabase";
+import { classifyConcepts } from "@/lib/categories";
+import type { ClassifyConceptsResponse } from "@/types";
+
+/**
+ * Most concepts classified per call, to stay within the request time;
+ * call again while lessons remain
+ */
+const CLASSIFY_LIMIT = 20;
+
+/**
+ * POST /api/admin/concepts/classify
+ *
+ * Tags lessons that have no onboarding category/subtopic tags yet (those
+ * written before classification, or whose classification failed), oldest
+ * first.
+ */
+export async function POST() {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    if (!isAdminEmail(user.email)) {
+      return NextResponse.json(
+        { error: "Forbidden" },
+        { status: 403 }
+      );
+    }
+
+    const response: ClassifyConceptsResponse =
+      await classifyConcepts(CLASSIFY_LIMIT);
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error classifying concepts:", error);
+    return NextResponse.json(
+      { error: "Failed to classify concepts" },
+      { status: 500 }
+    );
+  }
+}
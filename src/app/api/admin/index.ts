@@ -0,0 +1,13 @@
+/**
+ * Admin API Routes
+ *
+ * Endpoints:
+ * - GET /api/admin/quiz-questions - Get bank quiz questions users have flagged
+ * - PATCH /api/admin/quiz-questions/[id] - Retire or restore a bank question
+ * - POST /api/admin/quiz-questions/fill - Pre-generate bank questions
+ * - POST /api/admin/concepts/classify - Tag untagged lessons with categories
+ *
+ * All routes require an authenticated user listed in ADMIN_EMAILS.
+ */
+
+export {};
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminEmail } from "@/lib/admin";
+import {
+  getSupabaseServerClient,
+  getBankQuizQuestion,
+  setQuizQuestionStatus,
+} from "@/lib/supabase";
+import type {
+  AdminQuizQuestionResponse,
+  QuizBankQuestion,
+  UpdateQuizQuestionRequest,
+} from "@/types";
+
+const QUESTION_STATUSES: QuizBankQuestion["status"][] = ["active", "retired"];
+
+/**
+ * PATCH /api/admin/quiz-questions/[id]
+ *
+ * Retires a bank quiz question, so quizzes no longer ask it, or returns a
+ * retired one to use.
+ *
+ * Request body:
+ * - status: "active" | "retired"
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    if (!isAdminEmail(user.email)) {
+      return NextResponse.json(
+        { error: "Forbidden" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+
+    // Parse request body
+    const body: UpdateQuizQuestionRequest = await request.json();
+
+    if (!QUESTION_STATUSES.includes(body.status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${QUESTION_STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (!(await getBankQuizQuestion(id))) {
+      return NextResponse.json(
+        { error: "Quiz question not found" },
+        { status: 404 }
+      );
+    }
+
+    const question = await setQuizQuestionStatus(id, body.status);
+    if (!question) {
+      return NextResponse.json(
+        { error: "Failed to update quiz question" },
+        { status: 500 }
+      );
+    }
+
+    const response: AdminQuizQuestionResponse = { question };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error updating quiz question:", error);
+    return NextResponse.json(
+      { error: "Failed to update quiz question" },
+      { status: 500 }
+    );
+  }
+}
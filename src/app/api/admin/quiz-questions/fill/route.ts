@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminEmail } from "@/lib/admin";
+import { getSupabaseServerClient } from "@/lib/supabase";
+import { isCategorySubtopic } from "@/lib/onboarding/data";
+import { fillQuizBank } from "@/lib/quiz/bank";
+import type { FillQuizBankRequest, FillQuizBankResponse } from "@/types";
+
+/**
+ * Most questions generated per call, to stay within the request time;
+ * call again while slots remain
+ */
+const FILL_LIMIT = 5;
+
+/**
+ * POST /api/admin/quiz-questions/fill
+ *
+ * Pre-generates quiz questions into the bank for subtopic/difficulty slots
+ * that have too few active questions, so quizzes rarely need to generate
+ * questions live.
+ *
+ * Request body:
+ * - category?: string - With subtopic, fill only that subtopic
+ * - subtopic?: string
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    if (!isAdminEmail(user.email)) {
+      return NextResponse.json(
+        { error: "Forbidden" },
+        { status: 403 }
+      );
+    }
+
+    // Parse request body
+    const body: FillQuizBankRequest = await request.json();
+
+    const only =
+      body.category !== undefined || body.subtopic !== undefined
+        ? { category: body.category ?? "", subtopic: body.subtopic ?? "" }
+        : undefined;
+
+    if (only && !isCategorySubtopic(only.category, only.subtopic)) {
+      return NextResponse.json(
+        { error: "Unknown category or subtopic" },
+        { status: 400 }
+      );
+    }
+
+    const response: FillQuizBankResponse = await fillQuizBank(FILL_LIMIT, only);
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error filling quiz bank:", error);
+    return NextResponse.json(
+      { error: "Failed to fill quiz bank" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { isAdminEmail } from "@/lib/admin";
+import {
+  getSupabaseServerClient,
+  getFlaggedQuizQuestions,
+} from "@/lib/supabase";
+import type { AdminQuizQuestionsResponse } from "@/types";
+
+/** Most flagged questions returned for review */
+const FLAGGED_LIMIT = 100;
+
+/**
+ * GET /api/admin/quiz-questions
+ *
+ * Returns the active bank quiz questions users have flagged as unfair,
+ * most flagged first, with their usage and answer statistics.
+ */
+export async function GET() {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    if (!isAdminEmail(user.email)) {
+      return NextResponse.json(
+        { error: "Forbidden" },
+        { status: 403 }
+      );
+    }
+
+    const questions = await getFlaggedQuizQuestions(FLAGGED_LIMIT);
+
+    const response: AdminQuizQuestionsResponse = { questions };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching flagged quiz questions:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch quiz questions" },
+      { status: 500 }
+    );
+  }
+}
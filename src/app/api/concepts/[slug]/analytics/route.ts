@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getBranchStats } from "@/lib/supabase";
+import type { BranchStatsResponse } from "@/types";
+
+/**
+ * GET /api/concepts/[id]/analytics
+ *
+ * Returns branch choice statistics for a concept
+ * (e.g. "64% of users chose Constructive").
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug: conceptId } = await params;
+
+    const stats = await getBranchStats(conceptId);
+
+    const response: BranchStatsResponse = { stats };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching branch stats:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch branch stats" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import {
+  getSupabaseServerClient,
+  getConceptById,
+  checkRateLimit,
+} from "@/lib/supabase";
+import { enqueueJob, getLiveJob, jobKey, runJob } from "@/lib/jobs";
+import type { GenerationJobResponse } from "@/types";
+
+/**
+ * POST /api/concepts/[id]/branches/generate
+ *
+ * Queues a branch job that generates four new branches (constructive,
+ * critique, author, wildcard) from a concept via Gemini, and starts it
+ * once the response is sent. Responds 202 with the job to poll
+ * (GET /api/jobs/[id]); the new edges are then listed by
+ * GET /api/concepts/[id]/branches.
+ *
+ * Targets that already exist in the graph (by slug, alias, or a close
+ * embedding match) are linked directly; genuinely new targets are created
+ * as stubs whose lessons are generated on first visit. Requires generation
+ * allowance, but only those lessons count against the user's hourly
+ * generation limit. A request while the concept's branch job is still
+ * live joins that job.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { slug: conceptId } = await params;
+
+    const concept = await getConceptById(conceptId);
+    if (!concept) {
+      return NextResponse.json(
+        { error: "Concept not found" },
+        { status: 404 }
+      );
+    }
+
+    const key = jobKey("branches", concept.id);
+    let job = await getLiveJob(key);
+
+    if (!job) {
+      // Enforce hourly generation limit
+      const rateLimit = await checkRateLimit(user.id);
+      if (!rateLimit.allowed) {
+        return NextResponse.json(
+          { error: "Generation limit reached", ...rateLimit },
+          { status: 429 }
+        );
+      }
+
+      const enqueued = await enqueueJob(
+        "branches",
+        key,
+        {},
+        concept.id,
+        user.id
+      );
+      if (!enqueued) {
+        return NextResponse.json(
+          { error: "Failed to queue branch generation" },
+          { status: 500 }
+        );
+      }
+      job = enqueued.job;
+    }
+
+    // A no-op if the job is already running elsewhere
+    const queued = job;
+    after(() => runJob(queued));
+
+    const response: GenerationJobResponse = { job };
+    return NextResponse.json(response, { status: 202 });
+  } catch (error) {
+    console.error("Error generating branches:", error);
+    return NextResponse.json(
+      { error: "Failed to generate branches" },
+      { status: 500 }
+    );
+  }
+}
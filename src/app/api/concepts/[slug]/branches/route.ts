@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getEdgesFromConcept } from "@/lib/supabase";
+import type { GenerateBranchesResponse } from "@/types";
+
+/**
+ * GET /api/concepts/[id]/branches
+ *
+ * Returns the existing outgoing branches (edges with target concepts)
+ * from a concept.
+ *
+ * Next.js requires a single dynamic segment name per level, so the
+ * concept ID arrives in the `slug` param.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug: conceptId } = await params;
+
+    const edges = await getEdgesFromConcept(conceptId);
+
+    const response: GenerateBranchesResponse = { edges };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching branches:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch branches" },
+      { status: 500 }
+    );
+  }
+}
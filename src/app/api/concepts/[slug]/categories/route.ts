@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getSupabaseServerClient,
+  getConceptCategories,
+  getCategoryFamiliarity,
+} from "@/lib/supabase";
+import { lensLevel } from "@/lib/lenses";
+import type { ConceptCategoriesResponse } from "@/types";
+
+/**
+ * GET /api/concepts/[id]/categories
+ *
+ * Returns the onboarding category/subtopics a concept's lesson belongs to,
+ * best fit first, with a signed-in user's familiarity level in each they
+ * have rated, and the level their lens on the lesson defaults to.
+ *
+ * Next.js requires a single dynamic segment name per level, so the
+ * concept ID arrives in the `slug` param.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const supabase = await getSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    const { slug: conceptId } = await params;
+
+    const [tags, familiarities] = await Promise.all([
+      getConceptCategories([conceptId]),
+      user ? getCategoryFamiliarity(user.id) : [],
+    ]);
+    const levels = new Map(
+      familiarities.map((f) => [`${f.category}|${f.subtopic}`, f.familiarity])
+    );
+
+    const response: ConceptCategoriesResponse = {
+      categories: tags.map((tag) => ({
+        category: tag.category,
+        subtopic: tag.subtopic,
+        familiarity: levels.get(`${tag.category}|${tag.subtopic}`) ?? null,
+      })),
+      lensLevel: lensLevel(tags, familiarities),
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching concept categories:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch categories" },
+      { status: 500 }
+    );
+  }
+}
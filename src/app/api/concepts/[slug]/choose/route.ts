@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient, incrementBranchStat } from "@/lib/supabase";
+import type { BranchType, ChooseBranchRequest } from "@/types";
+
+const BRANCH_TYPES: BranchType[] = [
+  "constructive",
+  "critique",
+  "author",
+  "wildcard",
+];
+
+/**
+ * POST /api/concepts/[id]/choose
+ *
+ * Records which branch type a user chose from a concept (analytics).
+ *
+ * Request body:
+ * - branchType: BranchType - The branch type that was chosen
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { slug: conceptId } = await params;
+
+    // Parse request body
+    const body: ChooseBranchRequest = await request.json();
+
+    if (!BRANCH_TYPES.includes(body.branchType)) {
+      return NextResponse.json(
+        { error: `Invalid branch type: ${body.branchType}` },
+        { status: 400 }
+      );
+    }
+
+    await incrementBranchStat(conceptId, body.branchType);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error recording branch choice:", error);
+    return NextResponse.json(
+      { error: "Failed to record branch choice" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getSupabaseServerClient,
+  checkRateLimit,
+  getConceptById,
+  getConceptCategories,
+  getConceptLens,
+  getCategoryFamiliarity,
+  logGeneration,
+} from "@/lib/supabase";
+import { enqueueJob, getLiveJob, jobKey, runJob } from "@/lib/jobs";
+import { lensLevel } from "@/lib/lenses";
+import type {
+  FamiliarityLevel,
+  GenerationJobResponse,
+  LessonLensRequest,
+  LessonLensResponse,
+} from "@/types";
+
+const FAMILIARITY_LEVELS: FamiliarityLevel[] = ["beginner", "intermediate", "advanced"];
+
+/**
+ * POST /api/concepts/[id]/lens
+ *
+ * Returns the concept's lesson rewritten for one familiarity level,
+ * generating and storing it the first time it is read at that level.
+ * Generation runs as a lens job, charged to the user who queues it; if the
+ * job is running elsewhere or awaiting a retry, responds 202 with the job
+ * to poll, then POST again once it succeeds.
+ *
+ * Request body:
+ * - level?: FamiliarityLevel - Default: the user's level in the concept's
+ *   category (400 if they have rated nothing in it)
+ *
+ * Next.js requires a single dynamic segment name per level, so the
+ * concept ID arrives in the `slug` param.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { slug: conceptId } = await params;
+
+    // Parse request body (optional, so an empty body means no fields)
+    const body: LessonLensRequest | null = await request
+      .json()
+      .catch(() => ({}));
+
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: "Request body must be a JSON object" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      body.level !== undefined &&
+      !FAMILIARITY_LEVELS.includes(body.level)
+    ) {
+      return NextResponse.json(
+        { error: "level must be beginner, intermediate or advanced" },
+        { status: 400 }
+      );
+    }
+
+    const concept = await getConceptById(conceptId);
+    if (!concept) {
+      return NextResponse.json(
+        { error: "Concept not found" },
+        { status: 404 }
+      );
+    }
+
+    if (concept.status !== "ready") {
+      return NextResponse.json(
+        { error: "Concept has no lesson yet" },
+        { status: 400 }
+      );
+    }
+
+    let level = body.level ?? null;
+    if (!level) {
+      const [tags, familiarities] = await Promise.all([
+        getConceptCategories([concept.id]),
+        getCategoryFamiliarity(user.id),
+      ]);
+      level = lensLevel(tags, familiarities);
+    }
+
+    if (!level) {
+      return NextResponse.json(
+        { error: "No familiarity level for this concept's category" },
+        { status: 400 }
+      );
+    }
+
+    const cached = await getConceptLens(concept.id, level);
+    if (cached) {
+      const response: LessonLensResponse = { lens: cached };
+      return NextResponse.json(response);
+    }
+
+    const key = jobKey("lens", `${concept.id}:${level}`);
+    let job = await getLiveJob(key);
+
+    if (!job) {
+      // Enforce hourly generation limit
+      const rateLimit = await checkRateLimit(user.id);
+      if (!rateLimit.allowed) {
+        return NextResponse.json(
+          { error: "Generation limit reached", ...rateLimit },
+          { status: 429 }
+        );
+      }
+
+      const enqueued = await enqueueJob(
+        "lens",
+        key,
+        { level },
+        concept.id,
+        user.id
+      );
+      if (!enqueued) {
+        return NextResponse.json(
+          { error: "Failed to queue lesson lens" },
+          { status: 500 }
+        );
+      }
+      if (enqueued.queued) await logGeneration(user.id);
+      job = enqueued.job;
+    }
+
+    const ran = await runJob(job);
+    if (ran?.status !== "succeeded" && ran?.status !== "failed") {
+      // Running elsewhere or awaiting a retry
+      const response: GenerationJobResponse = { job: ran ?? job };
+      return NextResponse.json(response, { status: 202 });
+    }
+
+    const lens =
+      ran.status === "succeeded"
+        ? await getConceptLens(concept.id, level)
+        : null;
+    if (!lens) {
+      return NextResponse.json(
+        { error: "Failed to generate lesson lens" },
+        { status: 500 }
+      );
+    }
+
+    const response: LessonLensResponse = { lens };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching lesson lens:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch lesson lens" },
+      { status: 500 }
+    );
+  }
+}
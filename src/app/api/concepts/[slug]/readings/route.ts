@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getSupabaseServerClient,
+  getConceptReadings,
+  getTextFamiliarity,
+} from "@/lib/supabase";
+import { withReadStatus } from "@/lib/readings";
+import type { ConceptReadingsResponse } from "@/types";
+
+/**
+ * GET /api/concepts/[id]/readings
+ *
+ * Returns the readings a concept's lesson recommends, in the lesson's
+ * order, with each text's relevance to the concept and its Open Library
+ * identifiers where known. Readings that are onboarding canonical texts
+ * carry the text's name and, for a signed-in user, whether they have
+ * read it.
+ *
+ * Next.js requires a single dynamic segment name per level, so the
+ * concept ID arrives in the `slug` param.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const supabase = await getSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    const { slug: conceptId } = await params;
+
+    const [readings, texts] = await Promise.all([
+      getConceptReadings(conceptId),
+      user ? getTextFamiliarity(user.id) : [],
+    ]);
+    const readTextNames = new Set(
+      texts.filter((t) => t.has_read).map((t) => t.text_name)
+    );
+
+    const response: ConceptReadingsResponse = {
+      readings: withReadStatus(readings, readTextNames),
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching concept readings:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch readings" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getConceptBySlug, getEdgesFromConcept } from "@/lib/supabase";
+import type { ConceptWithEdges } from "@/types";
+
+/**
+ * GET /api/concepts/[slug]
+ *
+ * Returns a concept by its URL slug along with its outgoing edges.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+
+    const concept = await getConceptBySlug(slug);
+    if (!concept) {
+      return NextResponse.json(
+        { error: "Concept not found" },
+        { status: 404 }
+      );
+    }
+
+    const edges = await getEdgesFromConcept(concept.id);
+
+    const response: ConceptWithEdges = { concept, edges };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching concept:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch concept" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient } from "@/lib/supabase";
+import { toConceptSlug } from "@/lib/concepts";
+import { resolveConcept } from "@/lib/jobs";
+import type {
+  GenerateConceptRequest,
+  GenerateConceptResponse,
+  GenerationJobResponse,
+} from "@/types";
+
+/**
+ * POST /api/concepts/generate
+ *
+ * Generates a new concept (lesson + embedding) via Gemini and OpenAI,
+ * or writes the lesson for an existing stub, as a lesson job run within
+ * this request. Returns the existing concept instead if its lesson is
+ * already written. If the lesson job is running elsewhere or awaiting a
+ * retry, responds 202 with the job to poll (GET /api/jobs/[id]).
+ * Only queueing a lesson counts against the user's hourly generation limit.
+ *
+ * Request body:
+ * - name: string - The concept name to generate
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Parse request body
+    const body: GenerateConceptRequest = await request.json();
+
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name) {
+      return NextResponse.json(
+        { error: "name is required" },
+        { status: 400 }
+      );
+    }
+
+    if (name.length > 200) {
+      return NextResponse.json(
+        { error: "name must be 200 characters or fewer" },
+        { status: 400 }
+      );
+    }
+
+    const result = await resolveConcept(toConceptSlug(name), name, user.id);
+
+    if (result.status === "rate_limited") {
+      return NextResponse.json(
+        {
+          error: "Generation limit reached",
+          allowed: false,
+          remaining: result.remaining,
+          resetAt: result.resetAt,
+        },
+        { status: 429 }
+      );
+    }
+
+    if (result.status === "queued") {
+      const response: GenerationJobResponse = { job: result.job };
+      return NextResponse.json(response, { status: 202 });
+    }
+
+    if (result.status === "failed") {
+      return NextResponse.json(
+        { error: "Failed to generate concept" },
+        { status: 500 }
+      );
+    }
+
+    const response: GenerateConceptResponse = {
+      concept: result.concept,
+      generated: result.status === "generated",
+    };
+    return NextResponse.json(response, {
+      status: response.generated ? 201 : 200,
+    });
+  } catch (error) {
+    console.error("Error generating concept:", error);
+    return NextResponse.json(
+      { error: "Failed to generate concept" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient } from "@/lib/supabase";
+import { toConceptSlug } from "@/lib/concepts";
+import { resolveConcept } from "@/lib/jobs";
+import { eventStreamResponse } from "@/lib/sse";
+import type { ConceptStreamEvent, GenerateConceptRequest } from "@/types";
+
+/**
+ * POST /api/concepts/generate/stream
+ *
+ * Streaming variant of POST /api/concepts/generate. Responds with
+ * text/event-stream events:
+ * - progress: GenerationJobResponse - The lesson job started or moved to a
+ *   new stage
+ * - delta: { text } - Lesson prose as it is written
+ * - done: GenerateConceptResponse - The persisted concept
+ * - queued: GenerationJobResponse - The lesson job is running elsewhere or
+ *   awaiting a retry; poll GET /api/jobs/[id]
+ * - rate_limited: RateLimitResponse - The user's generation limit is reached
+ * - error: { error, status } - Generation failed
+ *
+ * The lesson is only persisted once it has finished streaming. A concept
+ * whose lesson is already written is sent as a single done event. If the
+ * stream is cut off, the job survives it: poll the job from the last
+ * progress event.
+ *
+ * Request body:
+ * - name: string - The concept name to generate
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Parse request body
+    const body: GenerateConceptRequest = await request.json();
+
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name) {
+      return NextResponse.json(
+        { error: "name is required" },
+        { status: 400 }
+      );
+    }
+
+    if (name.length > 200) {
+      return NextResponse.json(
+        { error: "name must be 200 characters or fewer" },
+        { status: 400 }
+      );
+    }
+
+    return eventStreamResponse<ConceptStreamEvent>(async (send) => {
+      const result = await resolveConcept(toConceptSlug(name), name, user.id, {
+        onText: (text) => send({ event: "delta", data: { text } }),
+        onProgress: (job) => send({ event: "progress", data: { job } }),
+      });
+
+      if (result.status === "rate_limited") {
+        send({
+          event: "rate_limited",
+          data: {
+            allowed: false,
+            remaining: result.remaining,
+            resetAt: result.resetAt,
+          },
+        });
+      } else if (result.status === "queued") {
+        send({ event: "queued", data: { job: result.job } });
+      } else if (result.status === "failed") {
+        send({
+          event: "error",
+          data: { error: "Failed to generate concept", status: 500 },
+        });
+      } else {
+        send({
+          event: "done",
+          data: {
+            concept: result.concept,
+            generated: result.status === "generated",
+          },
+        });
+      }
+    });
+  } catch (error) {
+    console.error("Error streaming concept generation:", error);
+    return NextResponse.json(
+      { error: "Failed to generate concept" },
+      { status: 500 }
+    );
+  }
+}
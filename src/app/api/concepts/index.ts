@@ -3,15 +3,22 @@
  *
  * Endpoints:
  * - GET /api/concepts/[slug] - Get concept by URL slug
- * - GET /api/concepts/search - Search existing concepts
+ * - GET /api/concepts/search - Search existing concepts (optionally in one category)
  * - POST /api/concepts/nearest - Find nearest neighbor concepts
- * - POST /api/concepts/generate - Generate new concept via Gemini
+ * - POST /api/concepts/generate - Generate new concept via Gemini (202 + job if queued)
+ * - POST /api/concepts/generate/stream - Generate, streaming the lesson (SSE)
  * - GET /api/concepts/[id]/branches - Get existing branches from concept
- * - POST /api/concepts/[id]/branches/generate - Generate new branches
+ * - POST /api/concepts/[id]/branches/generate - Queue a branch generation job (202 + job)
+ * - GET /api/concepts/[id]/readings - Get the lesson's recommended readings
+ * - GET /api/concepts/[id]/categories - Get the lesson's subtopics, with the user's level in each
+ * - POST /api/concepts/[id]/lens - Get the lesson rewritten for a familiarity level (generated on first use)
  * - GET /api/concepts/[id]/analytics - Get branch choice statistics
  * - POST /api/concepts/[id]/choose - Record user's branch choice
  *
  * Core concept management and graph navigation.
+ *
+ * Next.js allows only one dynamic segment name per level, so the [id]
+ * routes live under the [slug] directory and read the ID from that param.
  */
 
 export {};
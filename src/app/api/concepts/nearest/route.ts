@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getConceptById, findNearestConcepts } from "@/lib/supabase";
+import type { NearestConceptsRequest, NearestConceptsResponse } from "@/types";
+
+const MAX_NEAREST_LIMIT = 10;
+
+/**
+ * POST /api/concepts/nearest
+ *
+ * Finds the existing concepts closest to the given concept by embedding
+ * similarity, excluding the concept itself.
+ *
+ * Request body:
+ * - conceptId: string - The concept to find neighbors for
+ * - limit?: number - Maximum results (default 3, max 10)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: NearestConceptsRequest = await request.json();
+
+    if (!body.conceptId || typeof body.conceptId !== "string") {
+      return NextResponse.json(
+        { error: "conceptId is required" },
+        { status: 400 }
+      );
+    }
+
+    const limit =
+      Number.isInteger(body.limit) && body.limit! > 0
+        ? Math.min(body.limit!, MAX_NEAREST_LIMIT)
+        : 3;
+
+    const concept = await getConceptById(body.conceptId);
+    if (!concept) {
+      return NextResponse.json(
+        { error: "Concept not found" },
+        { status: 404 }
+      );
+    }
+
+    // Concepts without an embedding have no neighbors to offer
+    const concepts = concept.embedding
+      ? await findNearestConcepts(concept.embedding, limit, [concept.id])
+      : [];
+
+    const response: NearestConceptsResponse = { concepts };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error finding nearest concepts:", error);
+    return NextResponse.json(
+      { error: "Failed to find nearest concepts" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { searchConcepts } from "@/lib/supabase";
+import { isCategory } from "@/lib/onboarding/data";
+import type { SearchConceptsResponse } from "@/types";
+
+const MAX_SEARCH_LIMIT = 25;
+
+/**
+ * GET /api/concepts/search
+ *
+ * Searches existing concepts by name.
+ *
+ * Query params:
+ * - q: string - The search text
+ * - limit?: number - Maximum results (default 10, max 25)
+ * - category?: string - Only concepts tagged with this onboarding category
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const query = request.nextUrl.searchParams.get("q")?.trim() ?? "";
+
+    if (!query) {
+      return NextResponse.json(
+        { error: "q is required" },
+        { status: 400 }
+      );
+    }
+
+    const category = request.nextUrl.searchParams.get("category") || undefined;
+    if (category && !isCategory(category)) {
+      return NextResponse.json(
+        { error: "Unknown category" },
+        { status: 400 }
+      );
+    }
+
+    const limitParam = Number(request.nextUrl.searchParams.get("limit"));
+    const limit =
+      Number.isInteger(limitParam) && limitParam > 0
+        ? Math.min(limitParam, MAX_SEARCH_LIMIT)
+        : 10;
+
+    const concepts = await searchConcepts(query, limit, category);
+
+    const response: SearchConceptsResponse = { concepts };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error searching concepts:", error);
+    return NextResponse.json(
+      { error: "Failed to search concepts" },
+      { status: 500 }
+    );
+  }
+}
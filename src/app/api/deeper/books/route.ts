@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient, getConceptById } from "@/lib/supabase";
+import { generateBookKeywords } from "@/lib/gemini";
+import { searchBooks } from "@/lib/exa";
+import type { BookSearchRequest, BookSearchResponse } from "@/types";
+
+/**
+ * POST /api/deeper/books
+ *
+ * Finds books about a concept via Exa.ai, with purchase links.
+ * Search keywords are generated from the stored concept name.
+ *
+ * Request body:
+ * - conceptId: string - The concept to find books for
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Parse request body
+    const body: BookSearchRequest = await request.json();
+
+    if (!body.conceptId || typeof body.conceptId !== "string") {
+      return NextResponse.json(
+        { error: "conceptId is required" },
+        { status: 400 }
+      );
+    }
+
+    const concept = await getConceptById(body.conceptId);
+    if (!concept) {
+      return NextResponse.json(
+        { error: "Concept not found" },
+        { status: 404 }
+      );
+    }
+
+    const keywords = await generateBookKeywords(concept.name);
+    const books = await searchBooks(keywords || concept.name);
+
+    const response: BookSearchResponse = { books };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error searching books:", error);
+    return NextResponse.json(
+      { error: "Failed to search books" },
+      { status: 500 }
+    );
+  }
+}
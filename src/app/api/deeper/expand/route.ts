@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient, getConceptById } from "@/lib/supabase";
+import { generateExpandedDescription } from "@/lib/gemini";
+import type {
+  ExpandDescriptionRequest,
+  ExpandDescriptionResponse,
+} from "@/types";
+
+/**
+ * POST /api/deeper/expand
+ *
+ * Generates an expanded, in-depth treatment of a concept.
+ *
+ * Request body:
+ * - conceptId: string - The concept to expand
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Parse request body
+    const body: ExpandDescriptionRequest = await request.json();
+
+    if (!body.conceptId || typeof body.conceptId !== "string") {
+      return NextResponse.json(
+        { error: "conceptId is required" },
+        { status: 400 }
+      );
+    }
+
+    const concept = await getConceptById(body.conceptId);
+    if (!concept) {
+      return NextResponse.json(
+        { error: "Concept not found" },
+        { status: 404 }
+      );
+    }
+
+    const result = await generateExpandedDescription(concept);
+    if (!result.ok) {
+      console.error(
+        `Expanded description failed (${result.reason}):`,
+        result.message
+      );
+      return NextResponse.json(
+        { error: "Failed to generate expanded description" },
+        { status: 500 }
+      );
+    }
+
+    const response: ExpandDescriptionResponse = {
+      expandedDescription: result.data.expanded_description,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error expanding description:", error);
+    return NextResponse.json(
+      { error: "Failed to expand description" },
+      { status: 500 }
+    );
+  }
+}
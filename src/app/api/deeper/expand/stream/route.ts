@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient, getConceptById } from "@/lib/supabase";
+import { streamExpandedDescription } from "@/lib/gemini";
+import { eventStreamResponse } from "@/lib/sse";
+import type { ExpandDescriptionRequest, ExpandStreamEvent } from "@/types";
+
+/**
+ * POST /api/deeper/expand/stream
+ *
+ * Streaming variant of POST /api/deeper/expand. Responds with
+ * text/event-stream events:
+ * - delta: { text } - Expanded prose as it is written
+ * - done: ExpandDescriptionResponse - The complete, validated text
+ * - error: { error, status } - Generation failed
+ *
+ * Request body:
+ * - conceptId: string - The concept to expand
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Parse request body
+    const body: ExpandDescriptionRequest = await request.json();
+
+    if (!body.conceptId || typeof body.conceptId !== "string") {
+      return NextResponse.json(
+        { error: "conceptId is required" },
+        { status: 400 }
+      );
+    }
+
+    const concept = await getConceptById(body.conceptId);
+    if (!concept) {
+      return NextResponse.json(
+        { error: "Concept not found" },
+        { status: 404 }
+      );
+    }
+
+    return eventStreamResponse<ExpandStreamEvent>(async (send) => {
+      const result = await streamExpandedDescription(concept, (text) =>
+        send({ event: "delta", data: { text } })
+      );
+
+      if (!result.ok) {
+        console.error(
+          `Expanded description failed (${result.reason}):`,
+          result.message
+        );
+        send({
+          event: "error",
+          data: { error: "Failed to generate expanded description", status: 500 },
+        });
+        return;
+      }
+
+      send({
+        event: "done",
+        data: { expandedDescription: result.data.expanded_description },
+      });
+    });
+  } catch (error) {
+    console.error("Error streaming expanded description:", error);
+    return NextResponse.json(
+      { error: "Failed to expand description" },
+      { status: 500 }
+    );
+  }
+}
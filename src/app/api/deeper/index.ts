@@ -4,7 +4,9 @@
  * Endpoints:
  * - POST /api/deeper/socratic - Start/continue Socratic dialogue
  * - POST /api/deeper/socratic/respond - User responds to Socratic question
+ * - POST /api/deeper/socratic/respond/stream - Stream the reply (SSE)
  * - POST /api/deeper/expand - Get expanded concept description
+ * - POST /api/deeper/expand/stream - Stream the expanded description (SSE)
  * - POST /api/deeper/videos - Find relevant YouTube videos
  * - POST /api/deeper/books - Find relevant books via Exa.ai
  *
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getSupabaseServerClient,
+  getConceptById,
+  recordDialogueCompletion,
+} from "@/lib/supabase";
+import { generateSocraticResponse } from "@/lib/gemini";
+import { validateRespondRequest, toRespondResponse } from "@/lib/socratic";
+import type {
+  SocraticRespondRequest,
+  SocraticRespondResponse,
+} from "@/types";
+
+/**
+ * POST /api/deeper/socratic/respond
+ *
+ * Continues a Socratic dialogue: responds to the learner's answer and
+ * asks a follow-up question, or concludes with a summary. A concluded
+ * dialogue is recorded as completed for the user.
+ *
+ * Request body:
+ * - conceptId: string - The concept being discussed
+ * - history: SocraticMessage[] - The dialogue so far
+ * - answer: string - The learner's latest answer
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Parse request body
+    const body: SocraticRespondRequest = await request.json();
+
+    // Validate request
+    const validation = validateRespondRequest(body);
+    if ("error" in validation) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+    const { conceptId, history, answer } = validation.request;
+
+    const concept = await getConceptById(conceptId);
+    if (!concept) {
+      return NextResponse.json(
+        { error: "Concept not found" },
+        { status: 404 }
+      );
+    }
+
+    const result = await generateSocraticResponse(concept, history, answer);
+    if (!result.ok) {
+      console.error(
+        `Socratic response failed (${result.reason}):`,
+        result.message
+      );
+      return NextResponse.json(
+        { error: "Failed to generate Socratic response" },
+        { status: 500 }
+      );
+    }
+
+    // Completed dialogues count towards level-up suggestions
+    if (result.data.is_complete) {
+      await recordDialogueCompletion(user.id, concept.id);
+    }
+
+    const response: SocraticRespondResponse = toRespondResponse(result.data);
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error continuing Socratic dialogue:", error);
+    return NextResponse.json(
+      { error: "Failed to continue Socratic dialogue" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getSupabaseServerClient,
+  getConceptById,
+  recordDialogueCompletion,
+} from "@/lib/supabase";
+import { streamSocraticResponse } from "@/lib/gemini";
+import { validateRespondRequest, toRespondResponse } from "@/lib/socratic";
+import { eventStreamResponse } from "@/lib/sse";
+import type { SocraticRespondRequest, SocraticStreamEvent } from "@/types";
+
+/**
+ * POST /api/deeper/socratic/respond/stream
+ *
+ * Streaming variant of POST /api/deeper/socratic/respond. Responds with
+ * text/event-stream events:
+ * - delta: { text } - The reply to the learner's answer as it is written
+ * - done: SocraticRespondResponse - The complete turn, including the
+ *   follow-up question or closing summary
+ * - error: { error, status } - Generation failed
+ *
+ * Request body:
+ * - conceptId: string - The concept being discussed
+ * - history: SocraticMessage[] - The dialogue so far
+ * - answer: string - The learner's latest answer
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Parse request body
+    const body: SocraticRespondRequest = await request.json();
+
+    // Validate request
+    const validation = validateRespondRequest(body);
+    if ("error" in validation) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+    const { conceptId, history, answer } = validation.request;
+
+    const concept = await getConceptById(conceptId);
+    if (!concept) {
+      return NextResponse.json(
+        { error: "Concept not found" },
+        { status: 404 }
+      );
+    }
+
+    return eventStreamResponse<SocraticStreamEvent>(async (send) => {
+      const result = await streamSocraticResponse(
+        concept,
+        history,
+        answer,
+        (text) => send({ event: "delta", data: { text } })
+      );
+
+      if (!result.ok) {
+        console.error(
+          `Socratic response failed (${result.reason}):`,
+          result.message
+        );
+        send({
+          event: "error",
+          data: { error: "Failed to generate Socratic response", status: 500 },
+        });
+        return;
+      }
+
+      // Completed dialogues count towards level-up suggestions
+      if (result.data.is_complete) {
+        await recordDialogueCompletion(user.id, concept.id);
+      }
+
+      send({ event: "done", data: toRespondResponse(result.data) });
+    });
+  } catch (error) {
+    console.error("Error streaming Socratic dialogue:", error);
+    return NextResponse.json(
+      { error: "Failed to continue Socratic dialogue" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient, getConceptById } from "@/lib/supabase";
+import { generateSocraticQuestion } from "@/lib/gemini";
+import type { SocraticStartRequest, SocraticStartResponse } from "@/types";
+
+/**
+ * POST /api/deeper/socratic
+ *
+ * Starts a Socratic dialogue by generating an opening question.
+ *
+ * Request body:
+ * - conceptId: string - The concept to discuss
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Parse request body
+    const body: SocraticStartRequest = await request.json();
+
+    if (!body.conceptId || typeof body.conceptId !== "string") {
+      return NextResponse.json(
+        { error: "conceptId is required" },
+        { status: 400 }
+      );
+    }
+
+    const concept = await getConceptById(body.conceptId);
+    if (!concept) {
+      return NextResponse.json(
+        { error: "Concept not found" },
+        { status: 404 }
+      );
+    }
+
+    const result = await generateSocraticQuestion(concept);
+    if (!result.ok) {
+      console.error(
+        `Socratic question failed (${result.reason}):`,
+        result.message
+      );
+      return NextResponse.json(
+        { error: "Failed to generate Socratic question" },
+        { status: 500 }
+      );
+    }
+
+    const response: SocraticStartResponse = {
+      question: result.data.question,
+      context: result.data.context,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error starting Socratic dialogue:", error);
+    return NextResponse.json(
+      { error: "Failed to start Socratic dialogue" },
+      { status: 500 }
+    );
+  }
+}
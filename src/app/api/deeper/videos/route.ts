@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient, getConceptById } from "@/lib/supabase";
+import { generateVideoKeywords } from "@/lib/gemini";
+import { searchVideos } from "@/lib/youtube";
+import type { VideoSearchRequest, VideoSearchResponse } from "@/types";
+
+/**
+ * POST /api/deeper/videos
+ *
+ * Finds educational YouTube videos about a concept.
+ * Search keywords are generated from the stored concept name.
+ *
+ * Request body:
+ * - conceptId: string - The concept to find videos for
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Parse request body
+    const body: VideoSearchRequest = await request.json();
+
+    if (!body.conceptId || typeof body.conceptId !== "string") {
+      return NextResponse.json(
+        { error: "conceptId is required" },
+        { status: 400 }
+      );
+    }
+
+    const concept = await getConceptById(body.conceptId);
+    if (!concept) {
+      return NextResponse.json(
+        { error: "Concept not found" },
+        { status: 404 }
+      );
+    }
+
+    const keywords = await generateVideoKeywords(concept.name);
+    const videos = await searchVideos(keywords || concept.name);
+
+    const response: VideoSearchResponse = { videos };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error searching videos:", error);
+    return NextResponse.json(
+      { error: "Failed to search videos" },
+      { status: 500 }
+    );
+  }
+}
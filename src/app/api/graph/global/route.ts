@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getSupabaseServerClient,
+  getConceptNeighbourhood,
+  getTopConnectedGraph,
+  getVisitedConceptIds,
+  isUuid,
+} from "@/lib/supabase";
+import { isCategory } from "@/lib/onboarding/data";
+import type { GlobalGraphResponse, TopConnectedCursor } from "@/types";
+
+const MAX_HOPS = 3;
+const DEFAULT_HOPS = 2;
+const MAX_NODES = 200;
+const DEFAULT_NODES = 100;
+
+/** Parse a positive integer query param, clamped to max */
+function parseLimit(value: string | null, fallback: number, max: number) {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0
+    ? Math.min(parsed, max)
+    : fallback;
+}
+
+/** Encode a ranking cursor as "<degree>:<id>" for the after param */
+function encodeCursor(cursor: TopConnectedCursor): string {
+  return `${cursor.degree}:${cursor.id}`;
+}
+
+/** Decode an after param, or null if it is malformed */
+function decodeCursor(value: string): TopConnectedCursor | null {
+  const [degree, id] = value.split(":");
+  const parsed = Number(degree);
+  return Number.isInteger(parsed) && parsed >= 0 && isUuid(id)
+    ? { degree: parsed, id }
+    : null;
+}
+
+/**
+ * GET /api/graph/global
+ *
+ * Returns a bounded subgraph of the shared concept graph, with the
+ * user's visited concepts marked.
+ *
+ * Query params:
+ * - conceptId?: string - Centre concept; returns its k-hop neighbourhood
+ * - hops?: number - Neighbourhood radius (default 2, max 3)
+ * - limit?: number - Maximum nodes (default 100, max 200)
+ * - after?: string - Without conceptId, the nextCursor of the previous
+ *   page of most connected concepts
+ * - category?: string - Without conceptId, only concepts tagged with this
+ *   onboarding category (not allowed with conceptId)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const params = request.nextUrl.searchParams;
+    const conceptId = params.get("conceptId")?.trim() || null;
+    const limit = parseLimit(params.get("limit"), DEFAULT_NODES, MAX_NODES);
+
+    const afterParam = params.get("after");
+    const after = afterParam ? decodeCursor(afterParam) : null;
+    if (afterParam && !after) {
+      return NextResponse.json(
+        { error: "Invalid after cursor" },
+        { status: 400 }
+      );
+    }
+
+    const category = params.get("category") || undefined;
+    if (category && !isCategory(category)) {
+      return NextResponse.json(
+        { error: "Unknown category" },
+        { status: 400 }
+      );
+    }
+
+    if (category && conceptId) {
+      return NextResponse.json(
+        { error: "category cannot be combined with conceptId" },
+        { status: 400 }
+      );
+    }
+
+    const visitedIds = await getVisitedConceptIds(user.id);
+
+    if (conceptId) {
+      const hops = parseLimit(params.get("hops"), DEFAULT_HOPS, MAX_HOPS);
+      const graph = await getConceptNeighbourhood(
+        conceptId,
+        hops,
+        limit,
+        visitedIds
+      );
+
+      if (graph.nodes.length === 0) {
+        return NextResponse.json(
+          { error: "Concept not found" },
+          { status: 404 }
+        );
+      }
+
+      const response: GlobalGraphResponse = { ...graph, nextCursor: null };
+      return NextResponse.json(response);
+    }
+
+    const { graph, nextCursor } = await getTopConnectedGraph(
+      limit,
+      after,
+      visitedIds,
+      category
+    );
+
+    const response: GlobalGraphResponse = {
+      ...graph,
+      nextCursor: nextCursor ? encodeCursor(nextCursor) : null,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching global graph:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch global graph" },
+      { status: 500 }
+    );
+  }
+}
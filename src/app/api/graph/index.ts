@@ -0,0 +1,14 @@
+/**
+ * Graph API Routes
+ *
+ * Endpoints:
+ * - GET /api/graph/global - Bounded view of the shared concept graph (the atlas), optionally one category
+ * - GET /api/graph/map - Concepts positioned by 2D projection of their embeddings
+ * - POST /api/graph/projection - Recompute map positions (scheduled job, secret-guarded)
+ *
+ * The shared graph can grow without limit, so every view is bounded:
+ * either a k-hop neighbourhood around a concept or a page of the most
+ * connected concepts.
+ */
+
+export {};
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import {
+  getSupabaseServerClient,
+  getConceptMap,
+  getVisitedConceptIds,
+} from "@/lib/supabase";
+import type { GraphData } from "@/types";
+
+const MAX_MAP_NODES = 1000;
+
+/**
+ * GET /api/graph/map
+ *
+ * Returns concepts laid out by semantic position (2D projection of their
+ * embeddings), with edges among them and the user's visited concepts
+ * marked. Concepts created since the last projection run are omitted.
+ */
+export async function GET() {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const visitedIds = await getVisitedConceptIds(user.id);
+    const response: GraphData = await getConceptMap(
+      visitedIds,
+      MAX_MAP_NODES
+    );
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching concept map:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch concept map" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runProjectionJob } from "@/lib/projection";
+import type { ProjectionJobResponse } from "@/types";
+
+/**
+ * POST /api/graph/projection
+ *
+ * Recomputes the 2D semantic map positions of all concepts from their
+ * embeddings. Intended for a scheduled job; requires the
+ * PROJECTION_JOB_SECRET as a bearer token.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const secret = process.env.PROJECTION_JOB_SECRET;
+    if (!secret) {
+      console.error("PROJECTION_JOB_SECRET is not set");
+      return NextResponse.json(
+        { error: "Projection job is not configured" },
+        { status: 503 }
+      );
+    }
+
+    if (request.headers.get("authorization") !== `Bearer ${secret}`) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const projected = await runProjectionJob();
+    if (projected === null) {
+      return NextResponse.json(
+        { error: "Failed to save concept positions" },
+        { status: 500 }
+      );
+    }
+
+    const response: ProjectionJobResponse = { projected };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error running projection job:", error);
+    return NextResponse.json(
+      { error: "Failed to run projection job" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { getSupabaseServerClient, getGenerationJob } from "@/lib/supabase";
+import { isJobDue, runJob } from "@/lib/jobs";
+import type { GenerationJobResponse } from "@/types";
+
+/**
+ * GET /api/jobs/[id]
+ *
+ * Returns a generation job's status, stage and attempts, for polling
+ * until it succeeds or fails. A job that is due (awaiting a retry whose
+ * backoff has passed, or abandoned by a runner that died) is started once
+ * the response is sent, so polled jobs keep moving between runs of the
+ * worker route.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    const job = await getGenerationJob(id);
+    if (!job) {
+      return NextResponse.json(
+        { error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    if (isJobDue(job)) {
+      after(() => runJob(job));
+    }
+
+    const response: GenerationJobResponse = { job };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching generation job:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch job" },
+      { status: 500 }
+    );
+  }
+}
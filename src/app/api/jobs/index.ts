@@ -0,0 +1,13 @@
+/**
+ * Jobs API Routes
+ *
+ * Endpoints:
+ * - GET /api/jobs/[id] - Poll a generation job's status and stage
+ * - POST /api/jobs/run - Run due generation jobs (scheduled job, secret-guarded)
+ *
+ * Lesson, branch and embedding generations run as durable jobs (see
+ * lib/jobs), so a request timeout doesn't lose them. Routes that queue a
+ * job respond 202 with it when the result isn't ready yet.
+ */
+
+export {};
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runDueJobs } from "@/lib/jobs";
+import type { RunJobsResponse } from "@/types";
+
+/** Jobs attempted per run; each may take a minute or more of LLM calls */
+const JOBS_PER_RUN = 5;
+
+/**
+ * POST /api/jobs/run
+ *
+ * Runs due generation jobs: retries whose backoff has passed, jobs whose
+ * runner died, and jobs nobody is polling (e.g. embeddings). Intended for
+ * a scheduled job; requires the JOBS_WORKER_SECRET as a bearer token.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const secret = process.env.JOBS_WORKER_SECRET;
+    if (!secret) {
+      console.error("JOBS_WORKER_SECRET is not set");
+      return NextResponse.json(
+        { error: "Job worker is not configured" },
+        { status: 503 }
+      );
+    }
+
+    if (request.headers.get("authorization") !== `Bearer ${secret}`) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const processed = await runDueJobs(JOBS_PER_RUN);
+
+    const response: RunJobsResponse = { processed };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error running generation jobs:", error);
+    return NextResponse.json(
+      { error: "Failed to run generation jobs" },
+      { status: 500 }
+    );
+  }
+}
@@ -6,7 +6,8 @@
  * - GET /api/onboarding/categories - Get categories with subtopics
  * - POST /api/onboarding/familiarity - Save user's familiarity data
  * - POST /api/onboarding/quiz - Get next quiz question or final result
- * - GET /api/onboarding/recommendations - Get personalized starting points
+ * - POST /api/onboarding/quiz/flag - Flag a quiz question as unfair
+ * - GET /api/onboarding/recommendations - Get personalized starting points (optionally in one category)
  *
  * Handles user onboarding flow and familiarity assessment.
  */
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getSupabaseServerClient,
+  getBankQuizQuestion,
+  flagQuizQuestion,
+  isUuid,
+} from "@/lib/supabase";
+import type {
+  FlagQuizQuestionRequest,
+  FlagQuizQuestionResponse,
+} from "@/types";
+
+/** Longest reason accepted with a flag */
+const MAX_REASON_LENGTH = 500;
+
+/**
+ * POST /api/onboarding/quiz/flag
+ *
+ * Flags a bank quiz question as unfair (ambiguous, wrong, or misleveled)
+ * for admins to review. Each user's flag counts once per question.
+ *
+ * Request body:
+ * - questionId: string - The bank question's ID
+ * - reason?: string - What is wrong with it
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Parse request body
+    const body: FlagQuizQuestionRequest = await request.json();
+
+    if (!isUuid(body.questionId)) {
+      return NextResponse.json(
+        { error: "questionId must be a UUID" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      body.reason !== undefined &&
+      (typeof body.reason !== "string" || body.reason.length > MAX_REASON_LENGTH)
+    ) {
+      return NextResponse.json(
+        { error: `reason must be a string of at most ${MAX_REASON_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (!(await getBankQuizQuestion(body.questionId))) {
+      return NextResponse.json(
+        { error: "Quiz question not found" },
+        { status: 404 }
+      );
+    }
+
+    const flagged = await flagQuizQuestion(
+      body.questionId,
+      user.id,
+      body.reason?.trim() || ""
+    );
+    if (flagged === null) {
+      return NextResponse.json(
+        { error: "Failed to flag quiz question" },
+        { status: 500 }
+      );
+    }
+
+    const response: FlagQuizQuestionResponse = { flagged };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error flagging quiz question:", error);
+    return NextResponse.json(
+      { error: "Failed to flag quiz question" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,21 +1,61 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getSupabaseServerClient } from "@/lib/supabase";
-import { generateQuizQuestion, evaluateQuizResult } from "@/lib/gemini";
-import type { QuizQuestionRequest, QuizAnswer } from "@/types";
+import {
+  getSupabaseServerClient,
+  getBankQuizQuestion,
+  isUuid,
+  recordQuizAnswer,
+} from "@/lib/supabase";
+import { evaluateQuizAnswers, MAX_QUIZ_QUESTIONS } from "@/lib/quiz";
+import { isCategorySubtopic } from "@/lib/onboarding/data";
+import { nextQuizQuestion } from "@/lib/quiz/bank";
+import type {
+  FamiliarityLevel,
+  QuizQuestionRequest,
+  QuizAnswer,
+  QuizResponse,
+} from "@/types";
+
+const FAMILIARITY_LEVELS: FamiliarityLevel[] = ["beginner", "intermediate", "advanced"];
+
+/** Whether a value is a well-formed answer from an earlier question */
+function isQuizAnswer(value: unknown): value is QuizAnswer {
+  if (typeof value !== "object" || value === null) return false;
+  const answer = value as Record<string, unknown>;
+  return (
+    typeof answer.question === "string" &&
+    typeof answer.answer === "string" &&
+    (answer.level === "incorrect" ||
+      FAMILIARITY_LEVELS.includes(answer.level as FamiliarityLevel)) &&
+    (answer.difficulty === undefined ||
+      FAMILIARITY_LEVELS.includes(answer.difficulty as FamiliarityLevel)) &&
+    (answer.questionId === undefined ||
+      answer.questionId === null ||
+      isUuid(answer.questionId))
+  );
+}
 
 /**
  * POST /api/onboarding/quiz
  *
- * Handles the quiz flow for determining user familiarity with a subtopic.
+ * Handles the adaptive quiz flow for determining user familiarity with a
+ * subtopic. Each question is pitched at the difficulty most informative
+ * given the prior answers; the quiz ends once the level is clear (from the
+ * second answer on) or after MAX_QUIZ_QUESTIONS when answers conflict.
+ * Questions come from the question bank, falling back to live generation
+ * when the bank has none left to ask at that difficulty.
  *
  * Request body:
  * - category: string - The category being tested
  * - subtopic: string - The subtopic being tested
- * - priorAnswers?: QuizAnswer[] - Previous answers in this quiz session
+ * - priorAnswers?: QuizAnswer[] - Previous answers in this quiz session,
+ *   each with the difficulty and bank ID of its question. The last is the
+ *   newest answer and counts towards its question's answer statistics
+ *   (once per user, so resending it doesn't count it again), by the level
+ *   of the stored option it matches rather than the level sent.
  *
  * Returns either:
- * - A new question (if quiz continues)
- * - A final result with familiarity level (if quiz is complete)
+ * - A new question with its bank ID and difficulty (if quiz continues)
+ * - A final result with familiarity level and confidence (if quiz is complete)
  */
 export async function POST(request: NextRequest) {
   try {
@@ -52,25 +92,59 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const priorAnswers = body.priorAnswers || [];
+    if (!isCategorySubtopic(body.category, body.subtopic)) {
+      return NextResponse.json(
+        { error: "Unknown category or subtopic" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      body.priorAnswers !== undefined &&
+      (!Array.isArray(body.priorAnswers) ||
+        !body.priorAnswers.every(isQuizAnswer))
+    ) {
+      return NextResponse.json(
+        {
+          error:
+            "priorAnswers must be an array of answers with question, answer, level and an optional question UUID",
+        },
+        { status: 400 }
+      );
+    }
+
+    const priorAnswers: QuizAnswer[] = (body.priorAnswers || []).slice(
+      0,
+      MAX_QUIZ_QUESTIONS
+    );
 
-    // After 3 questions, evaluate and return result
-    if (priorAnswers.length >= 3) {
-      const result = evaluateQuizResult(priorAnswers);
+    // Count the newest answer towards its bank question's statistics, by
+    // the level of the stored option chosen (not one the client claims)
+    const latest = priorAnswers[priorAnswers.length - 1];
+    if (latest?.questionId) {
+      const answered = await getBankQuizQuestion(latest.questionId);
+      const option = answered?.options.find((o) => o.text === latest.answer);
+      if (option) {
+        await recordQuizAnswer(latest.questionId, user.id, option.level);
+      }
+    }
 
-      return NextResponse.json({
+    // Stop once the level is clear or the question cap is reached
+    const evaluation = evaluateQuizAnswers(priorAnswers);
+    if (evaluation.complete) {
+      const response: QuizResponse = {
         complete: true,
-        result: {
-          familiarity: result.familiarity,
-          reasoning: result.reasoning,
-        },
-      });
+        result: evaluation.result,
+      };
+      return NextResponse.json(response);
     }
 
-    // Generate next question
-    const question = await generateQuizQuestion(
+    // Next question from the bank, or generated (structure is validated
+    // by the generator)
+    const question = await nextQuizQuestion(
       body.category,
       body.subtopic,
+      evaluation.nextDifficulty,
       priorAnswers
     );
 
@@ -81,34 +155,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate question structure
-    const validLevels = ["beginner", "intermediate", "advanced", "incorrect"];
-    if (
-      !question.question ||
-      typeof question.question !== "string" ||
-      !Array.isArray(question.options) ||
-      question.options.length < 2 ||
-      !question.options.every(
-        (opt) =>
-          typeof opt.text === "string" &&
-          validLevels.includes(opt.level)
-      )
-    ) {
-      console.error("Invalid question structure from Gemini:", question);
-      return NextResponse.json(
-        { error: "Failed to generate valid quiz question" },
-        { status: 500 }
-      );
-    }
-
-    return NextResponse.json({
+    const response: QuizResponse = {
       complete: false,
-      question: {
-        question: question.question,
-        options: question.options,
-        explanation: question.explanation || "",
-      },
-    });
+      question,
+      confidence: evaluation.result.confidence,
+      maxQuestions: MAX_QUIZ_QUESTIONS,
+    };
+    return NextResponse.json(response);
   } catch (error) {
     console.error("Error in quiz:", error);
     return NextResponse.json(
@@ -1,15 +1,37 @@
-import { NextResponse } from "next/server";
-import { getSupabaseServerClient, getCategoryFamiliarity } from "@/lib/supabase";
-import { getRecommendedConcepts, STARTING_CONCEPTS } from "@/lib/onboarding/data";
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient } from "@/lib/supabase";
+import { STARTING_CONCEPTS, isCategory } from "@/lib/onboarding/data";
+import { recommendConcepts } from "@/lib/recommendations";
+import type { RecommendationsResponse } from "@/types";
 // Note: STARTING_CONCEPTS is used for fallback when user is unauthenticated
 
 /**
  * GET /api/onboarding/recommendations
  *
- * Returns personalized starting concept recommendations based on user's
- * familiarity profile. Falls back to beginner concepts if no profile exists.
+ * Returns personalized starting concept recommendations: unvisited concepts
+ * in the graph near the subtopics the user knows and the texts they have
+ * read, at their level in each (see lib/recommendations). Falls back to
+ * the static starting concepts for their level if nothing in the graph
+ * matches, and to beginner concepts if they aren't signed in.
+ *
+ * Query params:
+ * - category?: string - Only concepts in this onboarding category (no
+ *   static fallback, so the list may be empty)
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const category = request.nextUrl.searchParams.get("category") || undefined;
+  if (category && !isCategory(category)) {
+    return NextResponse.json(
+      { error: "Unknown category" },
+      { status: 400 }
+    );
+  }
+
+  const beginnerResponse: RecommendationsResponse = {
+    concepts: category ? [] : STARTING_CONCEPTS.beginner,
+    level: "beginner",
+  };
+
   try {
     const supabase = await getSupabaseServerClient();
 
@@ -21,28 +43,17 @@ export async function GET() {
 
     if (authError || !user) {
       // Return beginner concepts for unauthenticated users
-      return NextResponse.json({
-        concepts: STARTING_CONCEPTS.beginner,
-        level: "beginner",
-      });
+      return NextResponse.json(beginnerResponse);
     }
 
-    // Get user's category familiarities
-    const familiarities = await getCategoryFamiliarity(user.id);
-
-    // Get recommendations based on familiarity profile
-    const { level, concepts } = getRecommendedConcepts(familiarities);
-
-    return NextResponse.json({
-      concepts,
-      level,
-    });
+    const response: RecommendationsResponse = await recommendConcepts(
+      user.id,
+      category
+    );
+    return NextResponse.json(response);
   } catch (error) {
     console.error("Error getting recommendations:", error);
     // Return beginner concepts as fallback
-    return NextResponse.json({
-      concepts: STARTING_CONCEPTS.beginner,
-      level: "beginner",
-    });
+    return NextResponse.json(beginnerResponse);
   }
 }
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getSupabaseServerClient,
+  getConceptById,
+  getEdgeById,
+  incrementNodesExplored,
+  isUuid,
+  logTraversal,
+} from "@/lib/supabase";
+import type { ExploreNodeRequest, ExploreNodeResponse } from "@/types";
+
+/**
+ * POST /api/user/explore
+ *
+ * Records that the user visited a concept. Only the first visit to each
+ * concept counts towards nodes explored, so revisits and page refreshes
+ * leave the count (and graph unlock) unchanged. Every visit is also added
+ * to the user's traversal log, which backs GET /api/user/graph.
+ *
+ * Request body:
+ * - conceptId: string - The concept being visited
+ * - edgeId?: string - The edge followed to reach it, if any. Ignored
+ *   unless it is an edge into conceptId.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Parse request body
+    const body: ExploreNodeRequest = await request.json();
+
+    if (!isUuid(body.conceptId)) {
+      return NextResponse.json(
+        { error: "conceptId must be a UUID" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      body.edgeId !== undefined &&
+      body.edgeId !== null &&
+      !isUuid(body.edgeId)
+    ) {
+      return NextResponse.json(
+        { error: "edgeId must be a UUID" },
+        { status: 400 }
+      );
+    }
+
+    const concept = await getConceptById(body.conceptId);
+    if (!concept) {
+      return NextResponse.json(
+        { error: "Concept not found" },
+        { status: 404 }
+      );
+    }
+
+    // Only an edge into this concept can have been followed to reach it
+    const edge = body.edgeId ? await getEdgeById(body.edgeId) : null;
+    const edgeId = edge?.target_id === concept.id ? edge.id : null;
+
+    const [result] = await Promise.all([
+      incrementNodesExplored(user.id, concept.id),
+      logTraversal(user.id, concept.id, edgeId),
+    ]);
+    if (!result) {
+      return NextResponse.json(
+        { error: "Failed to record exploration" },
+        { status: 500 }
+      );
+    }
+
+    const response: ExploreNodeResponse = result;
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error recording exploration:", error);
+    return NextResponse.json(
+      { error: "Failed to record exploration" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { getSupabaseServerClient, getFamiliarityHistory } from "@/lib/supabase";
+import type { FamiliarityHistoryResponse } from "@/types";
+
+/** Most history entries returned */
+const HISTORY_LIMIT = 200;
+
+/**
+ * GET /api/user/familiarity/history
+ *
+ * Returns the changes to the authenticated user's familiarity profile,
+ * most recent first: subtopic levels set or changed and texts marked read
+ * or unread, with where each change came from (onboarding, the profile
+ * page, a lesson's reading list, or an accepted level-up suggestion).
+ */
+export async function GET() {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const history = await getFamiliarityHistory(user.id, HISTORY_LIMIT);
+
+    const response: FamiliarityHistoryResponse = { history };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching familiarity history:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch familiarity history" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getSupabaseServerClient,
+  getTextFamiliarity,
+  getCategoryFamiliarity,
+  saveTextFamiliarity,
+  saveCategoryFamiliarity,
+} from "@/lib/supabase";
+import {
+  CANONICAL_TEXTS,
+  canonicalTextName,
+  isCategorySubtopic,
+} from "@/lib/onboarding/data";
+import type {
+  FamiliarityLevel,
+  FamiliarityProfileResponse,
+  UpdateFamiliarityRequest,
+} from "@/types";
+
+const FAMILIARITY_LEVELS: FamiliarityLevel[] = ["beginner", "intermediate", "advanced"];
+
+/**
+ * GET /api/user/familiarity
+ *
+ * Returns the authenticated user's familiarity profile: which canonical
+ * texts they have read and their level in each subtopic.
+ */
+export async function GET() {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const [texts, categories] = await Promise.all([
+      getTextFamiliarity(user.id),
+      getCategoryFamiliarity(user.id),
+    ]);
+
+    const response: FamiliarityProfileResponse = { texts, categories };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching familiarity profile:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch familiarity profile" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/user/familiarity
+ *
+ * Revises the authenticated user's familiarity profile after onboarding.
+ * Changes are recorded in their familiarity history.
+ *
+ * Request body (either part may be left out):
+ * - texts?: { text_name, has_read }[] - Canonical texts read or unread
+ * - categories?: { category, subtopic, familiarity }[] - Subtopic levels
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Parse request body
+    const body: UpdateFamiliarityRequest = await request.json();
+
+    if (body.texts !== undefined) {
+      const textNames = new Set(CANONICAL_TEXTS.map(canonicalTextName));
+      const valid =
+        Array.isArray(body.texts) &&
+        body.texts.every(
+          (t) =>
+            t &&
+            textNames.has(t.text_name) &&
+            typeof t.has_read === "boolean"
+        );
+      if (!valid) {
+        return NextResponse.json(
+          { error: "texts must be canonical texts with a has_read boolean" },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (body.categories !== undefined) {
+      const valid =
+        Array.isArray(body.categories) &&
+        body.categories.every(
+          (c) =>
+            c &&
+            isCategorySubtopic(c.category, c.subtopic) &&
+            FAMILIARITY_LEVELS.includes(c.familiarity)
+        );
+      if (!valid) {
+        return NextResponse.json(
+          { error: "categories must be known subtopics with a familiarity level" },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (!body.texts?.length && !body.categories?.length) {
+      return NextResponse.json(
+        { error: "Nothing to update" },
+        { status: 400 }
+      );
+    }
+
+    const [textsSaved, categoriesSaved] = await Promise.all([
+      body.texts?.length
+        ? saveTextFamiliarity(user.id, body.texts, "profile")
+        : true,
+      body.categories?.length
+        ? saveCategoryFamiliarity(user.id, body.categories, "profile")
+        : true,
+    ]);
+    if (!textsSaved || !categoriesSaved) {
+      return NextResponse.json(
+        { error: "Failed to update familiarity profile" },
+        { status: 500 }
+      );
+    }
+
+    const [texts, categories] = await Promise.all([
+      getTextFamiliarity(user.id),
+      getCategoryFamiliarity(user.id),
+    ]);
+
+    const response: FamiliarityProfileResponse = { texts, categories };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error updating familiarity profile:", error);
+    return NextResponse.json(
+      { error: "Failed to update familiarity profile" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getSupabaseServerClient,
+  getCategoryFamiliarity,
+  saveCategoryFamiliarity,
+  dismissFamiliaritySuggestion,
+} from "@/lib/supabase";
+import { suggestLevelUps } from "@/lib/familiarity";
+import type {
+  FamiliaritySuggestionsResponse,
+  RespondToSuggestionRequest,
+} from "@/types";
+
+/**
+ * GET /api/user/familiarity/suggestions
+ *
+ * Returns suggestions to raise subtopic levels, from the lessons read and
+ * Socratic dialogues completed near each subtopic since its level last
+ * changed.
+ */
+export async function GET() {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const suggestions = await suggestLevelUps(user.id);
+
+    const response: FamiliaritySuggestionsResponse = { suggestions };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error suggesting level-ups:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch suggestions" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/user/familiarity/suggestions
+ *
+ * Accepts a level-up suggestion, raising the subtopic to the suggested
+ * level, or dismisses it so it isn't made again. Only a level currently
+ * suggested for the subtopic can be accepted.
+ *
+ * Request body:
+ * - category: string
+ * - subtopic: string
+ * - level: "intermediate" | "advanced" - The suggested level
+ * - accept: boolean
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Parse request body
+    const body: RespondToSuggestionRequest = await request.json();
+
+    if (body.level !== "intermediate" && body.level !== "advanced") {
+      return NextResponse.json(
+        { error: "level must be intermediate or advanced" },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.accept !== "boolean") {
+      return NextResponse.json(
+        { error: "accept must be a boolean" },
+        { status: 400 }
+      );
+    }
+
+    const current = (await getCategoryFamiliarity(user.id)).find(
+      (f) => f.category === body.category && f.subtopic === body.subtopic
+    );
+    if (!current) {
+      return NextResponse.json(
+        { error: "Subtopic not found in your profile" },
+        { status: 404 }
+      );
+    }
+
+    if (body.accept) {
+      const suggested = (await suggestLevelUps(user.id)).some(
+        (s) =>
+          s.category === body.category &&
+          s.subtopic === body.subtopic &&
+          s.suggested === body.level
+      );
+      if (!suggested) {
+        return NextResponse.json(
+          { error: "That level is not suggested for this subtopic" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const saved = body.accept
+      ? await saveCategoryFamiliarity(
+          user.id,
+          [
+            {
+              category: body.category,
+              subtopic: body.subtopic,
+              familiarity: body.level,
+            },
+          ],
+          "suggestion"
+        )
+      : await dismissFamiliaritySuggestion(
+          user.id,
+          body.category,
+          body.subtopic,
+          body.level
+        );
+    if (!saved) {
+      return NextResponse.json(
+        { error: "Failed to respond to suggestion" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error responding to suggestion:", error);
+    return NextResponse.json(
+      { error: "Failed to respond to suggestion" },
+      { status: 500 }
+    );
+  }
+}
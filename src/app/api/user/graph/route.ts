@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { getSupabaseServerClient, getUserGraph } from "@/lib/supabase";
+import type { GraphData } from "@/types";
+
+/**
+ * GET /api/user/graph
+ *
+ * Returns the authenticated user's exploration graph, rebuilt from their
+ * traversal log: visited concepts, their outgoing edges, and the edge
+ * targets (marked unvisited until the user goes there).
+ */
+export async function GET() {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const response: GraphData = await getUserGraph(user.id);
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching user graph:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch graph" },
+      { status: 500 }
+    );
+  }
+}
@@ -5,8 +5,24 @@
  * - GET /api/user/profile - Get user profile and stats
  * - POST /api/user/explore - Record node exploration, check graph unlock
  * - GET /api/user/rate-limit - Check generation rate limit status
+ * - GET /api/user/graph - Get the user's exploration graph from their traversal log
+ * - PUT /api/user/texts - Mark a canonical text read or unread
+ * - GET /api/user/familiarity - Get the user's texts read and subtopic levels
+ * - PUT /api/user/familiarity - Revise texts read and/or subtopic levels
+ * - GET /api/user/familiarity/history - List changes to the familiarity profile
+ * - GET /api/user/familiarity/suggestions - Suggest subtopic level-ups from activity
+ * - POST /api/user/familiarity/suggestions - Accept or dismiss a level-up suggestion
+ * - GET /api/user/library - List the user's saved books
+ * - POST /api/user/library - Save a book, recording where it was discovered
+ * - PATCH /api/user/library/[id] - Update a saved book's status or notes
+ * - DELETE /api/user/library/[id] - Remove a saved book
  *
  * User profile management and progress tracking.
+ * Exploration is recorded once per user per concept (user_visits table),
+ * so nodes_explored counts unique concepts.
+ * Familiarity changes are recorded in user_familiarity_history by triggers.
+ * Library entries (user_library) link back to the concepts where each book
+ * was discovered (user_library_concepts).
  */
 
 export {};
@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getSupabaseServerClient,
+  getLibraryEntry,
+  updateLibraryEntry,
+  deleteLibraryEntry,
+} from "@/lib/supabase";
+import type {
+  LibraryEntryResponse,
+  LibraryStatus,
+  UpdateLibraryEntryRequest,
+} from "@/types";
+
+const LIBRARY_STATUSES: LibraryStatus[] = ["want_to_read", "reading", "finished"];
+
+/** Longest note accepted for a library entry */
+const MAX_NOTES_LENGTH = 10000;
+
+/**
+ * PATCH /api/user/library/[id]
+ *
+ * Updates the reading status and/or notes of one of the authenticated
+ * user's library entries.
+ *
+ * Request body:
+ * - status?: "want_to_read" | "reading" | "finished"
+ * - notes?: string
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    // Parse request body
+    const body: UpdateLibraryEntryRequest = await request.json();
+
+    if (body.status !== undefined && !LIBRARY_STATUSES.includes(body.status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${LIBRARY_STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (
+      body.notes !== undefined &&
+      (typeof body.notes !== "string" || body.notes.length > MAX_NOTES_LENGTH)
+    ) {
+      return NextResponse.json(
+        { error: `notes must be a string of at most ${MAX_NOTES_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (body.status === undefined && body.notes === undefined) {
+      return NextResponse.json(
+        { error: "Nothing to update" },
+        { status: 400 }
+      );
+    }
+
+    if (!(await getLibraryEntry(user.id, id))) {
+      return NextResponse.json(
+        { error: "Library entry not found" },
+        { status: 404 }
+      );
+    }
+
+    const updated = await updateLibraryEntry(user.id, id, {
+      status: body.status,
+      notes: body.notes,
+    });
+    const entry = updated ? await getLibraryEntry(user.id, id) : null;
+    if (!entry) {
+      return NextResponse.json(
+        { error: "Failed to update library entry" },
+        { status: 500 }
+      );
+    }
+
+    const response: LibraryEntryResponse = { entry };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error updating library entry:", error);
+    return NextResponse.json(
+      { error: "Failed to update library entry" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/user/library/[id]
+ *
+ * Removes a book from the authenticated user's library.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    if (!(await getLibraryEntry(user.id, id))) {
+      return NextResponse.json(
+        { error: "Library entry not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!(await deleteLibraryEntry(user.id, id))) {
+      return NextResponse.json(
+        { error: "Failed to remove library entry" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error removing library entry:", error);
+    return NextResponse.json(
+      { error: "Failed to remove library entry" },
+      { status: 500 }
+    );
+  }
+}
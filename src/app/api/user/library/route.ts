@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getSupabaseServerClient,
+  getLibrary,
+  getLibraryEntry,
+  addLibraryEntry,
+  linkLibraryConcept,
+} from "@/lib/supabase";
+import { readingKey } from "@/lib/readings";
+import type {
+  AddLibraryEntryRequest,
+  LibraryEntryResponse,
+  LibraryResponse,
+} from "@/types";
+
+/** Longest title or author accepted for a library entry */
+const MAX_FIELD_LENGTH = 500;
+
+/** Whether a value is an http(s) URL, safe to render as a link or image */
+function isWebUrl(value: unknown): value is string {
+  if (typeof value !== "string") return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * GET /api/user/library
+ *
+ * Returns the authenticated user's library, most recently updated first,
+ * with the concepts where each book was discovered.
+ */
+export async function GET() {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const response: LibraryResponse = { entries: await getLibrary(user.id) };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching library:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch library" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/user/library
+ *
+ * Saves a book to the authenticated user's library (as "want to read"),
+ * from a lesson's reading list or from Go Deeper book search. Saving a book
+ * that is already there (same normalised title and author surname) keeps
+ * the existing entry and records the new concept it was discovered at.
+ *
+ * Request body:
+ * - title: string
+ * - author: string
+ * - url?: string - Where the book was found
+ * - imageUrl?: string
+ * - readingId?: string - The shared reading, if saved from a lesson
+ * - conceptId?: string - The concept where the book was discovered
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Parse request body
+    const body: AddLibraryEntryRequest = await request.json();
+
+    const title = typeof body.title === "string" ? body.title.trim() : "";
+    const author = typeof body.author === "string" ? body.author.trim() : "";
+    if (!title || title.length > MAX_FIELD_LENGTH) {
+      return NextResponse.json(
+        { error: "title is required" },
+        { status: 400 }
+      );
+    }
+    if (author.length > MAX_FIELD_LENGTH) {
+      return NextResponse.json(
+        { error: "author is too long" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      (body.url !== undefined && !isWebUrl(body.url)) ||
+      (body.imageUrl !== undefined && !isWebUrl(body.imageUrl))
+    ) {
+      return NextResponse.json(
+        { error: "url and imageUrl must be http(s) URLs" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      (body.readingId !== undefined && typeof body.readingId !== "string") ||
+      (body.conceptId !== undefined && typeof body.conceptId !== "string")
+    ) {
+      return NextResponse.json(
+        { error: "readingId and conceptId must be strings" },
+        { status: 400 }
+      );
+    }
+
+    const entryId = await addLibraryEntry(user.id, {
+      title,
+      author,
+      bookKey: readingKey(title, author),
+      readingId: body.readingId ?? null,
+      url: body.url ?? null,
+      imageUrl: body.imageUrl ?? null,
+    });
+    if (!entryId) {
+      return NextResponse.json(
+        { error: "Failed to save book" },
+        { status: 500 }
+      );
+    }
+
+    if (body.conceptId) {
+      await linkLibraryConcept(entryId, body.conceptId);
+    }
+
+    const entry = await getLibraryEntry(user.id, entryId);
+    if (!entry) {
+      return NextResponse.json(
+        { error: "Failed to save book" },
+        { status: 500 }
+      );
+    }
+
+    const response: LibraryEntryResponse = { entry };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error saving library entry:", error);
+    return NextResponse.json(
+      { error: "Failed to save book" },
+      { status: 500 }
+    );
+  }
+}
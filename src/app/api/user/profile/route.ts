@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { getSupabaseServerClient, getUserProfile } from "@/lib/supabase";
+import type { UserProfileResponse } from "@/types";
+
+/**
+ * GET /api/user/profile
+ *
+ * Returns the authenticated user's profile and exploration stats
+ * (nodes explored, graph unlock, onboarding status).
+ */
+export async function GET() {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const profile = await getUserProfile(user.id);
+    if (!profile) {
+      return NextResponse.json(
+        { error: "Profile not found" },
+        { status: 404 }
+      );
+    }
+
+    const response: UserProfileResponse = { profile };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching user profile:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch profile" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { getSupabaseServerClient, checkRateLimit } from "@/lib/supabase";
+import type { RateLimitResponse } from "@/types";
+
+/**
+ * GET /api/user/rate-limit
+ *
+ * Returns the authenticated user's generation rate limit status:
+ * whether they can generate, how many generations remain this hour,
+ * and when the limit resets (if exhausted).
+ */
+export async function GET() {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const response: RateLimitResponse = await checkRateLimit(user.id);
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error checking rate limit:", error);
+    return NextResponse.json(
+      { error: "Failed to check rate limit" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient, saveTextFamiliarity } from "@/lib/supabase";
+import { CANONICAL_TEXTS, canonicalTextName } from "@/lib/onboarding/data";
+import type {
+  UpdateTextFamiliarityRequest,
+  UpdateTextFamiliarityResponse,
+} from "@/types";
+
+/**
+ * PUT /api/user/texts
+ *
+ * Marks one canonical text as read or unread for the authenticated user
+ * (e.g. from a lesson's reading list). user_text_familiarity, first filled
+ * in during onboarding, stays the source of truth.
+ *
+ * Request body:
+ * - text_name: string - The canonical text's name ("Title by Author")
+ * - has_read: boolean
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await getSupabaseServerClient();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Parse request body
+    const body: UpdateTextFamiliarityRequest = await request.json();
+
+    if (
+      typeof body.text_name !== "string" ||
+      !CANONICAL_TEXTS.some((text) => canonicalTextName(text) === body.text_name)
+    ) {
+      return NextResponse.json(
+        { error: "text_name must be a canonical text" },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.has_read !== "boolean") {
+      return NextResponse.json(
+        { error: "has_read must be a boolean" },
+        { status: 400 }
+      );
+    }
+
+    const saved = await saveTextFamiliarity(
+      user.id,
+      [{ text_name: body.text_name, has_read: body.has_read }],
+      "lesson"
+    );
+    if (!saved) {
+      return NextResponse.json(
+        { error: "Failed to update reading status" },
+        { status: 500 }
+      );
+    }
+
+    const response: UpdateTextFamiliarityResponse = {
+      text_name: body.text_name,
+      has_read: body.has_read,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error updating text familiarity:", error);
+    return NextResponse.json(
+      { error: "Failed to update reading status" },
+      { status: 500 }
+    );
+  }
+}
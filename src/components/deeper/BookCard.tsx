@@ -0,0 +1,42 @@
+"use client";
+
+import Image from "next/image";
+import type { BookCardProps } from "@/types";
+
+/**
+ * BookCard - Single book with cover, title, author, and purchase link.
+ */
+export function BookCard({ book }: BookCardProps) {
+  return (
+    <a
+      href={book.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="flex gap-4 p-4 rounded-xl border border-zinc-200 dark:border-zinc-800 hover:border-zinc-400 dark:hover:border-zinc-600 transition-colors"
+    >
+      {book.imageUrl && (
+        <Image
+          src={book.imageUrl}
+          alt=""
+          width={64}
+          height={96}
+          unoptimized
+          className="w-16 h-24 object-cover rounded flex-shrink-0"
+        />
+      )}
+      <div className="min-w-0">
+        <p className="font-medium text-zinc-900 dark:text-zinc-100">
+          {book.title}
+        </p>
+        <p className="text-sm text-zinc-500 dark:text-zinc-400">
+          {book.author}
+        </p>
+        {book.description && (
+          <p className="text-sm text-zinc-600 dark:text-zinc-400 mt-2 line-clamp-3">
+            {book.description}
+          </p>
+        )}
+      </div>
+    </a>
+  );
+}
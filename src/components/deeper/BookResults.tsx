@@ -0,0 +1,45 @@
+"use client";
+
+import type { Book } from "@/types";
+import { SaveToLibraryButton } from "@/components/library";
+import { BookCard } from "./BookCard";
+
+interface BookResultsProps {
+  /** The concept the books were found for */
+  conceptId: string;
+  books: Book[];
+}
+
+/**
+ * BookResults - List of discovered books, each of which can be saved to
+ * the user's library.
+ */
+export function BookResults({ conceptId, books }: BookResultsProps) {
+  if (books.length === 0) {
+    return (
+      <p className="text-zinc-500 dark:text-zinc-400 italic">
+        No books found for this concept.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {books.map((book) => (
+        <div key={book.url}>
+          <BookCard book={book} />
+          <SaveToLibraryButton
+            className="mt-1 ml-4"
+            book={{
+              title: book.title,
+              author: book.author,
+              url: book.url,
+              imageUrl: book.imageUrl,
+              conceptId,
+            }}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
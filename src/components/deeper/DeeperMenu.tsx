@@ -0,0 +1,68 @@
+"use client";
+
+export type DeeperOption = "socratic" | "videos" | "expand" | "books";
+
+interface DeeperMenuProps {
+  active: DeeperOption | null;
+  onSelect: (option: DeeperOption) => void;
+}
+
+const OPTIONS: { value: DeeperOption; label: string; description: string }[] = [
+  {
+    value: "socratic",
+    label: "Socratic Dialogue",
+    description: "An interactive Q&A exploration of the concept",
+  },
+  {
+    value: "videos",
+    label: "Find Videos",
+    description: "Lectures and explainers from around the web",
+  },
+  {
+    value: "expand",
+    label: "Expand Description",
+    description: "A more detailed, extended treatment",
+  },
+  {
+    value: "books",
+    label: "Find Books",
+    description: "Book recommendations with shopping links",
+  },
+];
+
+/**
+ * DeeperMenu - Menu of Go Deeper exploration options.
+ */
+export function DeeperMenu({ active, onSelect }: DeeperMenuProps) {
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+      {OPTIONS.map((option) => {
+        const isActive = active === option.value;
+
+        return (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => onSelect(option.value)}
+            className={`p-4 rounded-xl border text-left transition-colors ${
+              isActive
+                ? "bg-zinc-900 dark:bg-zinc-100 border-zinc-900 dark:border-zinc-100 text-white dark:text-zinc-900"
+                : "bg-white dark:bg-zinc-900 border-zinc-200 dark:border-zinc-800 text-zinc-900 dark:text-zinc-100 hover:border-zinc-400 dark:hover:border-zinc-600"
+            }`}
+          >
+            <p className="font-medium text-sm">{option.label}</p>
+            <p
+              className={`text-xs mt-1 ${
+                isActive
+                  ? "text-zinc-300 dark:text-zinc-600"
+                  : "text-zinc-500 dark:text-zinc-400"
+              }`}
+            >
+              {option.description}
+            </p>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+"use client";
+
+interface ExpandedDescriptionProps {
+  text: string;
+  /** Text is still being written; shows a cursor after the last paragraph */
+  streaming?: boolean;
+}
+
+/**
+ * ExpandedDescription - Extended, in-depth treatment of a concept.
+ */
+export function ExpandedDescription({
+  text,
+  streaming = false,
+}: ExpandedDescriptionProps) {
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter(Boolean);
+
+  return (
+    <div className="space-y-4 text-zinc-700 dark:text-zinc-300 leading-relaxed">
+      {paragraphs.map((paragraph, index) => (
+        <p key={index}>
+          {paragraph}
+          {streaming && index === paragraphs.length - 1 && (
+            <span className="inline-block w-2 h-4 ml-1 align-middle bg-zinc-400 dark:bg-zinc-500 animate-pulse" />
+          )}
+        </p>
+      ))}
+    </div>
+  );
+}
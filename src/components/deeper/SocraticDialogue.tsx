@@ -0,0 +1,113 @@
+"use client";
+
+import { useState } from "react";
+import type { SocraticDialogueProps } from "@/types";
+import { SocraticMessage } from "./SocraticMessage";
+
+/**
+ * SocraticDialogue - Chat-like interface for Q&A exploration of a concept.
+ */
+export function SocraticDialogue({
+  conceptName,
+  history,
+  onSend,
+  loading,
+  onStart,
+  isComplete = false,
+  draft,
+  error,
+}: SocraticDialogueProps) {
+  const [answer, setAnswer] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = answer.trim();
+    if (!trimmed || loading) return;
+    onSend(trimmed);
+    setAnswer("");
+  };
+
+  if (history.length === 0) {
+    return (
+      <div className="text-center py-6">
+        <p className="text-zinc-600 dark:text-zinc-400 mb-4">
+          Examine {conceptName} through a guided dialogue of questions and
+          answers.
+        </p>
+        {onStart && (
+          <button
+            type="button"
+            onClick={onStart}
+            disabled={loading}
+            className="px-6 py-2.5 bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 rounded-lg font-medium hover:bg-zinc-800 dark:hover:bg-zinc-200 disabled:opacity-60 transition-colors"
+          >
+            {loading ? "Preparing a question..." : "Begin dialogue"}
+          </button>
+        )}
+        {error && (
+          <p className="text-sm text-red-600 dark:text-red-400 mt-3">{error}</p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3">
+        {history.map((message, index) => (
+          <SocraticMessage key={index} message={message} />
+        ))}
+        {draft && (
+          <SocraticMessage message={{ role: "assistant", content: draft }} />
+        )}
+        {loading && !draft && (
+          <div className="flex justify-start">
+            <div className="px-4 py-3 rounded-2xl bg-zinc-100 dark:bg-zinc-800 text-zinc-500 dark:text-zinc-400 italic">
+              Socrates is thinking...
+            </div>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {isComplete ? (
+        <div className="text-center pt-2">
+          <p className="text-sm text-zinc-500 dark:text-zinc-400 mb-3">
+            This dialogue has reached its conclusion.
+          </p>
+          {onStart && (
+            <button
+              type="button"
+              onClick={onStart}
+              disabled={loading}
+              className="text-sm text-zinc-600 dark:text-zinc-300 hover:text-zinc-900 dark:hover:text-zinc-100 underline"
+            >
+              Start a new dialogue
+            </button>
+          )}
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <textarea
+            value={answer}
+            onChange={(e) => setAnswer(e.target.value)}
+            placeholder="Share your thinking..."
+            rows={2}
+            maxLength={2000}
+            className="flex-1 px-4 py-2 rounded-xl border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 placeholder-zinc-400 dark:placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-zinc-100 focus:border-transparent resize-none"
+          />
+          <button
+            type="submit"
+            disabled={loading || !answer.trim()}
+            className="px-5 rounded-xl bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 font-medium hover:bg-zinc-800 dark:hover:bg-zinc-200 disabled:opacity-50 transition-colors"
+          >
+            Reply
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
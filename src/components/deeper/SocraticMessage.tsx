@@ -0,0 +1,33 @@
+"use client";
+
+import type { SocraticMessage as SocraticMessageType } from "@/types";
+
+interface SocraticMessageProps {
+  message: SocraticMessageType;
+}
+
+/**
+ * SocraticMessage - Single message in a dialogue (question or answer).
+ */
+export function SocraticMessage({ message }: SocraticMessageProps) {
+  const isAssistant = message.role === "assistant";
+
+  return (
+    <div className={`flex ${isAssistant ? "justify-start" : "justify-end"}`}>
+      <div
+        className={`max-w-[85%] px-4 py-3 rounded-2xl whitespace-pre-line ${
+          isAssistant
+            ? "bg-zinc-100 dark:bg-zinc-800 text-zinc-800 dark:text-zinc-200 rounded-bl-sm"
+            : "bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 rounded-br-sm"
+        }`}
+      >
+        {isAssistant && (
+          <p className="text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400 mb-1">
+            Socrates
+          </p>
+        )}
+        {message.content}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import Image from "next/image";
+import type { VideoCardProps } from "@/types";
+
+/**
+ * VideoCard - Single video with thumbnail, title, and link.
+ */
+export function VideoCard({ video }: VideoCardProps) {
+  return (
+    <a
+      href={video.watchUrl}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="flex gap-4 p-3 rounded-xl border border-zinc-200 dark:border-zinc-800 hover:border-zinc-400 dark:hover:border-zinc-600 transition-colors"
+    >
+      {video.thumbnailUrl && (
+        <Image
+          src={video.thumbnailUrl}
+          alt=""
+          width={160}
+          height={90}
+          className="w-40 aspect-video object-cover rounded-lg flex-shrink-0"
+        />
+      )}
+      <div className="min-w-0">
+        <p className="font-medium text-zinc-900 dark:text-zinc-100 line-clamp-2">
+          {video.title}
+        </p>
+        <p className="text-sm text-zinc-500 dark:text-zinc-400 mt-1">
+          {video.channelTitle}
+        </p>
+      </div>
+    </a>
+  );
+}
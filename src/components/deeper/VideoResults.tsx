@@ -0,0 +1,29 @@
+"use client";
+
+import type { Video } from "@/types";
+import { VideoCard } from "./VideoCard";
+
+interface VideoResultsProps {
+  videos: Video[];
+}
+
+/**
+ * VideoResults - List of discovered YouTube videos.
+ */
+export function VideoResults({ videos }: VideoResultsProps) {
+  if (videos.length === 0) {
+    return (
+      <p className="text-zinc-500 dark:text-zinc-400 italic">
+        No videos found for this concept.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {videos.map((video) => (
+        <VideoCard key={video.videoId} video={video} />
+      ))}
+    </div>
+  );
+}
@@ -8,10 +8,18 @@
  * - ExpandedDescription - Extended concept lesson content
  * - VideoResults - List of discovered YouTube videos
  * - VideoCard - Single video with thumbnail, title, and link
- * - BookResults - List of discovered books
+ * - BookResults - List of discovered books, with save-to-library buttons
  * - BookCard - Single book with cover, title, author, purchase link
  *
  * Provides deep-dive exploration tools for concepts.
  */
 
-export {};
+export { DeeperMenu } from "./DeeperMenu";
+export type { DeeperOption } from "./DeeperMenu";
+export { SocraticDialogue } from "./SocraticDialogue";
+export { SocraticMessage } from "./SocraticMessage";
+export { ExpandedDescription } from "./ExpandedDescription";
+export { VideoResults } from "./VideoResults";
+export { VideoCard } from "./VideoCard";
+export { BookResults } from "./BookResults";
+export { BookCard } from "./BookCard";
@@ -0,0 +1,69 @@
+"use client";
+
+interface ActionButtonsProps {
+  onGoDeeper: () => void;
+  onExploreBranch: () => void;
+  /** Which panel is currently open, for highlighting */
+  active?: "deeper" | "branch" | null;
+}
+
+/**
+ * ActionButtons - "Go Deeper" and "Explore New Branch" buttons shown
+ * at the bottom of a lesson.
+ */
+export function ActionButtons({
+  onGoDeeper,
+  onExploreBranch,
+  active = null,
+}: ActionButtonsProps) {
+  const primary =
+    "flex-1 flex items-center justify-center gap-2 px-6 py-3 rounded-xl bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 font-medium hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors";
+  const secondary =
+    "flex-1 flex items-center justify-center gap-2 px-6 py-3 rounded-xl border border-zinc-300 dark:border-zinc-700 text-zinc-700 dark:text-zinc-300 font-medium hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors";
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-4">
+      <button
+        type="button"
+        className={active === "branch" ? secondary : primary}
+        onClick={onGoDeeper}
+      >
+        <svg
+          className="w-5 h-5"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <circle cx="12" cy="12" r="10" />
+          <line x1="12" y1="8" x2="12" y2="16" />
+          <line x1="8" y1="12" x2="16" y2="12" />
+        </svg>
+        Go Deeper
+      </button>
+      <button
+        type="button"
+        className={active === "branch" ? primary : secondary}
+        onClick={onExploreBranch}
+      >
+        <svg
+          className="w-5 h-5"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <line x1="6" y1="3" x2="6" y2="15" />
+          <circle cx="18" cy="6" r="3" />
+          <circle cx="6" cy="18" r="3" />
+          <path d="M18 9a9 9 0 0 1-9 9" />
+        </svg>
+        Explore New Branch
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import type { BranchCardProps, BranchType } from "@/types";
+import { BRANCH_TYPE_LABELS } from "./BranchStats";
+
+const BRANCH_TYPE_STYLES: Record<BranchType, string> = {
+  constructive:
+    "bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400",
+  critique: "bg-rose-100 dark:bg-rose-900/30 text-rose-700 dark:text-rose-400",
+  author: "bg-sky-100 dark:bg-sky-900/30 text-sky-700 dark:text-sky-400",
+  wildcard:
+    "bg-violet-100 dark:bg-violet-900/30 text-violet-700 dark:text-violet-400",
+};
+
+/**
+ * BranchCard - Single branch option with type badge and description.
+ */
+export function BranchCard({ edge, onSelect, stats }: BranchCardProps) {
+  return (
+    <button
+      type="button"
+      onClick={() => onSelect(edge)}
+      className="w-full p-5 rounded-xl bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 text-left hover:border-zinc-400 dark:hover:border-zinc-600 hover:shadow-sm transition-all group"
+    >
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <span
+          className={`text-xs px-2 py-0.5 rounded-full font-medium ${
+            BRANCH_TYPE_STYLES[edge.branch_type]
+          }`}
+        >
+          {BRANCH_TYPE_LABELS[edge.branch_type]}
+        </span>
+        {stats && stats.count > 0 && (
+          <span className="text-xs text-zinc-500 dark:text-zinc-400">
+            {Math.round(stats.percentage)}% chose this
+          </span>
+        )}
+      </div>
+      <h3 className="font-semibold text-zinc-900 dark:text-zinc-100 group-hover:text-zinc-700 dark:group-hover:text-zinc-200">
+        {edge.target.name}
+      </h3>
+      {edge.description && (
+        <p className="text-sm text-zinc-600 dark:text-zinc-400 mt-1">
+          {edge.description}
+        </p>
+      )}
+    </button>
+  );
+}
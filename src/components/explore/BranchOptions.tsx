@@ -0,0 +1,151 @@
+"use client";
+
+import { useEffect } from "react";
+import {
+  useNearestConcepts,
+  useGenerateBranches,
+  useBranchStats,
+} from "@/hooks";
+import type { Concept, EdgeWithTarget } from "@/types";
+import { BranchStats } from "./BranchStats";
+import { NewBranchOptions } from "./NewBranchOptions";
+import { RateLimitWarning } from "./RateLimitWarning";
+
+interface BranchOptionsProps {
+  conceptId: string;
+  /** Branches already generated from this concept */
+  existingEdges: EdgeWithTarget[];
+  /** Called when the user picks a branch (existing or newly generated) */
+  onSelectEdge: (edge: EdgeWithTarget) => void;
+  /** Called when the user picks a nearest-neighbor concept */
+  onSelectConcept: (concept: Concept) => void;
+}
+
+/**
+ * BranchOptions - Shows existing branches and the nearest existing concepts,
+ * with the option to generate four brand new branches.
+ */
+export function BranchOptions({
+  conceptId,
+  existingEdges,
+  onSelectEdge,
+  onSelectConcept,
+}: BranchOptionsProps) {
+  const nearest = useNearestConcepts(conceptId);
+  const branches = useGenerateBranches(conceptId);
+  const stats = useBranchStats(conceptId);
+  const { fetchNearest } = nearest;
+
+  useEffect(() => {
+    fetchNearest();
+  }, [fetchNearest]);
+
+  // Hide neighbors that are already reachable via an existing branch
+  const linkedIds = new Set(existingEdges.map((e) => e.target_id));
+  const nearestConcepts = nearest.concepts.filter((c) => !linkedIds.has(c.id));
+
+  return (
+    <div className="space-y-8">
+      <BranchStats stats={stats} />
+
+      {/* Existing branches */}
+      {existingEdges.length > 0 && (
+        <section>
+          <h3 className="text-sm font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400 mb-3">
+            Paths from here
+          </h3>
+          <NewBranchOptions
+            edges={existingEdges}
+            stats={stats}
+            onSelect={onSelectEdge}
+          />
+        </section>
+      )}
+
+      {/* Nearest neighbors */}
+      <section>
+        <h3 className="text-sm font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400 mb-1">
+          Nearby concepts
+        </h3>
+        <p className="text-sm text-zinc-600 dark:text-zinc-400 mb-3">
+          Pick from these concepts for a faster experience, or explore a brand
+          new branch (which will take time to generate).
+        </p>
+
+        {nearest.loading ? (
+          <div className="grid sm:grid-cols-3 gap-4">
+            {[1, 2, 3].map((i) => (
+              <div
+                key={i}
+                className="p-4 rounded-xl bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 animate-pulse"
+              >
+                <div className="h-5 bg-zinc-200 dark:bg-zinc-700 rounded w-3/4" />
+              </div>
+            ))}
+          </div>
+        ) : nearestConcepts.length > 0 ? (
+          <div className="grid sm:grid-cols-3 gap-4">
+            {nearestConcepts.map((concept) => (
+              <button
+                key={concept.id}
+                type="button"
+                onClick={() => onSelectConcept(concept)}
+                className="p-4 rounded-xl bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 text-left font-medium text-zinc-900 dark:text-zinc-100 hover:border-zinc-400 dark:hover:border-zinc-600 hover:shadow-sm transition-all"
+              >
+                {concept.name}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-zinc-500 dark:text-zinc-400 italic">
+            {nearest.error || "No nearby concepts in the graph yet."}
+          </p>
+        )}
+      </section>
+
+      {/* Brand new branches */}
+      <section>
+        {branches.rateLimit ? (
+          <RateLimitWarning resetAt={branches.rateLimit.resetAt} />
+        ) : branches.edges.length > 0 ? (
+          <>
+            <h3 className="text-sm font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400 mb-3">
+              New branches
+            </h3>
+            <NewBranchOptions
+              edges={branches.edges}
+              stats={stats}
+              onSelect={onSelectEdge}
+            />
+          </>
+        ) : (
+          <button
+            type="button"
+            onClick={branches.generate}
+            disabled={branches.loading}
+            className="w-full flex items-center justify-center gap-2 py-3 px-4 rounded-xl border border-dashed border-zinc-300 dark:border-zinc-700 text-zinc-700 dark:text-zinc-300 font-medium hover:bg-zinc-100 dark:hover:bg-zinc-800 disabled:opacity-60 disabled:cursor-wait transition-colors"
+          >
+            {branches.loading ? (
+              <>
+                <div className="w-4 h-4 border-2 border-zinc-300 dark:border-zinc-600 border-t-zinc-900 dark:border-t-zinc-100 rounded-full animate-spin" />
+                {branches.job?.stage === "linking"
+                  ? "Linking branches into the graph..."
+                  : branches.job?.status === "queued" &&
+                      branches.job.attempts > 0
+                    ? "Retrying shortly..."
+                    : "Generating new branches..."}
+              </>
+            ) : (
+              "Explore a brand new branch"
+            )}
+          </button>
+        )}
+        {branches.error && (
+          <p className="text-sm text-red-600 dark:text-red-400 mt-2">
+            {branches.error}
+          </p>
+        )}
+      </section>
+    </div>
+  );
+}
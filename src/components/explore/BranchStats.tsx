@@ -0,0 +1,36 @@
+"use client";
+
+import type { BranchType } from "@/types";
+
+interface BranchStatsProps {
+  stats: { type: BranchType; percentage: number; count: number }[];
+}
+
+export const BRANCH_TYPE_LABELS: Record<BranchType, string> = {
+  constructive: "Constructive",
+  critique: "Critique",
+  author: "Author",
+  wildcard: "Wildcard",
+};
+
+/**
+ * BranchStats - Shows which branch types other users chose from this concept.
+ */
+export function BranchStats({ stats }: BranchStatsProps) {
+  const total = stats.reduce((sum, s) => sum + s.count, 0);
+  if (total === 0) {
+    return null;
+  }
+
+  const top = [...stats].sort((a, b) => b.count - a.count)[0];
+
+  return (
+    <p className="text-sm text-zinc-500 dark:text-zinc-400">
+      {Math.round(top.percentage)}% of explorers chose the{" "}
+      <span className="font-medium text-zinc-700 dark:text-zinc-300">
+        {BRANCH_TYPE_LABELS[top.type]}
+      </span>{" "}
+      branch here ({total} choice{total !== 1 ? "s" : ""}).
+    </p>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import type { GenerationJob, GenerationJobStage } from "@/types";
+
+interface GeneratingOverlayProps {
+  /** Name of the concept being generated */
+  conceptName: string;
+  /** The lesson's generation job, once the server has reported it */
+  job: GenerationJob | null;
+  /** Lesson prose streamed in so far */
+  streamedText?: string;
+}
+
+/** Stages of a lesson job, in order */
+const LESSON_STEPS: { stage: GenerationJobStage; label: string }[] = [
+  { stage: "writing", label: "Writing the lesson" },
+  { stage: "embedding", label: "Placing it among related concepts" },
+  { stage: "saving", label: "Adding it to the graph" },
+];
+
+/** One-line status for the job's current state */
+function describeJob(job: GenerationJob | null): string {
+  if (!job || (job.status === "queued" && job.attempts === 0)) {
+    return "Waiting to start...";
+  }
+  if (job.status === "queued") {
+    return `That attempt failed; retrying (attempt ${job.attempts + 1} of ${job.max_attempts})...`;
+  }
+
+  const step = LESSON_STEPS.find((s) => s.stage === job.stage);
+  const label = step ? `${step.label}...` : "Starting...";
+  return job.attempts > 1
+    ? `${label} (attempt ${job.attempts} of ${job.max_attempts})`
+    : label;
+}
+
+/**
+ * GeneratingOverlay - Loading state shown while a new concept is generated.
+ * Tracks the lesson job's progress through its stages and previews the
+ * lesson as it is written.
+ */
+export function GeneratingOverlay({
+  conceptName,
+  job,
+  streamedText,
+}: GeneratingOverlayProps) {
+  const stepIndex = LESSON_STEPS.findIndex((s) => s.stage === job?.stage);
+  const progress =
+    job?.status === "running"
+      ? ((stepIndex + 1) / LESSON_STEPS.length) * 100
+      : 0;
+  const paragraphs = (streamedText ?? "")
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter(Boolean);
+
+  return (
+    <div className="bg-white dark:bg-zinc-900 rounded-2xl border border-zinc-200 dark:border-zinc-800 p-8 text-center">
+      <div className="w-12 h-12 border-2 border-zinc-300 dark:border-zinc-600 border-t-zinc-900 dark:border-t-zinc-100 rounded-full animate-spin mx-auto mb-6" />
+      <h2 className="text-xl font-semibold text-zinc-900 dark:text-zinc-100 mb-2">
+        Writing a new lesson on {conceptName}
+      </h2>
+      <p className="text-zinc-600 dark:text-zinc-400 mb-6">
+        This concept isn&apos;t in the graph yet, so we&apos;re adding it for
+        everyone. Take a moment to think about what you already know about it.
+      </p>
+      <div className="max-w-sm mx-auto">
+        <div className="h-1.5 bg-zinc-200 dark:bg-zinc-700 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-zinc-900 dark:bg-zinc-100 transition-all duration-500"
+            style={{ width: `${progress}%` }}
+          />
+        </div>
+        <p className="text-sm text-zinc-500 dark:text-zinc-400 mt-2">
+          {describeJob(job)}
+        </p>
+      </div>
+
+      {paragraphs.length > 0 && (
+        <div className="mt-8 pt-6 border-t border-zinc-200 dark:border-zinc-800 text-left space-y-4 text-zinc-700 dark:text-zinc-300 leading-relaxed">
+          {paragraphs.map((paragraph, index) => (
+            <p key={index}>{paragraph}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
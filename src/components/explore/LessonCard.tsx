@@ -0,0 +1,61 @@
+"use client";
+
+import {
+  useConceptCategories,
+  useConceptReadings,
+  useLessonLens,
+} from "@/hooks";
+import type { LessonCardProps } from "@/types";
+import { LessonCategories } from "./LessonCategories";
+import { LessonLensBar } from "./LessonLensBar";
+import { RecommendedReading } from "./RecommendedReading";
+
+/**
+ * LessonCard - Displays a concept's subtopics, description and
+ * recommended reading. The description can be switched to a lens
+ * rewritten for a familiarity level.
+ */
+export function LessonCard({ concept }: LessonCardProps) {
+  const { readings, setRead } = useConceptReadings(concept.id);
+  const { categories, lensLevel } = useConceptCategories(concept.id);
+  const lens = useLessonLens(concept.id);
+  const paragraphs = (lens.lens?.description ?? concept.description)
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter(Boolean);
+
+  return (
+    <div className="bg-white dark:bg-zinc-900 rounded-2xl border border-zinc-200 dark:border-zinc-800 p-8">
+      <div className="mb-6 space-y-3">
+        <LessonCategories categories={categories} />
+        <LessonLensBar
+          userLevel={lensLevel}
+          activeLevel={lens.lens?.level ?? null}
+          loadingLevel={lens.loadingLevel}
+          onSelect={(level) => (level ? lens.showLevel(level) : lens.clear())}
+        />
+        {lens.error && (
+          <p className="text-sm text-red-600 dark:text-red-400">
+            {lens.error}
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-4 text-zinc-700 dark:text-zinc-300 leading-relaxed">
+        {paragraphs.map((paragraph, index) => (
+          <p key={index}>{paragraph}</p>
+        ))}
+      </div>
+
+      {readings.length > 0 && (
+        <div className="mt-8 pt-6 border-t border-zinc-200 dark:border-zinc-800">
+          <RecommendedReading
+            conceptId={concept.id}
+            readings={readings}
+            onSetRead={setRead}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
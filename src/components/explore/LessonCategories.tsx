@@ -0,0 +1,53 @@
+"use client";
+
+import Link from "next/link";
+import type { FamiliarityLevel, LessonCategory } from "@/types";
+
+interface LessonCategoriesProps {
+  /** The lesson's subtopics, best fit first */
+  categories: LessonCategory[];
+}
+
+export const FAMILIARITY_LEVEL_LABELS: Record<FamiliarityLevel, string> = {
+  beginner: "Beginner",
+  intermediate: "Intermediate",
+  advanced: "Advanced",
+};
+
+/**
+ * LessonCategories - The subtopics a lesson belongs to, each with the
+ * reader's familiarity level in it. Unrated subtopics link to the profile
+ * page, where the reader can rate them.
+ */
+export function LessonCategories({ categories }: LessonCategoriesProps) {
+  if (categories.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {categories.map((c) => (
+        <span
+          key={`${c.category}|${c.subtopic}`}
+          className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full bg-zinc-100 dark:bg-zinc-800 text-xs text-zinc-600 dark:text-zinc-400"
+        >
+          <span>
+            {c.category}: <span className="font-medium">{c.subtopic}</span>
+          </span>
+          {c.familiarity ? (
+            <span className="px-1.5 rounded-full bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100">
+              You: {FAMILIARITY_LEVEL_LABELS[c.familiarity]}
+            </span>
+          ) : (
+            <Link
+              href="/profile"
+              className="underline hover:text-zinc-900 dark:hover:text-zinc-100"
+            >
+              Rate
+            </Link>
+          )}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import type { FamiliarityLevel } from "@/types";
+import { FAMILIARITY_LEVEL_LABELS } from "./LessonCategories";
+
+interface LessonLensBarProps {
+  /** The user's level in the concept's category, if known */
+  userLevel: FamiliarityLevel | null;
+  /** Level of the lens being shown (null for the lesson as written) */
+  activeLevel: FamiliarityLevel | null;
+  /** Level being fetched or generated */
+  loadingLevel: FamiliarityLevel | null;
+  /** Show a level's lens, or the lesson as written for null */
+  onSelect: (level: FamiliarityLevel | null) => void;
+}
+
+const LEVELS: FamiliarityLevel[] = ["beginner", "intermediate", "advanced"];
+
+/**
+ * LessonLensBar - Switches the lesson between its text as written and
+ * lenses rewritten for each familiarity level, marking the user's level.
+ */
+export function LessonLensBar({
+  userLevel,
+  activeLevel,
+  loadingLevel,
+  onSelect,
+}: LessonLensBarProps) {
+  const options: [FamiliarityLevel | null, string][] = [
+    [null, "As written"],
+    ...LEVELS.map((level): [FamiliarityLevel, string] => [
+      level,
+      level === userLevel
+        ? `${FAMILIARITY_LEVEL_LABELS[level]} (your level)`
+        : FAMILIARITY_LEVEL_LABELS[level],
+    ]),
+  ];
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="text-zinc-500 dark:text-zinc-400">Read at:</span>
+      <div className="inline-flex flex-wrap p-1 rounded-lg bg-zinc-100 dark:bg-zinc-800">
+        {options.map(([level, label]) => (
+          <button
+            key={level ?? "as-written"}
+            type="button"
+            onClick={() => onSelect(level)}
+            disabled={loadingLevel !== null}
+            className={`px-3 py-1 rounded-md font-medium transition-colors disabled:opacity-60 ${
+              activeLevel === level
+                ? "bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 shadow-sm"
+                : "text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100"
+            }`}
+          >
+            {loadingLevel === level && level ? "Rewriting..." : label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
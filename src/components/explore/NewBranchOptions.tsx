@@ -0,0 +1,41 @@
+"use client";
+
+import type { BranchType, EdgeWithTarget } from "@/types";
+import { BranchCard } from "./BranchCard";
+
+interface NewBranchOptionsProps {
+  edges: EdgeWithTarget[];
+  stats: { type: BranchType; percentage: number; count: number }[];
+  onSelect: (edge: EdgeWithTarget) => void;
+}
+
+/**
+ * NewBranchOptions - The generated branches
+ * (constructive/critique/author/wildcard) from a concept.
+ */
+export function NewBranchOptions({
+  edges,
+  stats,
+  onSelect,
+}: NewBranchOptionsProps) {
+  return (
+    <div className="grid sm:grid-cols-2 gap-4">
+      {edges.map((edge) => {
+        const typeStats = stats.find((s) => s.type === edge.branch_type);
+
+        return (
+          <BranchCard
+            key={edge.id}
+            edge={edge}
+            onSelect={onSelect}
+            stats={
+              typeStats
+                ? { percentage: typeStats.percentage, count: typeStats.count }
+                : undefined
+            }
+          />
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+"use client";
+
+interface RateLimitWarningProps {
+  /** When the oldest generation in the window expires (ISO string) */
+  resetAt: string | null;
+}
+
+/**
+ * RateLimitWarning - Displayed when the user hits the hourly generation limit.
+ */
+export function RateLimitWarning({ resetAt }: RateLimitWarningProps) {
+  const resetTime = resetAt
+    ? new Date(resetAt).toLocaleTimeString([], {
+        hour: "numeric",
+        minute: "2-digit",
+      })
+    : null;
+
+  return (
+    <div className="p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-xl text-amber-800 dark:text-amber-300">
+      <p className="font-medium">You&apos;ve reached the hourly generation limit.</p>
+      <p className="text-sm mt-1">
+        New concepts can be generated again
+        {resetTime ? ` at ${resetTime}` : " within the hour"}. In the meantime,
+        explore concepts that are already in the graph.
+      </p>
+    </div>
+  );
+}
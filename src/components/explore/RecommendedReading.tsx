@@ -0,0 +1,150 @@
+"use client";
+
+import Image from "next/image";
+import { openLibraryCoverUrl, openLibraryWorkUrl } from "@/lib/openlibrary";
+import { SaveToLibraryButton } from "@/components/library";
+import type { LessonReading } from "@/types";
+
+interface RecommendedReadingProps {
+  /** The concept whose lesson recommends the readings */
+  conceptId: string;
+  /** Readings in the lesson's order */
+  readings: LessonReading[];
+  /** Mark a canonical text read or unread */
+  onSetRead?: (textName: string, hasRead: boolean) => void;
+}
+
+interface ReadingCardProps {
+  conceptId: string;
+  reading: LessonReading;
+  onSetRead?: (textName: string, hasRead: boolean) => void;
+}
+
+/**
+ * ReadingCard - One recommended text: cover (when an ISBN is known),
+ * title, author and year, and why it matters for the concept. The title
+ * links to the text's Open Library page when it was found there.
+ * Canonical texts show whether the user has read them, with a toggle.
+ * Any text can be saved to the user's library.
+ */
+function ReadingCard({ conceptId, reading, onSetRead }: ReadingCardProps) {
+  const textName = reading.canonical_text_name;
+
+  return (
+    <div className="flex gap-4 p-3 rounded-xl border border-zinc-200 dark:border-zinc-800">
+      {reading.isbn ? (
+        <Image
+          src={openLibraryCoverUrl(reading.isbn)}
+          alt=""
+          width={48}
+          height={72}
+          className="w-12 h-[4.5rem] object-cover rounded flex-shrink-0 bg-zinc-100 dark:bg-zinc-800"
+        />
+      ) : (
+        <div className="w-12 h-[4.5rem] rounded flex-shrink-0 bg-zinc-100 dark:bg-zinc-800 flex items-center justify-center text-zinc-400">
+          <svg
+            className="w-5 h-5"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <path d="M4 19.5A2.5 2.5 0 0 1 6.5 17H20" />
+            <path d="M6.5 2H20v20H6.5A2.5 2.5 0 0 1 4 19.5v-15A2.5 2.5 0 0 1 6.5 2z" />
+          </svg>
+        </div>
+      )}
+      <div className="min-w-0 flex-1">
+        <div className="flex items-start justify-between gap-2">
+          <p className="font-medium text-zinc-900 dark:text-zinc-100">
+            {reading.openlibrary_id ? (
+              <a
+                href={openLibraryWorkUrl(reading.openlibrary_id)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="hover:underline"
+              >
+                {reading.title}
+              </a>
+            ) : (
+              reading.title
+            )}
+          </p>
+          {reading.has_read && (
+            <span className="flex-shrink-0 text-xs font-medium px-2 py-0.5 rounded-full bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400">
+              You&apos;ve read this
+            </span>
+          )}
+        </div>
+        <p className="text-sm text-zinc-500 dark:text-zinc-400">
+          {reading.author}
+          {reading.year && ` (${reading.year})`}
+        </p>
+        {reading.relevance && (
+          <p className="text-sm text-zinc-600 dark:text-zinc-400 mt-1">
+            {reading.relevance}
+          </p>
+        )}
+        <div className="flex items-center gap-4 mt-2">
+          {textName && onSetRead && (
+            <button
+              type="button"
+              onClick={() => onSetRead(textName, !reading.has_read)}
+              className="text-xs text-zinc-500 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 underline"
+            >
+              {reading.has_read ? "Mark as unread" : "Mark as read"}
+            </button>
+          )}
+          <SaveToLibraryButton
+            book={{
+              title: reading.title,
+              author: reading.author,
+              url: reading.openlibrary_id
+                ? openLibraryWorkUrl(reading.openlibrary_id)
+                : undefined,
+              imageUrl: reading.isbn
+                ? openLibraryCoverUrl(reading.isbn)
+                : undefined,
+              readingId: reading.id,
+              conceptId,
+            }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * RecommendedReading - List of philosophy texts suggested for a concept.
+ */
+export function RecommendedReading({
+  conceptId,
+  readings,
+  onSetRead,
+}: RecommendedReadingProps) {
+  if (readings.length === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100 mb-3">
+        Recommended Reading
+      </h2>
+      <ul className="space-y-3">
+        {readings.map((reading) => (
+          <li key={reading.id}>
+            <ReadingCard
+              conceptId={conceptId}
+              reading={reading}
+              onSetRead={onSetRead}
+            />
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
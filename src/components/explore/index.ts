@@ -3,16 +3,31 @@
  *
  * Components:
  * - LessonCard - Displays concept description and recommended reading
+ * - LessonCategories - The lesson's subtopics, with the user's level in each
+ * - LessonLensBar - Switches the lesson between as-written and per-level lenses
  * - RecommendedReading - List of philosophy texts with links
  * - ActionButtons - "Go Deeper" and "Explore New Branch" buttons
  * - BranchOptions - Shows nearest neighbor concepts + "Generate New" option
  * - NewBranchOptions - Shows 4 generated branches (constructive/critique/author/wildcard)
  * - BranchCard - Single branch option with type badge and description
- * - GeneratingOverlay - Loading state during generation with 1-min timer
+ * - GeneratingOverlay - Loading state during generation, tracking the lesson job's stages
  * - RateLimitWarning - Displayed when user hits hourly generation limit
  * - BranchStats - Shows "X% of users chose..." analytics (nice-to-have)
  *
  * Main concept exploration and branch navigation interface.
  */
 
-export {};
+export { LessonCard } from "./LessonCard";
+export { RecommendedReading } from "./RecommendedReading";
+export {
+  LessonCategories,
+  FAMILIARITY_LEVEL_LABELS,
+} from "./LessonCategories";
+export { LessonLensBar } from "./LessonLensBar";
+export { ActionButtons } from "./ActionButtons";
+export { BranchOptions } from "./BranchOptions";
+export { NewBranchOptions } from "./NewBranchOptions";
+export { BranchCard } from "./BranchCard";
+export { GeneratingOverlay } from "./GeneratingOverlay";
+export { RateLimitWarning } from "./RateLimitWarning";
+export { BranchStats, BRANCH_TYPE_LABELS } from "./BranchStats";
@@ -0,0 +1,186 @@
+"use client";
+
+import { useEffect, useMemo, useRef } from "react";
+import CytoscapeComponent from "react-cytoscapejs";
+import type {
+  Core,
+  ElementDefinition,
+  EventObject,
+  LayoutOptions,
+  StylesheetJson,
+} from "cytoscape";
+import type { BranchType, GraphEdge, GraphNode } from "@/types";
+
+/** Edge colours by branch type (match the BranchCard badge hues) */
+export const BRANCH_TYPE_COLORS: Record<BranchType, string> = {
+  constructive: "#10b981",
+  critique: "#f43f5e",
+  author: "#0ea5e9",
+  wildcard: "#8b5cf6",
+};
+
+const STYLESHEET: StylesheetJson = [
+  {
+    selector: "node",
+    style: {
+      label: "data(label)",
+      "font-size": 11,
+      color: "#71717a",
+      "text-valign": "bottom",
+      "text-margin-y": 6,
+      "text-wrap": "wrap",
+      "text-max-width": "120px",
+      width: 22,
+      height: 22,
+      "border-width": 2,
+    },
+  },
+  {
+    selector: "node[?visited]",
+    style: {
+      "background-color": "#18181b",
+      "border-color": "#18181b",
+    },
+  },
+  {
+    selector: "node[!visited]",
+    style: {
+      "background-color": "#ffffff",
+      "border-color": "#a1a1aa",
+      "border-style": "dashed",
+    },
+  },
+  {
+    selector: "node:selected",
+    style: {
+      "border-color": "#f59e0b",
+      "border-width": 4,
+    },
+  },
+  ...(Object.keys(BRANCH_TYPE_COLORS) as BranchType[]).map((type) => ({
+    selector: `edge[branchType = "${type}"]`,
+    style: {
+      "line-color": BRANCH_TYPE_COLORS[type],
+      "target-arrow-color": BRANCH_TYPE_COLORS[type],
+    },
+  })),
+  {
+    selector: "edge",
+    style: {
+      width: 2,
+      "curve-style": "bezier",
+      "target-arrow-shape": "triangle",
+      "arrow-scale": 0.8,
+      opacity: 0.8,
+    },
+  },
+  {
+    selector: "edge[?traversed]",
+    style: {
+      width: 4,
+      opacity: 1,
+    },
+  },
+];
+
+/** Map coordinates are in [-1, 1]; scale them to model units */
+const SEMANTIC_SCALE = 600;
+
+interface GraphCanvasProps {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  /** "force" for a physics layout, "semantic" to use node map positions */
+  layoutMode?: "force" | "semantic";
+  /** Called with the tapped node and its on-screen position, or null on background tap */
+  onSelectNode: (
+    node: GraphNode | null,
+    position?: { x: number; y: number }
+  ) => void;
+  /** Receives the Cytoscape instance once it is created (for controls) */
+  onReady?: (cy: Core) => void;
+  className?: string;
+}
+
+/**
+ * GraphCanvas - Cytoscape.js container for 2D graph visualization.
+ */
+export function GraphCanvas({
+  nodes,
+  edges,
+  onSelectNode,
+  onReady,
+  layoutMode = "force",
+  className,
+}: GraphCanvasProps) {
+  const cyRef = useRef<Core | null>(null);
+  const onSelectRef = useRef(onSelectNode);
+
+  useEffect(() => {
+    onSelectRef.current = onSelectNode;
+  }, [onSelectNode]);
+
+  const elements = useMemo<ElementDefinition[]>(() => {
+    const nodeIds = new Set(nodes.map((n) => n.id));
+
+    return [
+      ...nodes.map(({ position, ...data }) => ({
+        data,
+        // Flip y so "up" on the map is positive, as on a chart
+        position: position && {
+          x: position.x * SEMANTIC_SCALE,
+          y: -position.y * SEMANTIC_SCALE,
+        },
+      })),
+      // Skip edges whose endpoints are not in the graph yet
+      ...edges
+        .filter((e) => nodeIds.has(e.source) && nodeIds.has(e.target))
+        .map((edge) => ({ data: { ...edge } })),
+    ];
+  }, [nodes, edges]);
+
+  // New object per element set so the layout reruns when the graph grows
+  const layout = useMemo<LayoutOptions>(
+    () =>
+      layoutMode === "semantic"
+        ? { name: "preset", fit: true, padding: 40 }
+        : {
+            name: "cose",
+            animate: false,
+            padding: 40,
+            nodeDimensionsIncludeLabels: true,
+            randomize: elements.length === 0,
+          },
+    [elements, layoutMode]
+  );
+
+  const handleCy = (cy: Core) => {
+    if (cyRef.current === cy) return;
+    cyRef.current = cy;
+
+    cy.on("tap", "node", (event: EventObject) => {
+      const data = event.target.data() as GraphNode;
+      onSelectRef.current(data, event.renderedPosition);
+    });
+    cy.on("tap", (event: EventObject) => {
+      if (event.target === cy) {
+        onSelectRef.current(null);
+      }
+    });
+
+    onReady?.(cy);
+  };
+
+  return (
+    <CytoscapeComponent
+      elements={elements}
+      stylesheet={STYLESHEET}
+      layout={layout}
+      cy={handleCy}
+      minZoom={0.2}
+      maxZoom={3}
+      boxSelectionEnabled={false}
+      className={className}
+      style={{ width: "100%", height: "100%" }}
+    />
+  );
+}
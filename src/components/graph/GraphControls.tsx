@@ -0,0 +1,126 @@
+"use client";
+
+interface GraphControlsProps {
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onPan: (dx: number, dy: number) => void;
+  onFit: () => void;
+}
+
+const PAN_STEP = 80;
+
+const BUTTON_CLASS =
+  "w-8 h-8 flex items-center justify-center rounded-lg text-zinc-600 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors";
+
+function Icon({ children }: { children: React.ReactNode }) {
+  return (
+    <svg
+      className="w-4 h-4"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      {children}
+    </svg>
+  );
+}
+
+/**
+ * GraphControls - Zoom, pan, and fit controls.
+ */
+export function GraphControls({
+  onZoomIn,
+  onZoomOut,
+  onPan,
+  onFit,
+}: GraphControlsProps) {
+  return (
+    <div className="absolute top-4 right-4 z-10 flex flex-col items-center gap-1 p-1 rounded-xl bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 shadow-sm">
+      <button
+        type="button"
+        onClick={onZoomIn}
+        aria-label="Zoom in"
+        className={BUTTON_CLASS}
+      >
+        <Icon>
+          <line x1="12" y1="5" x2="12" y2="19" />
+          <line x1="5" y1="12" x2="19" y2="12" />
+        </Icon>
+      </button>
+      <button
+        type="button"
+        onClick={onZoomOut}
+        aria-label="Zoom out"
+        className={BUTTON_CLASS}
+      >
+        <Icon>
+          <line x1="5" y1="12" x2="19" y2="12" />
+        </Icon>
+      </button>
+
+      <div className="w-6 border-t border-zinc-200 dark:border-zinc-800 my-1" />
+
+      <button
+        type="button"
+        onClick={() => onPan(0, PAN_STEP)}
+        aria-label="Pan up"
+        className={BUTTON_CLASS}
+      >
+        <Icon>
+          <polyline points="18 15 12 9 6 15" />
+        </Icon>
+      </button>
+      <div className="flex gap-1">
+        <button
+          type="button"
+          onClick={() => onPan(PAN_STEP, 0)}
+          aria-label="Pan left"
+          className={BUTTON_CLASS}
+        >
+          <Icon>
+            <polyline points="15 18 9 12 15 6" />
+          </Icon>
+        </button>
+        <button
+          type="button"
+          onClick={() => onPan(-PAN_STEP, 0)}
+          aria-label="Pan right"
+          className={BUTTON_CLASS}
+        >
+          <Icon>
+            <polyline points="9 18 15 12 9 6" />
+          </Icon>
+        </button>
+      </div>
+      <button
+        type="button"
+        onClick={() => onPan(0, -PAN_STEP)}
+        aria-label="Pan down"
+        className={BUTTON_CLASS}
+      >
+        <Icon>
+          <polyline points="6 9 12 15 18 9" />
+        </Icon>
+      </button>
+
+      <div className="w-6 border-t border-zinc-200 dark:border-zinc-800 my-1" />
+
+      <button
+        type="button"
+        onClick={onFit}
+        aria-label="Fit graph to view"
+        className={BUTTON_CLASS}
+      >
+        <Icon>
+          <path d="M8 3H5a2 2 0 0 0-2 2v3" />
+          <path d="M21 8V5a2 2 0 0 0-2-2h-3" />
+          <path d="M3 16v3a2 2 0 0 0 2 2h3" />
+          <path d="M16 21h3a2 2 0 0 0 2-2v-3" />
+        </Icon>
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import Link from "next/link";
+
+interface GraphLockOverlayProps {
+  nodesUntilUnlock: number;
+}
+
+/**
+ * GraphLockOverlay - "Explore N more nodes to unlock" message.
+ */
+export function GraphLockOverlay({ nodesUntilUnlock }: GraphLockOverlayProps) {
+  return (
+    <div className="max-w-2xl mx-auto py-16 text-center">
+      <div className="w-20 h-20 rounded-full bg-zinc-100 dark:bg-zinc-800 flex items-center justify-center mx-auto mb-6">
+        <svg
+          className="w-10 h-10 text-zinc-400"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <rect x="3" y="11" width="18" height="11" rx="2" ry="2" />
+          <path d="M7 11V7a5 5 0 0 1 10 0v4" />
+        </svg>
+      </div>
+      <h1 className="text-2xl font-bold text-zinc-900 dark:text-zinc-100 mb-3">
+        Graph View Locked
+      </h1>
+      <p className="text-zinc-600 dark:text-zinc-400 mb-6">
+        Explore {nodesUntilUnlock} more concept
+        {nodesUntilUnlock !== 1 ? "s" : ""} to unlock the graph visualization.
+      </p>
+      <Link
+        href="/start"
+        className="inline-block px-6 py-2.5 bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 rounded-lg font-medium hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors"
+      >
+        Continue exploring
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import type { GraphNode } from "@/types";
+
+interface NodeTooltipProps {
+  node: GraphNode;
+  /** Position relative to the graph container */
+  position: { x: number; y: number };
+  onJump: (node: GraphNode) => void;
+  onGoDeeper: (node: GraphNode) => void;
+  onExploreBranch: (node: GraphNode) => void;
+  /** Re-centre the atlas on this node (atlas view only) */
+  onShowNeighbourhood?: (node: GraphNode) => void;
+  onClose: () => void;
+}
+
+/**
+ * NodeTooltip - Click tooltip with concept information and actions.
+ */
+export function NodeTooltip({
+  node,
+  position,
+  onJump,
+  onGoDeeper,
+  onExploreBranch,
+  onShowNeighbourhood,
+  onClose,
+}: NodeTooltipProps) {
+  return (
+    <div
+      className="absolute z-10 w-60 p-4 rounded-xl bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 shadow-lg"
+      style={{ left: position.x + 16, top: position.y + 16 }}
+    >
+      <div className="flex items-start justify-between gap-2 mb-1">
+        <h3 className="font-semibold text-zinc-900 dark:text-zinc-100">
+          {node.label}
+        </h3>
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label="Close"
+          className="text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300"
+        >
+          <svg
+            className="w-4 h-4"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <line x1="18" y1="6" x2="6" y2="18" />
+            <line x1="6" y1="6" x2="18" y2="18" />
+          </svg>
+        </button>
+      </div>
+      <p className="text-xs text-zinc-500 dark:text-zinc-400 mb-3">
+        {node.visited ? "Visited" : "Not yet visited"}
+      </p>
+
+      <div className="space-y-1.5">
+        <button
+          type="button"
+          onClick={() => onJump(node)}
+          className="w-full px-3 py-2 rounded-lg bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 text-sm font-medium hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors"
+        >
+          Jump to concept
+        </button>
+        <button
+          type="button"
+          onClick={() => onGoDeeper(node)}
+          className="w-full px-3 py-2 rounded-lg border border-zinc-300 dark:border-zinc-700 text-zinc-700 dark:text-zinc-300 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors"
+        >
+          Go Deeper
+        </button>
+        <button
+          type="button"
+          onClick={() => onExploreBranch(node)}
+          className="w-full px-3 py-2 rounded-lg border border-zinc-300 dark:border-zinc-700 text-zinc-700 dark:text-zinc-300 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors"
+        >
+          Explore New Branch
+        </button>
+        {onShowNeighbourhood && (
+          <button
+            type="button"
+            onClick={() => onShowNeighbourhood(node)}
+            className="w-full px-3 py-2 rounded-lg text-zinc-600 dark:text-zinc-400 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors"
+          >
+            Show neighbourhood
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
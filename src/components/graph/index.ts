@@ -3,8 +3,7 @@
  *
  * Components:
  * - GraphCanvas - Cytoscape.js container for 2D graph visualization
- * - GraphNode - Custom node rendering for concepts
- * - GraphEdge - Custom edge rendering for relationships
+ *   (node and edge styling lives in its stylesheet)
  * - NodeTooltip - Hover/click tooltip with concept information
  * - GraphControls - Zoom, pan, and reset controls
  * - GraphLockOverlay - "Explore N more nodes to unlock" message
@@ -12,4 +11,7 @@
  * 2D graph visualization unlocked after exploring sufficient nodes.
  */
 
-export {};
+export { GraphCanvas, BRANCH_TYPE_COLORS } from "./GraphCanvas";
+export { NodeTooltip } from "./NodeTooltip";
+export { GraphControls } from "./GraphControls";
+export { GraphLockOverlay } from "./GraphLockOverlay";
@@ -1,13 +1,18 @@
 "use client";
 
 import { NavBar } from "./NavBar";
+import { useAuth, useGraphData } from "@/hooks";
 import type { AppShellProps } from "@/types";
 
 /**
  * AppShell - Main layout wrapper with navigation.
- * Provides consistent structure across all authenticated pages.
+ * Provides consistent structure across all authenticated pages,
+ * and loads the signed-in user's exploration graph.
  */
 export function AppShell({ children }: AppShellProps) {
+  const { user } = useAuth();
+  useGraphData(user?.id ?? null);
+
   return (
     <div className="min-h-screen bg-zinc-50 dark:bg-black">
       <NavBar />
@@ -6,7 +6,8 @@ import { useAuth } from "@/hooks";
 import type { NavBarProps } from "@/types";
 
 /**
- * NavBar - Top navigation component with logo, user menu, and graph link.
+ * NavBar - Top navigation component with logo, user menu, library and
+ * graph links.
  */
 export function NavBar({ onLogout: customOnLogout }: NavBarProps) {
   const { user, profile, logout } = useAuth();
@@ -54,6 +55,28 @@ export function NavBar({ onLogout: customOnLogout }: NavBarProps) {
 
           {/* Right side */}
           <div className="flex items-center gap-4">
+            {/* Library Link */}
+            {user && (
+              <Link
+                href="/library"
+                className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium text-zinc-700 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+              >
+                <svg
+                  className="w-5 h-5"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                >
+                  <path d="M4 19.5A2.5 2.5 0 0 1 6.5 17H20" />
+                  <path d="M6.5 2H20v20H6.5A2.5 2.5 0 0 1 4 19.5v-15A2.5 2.5 0 0 1 6.5 2z" />
+                </svg>
+                <span className="hidden sm:block">Library</span>
+              </Link>
+            )}
+
             {/* Graph Link */}
             {graphUnlocked ? (
               <Link
@@ -149,6 +172,25 @@ export function NavBar({ onLogout: customOnLogout }: NavBarProps) {
                       </div>
 
                       <div className="p-1">
+                        <Link
+                          href="/profile"
+                          onClick={() => setIsMenuOpen(false)}
+                          className="w-full flex items-center gap-2 px-3 py-2 text-sm text-zinc-700 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-700 rounded-md transition-colors"
+                        >
+                          <svg
+                            className="w-4 h-4"
+                            viewBox="0 0 24 24"
+                            fill="none"
+                            stroke="currentColor"
+                            strokeWidth="2"
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                          >
+                            <path d="M20 21v-2a4 4 0 0 0-4-4H8a4 4 0 0 0-4 4v2" />
+                            <circle cx="12" cy="7" r="4" />
+                          </svg>
+                          Your profile
+                        </Link>
                         <button
                           onClick={handleLogout}
                           className="w-full flex items-center gap-2 px-3 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-zinc-100 dark:hover:bg-zinc-700 rounded-md transition-colors"
@@ -3,7 +3,7 @@
  *
  * Components:
  * - AppShell - Main layout wrapper with navigation
- * - NavBar - Top navigation with logo, user menu, graph link
+ * - NavBar - Top navigation with logo, user menu, library and graph links
  * - BackButton - Navigate to previous concept in exploration path
  * - PathBreadcrumbs - Display current exploration path
  *
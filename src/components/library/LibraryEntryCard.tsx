@@ -0,0 +1,156 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import type {
+  LibraryEntry,
+  LibraryStatus,
+  UpdateLibraryEntryRequest,
+} from "@/types";
+
+/** Display labels for reading statuses, in reading order */
+export const LIBRARY_STATUS_LABELS: Record<LibraryStatus, string> = {
+  want_to_read: "Want to read",
+  reading: "Reading",
+  finished: "Finished",
+};
+
+interface LibraryEntryCardProps {
+  entry: LibraryEntry;
+  onUpdate: (
+    id: string,
+    changes: UpdateLibraryEntryRequest
+  ) => Promise<boolean>;
+  onRemove: (id: string) => void;
+}
+
+/**
+ * LibraryEntryCard - A saved book: cover, title (linking to where it was
+ * found), author, reading status, notes, and the concepts where the user
+ * discovered it.
+ */
+export function LibraryEntryCard({
+  entry,
+  onUpdate,
+  onRemove,
+}: LibraryEntryCardProps) {
+  const [notes, setNotes] = useState(entry.notes);
+  const [savingNotes, setSavingNotes] = useState(false);
+  const [notesError, setNotesError] = useState(false);
+
+  const handleSaveNotes = async () => {
+    setSavingNotes(true);
+    setNotesError(!(await onUpdate(entry.id, { notes })));
+    setSavingNotes(false);
+  };
+
+  return (
+    <div className="flex gap-4 p-4 rounded-xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900">
+      {entry.image_url && (
+        <Image
+          src={entry.image_url}
+          alt=""
+          width={64}
+          height={96}
+          unoptimized
+          className="w-16 h-24 object-cover rounded flex-shrink-0"
+        />
+      )}
+      <div className="min-w-0 flex-1 space-y-3">
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <p className="font-medium text-zinc-900 dark:text-zinc-100">
+              {entry.url ? (
+                <a
+                  href={entry.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="hover:underline"
+                >
+                  {entry.title}
+                </a>
+              ) : (
+                entry.title
+              )}
+            </p>
+            {entry.author && (
+              <p className="text-sm text-zinc-500 dark:text-zinc-400">
+                {entry.author}
+              </p>
+            )}
+          </div>
+          <select
+            value={entry.status}
+            onChange={(e) =>
+              onUpdate(entry.id, { status: e.target.value as LibraryStatus })
+            }
+            aria-label="Reading status"
+            className="flex-shrink-0 text-sm rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300 px-2 py-1"
+          >
+            {(Object.keys(LIBRARY_STATUS_LABELS) as LibraryStatus[]).map(
+              (status) => (
+                <option key={status} value={status}>
+                  {LIBRARY_STATUS_LABELS[status]}
+                </option>
+              )
+            )}
+          </select>
+        </div>
+
+        {entry.concepts.length > 0 && (
+          <p className="text-sm text-zinc-500 dark:text-zinc-400">
+            Discovered at{" "}
+            {entry.concepts.map((concept, index) => (
+              <span key={concept.id}>
+                {index > 0 && ", "}
+                <Link
+                  href={`/explore/${concept.slug}`}
+                  className="text-zinc-700 dark:text-zinc-300 hover:underline"
+                >
+                  {concept.name}
+                </Link>
+              </span>
+            ))}
+          </p>
+        )}
+
+        <div>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Notes"
+            rows={2}
+            className="w-full text-sm rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 placeholder:text-zinc-400 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-zinc-400"
+          />
+          <div className="flex items-center justify-between mt-1">
+            <div className="flex items-center gap-3">
+              {notes !== entry.notes && (
+                <button
+                  type="button"
+                  onClick={handleSaveNotes}
+                  disabled={savingNotes}
+                  className="text-xs font-medium text-zinc-900 dark:text-zinc-100 underline disabled:opacity-50"
+                >
+                  {savingNotes ? "Saving..." : "Save notes"}
+                </button>
+              )}
+              {notesError && (
+                <span className="text-xs text-red-600 dark:text-red-400">
+                  Couldn&apos;t save your notes
+                </span>
+              )}
+            </div>
+            <button
+              type="button"
+              onClick={() => onRemove(entry.id)}
+              className="text-xs text-zinc-500 dark:text-zinc-400 hover:text-red-600 dark:hover:text-red-400"
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
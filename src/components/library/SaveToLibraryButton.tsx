@@ -0,0 +1,44 @@
+"use client";
+
+import { useSaveToLibrary } from "@/hooks";
+import type { AddLibraryEntryRequest } from "@/types";
+
+interface SaveToLibraryButtonProps {
+  /** The book, with the concept it is being discovered at */
+  book: AddLibraryEntryRequest;
+  className?: string;
+}
+
+/**
+ * SaveToLibraryButton - Saves a book to the user's library as "want to
+ * read". A book already in the library keeps its status and notes, and
+ * gains the current concept as a place it was discovered.
+ */
+export function SaveToLibraryButton({
+  book,
+  className = "",
+}: SaveToLibraryButtonProps) {
+  const { save, saving, entry, error } = useSaveToLibrary();
+
+  if (entry) {
+    return (
+      <span
+        className={`text-xs text-green-700 dark:text-green-400 ${className}`}
+      >
+        In your library
+      </span>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={() => save(book)}
+      disabled={saving}
+      title={error ?? undefined}
+      className={`text-xs text-zinc-500 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 underline disabled:opacity-50 ${className}`}
+    >
+      {saving ? "Saving..." : error ? "Couldn't save; try again" : "Save to library"}
+    </button>
+  );
+}
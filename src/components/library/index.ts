@@ -0,0 +1,14 @@
+/**
+ * Library Components
+ *
+ * Components:
+ * - SaveToLibraryButton - Save a book to the user's library
+ * - LibraryEntryCard - A saved book with status, notes and discovery links
+ * - LIBRARY_STATUS_LABELS - Display labels for reading statuses
+ *
+ * The personal reading library: books saved from lesson reading lists and
+ * Go Deeper book search.
+ */
+
+export { SaveToLibraryButton } from "./SaveToLibraryButton";
+export { LibraryEntryCard, LIBRARY_STATUS_LABELS } from "./LibraryEntryCard";
@@ -12,7 +12,11 @@ interface SubtopicFamiliarity {
 
 interface CategoryAccordionProps {
   categories: CategoryWithSubtopics[];
+  /** Levels already saved, e.g. when revising a profile */
+  savedValues?: SubtopicFamiliarity[];
+  /** Quiz results, shown as such and taking precedence over saved levels */
   initialValues?: SubtopicFamiliarity[];
+  submitLabel?: string;
   onComplete: (familiarities: SubtopicFamiliarity[]) => void;
   onQuizRequest?: (category: string, subtopic: string) => void;
 }
@@ -23,19 +27,22 @@ interface CategoryAccordionProps {
  */
 export function CategoryAccordion({
   categories,
+  savedValues = [],
   initialValues = [],
+  submitLabel = "Continue",
   onComplete,
   onQuizRequest,
 }: CategoryAccordionProps) {
   const getSubtopicKey = (category: string, subtopic: string) =>
     `${category}|${subtopic}`;
 
-  // Initialize familiarities with any initial values (e.g., from quiz results)
+  // Initialize familiarities with saved levels, then any initial values
+  // (e.g., from quiz results)
   const [familiarities, setFamiliarities] = useState<
     Record<string, FamiliarityLevel>
   >(() => {
     const initial: Record<string, FamiliarityLevel> = {};
-    for (const val of initialValues) {
+    for (const val of [...savedValues, ...initialValues]) {
       const key = getSubtopicKey(val.category, val.subtopic);
       initial[key] = val.familiarity;
     }
@@ -251,7 +258,7 @@ export function CategoryAccordion({
         onClick={handleContinue}
         className="w-full py-3 px-4 bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 rounded-xl font-medium hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors"
       >
-        Continue
+        {submitLabel}
       </button>
     </div>
   );
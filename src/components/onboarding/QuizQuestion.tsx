@@ -9,21 +9,30 @@ interface QuizQuestionProps {
   question: string;
   options: QuizOption[];
   questionNumber: number;
-  totalQuestions: number;
+  /** Most questions the quiz will ask; it may stop sooner */
+  maxQuestions: number;
   onAnswer: (option: QuizOption) => void;
+  /** Flag the question as unfair; omitted for questions that can't be flagged */
+  onFlag?: () => void;
+  /** Whether the user has flagged this question */
+  flagged?: boolean;
   loading?: boolean;
 }
 
 /**
  * Single quiz question card with multiple choice options.
  * Shows question number, the question text, and clickable options.
+ * The quiz is adaptive, so the bar shows progress towards the cap.
+ * Bank questions can be flagged as unfair for admins to review.
  */
 export function QuizQuestion({
   question,
   options,
   questionNumber,
-  totalQuestions,
+  maxQuestions,
   onAnswer,
+  onFlag,
+  flagged = false,
   loading = false,
 }: QuizQuestionProps) {
   return (
@@ -31,12 +40,12 @@ export function QuizQuestion({
       {/* Question number */}
       <div className="flex items-center gap-2 mb-4">
         <span className="text-sm font-medium text-zinc-500 dark:text-zinc-400">
-          Question {questionNumber} of {totalQuestions}
+          Question {questionNumber} (up to {maxQuestions})
         </span>
         <div className="flex-1 h-1 bg-zinc-200 dark:bg-zinc-700 rounded-full overflow-hidden">
           <div
             className="h-full bg-zinc-900 dark:bg-zinc-100 transition-all duration-300"
-            style={{ width: `${(questionNumber / totalQuestions) * 100}%` }}
+            style={{ width: `${(questionNumber / maxQuestions) * 100}%` }}
           />
         </div>
       </div>
@@ -78,6 +87,20 @@ export function QuizQuestion({
         ))}
       </div>
 
+      {/* Flag */}
+      {onFlag && (
+        <div className="flex justify-end mt-4">
+          <button
+            type="button"
+            onClick={onFlag}
+            disabled={flagged || loading}
+            className="text-xs text-zinc-400 dark:text-zinc-500 hover:text-zinc-600 dark:hover:text-zinc-300 disabled:hover:text-zinc-400 dark:disabled:hover:text-zinc-500 disabled:cursor-default"
+          >
+            {flagged ? "Flagged, thanks" : "Flag as unfair"}
+          </button>
+        </div>
+      )}
+
       {/* Loading indicator */}
       {loading && (
         <div className="flex items-center justify-center mt-6">
@@ -1,10 +1,14 @@
 "use client";
 
 import { useState } from "react";
+import { canonicalTextName } from "@/lib/onboarding/data";
 import type { CanonicalText } from "@/types";
 
 interface TextFamiliarityListProps {
   texts: CanonicalText[];
+  /** Names of texts already marked read (as from canonicalTextName) */
+  initialRead?: string[];
+  submitLabel?: string;
   onComplete: (selections: { text_name: string; has_read: boolean }[]) => void;
 }
 
@@ -14,9 +18,18 @@ interface TextFamiliarityListProps {
  */
 export function TextFamiliarityList({
   texts,
+  initialRead = [],
+  submitLabel = "Continue",
   onComplete,
 }: TextFamiliarityListProps) {
-  const [readTexts, setReadTexts] = useState<Set<string>>(new Set());
+  const [readTexts, setReadTexts] = useState<Set<string>>(() => {
+    const read = new Set(initialRead);
+    return new Set(
+      texts
+        .filter((t) => read.has(canonicalTextName(t)))
+        .map((t) => `${t.title}|${t.author}`)
+    );
+  });
 
   const toggleText = (textKey: string) => {
     setReadTexts((prev) => {
@@ -34,7 +47,7 @@ export function TextFamiliarityList({
     const selections = texts.map((text) => {
       const textKey = `${text.title}|${text.author}`;
       return {
-        text_name: `${text.title} by ${text.author}`,
+        text_name: canonicalTextName(text),
         has_read: readTexts.has(textKey),
       };
     });
@@ -148,7 +161,7 @@ export function TextFamiliarityList({
         onClick={handleContinue}
         className="w-full py-3 px-4 bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 rounded-xl font-medium hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors"
       >
-        Continue
+        {submitLabel}
       </button>
     </div>
   );
@@ -6,27 +6,84 @@
  * Hooks:
  * - useAuth - Authentication state and methods (login, logout, signup)
  * - useProfile - User profile data and refetch
- * - useConcept - Fetch concept by slug with edges
+ * - useConcept - Fetch concept by slug with edges, streaming it in on a miss
  * - useNearestConcepts - Fetch nearest neighbor concepts via embeddings
- * - useGenerateConcept - Generate new concept via Gemini Flash
- * - useGenerateBranches - Generate 4 branches for a concept
+ * - useGenerateBranches - Generate 4 branches for a concept (as a polled job)
+ * - useBranchStats - Fetch branch choice analytics for a concept
+ * - useConceptReadings - Fetch a concept's recommended readings and toggle read status
+ * - useConceptCategories - Fetch a concept's subtopics with the user's level in each
+ * - useLessonLens - Read a lesson rewritten for a familiarity level
  * - useRateLimit - Check and track generation rate limits
  * - useSocraticDialogue - Manage Socratic dialogue state and history
- * - useDeeper - Fetch Go Deeper content (expand, videos, books)
+ * - useDeeper - Fetch Go Deeper content (streamed expand, videos, books)
  * - useExplorationPath - Track session exploration path stack
  * - useSessionCache - Cache Go Deeper content in session
- * - useGraphData - Prepare and manage graph visualization data
+ * - useGraphData - Hydrate the session graph from the user's traversal log
+ * - useGlobalGraph - Load bounded views of the shared concept graph (atlas), by category
+ * - useConceptMap - Load concepts positioned by embedding (semantic map)
+ * - useLibrary - Load the user's library and edit or remove entries
+ * - useSaveToLibrary - Save a book to the user's library
+ * - useFamiliarityProfile - Revise the familiarity profile; history and level-up suggestions
+ * - useFlaggedQuizQuestions - Review flagged quiz questions (admin)
  */
 
 import { useState, useEffect, useCallback } from "react";
 import { getSupabaseBrowserClient } from "@/lib/supabase/client";
+import { readEventStream } from "@/lib/sse";
 import type { User } from "@supabase/supabase-js";
 import type {
   UserProfile,
   LoginCredentials,
   SignupCredentials,
   AuthActionResponse,
+  Concept,
+  EdgeWithTarget,
+  ConceptWithEdges,
+  ConceptReadingsResponse,
+  LessonReading,
+  ConceptCategoriesResponse,
+  ConceptLens,
+  FamiliarityLevel,
+  LessonLensRequest,
+  LessonLensResponse,
+  UpdateTextFamiliarityRequest,
+  ConceptStreamEvent,
+  GenerateBranchesResponse,
+  GenerationJob,
+  GenerationJobResponse,
+  NearestConceptsResponse,
+  BranchStatsResponse,
+  RateLimitResponse,
+  SocraticMessage,
+  SocraticStartResponse,
+  SocraticStreamEvent,
+  ExpandStreamEvent,
+  VideoSearchResponse,
+  BookSearchResponse,
+  Video,
+  Book,
+  GraphData,
+  GlobalGraphResponse,
+  AddLibraryEntryRequest,
+  LibraryEntry,
+  LibraryEntryResponse,
+  LibraryResponse,
+  UpdateLibraryEntryRequest,
+  CategoryFamiliarity,
+  TextFamiliarity,
+  FamiliarityHistoryEntry,
+  FamiliarityHistoryResponse,
+  FamiliarityProfileResponse,
+  FamiliaritySuggestion,
+  FamiliaritySuggestionsResponse,
+  RespondToSuggestionRequest,
+  UpdateFamiliarityRequest,
+  AdminQuizQuestionResponse,
+  AdminQuizQuestionsResponse,
+  FillQuizBankResponse,
+  QuizBankQuestion,
 } from "@/types";
+import { useDeeperCacheStore, useGraphDataStore } from "@/store";
 
 // =============================================
 // AUTH HOOK
@@ -277,19 +334,1502 @@ export function useAuth(): UseAuthReturn {
   };
 }
 
+// =============================================
+// CONCEPT HOOKS
+// =============================================
+
+/** Interval between polls of a queued generation job */
+const JOB_POLL_INTERVAL_MS = 2000;
+
+/**
+ * Poll a generation job until it succeeds or fails for good, reporting
+ * each update. Returns null if isCancelled() becomes true first.
+ */
+async function pollJob(
+  jobId: string,
+  onUpdate: (job: GenerationJob) => void,
+  isCancelled: () => boolean = () => false
+): Promise<GenerationJob | null> {
+  while (!isCancelled()) {
+    await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+    if (isCancelled()) break;
+
+    const response = await fetch(`/api/jobs/${encodeURIComponent(jobId)}`);
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to check generation progress");
+    }
+
+    const { job } = data as GenerationJobResponse;
+    onUpdate(job);
+    if (job.status === "succeeded" || job.status === "failed") {
+      return job;
+    }
+  }
+  return null;
+}
+
+interface UseConceptReturn {
+  concept: Concept | null;
+  edges: EdgeWithTarget[];
+  loading: boolean;
+  /** True while a missing concept is being generated */
+  generating: boolean;
+  /** The lesson's generation job once known, for the overlay's progress */
+  job: GenerationJob | null;
+  /** Lesson prose received so far while a new concept is streamed in */
+  streamedText: string;
+  /** Set when the user has hit the hourly generation limit */
+  rateLimit: RateLimitResponse | null;
+  error: string | null;
+}
+
+/**
+ * Load a concept by slug, generating it server-side if it doesn't exist yet
+ * or is only a stub.
+ * A new lesson's prose and its job's progress are exposed as they stream
+ * in. If the lesson is being written by another request (or the stream is
+ * cut off), its job is polled until the lesson is saved.
+ *
+ * Remount (e.g. via `key={slug}`) to load a different slug.
+ */
+export function useConcept(slug: string, name?: string | null): UseConceptReturn {
+  const [state, setState] = useState<UseConceptReturn>({
+    concept: null,
+    edges: [],
+    loading: true,
+    generating: false,
+    job: null,
+    streamedText: "",
+    rateLimit: null,
+    error: null,
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const response = await fetch(
+          `/api/concepts/${encodeURIComponent(slug)}`
+        );
+
+        let generateName = name || slug.replace(/-/g, " ");
+        if (response.ok) {
+          const data: ConceptWithEdges = await response.json();
+          if (data.concept.status === "ready") {
+            if (!cancelled) {
+              setState((prev) => ({
+                ...prev,
+                concept: data.concept,
+                edges: data.edges,
+                loading: false,
+              }));
+            }
+            return;
+          }
+          // A stub (e.g. a new branch target) - write its lesson now
+          generateName = data.concept.name;
+        } else if (response.status !== 404) {
+          const data = await response.json();
+          throw new Error(data.error || "Failed to load concept");
+        }
+
+        // Not in the graph yet (or only as a stub) - generate it
+        if (cancelled) return;
+        setState((prev) => ({ ...prev, generating: true }));
+
+        const generateResponse = await fetch("/api/concepts/generate/stream", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ name: generateName }),
+        });
+
+        if (!generateResponse.ok) {
+          const data = await generateResponse.json();
+          throw new Error(data.error || "Failed to generate concept");
+        }
+
+        const setJob = (job: GenerationJob) => {
+          if (!cancelled) setState((prev) => ({ ...prev, job }));
+        };
+
+        // The lesson's job, once the stream has named it, to poll if the
+        // stream ends without the lesson
+        let jobId = null as string | null;
+        let outcome: ConceptStreamEvent | null = null;
+        try {
+          outcome = await readEventStream<ConceptStreamEvent>(
+            generateResponse,
+            (message) => {
+              if (message.event === "progress" || message.event === "queued") {
+                jobId = message.data.job.id;
+                setJob(message.data.job);
+              } else if (message.event === "delta" && !cancelled) {
+                setState((prev) => ({
+                  ...prev,
+                  streamedText: prev.streamedText + message.data.text,
+                }));
+              }
+            }
+          );
+        } catch (err) {
+          // Cut off mid-read: the job carries on server-side
+          if (!jobId) throw err;
+        }
+
+        if (outcome?.event === "rate_limited") {
+          if (!cancelled) {
+            setState((prev) => ({
+              ...prev,
+              loading: false,
+              generating: false,
+              rateLimit: outcome.data,
+            }));
+          }
+          return;
+        }
+
+        // Queued elsewhere, or the stream ended mid-job (cut off, or an
+        // attempt failed): wait for the job, then load the concept it wrote
+        if (outcome?.event !== "done" && jobId) {
+          const job = await pollJob(jobId, setJob, () => cancelled);
+          if (!job) return;
+          if (job.status === "failed" || !job.result?.slug) {
+            throw new Error("Failed to generate concept");
+          }
+
+          const conceptResponse = await fetch(
+            `/api/concepts/${encodeURIComponent(job.result.slug)}`
+          );
+          if (!conceptResponse.ok) {
+            throw new Error("Failed to load concept");
+          }
+          const data: ConceptWithEdges = await conceptResponse.json();
+          if (!cancelled) {
+            setState((prev) => ({
+              ...prev,
+              concept: data.concept,
+              edges: data.edges,
+              loading: false,
+              generating: false,
+            }));
+          }
+          return;
+        }
+
+        if (outcome?.event !== "done") {
+          throw new Error(
+            outcome?.event === "error"
+              ? outcome.data.error
+              : "Failed to generate concept"
+          );
+        }
+
+        const generated = outcome.data;
+
+        if (!cancelled) {
+          setState((prev) => ({
+            ...prev,
+            concept: generated.concept,
+            edges: [],
+            loading: false,
+            generating: false,
+          }));
+        }
+      } catch (err) {
+        console.error("Error loading concept:", err);
+        if (!cancelled) {
+          setState((prev) => ({
+            ...prev,
+            loading: false,
+            generating: false,
+            error: err instanceof Error ? err.message : "Failed to load concept",
+          }));
+        }
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [slug, name]);
+
+  return state;
+}
+
+interface UseNearestConceptsReturn {
+  concepts: Concept[];
+  loading: boolean;
+  error: string | null;
+  fetchNearest: () => Promise<void>;
+}
+
+/**
+ * Fetch the nearest existing concepts by embedding similarity (on demand).
+ */
+export function useNearestConcepts(
+  conceptId: string | null
+): UseNearestConceptsReturn {
+  const [concepts, setConcepts] = useState<Concept[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchNearest = useCallback(async () => {
+    if (!conceptId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/concepts/nearest", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ conceptId, limit: 3 }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to find nearest concepts");
+      }
+
+      setConcepts((data as NearestConceptsResponse).concepts);
+    } catch (err) {
+      console.error("Error fetching nearest concepts:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to find nearest concepts"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [conceptId]);
+
+  return { concepts, loading, error, fetchNearest };
+}
+
+interface UseGenerateBranchesReturn {
+  edges: EdgeWithTarget[];
+  loading: boolean;
+  /** The branch job while it runs */
+  job: GenerationJob | null;
+  rateLimit: RateLimitResponse | null;
+  error: string | null;
+  generate: () => Promise<void>;
+}
+
+/**
+ * Generate four new branches (constructive/critique/author/wildcard)
+ * from a concept. Generation runs as a job, which is polled until done
+ * before the concept's branches are loaded.
+ */
+export function useGenerateBranches(
+  conceptId: string | null
+): UseGenerateBranchesReturn {
+  const [edges, setEdges] = useState<EdgeWithTarget[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [job, setJob] = useState<GenerationJob | null>(null);
+  const [rateLimit, setRateLimit] = useState<RateLimitResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const generate = useCallback(async () => {
+    if (!conceptId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const branchesUrl = `/api/concepts/${encodeURIComponent(conceptId)}/branches`;
+      const response = await fetch(`${branchesUrl}/generate`, {
+        method: "POST",
+      });
+      const data = await response.json();
+
+      if (response.status === 429) {
+        setRateLimit({
+          allowed: false,
+          remaining: data.remaining ?? 0,
+          resetAt: data.resetAt ?? null,
+        });
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to generate branches");
+      }
+
+      const { job: queued } = data as GenerationJobResponse;
+      setJob(queued);
+      const finished = await pollJob(queued.id, setJob);
+      if (finished?.status !== "succeeded") {
+        throw new Error("Failed to generate branches");
+      }
+
+      const branchesResponse = await fetch(branchesUrl);
+      const branches = await branchesResponse.json();
+      if (!branchesResponse.ok) {
+        throw new Error(branches.error || "Failed to load branches");
+      }
+
+      setEdges((branches as GenerateBranchesResponse).edges);
+    } catch (err) {
+      console.error("Error generating branches:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to generate branches"
+      );
+    } finally {
+      setLoading(false);
+      setJob(null);
+    }
+  }, [conceptId]);
+
+  return { edges, loading, job, rateLimit, error, generate };
+}
+
+/**
+ * Fetch branch choice statistics for a concept
+ * (e.g. "64% of users chose Constructive").
+ */
+export function useBranchStats(
+  conceptId: string | null
+): BranchStatsResponse["stats"] {
+  const [stats, setStats] = useState<BranchStatsResponse["stats"]>([]);
+
+  useEffect(() => {
+    if (!conceptId) return;
+
+    let cancelled = false;
+
+    const fetchStats = async () => {
+      try {
+        const response = await fetch(
+          `/api/concepts/${encodeURIComponent(conceptId)}/analytics`
+        );
+        if (response.ok) {
+          const data: BranchStatsResponse = await response.json();
+          if (!cancelled) setStats(data.stats);
+        }
+      } catch (err) {
+        console.error("Error fetching branch stats:", err);
+      }
+    };
+
+    fetchStats();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [conceptId]);
+
+  return stats;
+}
+
+interface UseConceptReadingsReturn {
+  readings: LessonReading[];
+  /** Mark a canonical text read or unread (optimistic; reverts on failure) */
+  setRead: (textName: string, hasRead: boolean) => Promise<void>;
+}
+
+/**
+ * Fetch the readings a concept's lesson recommends, with the user's read
+ * status for those that are canonical texts.
+ */
+export function useConceptReadings(
+  conceptId: string | null
+): UseConceptReadingsReturn {
+  const [readings, setReadings] = useState<LessonReading[]>([]);
+
+  useEffect(() => {
+    if (!conceptId) return;
+
+    let cancelled = false;
+
+    const fetchReadings = async () => {
+      try {
+        const response = await fetch(
+          `/api/concepts/${encodeURIComponent(conceptId)}/readings`
+        );
+        if (response.ok) {
+          const data: ConceptReadingsResponse = await response.json();
+          if (!cancelled) setReadings(data.readings);
+        }
+      } catch (err) {
+        console.error("Error fetching concept readings:", err);
+      }
+    };
+
+    fetchReadings();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [conceptId]);
+
+  const setRead = useCallback(async (textName: string, hasRead: boolean) => {
+    const apply = (value: boolean) =>
+      setReadings((prev) =>
+        prev.map((reading) =>
+          reading.canonical_text_name === textName
+            ? { ...reading, has_read: value }
+            : reading
+        )
+      );
+
+    apply(hasRead);
+    try {
+      const body: UpdateTextFamiliarityRequest = {
+        text_name: textName,
+        has_read: hasRead,
+      };
+      const response = await fetch("/api/user/texts", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to update reading status");
+      }
+    } catch (err) {
+      console.error("Error updating reading status:", err);
+      apply(!hasRead);
+    }
+  }, []);
+
+  return { readings, setRead };
+}
+
+const NO_CATEGORIES: ConceptCategoriesResponse = {
+  categories: [],
+  lensLevel: null,
+};
+
+/**
+ * Fetch the subtopics a concept's lesson belongs to, with the user's
+ * familiarity level in each and the level their lens defaults to.
+ */
+export function useConceptCategories(
+  conceptId: string | null
+): ConceptCategoriesResponse {
+  const [categories, setCategories] =
+    useState<ConceptCategoriesResponse>(NO_CATEGORIES);
+
+  useEffect(() => {
+    if (!conceptId) return;
+
+    let cancelled = false;
+
+    const fetchCategories = async () => {
+      try {
+        const response = await fetch(
+          `/api/concepts/${encodeURIComponent(conceptId)}/categories`
+        );
+        if (response.ok) {
+          const data: ConceptCategoriesResponse = await response.json();
+          if (!cancelled) setCategories(data);
+        }
+      } catch (err) {
+        console.error("Error fetching concept categories:", err);
+      }
+    };
+
+    fetchCategories();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [conceptId]);
+
+  return categories;
+}
+
+interface UseLessonLensReturn {
+  /** The lens being shown, or null for the lesson as written */
+  lens: ConceptLens | null;
+  /** Level being fetched or generated */
+  loadingLevel: FamiliarityLevel | null;
+  error: string | null;
+  /** Show the lesson rewritten for a level */
+  showLevel: (level: FamiliarityLevel) => Promise<void>;
+  /** Go back to the lesson as written */
+  clear: () => void;
+}
+
+/**
+ * Read a concept's lesson rewritten for a familiarity level. Lenses are
+ * generated on first use, so the first read at a level can take a while
+ * (longer if another reader's generation has to be waited for).
+ */
+export function useLessonLens(conceptId: string | null): UseLessonLensReturn {
+  const [lens, setLens] = useState<ConceptLens | null>(null);
+  const [loadingLevel, setLoadingLevel] = useState<FamiliarityLevel | null>(
+    null
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const showLevel = useCallback(
+    async (level: FamiliarityLevel) => {
+      if (!conceptId) return;
+
+      setLoadingLevel(level);
+      setError(null);
+
+      try {
+        const body: LessonLensRequest = { level };
+        const request = () =>
+          fetch(`/api/concepts/${encodeURIComponent(conceptId)}/lens`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(body),
+          });
+
+        let response = await request();
+        if (response.status === 202) {
+          // Being written by another request: wait for its job, then fetch
+          // the stored lens
+          const { job } = (await response.json()) as GenerationJobResponse;
+          const finished = await pollJob(job.id, () => {});
+          if (finished?.status !== "succeeded") {
+            throw new Error("Failed to generate lesson lens");
+          }
+          response = await request();
+        }
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load lesson lens");
+        }
+
+        setLens((data as LessonLensResponse).lens);
+      } catch (err) {
+        console.error("Error loading lesson lens:", err);
+        setError(
+          err instanceof Error ? err.message : "Failed to load lesson lens"
+        );
+      } finally {
+        setLoadingLevel(null);
+      }
+    },
+    [conceptId]
+  );
+
+  const clear = useCallback(() => {
+    setLens(null);
+    setError(null);
+  }, []);
+
+  return {
+    // A lens fetched for the previous concept isn't shown on this one
+    lens: lens?.concept_id === conceptId ? lens : null,
+    loadingLevel,
+    error,
+    showLevel,
+    clear,
+  };
+}
+
+// =============================================
+// GO DEEPER HOOKS
+// =============================================
+
+const EMPTY_HISTORY: SocraticMessage[] = [];
+
+interface UseSocraticDialogueReturn {
+  history: SocraticMessage[];
+  /** Assistant reply received so far while a turn streams in */
+  draft: string;
+  isComplete: boolean;
+  loading: boolean;
+  error: string | null;
+  start: () => Promise<void>;
+  send: (answer: string) => Promise<void>;
+}
+
+/**
+ * Manage a Socratic dialogue for a concept.
+ * History is kept in the session Go Deeper cache so it survives revisits.
+ * Replies stream into `draft` and only enter the cached history once the
+ * turn is complete, so the cache never holds a partial reply.
+ */
+export function useSocraticDialogue(
+  conceptId: string | null
+): UseSocraticDialogueReturn {
+  const cached = useDeeperCacheStore((state) =>
+    conceptId ? state.cache[conceptId] : undefined
+  );
+  const setSocratic = useDeeperCacheStore((state) => state.setSocratic);
+  const [draft, setDraft] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const start = useCallback(async () => {
+    if (!conceptId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/deeper/socratic", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ conceptId }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to start dialogue");
+      }
+
+      const { question } = data as SocraticStartResponse;
+      setSocratic(conceptId, [{ role: "assistant", content: question }]);
+    } catch (err) {
+      console.error("Error starting Socratic dialogue:", err);
+      setError(err instanceof Error ? err.message : "Failed to start dialogue");
+    } finally {
+      setLoading(false);
+    }
+  }, [conceptId, setSocratic]);
+
+  const send = useCallback(
+    async (answer: string) => {
+      if (!conceptId) return;
+
+      const prior =
+        useDeeperCacheStore.getState().cache[conceptId]?.socratic ??
+        EMPTY_HISTORY;
+      const withAnswer: SocraticMessage[] = [
+        ...prior,
+        { role: "user", content: answer },
+      ];
+
+      // Show the learner's answer immediately
+      setSocratic(conceptId, withAnswer);
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch("/api/deeper/socratic/respond/stream", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ conceptId, history: prior, answer }),
+        });
+
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || "Failed to continue dialogue");
+        }
+
+        const outcome = await readEventStream<SocraticStreamEvent>(
+          response,
+          (message) => {
+            if (message.event === "delta") {
+              setDraft((prev) => prev + message.data.text);
+            }
+          }
+        );
+
+        if (outcome?.event !== "done") {
+          throw new Error(
+            outcome?.event === "error"
+              ? outcome.data.error
+              : "Failed to continue dialogue"
+          );
+        }
+
+        const result = outcome.data;
+        const reply = [result.response, result.question]
+          .filter(Boolean)
+          .join("\n\n");
+        const messages: SocraticMessage[] = [
+          ...withAnswer,
+          { role: "assistant", content: reply },
+        ];
+        if (result.isComplete && result.summary) {
+          messages.push({ role: "assistant", content: result.summary });
+        }
+
+        setSocratic(conceptId, messages, result.isComplete);
+      } catch (err) {
+        console.error("Error continuing Socratic dialogue:", err);
+        // Roll back so the learner can retry the same answer
+        setSocratic(conceptId, prior);
+        setError(
+          err instanceof Error ? err.message : "Failed to continue dialogue"
+        );
+      } finally {
+        setDraft("");
+        setLoading(false);
+      }
+    },
+    [conceptId, setSocratic]
+  );
+
+  return {
+    history: cached?.socratic ?? EMPTY_HISTORY,
+    draft,
+    isComplete: cached?.socraticComplete ?? false,
+    loading,
+    error,
+    start,
+    send,
+  };
+}
+
+type DeeperResource = "expanded" | "videos" | "books";
+
+interface UseDeeperReturn {
+  expanded: string | undefined;
+  /** Expanded prose received so far while it streams in */
+  expandedDraft: string;
+  videos: Video[] | undefined;
+  books: Book[] | undefined;
+  loading: Record<DeeperResource, boolean>;
+  errors: Partial<Record<DeeperResource, string>>;
+  fetchExpanded: () => Promise<void>;
+  fetchVideos: () => Promise<void>;
+  fetchBooks: () => Promise<void>;
+}
+
+/**
+ * POST a concept ID to a Go Deeper endpoint, throwing the route's error
+ * message on a non-2xx response
+ */
+async function postConceptId(
+  endpoint: string,
+  conceptId: string
+): Promise<Response> {
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ conceptId }),
+  });
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error || "Failed to load content");
+  }
+  return response;
+}
+
+/**
+ * Fetch Go Deeper content (expanded description, videos, books).
+ * The expanded description streams into `expandedDraft` as it is written.
+ * Results are cached for the session and re-served on revisits.
+ */
+export function useDeeper(conceptId: string | null): UseDeeperReturn {
+  const cached = useDeeperCacheStore((state) =>
+    conceptId ? state.cache[conceptId] : undefined
+  );
+  const setExpanded = useDeeperCacheStore((state) => state.setExpanded);
+  const setVideos = useDeeperCacheStore((state) => state.setVideos);
+  const setBooks = useDeeperCacheStore((state) => state.setBooks);
+  const [loading, setLoading] = useState<Record<DeeperResource, boolean>>({
+    expanded: false,
+    videos: false,
+    books: false,
+  });
+  const [errors, setErrors] = useState<
+    Partial<Record<DeeperResource, string>>
+  >({});
+  const [expandedDraft, setExpandedDraft] = useState("");
+
+  const request = useCallback(
+    async (resource: DeeperResource, load: (id: string) => Promise<void>) => {
+      if (!conceptId) return;
+      if (useDeeperCacheStore.getState().cache[conceptId]?.[resource]) return;
+
+      setLoading((prev) => ({ ...prev, [resource]: true }));
+      setErrors((prev) => ({ ...prev, [resource]: undefined }));
+
+      try {
+        await load(conceptId);
+      } catch (err) {
+        console.error(`Error fetching ${resource}:`, err);
+        setErrors((prev) => ({
+          ...prev,
+          [resource]: err instanceof Error ? err.message : "Failed to load",
+        }));
+      } finally {
+        setLoading((prev) => ({ ...prev, [resource]: false }));
+      }
+    },
+    [conceptId]
+  );
+
+  const fetchExpanded = useCallback(
+    () =>
+      request("expanded", async (id) => {
+        setExpandedDraft("");
+        const response = await postConceptId("/api/deeper/expand/stream", id);
+        const outcome = await readEventStream<ExpandStreamEvent>(
+          response,
+          (message) => {
+            if (message.event === "delta") {
+              setExpandedDraft((prev) => prev + message.data.text);
+            }
+          }
+        );
+
+        if (outcome?.event !== "done") {
+          throw new Error(
+            outcome?.event === "error"
+              ? outcome.data.error
+              : "Failed to load content"
+          );
+        }
+        setExpanded(id, outcome.data.expandedDescription);
+      }),
+    [request, setExpanded]
+  );
+
+  const fetchVideos = useCallback(
+    () =>
+      request("videos", async (id) => {
+        const response = await postConceptId("/api/deeper/videos", id);
+        const data: VideoSearchResponse = await response.json();
+        setVideos(id, data.videos);
+      }),
+    [request, setVideos]
+  );
+
+  const fetchBooks = useCallback(
+    () =>
+      request("books", async (id) => {
+        const response = await postConceptId("/api/deeper/books", id);
+        const data: BookSearchResponse = await response.json();
+        setBooks(id, data.books);
+      }),
+    [request, setBooks]
+  );
+
+  return {
+    expanded: cached?.expanded,
+    expandedDraft,
+    videos: cached?.videos,
+    books: cached?.books,
+    loading,
+    errors,
+    fetchExpanded,
+    fetchVideos,
+    fetchBooks,
+  };
+}
+
+// =============================================
+// GRAPH HOOKS
+// =============================================
+
+/**
+ * Hydrate the session graph store from the user's persisted exploration
+ * graph, so the unlocked graph survives reloads and new sessions.
+ * Fetches once per signed-in user.
+ */
+export function useGraphData(userId: string | null): void {
+  const hydrateGraph = useGraphDataStore((state) => state.hydrateGraph);
+
+  useEffect(() => {
+    if (!userId || useGraphDataStore.getState().ownerId === userId) return;
+
+    const loadGraph = async () => {
+      try {
+        const response = await fetch("/api/user/graph");
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load graph");
+        }
+
+        hydrateGraph(userId, data as GraphData);
+      } catch (err) {
+        console.error("Error loading exploration graph:", err);
+      }
+    };
+
+    loadGraph();
+  }, [userId, hydrateGraph]);
+}
+
+const EMPTY_GRAPH: GraphData = { nodes: [], edges: [] };
+
+interface UseGlobalGraphReturn {
+  graph: GraphData;
+  /** Concept the current neighbourhood is centred on (null for top-N view) */
+  centreId: string | null;
+  /** Category the top-N view is limited to (null for all) */
+  category: string | null;
+  loading: boolean;
+  error: string | null;
+  hasMore: boolean;
+  loadTop: () => Promise<void>;
+  /** Reload the top-N view limited to a category (null for all) */
+  filterByCategory: (category: string | null) => Promise<void>;
+  loadMore: () => Promise<void>;
+  loadNeighbourhood: (conceptId: string) => Promise<void>;
+}
+
+/**
+ * Load bounded views of the shared concept graph: pages of the most
+ * connected concepts (optionally in one category), or the neighbourhood
+ * around one concept.
+ */
+export function useGlobalGraph(): UseGlobalGraphReturn {
+  const [graph, setGraph] = useState<GraphData>(EMPTY_GRAPH);
+  const [centreId, setCentreId] = useState<string | null>(null);
+  const [category, setCategory] = useState<string | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = useCallback(
+    async (query: URLSearchParams, append: boolean) => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/graph/global?${query}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load the atlas");
+        }
+
+        const page = data as GlobalGraphResponse;
+        setGraph((prev) =>
+          append
+            ? {
+                nodes: [...prev.nodes, ...page.nodes],
+                edges: [...prev.edges, ...page.edges],
+              }
+            : { nodes: page.nodes, edges: page.edges }
+        );
+        setNextCursor(page.nextCursor);
+      } catch (err) {
+        console.error("Error loading global graph:", err);
+        setError(
+          err instanceof Error ? err.message : "Failed to load the atlas"
+        );
+      } finally {
+        setLoading(false);
+      }
+    },
+    []
+  );
+
+  const loadTop = useCallback(async () => {
+    setCentreId(null);
+    await request(
+      new URLSearchParams(category ? { category } : {}),
+      false
+    );
+  }, [request, category]);
+
+  const filterByCategory = useCallback(
+    async (next: string | null) => {
+      setCategory(next);
+      setCentreId(null);
+      await request(new URLSearchParams(next ? { category: next } : {}), false);
+    },
+    [request]
+  );
+
+  const loadMore = useCallback(async () => {
+    if (nextCursor === null || centreId) return;
+    const query = new URLSearchParams({ after: nextCursor });
+    if (category) query.set("category", category);
+    await request(query, true);
+  }, [request, nextCursor, centreId, category]);
+
+  const loadNeighbourhood = useCallback(
+    async (conceptId: string) => {
+      setCentreId(conceptId);
+      await request(new URLSearchParams({ conceptId }), false);
+    },
+    [request]
+  );
+
+  return {
+    graph,
+    centreId,
+    category,
+    loading,
+    error,
+    hasMore: nextCursor !== null && !centreId,
+    loadTop,
+    filterByCategory,
+    loadMore,
+    loadNeighbourhood,
+  };
+}
+
+interface UseConceptMapReturn {
+  graph: GraphData;
+  loading: boolean;
+  error: string | null;
+  load: () => Promise<void>;
+}
+
+/**
+ * Load the semantic map: concepts placed by the 2D projection of their
+ * embeddings, so related ideas cluster together.
+ */
+export function useConceptMap(): UseConceptMapReturn {
+  const [graph, setGraph] = useState<GraphData>(EMPTY_GRAPH);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/graph/map");
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load the map");
+      }
+
+      setGraph(data as GraphData);
+    } catch (err) {
+      console.error("Error loading concept map:", err);
+      setError(err instanceof Error ? err.message : "Failed to load the map");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { graph, loading, error, load };
+}
+
+// =============================================
+// LIBRARY HOOKS
+// =============================================
+
+interface UseLibraryReturn {
+  entries: LibraryEntry[];
+  loading: boolean;
+  error: string | null;
+  /** Change an entry's status or notes; resolves false if it failed */
+  updateEntry: (
+    id: string,
+    changes: UpdateLibraryEntryRequest
+  ) => Promise<boolean>;
+  /** Remove an entry (optimistic; restored on failure) */
+  removeEntry: (id: string) => Promise<void>;
+}
+
+/**
+ * Load the user's library, most recently updated first
+ */
+export function useLibrary(): UseLibraryReturn {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchLibrary = async () => {
+      try {
+        const response = await fetch("/api/user/library");
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load your library");
+        }
+
+        if (!cancelled) setEntries((data as LibraryResponse).entries);
+      } catch (err) {
+        console.error("Error loading library:", err);
+        if (!cancelled) {
+          setError(
+            err instanceof Error ? err.message : "Failed to load your library"
+          );
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchLibrary();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const updateEntry = useCallback(
+    async (id: string, changes: UpdateLibraryEntryRequest) => {
+      try {
+        const response = await fetch(
+          `/api/user/library/${encodeURIComponent(id)}`,
+          {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(changes),
+          }
+        );
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to update library entry");
+        }
+
+        const { entry } = data as LibraryEntryResponse;
+        setEntries((prev) => [entry, ...prev.filter((e) => e.id !== id)]);
+        return true;
+      } catch (err) {
+        console.error("Error updating library entry:", err);
+        return false;
+      }
+    },
+    []
+  );
+
+  const removeEntry = useCallback(
+    async (id: string) => {
+      const previous = entries;
+      setEntries((prev) => prev.filter((e) => e.id !== id));
+
+      try {
+        const response = await fetch(
+          `/api/user/library/${encodeURIComponent(id)}`,
+          { method: "DELETE" }
+        );
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || "Failed to remove library entry");
+        }
+      } catch (err) {
+        console.error("Error removing library entry:", err);
+        setEntries(previous);
+      }
+    },
+    [entries]
+  );
+
+  return { entries, loading, error, updateEntry, removeEntry };
+}
+
+interface UseSaveToLibraryReturn {
+  /** Save the book; saving it again only records the new concept */
+  save: (book: AddLibraryEntryRequest) => Promise<void>;
+  saving: boolean;
+  /** The saved entry, once this hook has saved the book */
+  entry: LibraryEntry | null;
+  error: string | null;
+}
+
+/**
+ * Save one book to the user's library, e.g. from a lesson's reading list
+ * or a book search result.
+ */
+export function useSaveToLibrary(): UseSaveToLibraryReturn {
+  const [saving, setSaving] = useState(false);
+  const [entry, setEntry] = useState<LibraryEntry | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = useCallback(async (book: AddLibraryEntryRequest) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/user/library", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(book),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save book");
+      }
+
+      setEntry((data as LibraryEntryResponse).entry);
+    } catch (err) {
+      console.error("Error saving book to library:", err);
+      setError(err instanceof Error ? err.message : "Failed to save book");
+    } finally {
+      setSaving(false);
+    }
+  }, []);
+
+  return { save, saving, entry, error };
+}
+
+// =============================================
+// FAMILIARITY HOOKS
+// =============================================
+
+interface FamiliarityState {
+  texts: TextFamiliarity[];
+  categories: CategoryFamiliarity[];
+  history: FamiliarityHistoryEntry[];
+  suggestions: FamiliaritySuggestion[];
+}
+
+interface UseFamiliarityProfileReturn extends FamiliarityState {
+  loading: boolean;
+  error: string | null;
+  /** Save texts read and/or subtopic levels; resolves false if it failed */
+  save: (changes: UpdateFamiliarityRequest) => Promise<boolean>;
+  /** Accept or dismiss a level-up suggestion; resolves false if it failed */
+  respondToSuggestion: (
+    suggestion: FamiliaritySuggestion,
+    accept: boolean
+  ) => Promise<boolean>;
+}
+
+/**
+ * Fetch the profile, its history and level-up suggestions. Suggestions
+ * are optional: if they fail, there are none.
+ */
+async function fetchFamiliarity(): Promise<FamiliarityState> {
+  const [profileRes, historyRes, suggestionsRes] = await Promise.all([
+    fetch("/api/user/familiarity"),
+    fetch("/api/user/familiarity/history"),
+    fetch("/api/user/familiarity/suggestions"),
+  ]);
+
+  if (!profileRes.ok || !historyRes.ok) {
+    throw new Error("Failed to load your profile");
+  }
+
+  const profile: FamiliarityProfileResponse = await profileRes.json();
+  const { history }: FamiliarityHistoryResponse = await historyRes.json();
+  const suggestions = suggestionsRes.ok
+    ? ((await suggestionsRes.json()) as FamiliaritySuggestionsResponse)
+        .suggestions
+    : [];
+
+  return { ...profile, history, suggestions };
+}
+
+/**
+ * Load the user's familiarity profile (texts read, subtopic levels) with
+ * its change history and level-up suggestions, and save revisions
+ */
+export function useFamiliarityProfile(): UseFamiliarityProfileReturn {
+  const [state, setState] = useState<FamiliarityState>({
+    texts: [],
+    categories: [],
+    history: [],
+    suggestions: [],
+  });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchFamiliarity()
+      .then((loaded) => {
+        if (!cancelled) setState(loaded);
+      })
+      .catch((err) => {
+        console.error("Error loading familiarity profile:", err);
+        if (!cancelled) {
+          setError(
+            err instanceof Error ? err.message : "Failed to load your profile"
+          );
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Saving changes the history and what can be suggested, so reload it all
+  const refresh = useCallback(async () => {
+    try {
+      setState(await fetchFamiliarity());
+    } catch (err) {
+      console.error("Error reloading familiarity profile:", err);
+    }
+  }, []);
+
+  const save = useCallback(
+    async (changes: UpdateFamiliarityRequest) => {
+      try {
+        const response = await fetch("/api/user/familiarity", {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(changes),
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to save your profile");
+        }
+
+        await refresh();
+        return true;
+      } catch (err) {
+        console.error("Error saving familiarity profile:", err);
+        return false;
+      }
+    },
+    [refresh]
+  );
+
+  const respondToSuggestion = useCallback(
+    async (suggestion: FamiliaritySuggestion, accept: boolean) => {
+      const body: RespondToSuggestionRequest = {
+        category: suggestion.category,
+        subtopic: suggestion.subtopic,
+        level: suggestion.suggested,
+        accept,
+      };
+
+      try {
+        const response = await fetch("/api/user/familiarity/suggestions", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to respond to suggestion");
+        }
+
+        await refresh();
+        return true;
+      } catch (err) {
+        console.error("Error responding to suggestion:", err);
+        return false;
+      }
+    },
+    [refresh]
+  );
+
+  return { ...state, loading, error, save, respondToSuggestion };
+}
+
+// =============================================
+// ADMIN HOOKS
+// =============================================
+
+interface UseFlaggedQuizQuestionsReturn {
+  questions: QuizBankQuestion[];
+  loading: boolean;
+  error: string | null;
+  /** Retire or restore a question; resolves false if it failed */
+  setStatus: (
+    id: string,
+    status: QuizBankQuestion["status"]
+  ) => Promise<boolean>;
+  /** Pre-generate bank questions; resolves null if it failed */
+  fillBank: () => Promise<FillQuizBankResponse | null>;
+}
+
+/**
+ * Load the quiz questions users have flagged as unfair, for admins to
+ * retire or keep
+ */
+export function useFlaggedQuizQuestions(): UseFlaggedQuizQuestionsReturn {
+  const [questions, setQuestions] = useState<QuizBankQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchQuestions = async () => {
+      try {
+        const response = await fetch("/api/admin/quiz-questions");
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load flagged questions");
+        }
+
+        if (!cancelled) {
+          setQuestions((data as AdminQuizQuestionsResponse).questions);
+        }
+      } catch (err) {
+        console.error("Error loading flagged quiz questions:", err);
+        if (!cancelled) {
+          setError(
+            err instanceof Error
+              ? err.message
+              : "Failed to load flagged questions"
+          );
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchQuestions();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const setStatus = useCallback(
+    async (id: string, status: QuizBankQuestion["status"]) => {
+      try {
+        const response = await fetch(
+          `/api/admin/quiz-questions/${encodeURIComponent(id)}`,
+          {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ status }),
+          }
+        );
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to update quiz question");
+        }
+
+        const { question } = data as AdminQuizQuestionResponse;
+        setQuestions((prev) => prev.map((q) => (q.id === id ? question : q)));
+        return true;
+      } catch (err) {
+        console.error("Error updating quiz question:", err);
+        return false;
+      }
+    },
+    []
+  );
+
+  const fillBank = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/quiz-questions/fill", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fill quiz bank");
+      }
+
+      return data as FillQuizBankResponse;
+    } catch (err) {
+      console.error("Error filling quiz bank:", err);
+      return null;
+    }
+  }, []);
+
+  return { questions, loading, error, setStatus, fillBank };
+}
+
 // =============================================
 // PLACEHOLDER EXPORTS FOR OTHER HOOKS
 // (To be implemented in later phases)
 // =============================================
 
-// These hooks will be implemented in Phase 3 (Core Exploration) and Phase 4 (Advanced Features)
-// export function useConcept(slug: string) { ... }
-// export function useNearestConcepts(conceptId: string) { ... }
-// export function useGenerateConcept() { ... }
-// export function useGenerateBranches(conceptId: string) { ... }
+// These hooks will be implemented in Phase 4 (Advanced Features)
 // export function useRateLimit() { ... }
-// export function useSocraticDialogue(conceptId: string) { ... }
-// export function useDeeper(conceptId: string) { ... }
 // export function useExplorationPath() { ... }
 // export function useSessionCache() { ... }
-// export function useGraphData() { ... }
@@ -0,0 +1,19 @@
+/**
+ * Admin Access
+ *
+ * Admins are the users whose email addresses are listed in ADMIN_EMAILS
+ * (comma-separated). Admin routes check this after the usual auth check.
+ */
+
+/**
+ * Whether an email address belongs to an admin (case-insensitive)
+ */
+export function isAdminEmail(email: string | null | undefined): boolean {
+  if (!email) return false;
+
+  const admins = (process.env.ADMIN_EMAILS || "")
+    .split(",")
+    .map((e) => e.trim().toLowerCase())
+    .filter(Boolean);
+  return admins.includes(email.toLowerCase());
+}
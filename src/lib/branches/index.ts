@@ -0,0 +1,121 @@
+/**
+ * Branch Materialisation Service
+ *
+ * Turns generated branch proposals into edges. Each target is resolved
+ * against the existing graph before anything new is generated, so
+ * popular targets (e.g. a philosopher named by many author branches)
+ * become shared nodes and the graph stays connected rather than
+ * tree-shaped:
+ *
+ * 1. Exact slug, alias slug, or normalised name (see findExistingConcept)
+ * 2. Nearest concept by embedding of the target name and branch
+ *    description, above BRANCH_TARGET_SIMILARITY_THRESHOLD
+ * 3. Otherwise, create a stub for a genuinely new concept; its lesson is
+ *    generated on first visit, so unvisited branches cost no lesson
+ */
+
+import {
+  findExistingConcept,
+  createConceptStub,
+  toConceptSlug,
+} from "@/lib/concepts";
+import { generateEmbeddings } from "@/lib/openai";
+import { createEdge, findSimilarConcept } from "@/lib/supabase";
+import type { BranchGeneration, Concept, EdgeWithTarget } from "@/types";
+
+type BranchProposal = BranchGeneration["branches"][number];
+
+/**
+ * Similarity above which an embedding neighbour is taken to be the
+ * proposed target. Deliberately conservative: the proposal's embedding
+ * comes from a one-line description rather than a full lesson, and a
+ * false match links the wrong concept for everyone.
+ */
+const BRANCH_TARGET_SIMILARITY_THRESHOLD = 0.85;
+
+/**
+ * Resolve proposals with no exact or alias match to their nearest
+ * existing concept, where one is similar enough. Embeddings for all
+ * proposals are generated in one batch.
+ */
+async function resolveByEmbedding(
+  source: Concept,
+  proposals: BranchProposal[]
+): Promise<(Concept | null)[]> {
+  const embeddings = await generateEmbeddings(
+    proposals.map((p) => `${p.target_name}: ${p.description}`)
+  );
+
+  return Promise.all(
+    embeddings.map(async (embedding) => {
+      if (!embedding) return null;
+
+      const match = await findSimilarConcept(
+        embedding,
+        BRANCH_TARGET_SIMILARITY_THRESHOLD,
+        [source.id]
+      );
+      return match?.concept ?? null;
+    })
+  );
+}
+
+/**
+ * Resolve each proposed target to a concept (existing where possible,
+ * a new stub otherwise) and link it from the source.
+ *
+ * Targets that resolve back to the source, or to a concept already linked
+ * by an earlier proposal in the batch, are skipped, as are any that fail
+ * to be created or linked.
+ *
+ * @returns The edges created (or already present) from the source
+ */
+export async function materialiseBranches(
+  source: Concept,
+  proposals: BranchProposal[]
+): Promise<EdgeWithTarget[]> {
+  // Never link a concept to itself
+  const candidates = proposals.filter(
+    (p) => toConceptSlug(p.target_name) !== source.slug
+  );
+
+  const targets = await Promise.all(
+    candidates.map((p) => findExistingConcept(p.target_name))
+  );
+
+  const unresolved = candidates.filter((_, index) => !targets[index]);
+  if (unresolved.length > 0) {
+    const neighbours = await resolveByEmbedding(source, unresolved);
+    let next = 0;
+    targets.forEach((target, index) => {
+      if (!target) targets[index] = neighbours[next++];
+    });
+  }
+
+  // Only genuinely new targets get a (stub) concept
+  const resolved = await Promise.all(
+    candidates.map(
+      async (p, index) =>
+        targets[index] ?? (await createConceptStub(p.target_name))
+    )
+  );
+
+  const linked = new Set<string>([source.id]);
+  const results = await Promise.all(
+    candidates.map(async (p, index): Promise<EdgeWithTarget | null> => {
+      const target = resolved[index];
+      if (!target || linked.has(target.id)) return null;
+      linked.add(target.id);
+
+      const edge = await createEdge(
+        source.id,
+        target.id,
+        p.type,
+        p.description
+      );
+      return edge ? { ...edge, target } : null;
+    })
+  );
+
+  return results.filter((e): e is EdgeWithTarget => e !== null);
+}
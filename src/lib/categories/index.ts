@@ -0,0 +1,186 @@
+/**
+ * Concept Classification
+ *
+ * Tags each concept with the onboarding CATEGORIES subtopics it belongs to
+ * (concept_categories), so search, the atlas and recommendations can
+ * filter by category and lessons can show the reader's level in them.
+ *
+ * A concept takes the subtopics its embedding is nearest: up to MAX_TAGS,
+ * each within TAG_MARGIN of the best and above TAG_MIN_SIMILARITY. When no
+ * subtopic is near enough, or the concept has no embedding, the LLM picks
+ * from the subtopic list instead. Subtopics are embedded with their
+ * SUBTOPIC_DESCRIPTIONS, so a short name like "Qualia" embeds richly enough
+ * to compare against a whole lesson.
+ */
+
+import {
+  CATEGORIES,
+  SUBTOPIC_DESCRIPTIONS,
+} from "@/lib/onboarding/data";
+import { generateConceptCategories } from "@/lib/gemini";
+import { generateEmbeddings } from "@/lib/openai";
+import {
+  getConceptEmbeddings,
+  getUnclassifiedConcepts,
+  saveConceptCategories,
+} from "@/lib/supabase";
+import type { Concept, ConceptCategory } from "@/types";
+
+/** Most subtopics a concept is tagged with */
+const MAX_TAGS = 3;
+
+/**
+ * Minimum cosine similarity between a concept and a subtopic to tag it
+ * without asking the LLM. Above INTEREST_MIN_SIMILARITY in
+ * lib/recommendations, since subtopics here embed with a description.
+ */
+const TAG_MIN_SIMILARITY = 0.35;
+
+/** How far below the best subtopic's similarity another may be tagged */
+const TAG_MARGIN = 0.05;
+
+type ConceptTag = Pick<
+  ConceptCategory,
+  "category" | "subtopic" | "similarity" | "method"
+>;
+
+/** Subtopic embeddings keyed "category|subtopic", built on first use */
+let subtopicEmbeddings: Map<string, number[]> | null = null;
+
+/**
+ * Embed every CATEGORIES subtopic with its description in one batch.
+ * Cached only once every subtopic has embedded, so a failed batch is
+ * retried next time.
+ */
+async function getSubtopicEmbeddings(): Promise<Map<string, number[]>> {
+  if (subtopicEmbeddings) return subtopicEmbeddings;
+
+  const subtopics = CATEGORIES.flatMap((category) =>
+    category.subtopics.map((subtopic) => ({ category: category.name, subtopic }))
+  );
+  const embeddings = await generateEmbeddings(
+    subtopics.map(
+      (s) =>
+        `${s.category}: ${s.subtopic}. ${SUBTOPIC_DESCRIPTIONS[s.subtopic] ?? ""}`
+    )
+  );
+
+  const byKey = new Map<string, number[]>();
+  subtopics.forEach((s, index) => {
+    const embedding = embeddings[index];
+    if (embedding) byKey.set(`${s.category}|${s.subtopic}`, embedding);
+  });
+
+  if (byKey.size === subtopics.length) subtopicEmbeddings = byKey;
+  return byKey;
+}
+
+/** OpenAI embeddings are unit length, so this is their cosine similarity */
+function similarity(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/** Every embedded subtopic with its similarity to an embedding, nearest first */
+async function rankSubtopics(embedding: number[]): Promise<ConceptTag[]> {
+  const subtopics = await getSubtopicEmbeddings();
+
+  return [...subtopics]
+    .map(([key, subtopic]) => {
+      const [category, name] = key.split("|");
+      return {
+        category,
+        subtopic: name,
+        similarity: similarity(embedding, subtopic),
+        method: "embedding" as const,
+      };
+    })
+    .sort((a, b) => b.similarity - a.similarity);
+}
+
+/**
+ * Choose a concept's tags: the nearest subtopics by embedding, else the
+ * LLM's choice, else (if the LLM fails or finds none) the single nearest
+ * subtopic however far, so every embedded concept gets a tag.
+ */
+async function chooseTags(
+  concept: Pick<Concept, "name" | "description">,
+  embedding: number[] | null
+): Promise<ConceptTag[]> {
+  const ranked = embedding ? await rankSubtopics(embedding) : [];
+  const best = ranked[0]?.similarity ?? 0;
+  if (best >= TAG_MIN_SIMILARITY) {
+    return ranked
+      .filter((tag) => (tag.similarity ?? 0) >= best - TAG_MARGIN)
+      .slice(0, MAX_TAGS);
+  }
+
+  const result = await generateConceptCategories(concept, CATEGORIES);
+  if (result.ok && result.data.subtopics.length > 0) {
+    return result.data.subtopics.map((s) => ({
+      category: s.category,
+      subtopic: s.subtopic,
+      similarity: null,
+      method: "llm",
+    }));
+  }
+  if (!result.ok) {
+    console.error(
+      `Classification failed for "${concept.name}" (${result.reason}):`,
+      result.message
+    );
+  }
+
+  return ranked.slice(0, 1);
+}
+
+/**
+ * Tag a concept with the subtopics it belongs to, replacing any tags it
+ * had. Classification failures are logged, not thrown: the lesson stands
+ * without tags and the admin backfill (classifyConcepts) retries it.
+ *
+ * @param embedding - The concept's embedding, if it has one
+ * @returns Whether the concept was tagged
+ */
+export async function classifyConcept(
+  concept: Pick<Concept, "id" | "name" | "description">,
+  embedding: number[] | null
+): Promise<boolean> {
+  try {
+    const tags = await chooseTags(concept, embedding);
+    if (tags.length === 0) return false;
+
+    return await saveConceptCategories(concept.id, tags);
+  } catch (error) {
+    console.error(`Error classifying "${concept.name}":`, error);
+    return false;
+  }
+}
+
+/**
+ * Tag lessons that have no category tags yet, oldest first, up to a limit
+ * per call
+ *
+ * @returns Concepts tagged, and lessons still untagged afterwards
+ */
+export async function classifyConcepts(
+  limit: number
+): Promise<{ classified: number; remaining: number }> {
+  const { concepts, total } = await getUnclassifiedConcepts(limit);
+  const embeddings = new Map(
+    (await getConceptEmbeddings(concepts.map((c) => c.id))).map((c) => [
+      c.id,
+      c.embedding,
+    ])
+  );
+
+  let classified = 0;
+  for (const concept of concepts) {
+    if (await classifyConcept(concept, embeddings.get(concept.id) ?? null)) {
+      classified++;
+    }
+  }
+
+  return { classified, remaining: total - classified };
+}
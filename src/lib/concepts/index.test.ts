@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from "vitest";
+import { normalizeConceptName } from "./index";
+
+// Concept creation's database access isn't exercised here
+vi.mock("@/lib/supabase", () => ({}));
+
+describe("normalizeConceptName", () => {
+  it("ignores case, accents and surrounding whitespace", () => {
+    expect(normalizeConceptName("  Sören KIERKEGAARD ")).toBe(
+      normalizeConceptName("soren kierkegaard")
+    );
+    expect(normalizeConceptName("Émile Durkheim")).toBe("emile durkheim");
+  });
+
+  it("ignores punctuation and apostrophes", () => {
+    expect(normalizeConceptName("Occam's Razor")).toBe("occams razor");
+    expect(normalizeConceptName("Occam’s razor")).toBe("occams razor");
+    expect(normalizeConceptName("Mind-Body Problem")).toBe("mind body problem");
+  });
+
+  it("drops a leading 'the' and spells out ampersands", () => {
+    expect(normalizeConceptName("The Republic")).toBe("republic");
+    expect(normalizeConceptName("Being & Time")).toBe("being and time");
+    expect(normalizeConceptName("Theology")).toBe("theology");
+  });
+
+  it("reorders 'Surname, Forename' names", () => {
+    expect(normalizeConceptName("Kant, Immanuel")).toBe("immanuel kant");
+    expect(normalizeConceptName("Kant, Immanuel")).toBe(
+      normalizeConceptName("immanuel kant")
+    );
+  });
+
+  it("leaves longer comma-separated phrases in order", () => {
+    expect(normalizeConceptName("Truth, beauty and the good life")).toBe(
+      "truth beauty and the good life"
+    );
+    expect(normalizeConceptName("Ethics, Politics, Rhetoric")).toBe(
+      "ethics politics rhetoric"
+    );
+  });
+
+  it("falls back to the lowercased name when nothing alphanumeric is left", () => {
+    expect(normalizeConceptName("?!")).toBe("?!");
+  });
+});
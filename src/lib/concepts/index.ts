@@ -0,0 +1,289 @@
+/**
+ * Concept Generation Service
+ *
+ * Composes the Gemini, OpenAI, and Supabase services to turn a concept name
+ * into a persisted graph node (lesson + embedding + database row). Lessons
+ * are written by the lesson job (see lib/jobs), which also resolves slugs
+ * to concepts with generate-on-miss.
+ *
+ * Branch targets are created as stubs (name only) and get their lesson on
+ * first visit, which claims the stub so only one request writes it.
+ *
+ * Names are canonicalised before anything is inserted: a name that
+ * normalises to an existing concept's name, or whose generated lesson is
+ * a near-duplicate of an existing concept, becomes an alias of it instead.
+ *
+ * Once saved, each lesson is tagged with the onboarding subtopics it
+ * belongs to (see lib/categories).
+ */
+
+import slugify from "slugify";
+import { generateLesson, streamLesson } from "@/lib/gemini";
+import { generateConceptEmbedding } from "@/lib/openai";
+import { saveConceptReadings } from "@/lib/readings";
+import { classifyConcept } from "@/lib/categories";
+import {
+  createConcept,
+  createStubConcept,
+  claimConceptGeneration,
+  completeConcept,
+  markConceptFailed,
+  createConceptAlias,
+  findSimilarConcept,
+  getConceptBySlug,
+  getConceptByNameKey,
+} from "@/lib/supabase";
+import type {
+  Concept,
+  GenerationJobStage,
+  LessonGeneration,
+} from "@/types";
+
+/**
+ * Embedding similarity above which a newly generated concept is treated
+ * as a duplicate of an existing one (e.g. "Stoicism" / "Stoic philosophy")
+ */
+const DUPLICATE_SIMILARITY_THRESHOLD = 0.93;
+
+/** A lesson generation claimed longer ago than this is assumed abandoned */
+const GENERATION_CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Convert a concept name to its canonical URL slug.
+ */
+export function toConceptSlug(name: string): string {
+  return slugify(name, { lower: true, strict: true });
+}
+
+/**
+ * Normalise a concept name for duplicate detection.
+ * Case, accents, punctuation, a leading "the", and "Surname, Forename"
+ * ordering are ignored: "Kant, Immanuel" and "immanuel kant" share a key.
+ */
+export function normalizeConceptName(name: string): string {
+  let key = name
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .trim();
+
+  // "Kant, Immanuel" -> "Immanuel Kant" (short trailing part only)
+  const parts = key.split(",").map((part) => part.trim());
+  if (
+    parts.length === 2 &&
+    parts[0] &&
+    parts[1] &&
+    parts[1].split(/\s+/).length <= 2
+  ) {
+    key = `${parts[1]} ${parts[0]}`;
+  }
+
+  const normalized = key
+    .replace(/&/g, " and ")
+    .replace(/['\u2019]/g, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim()
+    .replace(/^the /, "");
+
+  return normalized || key;
+}
+
+/**
+ * Derive a display name for a slug.
+ * Prefers the user-supplied name when it maps to the same slug,
+ * otherwise title-cases the slug.
+ */
+export function conceptNameFromSlug(slug: string, name?: string | null): string {
+  const trimmed = name?.trim();
+  if (trimmed && toConceptSlug(trimmed) === slug) {
+    return trimmed;
+  }
+
+  return slug
+    .split("-")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+/**
+ * Find the existing concept a name refers to: by slug (including alias
+ * slugs), then by normalised name. A name matched only by normalisation
+ * is recorded as an alias so its slug resolves directly next time.
+ */
+export async function findExistingConcept(
+  name: string
+): Promise<Concept | null> {
+  const slug = toConceptSlug(name);
+  const bySlug = await getConceptBySlug(slug);
+  if (bySlug) return bySlug;
+
+  const nameKey = normalizeConceptName(name);
+  const byKey = await getConceptByNameKey(nameKey);
+  if (byKey && slug) {
+    await createConceptAlias(byKey.id, name, nameKey);
+  }
+  return byKey;
+}
+
+/** Receives lesson prose as it is written during a streamed generation */
+export type LessonTextListener = (text: string) => void;
+
+/** Progress callbacks for a generation */
+export interface GenerationProgress {
+  /** If given, the lesson is streamed and its prose forwarded */
+  onText?: LessonTextListener;
+  onStage?: (stage: GenerationJobStage) => void;
+}
+
+/**
+ * Create a stub concept for a branch target: name only, with the lesson
+ * generated on first visit. Returns the existing concept if another
+ * request created it first.
+ */
+export async function createConceptStub(
+  name: string
+): Promise<Concept | null> {
+  const stub = await createStubConcept(name, normalizeConceptName(name));
+  return stub ?? findExistingConcept(name);
+}
+
+/**
+ * Write a lesson for a concept name and embed it.
+ * Returns null (after logging) if the lesson fails. A failed embedding is
+ * returned as null so the lesson isn't lost; an embedding job retries it.
+ */
+async function writeLesson(
+  name: string,
+  progress: GenerationProgress
+): Promise<{
+  description: string;
+  readings: LessonGeneration["recommended_reading"];
+  embedding: number[] | null;
+} | null> {
+  progress.onStage?.("writing");
+  const result = progress.onText
+    ? await streamLesson(name, progress.onText)
+    : await generateLesson(name);
+  if (!result.ok) {
+    console.error(
+      `Lesson generation failed for "${name}" (${result.reason}):`,
+      result.message
+    );
+    return null;
+  }
+  const lesson = result.data;
+
+  progress.onStage?.("embedding");
+  const embedding = await generateConceptEmbedding(name, lesson.description);
+  if (!embedding) {
+    console.error("Embedding generation failed for:", name);
+  }
+
+  return {
+    description: lesson.description,
+    readings: lesson.recommended_reading,
+    embedding,
+  };
+}
+
+/**
+ * Generate a lesson and embedding for a new concept name and persist it.
+ * Nothing is persisted until the whole lesson has been generated. If the
+ * lesson turns out to be a near-duplicate of an existing concept, the name
+ * is attached to that concept as an alias and the existing concept returned.
+ * (Without an embedding the duplicate check is skipped.)
+ *
+ * @param name - Display name of the concept to generate
+ * @param progress - Receives the lesson prose and generation stages
+ * @returns The created concept, or null if any step failed
+ */
+export async function generateConcept(
+  name: string,
+  progress: GenerationProgress = {}
+): Promise<Concept | null> {
+  const lesson = await writeLesson(name, progress);
+  if (!lesson) return null;
+
+  progress.onStage?.("saving");
+  const nameKey = normalizeConceptName(name);
+  const duplicate = lesson.embedding
+    ? await findSimilarConcept(lesson.embedding, DUPLICATE_SIMILARITY_THRESHOLD)
+    : null;
+  if (duplicate) {
+    await createConceptAlias(duplicate.concept.id, name, nameKey);
+    return duplicate.concept;
+  }
+
+  const concept = await createConcept(
+    name,
+    nameKey,
+    lesson.description,
+    lesson.embedding
+  );
+
+  // Another server instance may have inserted the same slug or name first
+  if (!concept) return findExistingConcept(name);
+
+  await saveConceptReadings(concept.id, lesson.readings);
+  await classifyConcept(concept, lesson.embedding);
+  return concept;
+}
+
+/**
+ * Write the lesson for a stub (or a failed or abandoned generation).
+ * The stub was already checked against existing concepts when its branch
+ * was created, so it is completed in place rather than deduplicated.
+ *
+ * @returns The completed concept, "busy" if another request holds the
+ *   claim, or null if generation failed
+ */
+async function generateStubLesson(
+  stub: Concept,
+  progress: GenerationProgress
+): Promise<Concept | "busy" | null> {
+  const staleBefore = new Date(Date.now() - GENERATION_CLAIM_TIMEOUT_MS);
+  if (!(await claimConceptGeneration(stub.id, staleBefore))) {
+    return "busy";
+  }
+
+  const lesson = await writeLesson(stub.name, progress);
+  if (!lesson) {
+    await markConceptFailed(stub.id);
+    return null;
+  }
+
+  progress.onStage?.("saving");
+  const concept = await completeConcept(
+    stub.id,
+    lesson.description,
+    lesson.embedding
+  );
+  if (!concept) {
+    await markConceptFailed(stub.id);
+    return null;
+  }
+
+  await saveConceptReadings(concept.id, lesson.readings);
+  await classifyConcept(concept, lesson.embedding);
+  return concept;
+}
+
+/**
+ * Make sure the concept a name refers to has a lesson: return it if the
+ * lesson is already written, complete it if it is a stub, or generate a new
+ * concept otherwise. This is the body of a lesson job.
+ *
+ * @returns The ready concept, "busy" if another request holds the stub's
+ *   claim, or null if generation failed
+ */
+export async function writeConceptLesson(
+  name: string,
+  progress: GenerationProgress = {}
+): Promise<Concept | "busy" | null> {
+  const existing = await findExistingConcept(name);
+  if (existing?.status === "ready") return existing;
+
+  return existing
+    ? generateStubLesson(existing, progress)
+    : generateConcept(name, progress);
+}
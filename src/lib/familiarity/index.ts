@@ -0,0 +1,113 @@
+/**
+ * Familiarity Level-up Suggestions
+ *
+ * Suggests raising a subtopic's familiarity level once the user has done
+ * enough in it since the level last changed: lessons read (user_visits)
+ * and Socratic dialogues completed (user_dialogue_completions). Each such
+ * concept counts towards every subtopic it is tagged with (see
+ * lib/categories). Dismissed suggestions aren't made again.
+ */
+
+import {
+  getActivityCategories,
+  getCategoryFamiliarity,
+  getDialogueCompletions,
+  getDismissedSuggestions,
+  getLessonVisits,
+  getLevelChangeTimes,
+} from "@/lib/supabase";
+import type { FamiliarityLevel, FamiliaritySuggestion } from "@/types";
+
+/** Points for each lesson read in a subtopic */
+const LESSON_POINTS = 1;
+
+/** Points for each Socratic dialogue completed in a subtopic */
+const DIALOGUE_POINTS = 3;
+
+type HigherLevel = Exclude<FamiliarityLevel, "beginner">;
+
+/** Points needed before suggesting a level, by the level suggested */
+const LEVEL_UP_POINTS: Record<HigherLevel, number> = {
+  intermediate: 6,
+  advanced: 12,
+};
+
+const NEXT_LEVEL: Record<FamiliarityLevel, HigherLevel | null> = {
+  beginner: "intermediate",
+  intermediate: "advanced",
+  advanced: null,
+};
+
+/**
+ * Suggest level-ups for a user's subtopics, strongest case first
+ */
+export async function suggestLevelUps(
+  userId: string
+): Promise<FamiliaritySuggestion[]> {
+  const [familiarities, lessons, dialogues, changedAt, dismissed] =
+    await Promise.all([
+      getCategoryFamiliarity(userId),
+      getLessonVisits(userId),
+      getDialogueCompletions(userId),
+      getLevelChangeTimes(userId),
+      getDismissedSuggestions(userId),
+    ]);
+
+  const candidates = familiarities.filter((f) => NEXT_LEVEL[f.familiarity]);
+  if (candidates.length === 0 || lessons.length + dialogues.length === 0) {
+    return [];
+  }
+
+  const subtopicsOf = new Map<string, string[]>();
+  for (const tag of await getActivityCategories(userId)) {
+    const keys = subtopicsOf.get(tag.concept_id) ?? [];
+    keys.push(`${tag.category}|${tag.subtopic}`);
+    subtopicsOf.set(tag.concept_id, keys);
+  }
+
+  // Count activity in each subtopic since its level last changed
+  const countSince = (activity: { conceptId: string; at: string }[]) => {
+    const counts = new Map<string, number>();
+    for (const { conceptId, at } of activity) {
+      for (const key of subtopicsOf.get(conceptId) ?? []) {
+        const since = changedAt.get(key);
+        if (since && Date.parse(at) < Date.parse(since)) continue;
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+    }
+    return counts;
+  };
+  const lessonCounts = countSince(lessons);
+  const dialogueCounts = countSince(dialogues);
+
+  const suggestions: { suggestion: FamiliaritySuggestion; points: number }[] =
+    [];
+  for (const f of candidates) {
+    const suggested = NEXT_LEVEL[f.familiarity];
+    if (!suggested) continue;
+
+    const key = `${f.category}|${f.subtopic}`;
+    if (dismissed.has(`${key}|${suggested}`)) continue;
+
+    const lessonCount = lessonCounts.get(key) ?? 0;
+    const dialogueCount = dialogueCounts.get(key) ?? 0;
+    const points = lessonCount * LESSON_POINTS + dialogueCount * DIALOGUE_POINTS;
+    if (points < LEVEL_UP_POINTS[suggested]) continue;
+
+    suggestions.push({
+      suggestion: {
+        category: f.category,
+        subtopic: f.subtopic,
+        current: f.familiarity,
+        suggested,
+        lessons: lessonCount,
+        dialogues: dialogueCount,
+      },
+      points,
+    });
+  }
+
+  return suggestions
+    .sort((a, b) => b.points - a.points)
+    .map(({ suggestion }) => suggestion);
+}
@@ -1,12 +1,33 @@
 /**
- * Google Gemini Flash LLM Integration
+ * LLM Generation
  *
- * LLM generation for lessons, dialogue, branches, and quiz questions.
- * Quiz evaluation is algorithmic (no LLM call).
- * Uses Gemini 1.5 Flash with JSON mode.
+ * LLM generation for lessons and their per-level lenses, dialogue,
+ * branches, quiz questions, and concept classification.
+ * Quiz evaluation is algorithmic (no LLM call; see src/lib/quiz).
+ * Each function is routed to the provider/model configured for its task
+ * (see src/lib/llm); the default is Gemini 1.5 Flash with JSON mode.
+ * Lessons and expanded descriptions also have streamed (plain-text)
+ * variants that forward prose as it is written.
  */
 
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import type { z } from "zod";
+import {
+  generateForTask,
+  streamForTask,
+  STREAM_DATA_DELIMITER,
+  type LlmTask,
+} from "@/lib/llm";
+import {
+  lessonSchema,
+  branchesSchema,
+  socraticQuestionSchema,
+  socraticResponseSchema,
+  expandedDescriptionSchema,
+  quizQuestionSchema,
+  keywordsSchema,
+  conceptCategoriesSchema,
+  lessonLensSchema,
+} from "./schemas";
 import type {
   Concept,
   FamiliarityLevel,
@@ -16,38 +37,14 @@ import type {
   SocraticResponseGeneration,
   ExpandedDescriptionGeneration,
   QuizQuestionGeneration,
-  QuizEvaluationGeneration,
+  ConceptCategoryGeneration,
+  CategoryWithSubtopics,
+  LessonLensGeneration,
   SocraticMessage,
   QuizAnswer,
+  GenerationResult,
 } from "@/types";
 
-// Lazy initialization of Gemini client
-let genAI: GoogleGenerativeAI | null = null;
-
-function getGenAI(): GoogleGenerativeAI {
-  if (!genAI) {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error(
-        "GEMINI_API_KEY environment variable is required. Add it to .env.local"
-      );
-    }
-    genAI = new GoogleGenerativeAI(apiKey);
-  }
-  return genAI;
-}
-
-// Get the Gemini Flash model configured for JSON output
-function getModel() {
-  return getGenAI().getGenerativeModel({
-    model: "gemini-1.5-flash",
-    generationConfig: {
-      responseMimeType: "application/json",
-      temperature: 0.7,
-    },
-  });
-}
-
 // =============================================
 // SYSTEM PROMPTS
 // =============================================
@@ -101,7 +98,7 @@ const QUIZ_SYSTEM_PROMPT = `You are designing a brief diagnostic quiz to assess
 // =============================================
 
 /**
- * Parse JSON response from Gemini, with fallback handling for malformed responses
+ * Parse a JSON response from the LLM, with fallback handling for malformed responses
  */
 function parseJsonResponse<T>(text: string): T | null {
   try {
@@ -133,6 +130,150 @@ function parseJsonResponse<T>(text: string): T | null {
   }
 }
 
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Summarise zod issues as "path: message" lines for logs and repair prompts
+ */
+function formatValidationError(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    .join("\n");
+}
+
+/**
+ * Generate JSON for a task and validate it against a schema.
+ * Invalid output is retried (up to MAX_REPAIR_ATTEMPTS times) with the
+ * validation error and the rejected response fed back to the model.
+ * Provider errors are not retried.
+ */
+async function generateValidated<T>(
+  task: LlmTask,
+  prompt: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  label: string
+): Promise<GenerationResult<T>> {
+  let attemptPrompt = prompt;
+  let failure: GenerationResult<T> = {
+    ok: false,
+    reason: "invalid_json",
+    message: "No attempts made",
+  };
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    let text: string;
+    try {
+      text = await generateForTask(task, attemptPrompt);
+    } catch (error) {
+      console.error(`Error generating ${label}:`, error);
+      return {
+        ok: false,
+        reason: "provider_error",
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    const json = parseJsonResponse<unknown>(text);
+    if (json === null) {
+      failure = {
+        ok: false,
+        reason: "invalid_json",
+        message: "The response was not valid JSON.",
+      };
+    } else {
+      const parsed = schema.safeParse(json);
+      if (parsed.success) {
+        return { ok: true, data: parsed.data };
+      }
+      failure = {
+        ok: false,
+        reason: "invalid_schema",
+        message: formatValidationError(parsed.error),
+      };
+    }
+
+    console.warn(
+      `Invalid ${label} (attempt ${attempt + 1}):`,
+      failure.message
+    );
+    attemptPrompt = `${prompt}
+
+Your previous response could not be used:
+${failure.message}
+
+Previous response:
+${text.substring(0, 2000)}
+
+Respond again with only the corrected JSON in the requested format.`;
+  }
+
+  console.error(`Giving up on ${label} after repair attempts`);
+  return failure;
+}
+
+/**
+ * Stream a plain-text response for a task, forwarding its prose to onText
+ * as it arrives, and validate the complete response once the stream ends.
+ * Any text after STREAM_DATA_DELIMITER is parsed as JSON and handed to
+ * `toOutput` with the prose, but never forwarded. Streamed output is not
+ * repaired, since its prose has already been shown.
+ */
+async function streamValidated<T>(
+  task: LlmTask,
+  prompt: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  label: string,
+  onText: (text: string) => void,
+  toOutput: (prose: string, data: unknown) => unknown
+): Promise<GenerationResult<T>> {
+  let text = "";
+  let emitted = 0;
+  let delimiterAt = -1;
+
+  try {
+    for await (const chunk of streamForTask(task, prompt)) {
+      text += chunk;
+      delimiterAt = text.indexOf(STREAM_DATA_DELIMITER);
+
+      // Hold back a tail that could be the start of the delimiter
+      const proseEnd =
+        delimiterAt === -1
+          ? text.length - STREAM_DATA_DELIMITER.length
+          : delimiterAt;
+      if (proseEnd > emitted) {
+        onText(text.slice(emitted, proseEnd));
+        emitted = proseEnd;
+      }
+    }
+  } catch (error) {
+    console.error(`Error streaming ${label}:`, error);
+    return {
+      ok: false,
+      reason: "provider_error",
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  if (delimiterAt === -1 && text.length > emitted) {
+    onText(text.slice(emitted));
+  }
+
+  const prose = delimiterAt === -1 ? text : text.slice(0, delimiterAt);
+  const dataText =
+    delimiterAt === -1
+      ? ""
+      : text.slice(delimiterAt + STREAM_DATA_DELIMITER.length).trim();
+  const data = dataText ? parseJsonResponse<unknown>(dataText) : null;
+
+  const parsed = schema.safeParse(toOutput(prose.trim(), data));
+  if (!parsed.success) {
+    const message = formatValidationError(parsed.error);
+    console.error(`Invalid streamed ${label}:`, message);
+    return { ok: false, reason: "invalid_schema", message };
+  }
+  return { ok: true, data: parsed.data };
+}
+
 /**
  * Format dialogue history for prompts
  */
@@ -159,14 +300,10 @@ function formatQuizAnswers(answers: QuizAnswer[]): string {
 // =============================================
 
 /**
- * Generate a lesson for a philosophical concept
+ * Lesson instructions shared by the JSON and streamed lesson prompts
  */
-export async function generateLesson(
-  conceptName: string
-): Promise<LessonGeneration | null> {
-  const model = getModel();
-
-  const prompt = `${LESSON_SYSTEM_PROMPT}
+function lessonBrief(conceptName: string): string {
+  return `${LESSON_SYSTEM_PROMPT}
 
 Create a lesson for the philosophical concept: "${conceptName}"
 
@@ -178,7 +315,16 @@ Provide:
    - Different perspectives or interpretations where relevant
 
 2. A list of 3-5 recommended primary texts for further reading, formatted as:
-   - "Title" by Author (Year) - One sentence on why this text is relevant
+   - "Title" by Author (Year) - One sentence on why this text is relevant`;
+}
+
+/**
+ * Generate a lesson for a philosophical concept
+ */
+export async function generateLesson(
+  conceptName: string
+): Promise<GenerationResult<LessonGeneration>> {
+  const prompt = `${lessonBrief(conceptName)}
 
 Respond in JSON format:
 {
@@ -193,14 +339,44 @@ Respond in JSON format:
   ]
 }`;
 
-  try {
-    const result = await model.generateContent(prompt);
-    const text = result.response.text();
-    return parseJsonResponse<LessonGeneration>(text);
-  } catch (error) {
-    console.error("Error generating lesson:", error);
-    return null;
-  }
+  return generateValidated("lesson", prompt, lessonSchema, "lesson");
+}
+
+/** How a lesson lens is pitched for readers at each level */
+const LENS_GUIDANCE: Record<FamiliarityLevel, string> = {
+  beginner:
+    "The reader is new to philosophy. Define every technical term, use everyday examples, focus on the core idea and one or two key figures, and avoid jargon.",
+  intermediate:
+    "The reader knows the main positions and thinkers in this area. Skip basic definitions, engage with the central arguments and objections, and name the key texts.",
+  advanced:
+    "The reader knows this area and its literature well. Assume the basics, and focus on fine distinctions, the strongest arguments on each side, open problems and current scholarly debate, using precise terminology.",
+};
+
+/**
+ * Rewrite a concept's lesson for readers at one familiarity level
+ */
+export async function generateLessonLens(
+  concept: Concept,
+  level: FamiliarityLevel
+): Promise<GenerationResult<LessonLensGeneration>> {
+  const prompt = `${LESSON_SYSTEM_PROMPT}
+
+Rewrite the lesson on the philosophical concept "${concept.name}" for a particular reader.
+
+Reader level: ${level}
+${LENS_GUIDANCE[level]}
+
+The lesson as written for a general reader:
+"${concept.description}"
+
+Write a description of 300-500 words, as plain prose paragraphs separated by blank lines, covering the same ground as the lesson: what the concept means, its origins and key figures, why it matters, and the main perspectives on it. Keep it accurate and balanced; change the depth and vocabulary, not the substance.
+
+Respond in JSON format:
+{
+  "description": "..."
+}`;
+
+  return generateValidated("lens", prompt, lessonLensSchema, "lesson lens");
 }
 
 /**
@@ -208,9 +384,7 @@ Respond in JSON format:
  */
 export async function generateBranches(
   concept: Concept
-): Promise<BranchGeneration | null> {
-  const model = getModel();
-
+): Promise<GenerationResult<BranchGeneration>> {
   const prompt = `${BRANCHES_SYSTEM_PROMPT}
 
 Given the philosophical concept "${concept.name}" with description:
@@ -254,14 +428,7 @@ Respond in JSON format:
   ]
 }`;
 
-  try {
-    const result = await model.generateContent(prompt);
-    const text = result.response.text();
-    return parseJsonResponse<BranchGeneration>(text);
-  } catch (error) {
-    console.error("Error generating branches:", error);
-    return null;
-  }
+  return generateValidated("branches", prompt, branchesSchema, "branches");
 }
 
 /**
@@ -269,9 +436,7 @@ Respond in JSON format:
  */
 export async function generateSocraticQuestion(
   concept: Concept
-): Promise<SocraticQuestionGeneration | null> {
-  const model = getModel();
-
+): Promise<GenerationResult<SocraticQuestionGeneration>> {
   const prompt = `${SOCRATIC_SYSTEM_PROMPT}
 
 Begin a Socratic dialogue exploring the concept: "${concept.name}"
@@ -289,30 +454,21 @@ Respond in JSON format:
   "context": "Brief note on what this question aims to explore"
 }`;
 
-  try {
-    const result = await model.generateContent(prompt);
-    const text = result.response.text();
-    return parseJsonResponse<SocraticQuestionGeneration>(text);
-  } catch (error) {
-    console.error("Error generating Socratic question:", error);
-    return null;
-  }
+  return generateValidated("socratic", prompt, socraticQuestionSchema, "Socratic question");
 }
 
 /**
- * Generate a Socratic response to a user's answer
+ * Socratic turn instructions shared by the JSON and streamed prompts
  */
-export async function generateSocraticResponse(
+function socraticTurnBrief(
   concept: Concept,
   history: SocraticMessage[],
   answer: string
-): Promise<SocraticResponseGeneration | null> {
-  const model = getModel();
-
+): string {
   const dialogueHistory = formatDialogueHistory(history);
   const exchangeCount = history.filter((m) => m.role === "user").length;
 
-  const prompt = `${SOCRATIC_SYSTEM_PROMPT}
+  return `${SOCRATIC_SYSTEM_PROMPT}
 
 Continue the Socratic dialogue on: "${concept.name}"
 
@@ -328,7 +484,18 @@ Respond to their answer and ask a follow-up question that:
 
 If the dialogue has reached a natural conclusion (after 4-6 exchanges, currently at ${
     exchangeCount + 1
-  }), instead provide a reflective summary.
+  }), instead provide a reflective summary.`;
+}
+
+/**
+ * Generate a Socratic response to a user's answer
+ */
+export async function generateSocraticResponse(
+  concept: Concept,
+  history: SocraticMessage[],
+  answer: string
+): Promise<GenerationResult<SocraticResponseGeneration>> {
+  const prompt = `${socraticTurnBrief(concept, history, answer)}
 
 Respond in JSON format:
 {
@@ -338,25 +505,14 @@ Respond in JSON format:
   "summary": "Only if is_complete is true, a brief reflection on what was explored"
 }`;
 
-  try {
-    const result = await model.generateContent(prompt);
-    const text = result.response.text();
-    return parseJsonResponse<SocraticResponseGeneration>(text);
-  } catch (error) {
-    console.error("Error generating Socratic response:", error);
-    return null;
-  }
+  return generateValidated("socratic", prompt, socraticResponseSchema, "Socratic response");
 }
 
 /**
- * Generate an expanded description of a concept
+ * Expanded-description instructions shared by the JSON and streamed prompts
  */
-export async function generateExpandedDescription(
-  concept: Concept
-): Promise<ExpandedDescriptionGeneration | null> {
-  const model = getModel();
-
-  const prompt = `${EXPANDED_SYSTEM_PROMPT}
+function expandedBrief(concept: Concept): string {
+  return `${EXPANDED_SYSTEM_PROMPT}
 
 Provide an expanded, in-depth explanation of: "${concept.name}"
 
@@ -370,34 +526,38 @@ Create an expanded treatment (800-1200 words) that:
 4. Addresses major criticisms and defenses
 5. Discusses contemporary relevance or applications
 
-Do not simply repeat the original description—assume the reader has read it and wants to go further.
+Do not simply repeat the original description—assume the reader has read it and wants to go further.`;
+}
+
+/**
+ * Generate an expanded description of a concept
+ */
+export async function generateExpandedDescription(
+  concept: Concept
+): Promise<GenerationResult<ExpandedDescriptionGeneration>> {
+  const prompt = `${expandedBrief(concept)}
 
 Respond in JSON format:
 {
   "expanded_description": "..."
 }`;
 
-  try {
-    const result = await model.generateContent(prompt);
-    const text = result.response.text();
-    return parseJsonResponse<ExpandedDescriptionGeneration>(text);
-  } catch (error) {
-    console.error("Error generating expanded description:", error);
-    return null;
-  }
+  return generateValidated("expanded", prompt, expandedDescriptionSchema, "expanded description");
 }
 
 /**
- * Generate a quiz question for familiarity assessment
+ * Generate a quiz question for familiarity assessment, pitched at the
+ * difficulty the adaptive quiz (src/lib/quiz) asks for next
  */
 export async function generateQuizQuestion(
   category: string,
   subtopic: string,
+  difficulty: FamiliarityLevel,
   priorAnswers?: QuizAnswer[]
-): Promise<QuizQuestionGeneration | null> {
-  const model = getModel();
-
-  const priorQA = priorAnswers ? formatQuizAnswers(priorAnswers) : "None yet.";
+): Promise<GenerationResult<QuizQuestionGeneration>> {
+  const priorQA = priorAnswers?.length
+    ? formatQuizAnswers(priorAnswers)
+    : "None yet.";
 
   const prompt = `${QUIZ_SYSTEM_PROMPT}
 
@@ -406,6 +566,8 @@ Create a quiz question to assess familiarity with: "${subtopic}" (within ${categ
 Prior questions and answers in this quiz:
 ${priorQA}
 
+Target difficulty: ${difficulty}. Pitch the question so that it takes ${difficulty}-level understanding to pick the best answer, and ask about a different aspect of the topic than the prior questions.
+
 Generate a question that helps distinguish the user's familiarity level. Include:
 - A clear question
 - 4 answer options (one clearly beginner-level, one intermediate, one advanced, one incorrect)
@@ -423,75 +585,45 @@ Respond in JSON format:
   "explanation": "Brief note on what each answer reveals about familiarity"
 }`;
 
-  try {
-    const result = await model.generateContent(prompt);
-    const text = result.response.text();
-    return parseJsonResponse<QuizQuestionGeneration>(text);
-  } catch (error) {
-    console.error("Error generating quiz question:", error);
-    return null;
-  }
+  return generateValidated("quiz", prompt, quizQuestionSchema, "quiz question");
 }
 
 /**
- * Evaluate quiz results to determine familiarity level (algorithmic, not LLM-based)
- *
- * Scoring: incorrect=0, beginner=1, intermediate=2, advanced=3
- * Thresholds: avg < 1.0 → beginner, avg < 2.0 → intermediate, avg >= 2.0 → advanced
+ * Classify a concept into the given categories' subtopics, for concepts
+ * no subtopic embedding is near enough to (see src/lib/categories)
  */
-export function evaluateQuizResult(
-  answers: QuizAnswer[]
-): QuizEvaluationGeneration {
-  const levelScores: Record<string, number> = {
-    incorrect: 0,
-    beginner: 1,
-    intermediate: 2,
-    advanced: 3,
-  };
-
-  if (answers.length === 0) {
-    return {
-      familiarity: "beginner",
-      reasoning: "No answers provided; defaulting to beginner level.",
-    };
-  }
+export async function generateConceptCategories(
+  concept: Pick<Concept, "name" | "description">,
+  categories: CategoryWithSubtopics[]
+): Promise<GenerationResult<ConceptCategoryGeneration>> {
+  const subtopicList = categories
+    .flatMap((c) => c.subtopics.map((subtopic) => `- ${c.name}: ${subtopic}`))
+    .join("\n");
+  const opening = concept.description.split(/\n\s*\n/)[0].trim();
 
-  // Calculate score
-  const totalScore = answers.reduce(
-    (sum, a) => sum + (levelScores[a.level] ?? 0),
-    0
-  );
-  const avgScore = totalScore / answers.length;
+  const prompt = `Classify the philosophical concept "${concept.name}" by the areas of philosophy it belongs to.
 
-  // Count answer types for reasoning
-  const counts = answers.reduce(
-    (acc, a) => {
-      acc[a.level] = (acc[a.level] || 0) + 1;
-      return acc;
-    },
-    {} as Record<string, number>
-  );
+Its lesson opens:
+${opening || "(no lesson yet)"}
 
-  // Determine familiarity level
-  let familiarity: FamiliarityLevel;
-  if (avgScore < 1.0) {
-    familiarity = "beginner";
-  } else if (avgScore < 2.0) {
-    familiarity = "intermediate";
-  } else {
-    familiarity = "advanced";
-  }
+Subtopics, as Category: Subtopic:
+${subtopicList}
 
-  // Generate reasoning
-  const parts: string[] = [];
-  if (counts.advanced) parts.push(`${counts.advanced} advanced`);
-  if (counts.intermediate) parts.push(`${counts.intermediate} intermediate`);
-  if (counts.beginner) parts.push(`${counts.beginner} beginner`);
-  if (counts.incorrect) parts.push(`${counts.incorrect} incorrect`);
+Choose the 1-3 subtopics the concept belongs to most, best fit first. Use only subtopics from the list, with the category and subtopic spelled exactly as given. If none fits, return an empty list.
 
-  const reasoning = `Based on ${answers.length} answers (${parts.join(", ")}), average score ${avgScore.toFixed(1)}/3.0 indicates ${familiarity} familiarity.`;
+Respond in JSON format:
+{
+  "subtopics": [
+    { "category": "...", "subtopic": "..." }
+  ]
+}`;
 
-  return { familiarity, reasoning };
+  return generateValidated(
+    "classify",
+    prompt,
+    conceptCategoriesSchema,
+    "concept categories"
+  );
 }
 
 /**
@@ -499,9 +631,7 @@ export function evaluateQuizResult(
  */
 export async function generateVideoKeywords(
   conceptName: string
-): Promise<string | null> {
-  const model = getModel();
-
+): Promise<string> {
   const prompt = `Generate 2-3 search keywords for finding educational philosophy videos about "${conceptName}".
 
 Include the concept name and one or two related terms (philosopher names, schools of thought).
@@ -511,15 +641,13 @@ Return only a comma-separated list, no explanations. Format as JSON:
   "keywords": "..."
 }`;
 
-  try {
-    const result = await model.generateContent(prompt);
-    const text = result.response.text();
-    const parsed = parseJsonResponse<{ keywords: string }>(text);
-    return parsed?.keywords || `${conceptName} philosophy`;
-  } catch (error) {
-    console.error("Error generating video keywords:", error);
-    return `${conceptName} philosophy`;
-  }
+  const result = await generateValidated(
+    "keywords",
+    prompt,
+    keywordsSchema,
+    "video keywords"
+  );
+  return result.ok ? result.data.keywords : `${conceptName} philosophy`;
 }
 
 /**
@@ -527,9 +655,7 @@ Return only a comma-separated list, no explanations. Format as JSON:
  */
 export async function generateBookKeywords(
   conceptName: string
-): Promise<string | null> {
-  const model = getModel();
-
+): Promise<string> {
   const prompt = `Generate 3-5 search keywords for finding philosophy books about "${conceptName}".
 
 Include:
@@ -542,13 +668,107 @@ Return only a comma-separated list, no explanations. Format as JSON:
   "keywords": "..."
 }`;
 
-  try {
-    const result = await model.generateContent(prompt);
-    const text = result.response.text();
-    const parsed = parseJsonResponse<{ keywords: string }>(text);
-    return parsed?.keywords || `${conceptName} philosophy book`;
-  } catch (error) {
-    console.error("Error generating book keywords:", error);
-    return `${conceptName} philosophy book`;
-  }
+  const result = await generateValidated(
+    "keywords",
+    prompt,
+    keywordsSchema,
+    "book keywords"
+  );
+  return result.ok ? result.data.keywords : `${conceptName} philosophy book`;
+}
+
+// =============================================
+// STREAMING GENERATION FUNCTIONS
+// =============================================
+
+/**
+ * Stream a lesson for a philosophical concept.
+ * The description is forwarded to onText as it is written; the reading
+ * list follows it as JSON and is only parsed once the stream completes.
+ */
+export async function streamLesson(
+  conceptName: string,
+  onText: (text: string) => void
+): Promise<GenerationResult<LessonGeneration>> {
+  const prompt = `${lessonBrief(conceptName)}
+
+Write the description first, as plain prose paragraphs (no JSON, headings, or markdown). Then, on its own line, write ${STREAM_DATA_DELIMITER} followed by the reading list in JSON format:
+{
+  "recommended_reading": [
+    {
+      "title": "...",
+      "author": "...",
+      "year": "...",
+      "relevance": "..."
+    }
+  ]
+}`;
+
+  return streamValidated(
+    "lesson",
+    prompt,
+    lessonSchema,
+    "lesson",
+    onText,
+    (prose, data) => ({
+      description: prose,
+      recommended_reading: (data as { recommended_reading?: unknown } | null)
+        ?.recommended_reading,
+    })
+  );
+}
+
+/**
+ * Stream an expanded description of a concept as it is written
+ */
+export async function streamExpandedDescription(
+  concept: Concept,
+  onText: (text: string) => void
+): Promise<GenerationResult<ExpandedDescriptionGeneration>> {
+  const prompt = `${expandedBrief(concept)}
+
+Write plain prose paragraphs separated by blank lines (no JSON, headings, or markdown).`;
+
+  return streamValidated(
+    "expanded",
+    prompt,
+    expandedDescriptionSchema,
+    "expanded description",
+    onText,
+    (prose) => ({ expanded_description: prose })
+  );
+}
+
+/**
+ * Stream a Socratic response to a user's answer.
+ * The response text is forwarded to onText as it is written; the
+ * follow-up question, completion flag, and summary follow it as JSON and
+ * are only parsed once the stream completes.
+ */
+export async function streamSocraticResponse(
+  concept: Concept,
+  history: SocraticMessage[],
+  answer: string,
+  onText: (text: string) => void
+): Promise<GenerationResult<SocraticResponseGeneration>> {
+  const prompt = `${socraticTurnBrief(concept, history, answer)}
+
+Write your response to their answer first, as plain prose (no JSON or markdown), without the follow-up question. Then, on its own line, write ${STREAM_DATA_DELIMITER} followed by the rest in JSON format:
+{
+  "question": "Your follow-up question (or null if concluding)",
+  "is_complete": false,
+  "summary": "Only if is_complete is true, a brief reflection on what was explored"
+}`;
+
+  return streamValidated(
+    "socratic",
+    prompt,
+    socraticResponseSchema,
+    "Socratic response",
+    onText,
+    (prose, data) => ({
+      ...(typeof data === "object" ? data : {}),
+      response: prose,
+    })
+  );
 }
@@ -0,0 +1,232 @@
+import { describe, expect, it } from "vitest";
+import {
+  branchesSchema,
+  conceptCategoriesSchema,
+  expandedDescriptionSchema,
+  keywordsSchema,
+  lessonLensSchema,
+  lessonSchema,
+  quizQuestionSchema,
+  socraticQuestionSchema,
+  socraticResponseSchema,
+} from "./schemas";
+
+const BRANCHES = [
+  {
+    type: "constructive",
+    target_name: "Stoicism",
+    description: "Builds on it",
+  },
+  { type: "critique", target_name: "Skepticism", description: "Challenges it" },
+  { type: "author", target_name: "Seneca", description: "Wrote on it" },
+  { type: "wildcard", target_name: "Zen", description: "A parallel" },
+];
+
+describe("lessonSchema", () => {
+  it("coerces numeric years and fills in missing optionals", () => {
+    const result = lessonSchema.parse({
+      description: "A lesson",
+      recommended_reading: [
+        { title: "Meditations", author: "Marcus Aurelius", year: 180 },
+      ],
+    });
+
+    expect(result.recommended_reading).toEqual([
+      {
+        title: "Meditations",
+        author: "Marcus Aurelius",
+        year: "180",
+        relevance: "",
+      },
+    ]);
+    expect(
+      lessonSchema.parse({ description: "A lesson" }).recommended_reading
+    ).toEqual([]);
+  });
+
+  it("rejects a blank description or reading title", () => {
+    expect(lessonSchema.safeParse({ description: "  " }).success).toBe(false);
+    expect(
+      lessonSchema.safeParse({
+        description: "A lesson",
+        recommended_reading: [{ title: "", author: "Kant", year: "1781" }],
+      }).success
+    ).toBe(false);
+  });
+});
+
+describe("branchesSchema", () => {
+  it("accepts one branch of each type", () => {
+    expect(branchesSchema.parse({ branches: BRANCHES }).branches).toHaveLength(
+      4
+    );
+  });
+
+  it("rejects a repeated type", () => {
+    const branches = [
+      ...BRANCHES.slice(0, 3),
+      { ...BRANCHES[3], type: "critique" },
+    ];
+    expect(branchesSchema.safeParse({ branches }).success).toBe(false);
+  });
+
+  it("rejects more or fewer than four branches", () => {
+    expect(
+      branchesSchema.safeParse({ branches: BRANCHES.slice(0, 3) }).success
+    ).toBe(false);
+    expect(
+      branchesSchema.safeParse({ branches: [...BRANCHES, BRANCHES[0]] }).success
+    ).toBe(false);
+  });
+
+  it("rejects an unknown type", () => {
+    const branches = [
+      ...BRANCHES.slice(0, 3),
+      { ...BRANCHES[3], type: "tangent" },
+    ];
+    expect(branchesSchema.safeParse({ branches }).success).toBe(false);
+  });
+});
+
+describe("socraticQuestionSchema", () => {
+  it("defaults a missing context to empty", () => {
+    expect(socraticQuestionSchema.parse({ question: "Why?" })).toEqual({
+      question: "Why?",
+      context: "",
+    });
+  });
+});
+
+describe("socraticResponseSchema", () => {
+  it("requires a follow-up question while the dialogue continues", () => {
+    expect(
+      socraticResponseSchema.safeParse({ response: "Good", is_complete: false })
+        .success
+    ).toBe(false);
+    expect(
+      socraticResponseSchema.safeParse({
+        response: "Good",
+        question: "  ",
+        is_complete: false,
+      }).success
+    ).toBe(false);
+    expect(
+      socraticResponseSchema.parse({
+        response: "Good",
+        question: "And then?",
+        is_complete: false,
+      }).question
+    ).toBe("And then?");
+  });
+
+  it("allows no question once the dialogue is complete", () => {
+    expect(
+      socraticResponseSchema.parse({
+        response: "Well done",
+        is_complete: true,
+        summary: "You got there",
+      })
+    ).toEqual({
+      response: "Well done",
+      question: null,
+      is_complete: true,
+      summary: "You got there",
+    });
+  });
+});
+
+describe("expandedDescriptionSchema", () => {
+  it("rejects a blank description", () => {
+    expect(
+      expandedDescriptionSchema.safeParse({ expanded_description: "" }).success
+    ).toBe(false);
+    expect(
+      expandedDescriptionSchema.parse({ expanded_description: "More detail" })
+    ).toEqual({ expanded_description: "More detail" });
+  });
+});
+
+describe("quizQuestionSchema", () => {
+  const options = [
+    { text: "A", level: "beginner" },
+    { text: "B", level: "incorrect" },
+  ];
+
+  it("accepts two or more leveled options, defaulting the explanation", () => {
+    expect(quizQuestionSchema.parse({ question: "Q?", options })).toEqual({
+      question: "Q?",
+      options,
+      explanation: "",
+    });
+  });
+
+  it("rejects a single option or an unknown level", () => {
+    expect(
+      quizQuestionSchema.safeParse({
+        question: "Q?",
+        options: options.slice(0, 1),
+      }).success
+    ).toBe(false);
+    expect(
+      quizQuestionSchema.safeParse({
+        question: "Q?",
+        options: [...options, { text: "C", level: "expert" }],
+      }).success
+    ).toBe(false);
+  });
+});
+
+describe("keywordsSchema", () => {
+  it("trims the keywords and rejects blanks", () => {
+    expect(keywordsSchema.parse({ keywords: " stoic virtue " })).toEqual({
+      keywords: "stoic virtue",
+    });
+    expect(keywordsSchema.safeParse({ keywords: " " }).success).toBe(false);
+  });
+});
+
+describe("conceptCategoriesSchema", () => {
+  it("accepts up to three listed subtopics", () => {
+    const subtopics = [
+      { category: "Ethics", subtopic: "Virtue Ethics" },
+      { category: "Metaphysics", subtopic: "Free Will" },
+    ];
+    expect(conceptCategoriesSchema.parse({ subtopics })).toEqual({
+      subtopics,
+    });
+    expect(conceptCategoriesSchema.parse({ subtopics: [] })).toEqual({
+      subtopics: [],
+    });
+  });
+
+  it("rejects subtopics that aren't listed under their category", () => {
+    expect(
+      conceptCategoriesSchema.safeParse({
+        subtopics: [{ category: "Ethics", subtopic: "Free Will" }],
+      }).success
+    ).toBe(false);
+    expect(
+      conceptCategoriesSchema.safeParse({
+        subtopics: [{ category: "Ethics", subtopic: "virtue ethics" }],
+      }).success
+    ).toBe(false);
+  });
+
+  it("rejects more than three subtopics", () => {
+    const subtopic = { category: "Ethics", subtopic: "Deontology" };
+    expect(
+      conceptCategoriesSchema.safeParse({ subtopics: Array(4).fill(subtopic) })
+        .success
+    ).toBe(false);
+  });
+});
+
+describe("lessonLensSchema", () => {
+  it("trims the rewritten description and rejects blanks", () => {
+    expect(lessonLensSchema.parse({ description: " Simpler \n" })).toEqual({
+      description: "Simpler",
+    });
+    expect(lessonLensSchema.safeParse({ description: "" }).success).toBe(false);
+    expect(lessonLensSchema.safeParse({}).success).toBe(false);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Zod schemas for LLM generation outputs
+ *
+ * Each schema mirrors a generation type in @/types and is checked against
+ * it, so the validated data can be returned without casting. Lenient
+ * coercions cover common model quirks (numeric years, missing optionals).
+ */
+
+import { z } from "zod";
+import { isCategorySubtopic } from "@/lib/onboarding/data";
+import type {
+  LessonGeneration,
+  BranchGeneration,
+  SocraticQuestionGeneration,
+  SocraticResponseGeneration,
+  ExpandedDescriptionGeneration,
+  QuizQuestionGeneration,
+  ConceptCategoryGeneration,
+  LessonLensGeneration,
+} from "@/types";
+
+const BRANCH_TYPES = ["constructive", "critique", "author", "wildcard"] as const;
+
+const nonEmpty = z.string().trim().min(1);
+
+export const lessonSchema: z.ZodType<LessonGeneration, z.ZodTypeDef, unknown> =
+  z.object({
+    description: nonEmpty,
+    recommended_reading: z
+      .array(
+        z.object({
+          title: nonEmpty,
+          author: nonEmpty,
+          year: z.union([z.string(), z.number()]).transform(String),
+          relevance: z.string().default(""),
+        })
+      )
+      .default([]),
+  });
+
+export const branchesSchema: z.ZodType<
+  BranchGeneration,
+  z.ZodTypeDef,
+  unknown
+> = z.object({
+  branches: z
+    .array(
+      z.object({
+        type: z.enum(BRANCH_TYPES),
+        target_name: nonEmpty,
+        description: nonEmpty,
+      })
+    )
+    .length(4)
+    .refine(
+      (branches) => new Set(branches.map((b) => b.type)).size === 4,
+      "branches must include each type (constructive, critique, author, wildcard) exactly once"
+    ),
+});
+
+export const socraticQuestionSchema: z.ZodType<
+  SocraticQuestionGeneration,
+  z.ZodTypeDef,
+  unknown
+> = z.object({
+  question: nonEmpty,
+  context: z.string().default(""),
+});
+
+export const socraticResponseSchema: z.ZodType<
+  SocraticResponseGeneration,
+  z.ZodTypeDef,
+  unknown
+> = z
+  .object({
+    response: nonEmpty,
+    question: z.string().nullable().default(null),
+    is_complete: z.boolean(),
+    summary: z.string().optional(),
+  })
+  .refine(
+    (r) => r.is_complete || !!r.question?.trim(),
+    "question is required while is_complete is false"
+  );
+
+export const expandedDescriptionSchema: z.ZodType<
+  ExpandedDescriptionGeneration,
+  z.ZodTypeDef,
+  unknown
+> = z.object({
+  expanded_description: nonEmpty,
+});
+
+export const quizQuestionSchema: z.ZodType<
+  QuizQuestionGeneration,
+  z.ZodTypeDef,
+  unknown
+> = z.object({
+  question: nonEmpty,
+  options: z
+    .array(
+      z.object({
+        text: nonEmpty,
+        level: z.enum(["beginner", "intermediate", "advanced", "incorrect"]),
+      })
+    )
+    .min(2),
+  explanation: z.string().default(""),
+});
+
+export const keywordsSchema = z.object({
+  keywords: nonEmpty,
+});
+
+export const lessonLensSchema: z.ZodType<
+  LessonLensGeneration,
+  z.ZodTypeDef,
+  unknown
+> = z.object({
+  description: nonEmpty,
+});
+
+export const conceptCategoriesSchema: z.ZodType<
+  ConceptCategoryGeneration,
+  z.ZodTypeDef,
+  unknown
+> = z.object({
+  subtopics: z
+    .array(z.object({ category: nonEmpty, subtopic: nonEmpty }))
+    .max(3)
+    .refine(
+      (subtopics) =>
+        subtopics.every((s) => isCategorySubtopic(s.category, s.subtopic)),
+      "each subtopic must be one of the listed subtopics, spelled exactly"
+    ),
+});
@@ -0,0 +1,401 @@
+/**
+ * Generation Job Worker
+ *
+ * Long LLM calls run as durable jobs in the generation_jobs table rather
+ * than inline in a request, so a serverless timeout can't lose them:
+ *
+ * - lesson: write the lesson for a concept name (new concept or stub)
+ * - branches: propose four branches from a concept and link their targets
+ * - embedding: embed a concept whose lesson was saved without one
+ * - lens: rewrite a concept's lesson for one familiarity level
+ *
+ * Each job has an idempotency key naming its unit of work, so repeated
+ * requests join the live job instead of queueing another. The request that
+ * queues a job usually runs it straight away. A failed attempt is retried
+ * with exponential backoff, and a job whose runner died is reclaimed once
+ * its lease expires, either by the next poll of that job or by the worker
+ * route (POST /api/jobs/run).
+ */
+
+import {
+  conceptNameFromSlug,
+  findExistingConcept,
+  normalizeConceptName,
+  writeConceptLesson,
+  type GenerationProgress,
+  type LessonTextListener,
+} from "@/lib/concepts";
+import { materialiseBranches } from "@/lib/branches";
+import { generateBranches } from "@/lib/gemini";
+import { getLessonLens } from "@/lib/lenses";
+import { generateConceptEmbedding } from "@/lib/openai";
+import {
+  checkRateLimit,
+  claimGenerationJob,
+  completeGenerationJob,
+  failGenerationJob,
+  getConceptById,
+  getDueGenerationJobs,
+  getGenerationJob,
+  getGenerationJobByKey,
+  insertGenerationJob,
+  logGeneration,
+  requeueGenerationJob,
+  setGenerationJobStage,
+  updateConceptEmbedding,
+} from "@/lib/supabase";
+import type {
+  Concept,
+  GenerationJob,
+  GenerationJobKind,
+  GenerationJobResult,
+} from "@/types";
+
+/** How long an attempt may run before another worker may reclaim the job */
+const JOB_LEASE_MS = 5 * 60 * 1000;
+
+/** Delay before the first retry; doubles with each further attempt */
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+
+/** Upper bound on the retry delay */
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+
+/** Outcome of resolving a slug through the generate-on-miss pipeline */
+export type ConceptResolution =
+  | { status: "found"; concept: Concept }
+  | { status: "generated"; concept: Concept }
+  | { status: "rate_limited"; remaining: number; resetAt: string | null }
+  /** The lesson is being written elsewhere or awaits a retry; poll the job */
+  | { status: "queued"; job: GenerationJob }
+  | { status: "failed" };
+
+/** Callbacks for a job attempt run by the current request */
+export interface JobListeners {
+  /** Lesson prose as it is written (lesson jobs) */
+  onText?: LessonTextListener;
+  /** The job was claimed or moved to a new stage */
+  onProgress?: (job: GenerationJob) => void;
+}
+
+/**
+ * Runs one attempt of a job. Throws (with a message worth storing as the
+ * job's last_error) if the attempt failed and should be retried.
+ */
+type JobHandler = (
+  job: GenerationJob,
+  progress: GenerationProgress
+) => Promise<GenerationJobResult>;
+
+/**
+ * Idempotency key for a unit of generation work, e.g. "branches:<id>".
+ * Lessons are keyed by normalised name, since a new concept has no ID yet.
+ */
+export function jobKey(kind: GenerationJobKind, subject: string): string {
+  return `${kind}:${subject}`;
+}
+
+/** Whether a job is still waiting to run or running */
+function isLive(job: GenerationJob): boolean {
+  return job.status === "queued" || job.status === "running";
+}
+
+/**
+ * Whether a job can be claimed now: queued past its backoff, or running
+ * with an expired lease.
+ */
+export function isJobDue(job: GenerationJob, now = Date.now()): boolean {
+  if (job.status === "queued") {
+    return new Date(job.run_after).getTime() <= now;
+  }
+  return (
+    job.status === "running" &&
+    job.locked_until !== null &&
+    new Date(job.locked_until).getTime() < now
+  );
+}
+
+/** Exponential backoff before retrying after the given attempt */
+function retryDelayMs(attempt: number): number {
+  return Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+}
+
+/**
+ * Get the queued or running job for an idempotency key, if there is one
+ */
+export async function getLiveJob(key: string): Promise<GenerationJob | null> {
+  const job = await getGenerationJobByKey(key);
+  return job && isLive(job) ? job : null;
+}
+
+/**
+ * Queue a job unless one with the same key is already live, in which case
+ * that job is returned. A finished job with the key is re-queued with fresh
+ * attempts, so the key names the work rather than a single run of it.
+ *
+ * @returns The live job and whether this call queued it, or null on error
+ */
+export async function enqueueJob(
+  kind: GenerationJobKind,
+  key: string,
+  payload: GenerationJob["payload"],
+  conceptId: string | null,
+  userId: string | null
+): Promise<{ job: GenerationJob; queued: boolean } | null> {
+  const existing = await getGenerationJobByKey(key);
+  if (existing && isLive(existing)) {
+    return { job: existing, queued: false };
+  }
+
+  const job = existing
+    ? await requeueGenerationJob(existing.id, payload, userId)
+    : await insertGenerationJob(kind, key, payload, conceptId, userId);
+  if (job) return { job, queued: true };
+
+  // Another request queued it first
+  const current = await getGenerationJobByKey(key);
+  return current ? { job: current, queued: false } : null;
+}
+
+const runLessonJob: JobHandler = async (job, progress) => {
+  const name = job.payload.name;
+  if (!name) {
+    throw new Error("Lesson job has no concept name");
+  }
+
+  const concept = await writeConceptLesson(name, progress);
+  if (concept === "busy") {
+    throw new Error(`Lesson for "${name}" is claimed by another request`);
+  }
+  if (!concept) {
+    throw new Error(`Lesson generation failed for "${name}"`);
+  }
+
+  // The lesson is saved either way; embed it separately so a failed
+  // embedding doesn't cost a second lesson
+  if (!concept.embedding) {
+    await enqueueJob(
+      "embedding",
+      jobKey("embedding", concept.id),
+      {},
+      concept.id,
+      job.requested_by
+    );
+  }
+
+  return { conceptId: concept.id, slug: concept.slug };
+};
+
+const runBranchesJob: JobHandler = async (job, progress) => {
+  const concept = job.concept_id ? await getConceptById(job.concept_id) : null;
+  if (!concept) {
+    throw new Error("Branch job's concept was not found");
+  }
+
+  progress.onStage?.("proposing");
+  const generation = await generateBranches(concept);
+  if (!generation.ok) {
+    throw new Error(
+      `Branch generation failed (${generation.reason}): ${generation.message}`
+    );
+  }
+
+  // Link existing targets where possible, stubbing only new ones
+  progress.onStage?.("linking");
+  const edges = await materialiseBranches(concept, generation.data.branches);
+  if (edges.length === 0) {
+    throw new Error("No branches could be created");
+  }
+
+  return { conceptId: concept.id, edges: edges.length };
+};
+
+const runEmbeddingJob: JobHandler = async (job, progress) => {
+  const concept = job.concept_id ? await getConceptById(job.concept_id) : null;
+  if (!concept) {
+    throw new Error("Embedding job's concept was not found");
+  }
+
+  if (!concept.embedding) {
+    progress.onStage?.("embedding");
+    const embedding = await generateConceptEmbedding(
+      concept.name,
+      concept.description
+    );
+    if (!embedding || !(await updateConceptEmbedding(concept.id, embedding))) {
+      throw new Error(`Embedding generation failed for "${concept.name}"`);
+    }
+  }
+
+  return { conceptId: concept.id };
+};
+
+const runLensJob: JobHandler = async (job, progress) => {
+  const concept = job.concept_id ? await getConceptById(job.concept_id) : null;
+  if (!concept) {
+    throw new Error("Lens job's concept was not found");
+  }
+  const level = job.payload.level;
+  if (!level) {
+    throw new Error("Lens job has no level");
+  }
+
+  // A no-op if the lens was stored by an earlier attempt
+  progress.onStage?.("writing");
+  if (!(await getLessonLens(concept, level))) {
+    throw new Error(`Lesson lens failed for "${concept.name}" at ${level}`);
+  }
+
+  return { conceptId: concept.id };
+};
+
+const JOB_HANDLERS: Record<GenerationJobKind, JobHandler> = {
+  lesson: runLessonJob,
+  branches: runBranchesJob,
+  embedding: runEmbeddingJob,
+  lens: runLensJob,
+};
+
+/**
+ * Run one attempt of a job, if it is due and no one else claims it first.
+ * A failed attempt is re-queued with exponential backoff until the job
+ * runs out of attempts, then marked failed.
+ *
+ * @returns The job after the attempt, or null if it couldn't be claimed
+ */
+export async function runJob(
+  job: GenerationJob,
+  listeners: JobListeners = {}
+): Promise<GenerationJob | null> {
+  const claimed = await claimGenerationJob(job, JOB_LEASE_MS);
+  if (!claimed) return null;
+
+  let current = claimed;
+  listeners.onProgress?.(current);
+
+  const progress: GenerationProgress = {
+    onText: listeners.onText,
+    onStage: (stage) => {
+      current = { ...current, stage };
+      void setGenerationJobStage(claimed, stage);
+      listeners.onProgress?.(current);
+    },
+  };
+
+  let outcome: GenerationJob | null;
+  try {
+    // A runner died during the final attempt; the lease expiry claimed it
+    // once more, but the job has no attempts left
+    if (claimed.attempts > claimed.max_attempts) {
+      throw new Error("Final attempt was abandoned");
+    }
+
+    const result = await JOB_HANDLERS[claimed.kind](claimed, progress);
+    outcome = await completeGenerationJob(claimed, result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(
+      `Generation job ${claimed.id} (${claimed.kind}) attempt`,
+      `${claimed.attempts}/${claimed.max_attempts} failed:`,
+      message
+    );
+
+    const retryAt =
+      claimed.attempts < claimed.max_attempts
+        ? new Date(Date.now() + retryDelayMs(claimed.attempts))
+        : null;
+    outcome = await failGenerationJob(claimed, message, retryAt);
+  }
+
+  // Null if the lease was lost and another worker took the job over
+  return outcome ?? getGenerationJob(claimed.id);
+}
+
+/**
+ * Run every job that is due, one at a time, up to a limit.
+ * Intended for the scheduled worker route.
+ *
+ * @returns The number of jobs this call ran an attempt of
+ */
+export async function runDueJobs(limit: number): Promise<number> {
+  const jobs = await getDueGenerationJobs(limit);
+
+  let processed = 0;
+  for (const job of jobs) {
+    if (await runJob(job)) processed++;
+  }
+  return processed;
+}
+
+/**
+ * Resolve a slug to a ready concept, writing its lesson if needed.
+ *
+ * 1. Serve the stored concept if the slug, an alias, or the normalised
+ *    name matches one whose lesson is written
+ * 2. Join the live lesson job for the same concept if there is one;
+ *    otherwise check the user's rate limit and queue one (only the user
+ *    who queues a lesson is charged for it)
+ * 3. Run the job here if it is due and unclaimed, streaming its progress;
+ *    if it is running elsewhere or awaiting a retry, return it to poll
+ *
+ * @param slug - The URL slug being visited
+ * @param name - Optional display name supplied by the user
+ * @param userId - The user to charge if a lesson is queued
+ * @param listeners - Receive the lesson's prose and stages if this call
+ *   runs the job
+ */
+export async function resolveConcept(
+  slug: string,
+  name: string | null,
+  userId: string,
+  listeners: JobListeners = {}
+): Promise<ConceptResolution> {
+  const displayName = conceptNameFromSlug(slug, name);
+  const existing = await findExistingConcept(displayName);
+  if (existing?.status === "ready") {
+    return { status: "found", concept: existing };
+  }
+
+  // Stubs are keyed by their own name, so alias visits join the same job
+  const lessonName = existing?.name ?? displayName;
+  const key = jobKey("lesson", normalizeConceptName(lessonName));
+
+  let job = await getLiveJob(key);
+  if (!job) {
+    const rateLimit = await checkRateLimit(userId);
+    if (!rateLimit.allowed) {
+      return {
+        status: "rate_limited",
+        remaining: rateLimit.remaining,
+        resetAt: rateLimit.resetAt,
+      };
+    }
+
+    const enqueued = await enqueueJob(
+      "lesson",
+      key,
+      { name: lessonName },
+      existing?.id ?? null,
+      userId
+    );
+    if (!enqueued) return { status: "failed" };
+    if (enqueued.queued) await logGeneration(userId);
+    job = enqueued.job;
+  }
+
+  const ran = await runJob(job, listeners);
+  if (!ran) {
+    return {
+      status: "queued",
+      job: (await getGenerationJob(job.id)) ?? job,
+    };
+  }
+
+  if (ran.status === "succeeded" && ran.result?.conceptId) {
+    const concept = await getConceptById(ran.result.conceptId);
+    return concept ? { status: "generated", concept } : { status: "failed" };
+  }
+
+  return ran.status === "failed"
+    ? { status: "failed" }
+    : { status: "queued", job: ran };
+}
@@ -0,0 +1,73 @@
+/**
+ * Lesson Lenses
+ *
+ * Lessons are globally shared and written for a general reader. A lens is
+ * the same lesson rewritten for beginner, intermediate or advanced
+ * readers: generated the first time anyone reads a concept at that level,
+ * then stored (concept_lenses) and served to everyone after. With three
+ * levels, a concept never has more than three lenses. Generation runs as a
+ * lens job (lib/jobs), so concurrent first readers share one.
+ *
+ * A reader's lens level comes from their user_category_familiarity for the
+ * concept's category (its tags, see lib/categories): their rating of the
+ * best-fit subtopic they have rated, else their overall level in the
+ * category of the concept's best-fit subtopic.
+ */
+
+import { generateLessonLens } from "@/lib/gemini";
+import { getOverallLevel } from "@/lib/recommendations";
+import { getConceptLens, saveConceptLens } from "@/lib/supabase";
+import type {
+  CategoryFamiliarity,
+  Concept,
+  ConceptCategory,
+  ConceptLens,
+  FamiliarityLevel,
+} from "@/types";
+
+/**
+ * The level a reader's lens on a concept defaults to
+ *
+ * @param tags - The concept's category tags, best fit first
+ * @returns The level, or null if the reader has rated nothing in the
+ *   concept's category (or the concept has no tags)
+ */
+export function lensLevel(
+  tags: Pick<ConceptCategory, "category" | "subtopic">[],
+  familiarities: CategoryFamiliarity[]
+): FamiliarityLevel | null {
+  for (const tag of tags) {
+    const rated = familiarities.find(
+      (f) => f.category === tag.category && f.subtopic === tag.subtopic
+    );
+    if (rated) return rated.familiarity;
+  }
+
+  const category = tags[0]?.category;
+  const inCategory = familiarities.filter((f) => f.category === category);
+  return inCategory.length > 0 ? getOverallLevel(inCategory) : null;
+}
+
+/**
+ * A concept's lens at a level, generating and storing it on first use
+ *
+ * @returns The lens, or null if generation or saving failed
+ */
+export async function getLessonLens(
+  concept: Concept,
+  level: FamiliarityLevel
+): Promise<ConceptLens | null> {
+  const cached = await getConceptLens(concept.id, level);
+  if (cached) return cached;
+
+  const result = await generateLessonLens(concept, level);
+  if (!result.ok) {
+    console.error(
+      `Lesson lens failed for "${concept.name}" at ${level} (${result.reason}):`,
+      result.message
+    );
+    return null;
+  }
+
+  return saveConceptLens(concept.id, level, result.data.description);
+}
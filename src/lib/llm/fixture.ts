@@ -0,0 +1,164 @@
+/**
+ * Deterministic local fixture provider
+ *
+ * Returns canned, well-formed JSON for each task, and embeddings, without
+ * any network access, so the app can run offline (e.g. in tests). Output
+ * depends only on the task and the first quoted name in the prompt.
+ * External search (Exa, YouTube, Open Library) is not covered.
+ */
+
+import {
+  STREAM_DATA_DELIMITER,
+  type LlmProvider,
+  type LlmRequest,
+  type LlmTask,
+} from "./types";
+
+/** Pull the subject (first double-quoted phrase) out of a prompt */
+function subjectOf(prompt: string): string {
+  return prompt.match(/"([^"\n]+)"/)?.[1] ?? "this concept";
+}
+
+type FixtureBuilder = (
+  subject: string,
+  prompt: string
+) => Record<string, unknown>;
+
+const BRANCH_TYPES = ["constructive", "critique", "author", "wildcard"] as const;
+
+const FIXTURES: Record<LlmTask, FixtureBuilder> = {
+  lesson: (subject) => ({
+    description: `${subject} is a philosophical concept. This fixture lesson stands in for a generated one and describes its meaning, origins, and significance.`,
+    recommended_reading: [
+      {
+        title: `An Introduction to ${subject}`,
+        author: "Fixture Author",
+        year: "2000",
+        relevance: "A placeholder reading for offline runs.",
+      },
+    ],
+  }),
+  branches: (subject) => ({
+    branches: BRANCH_TYPES.map((type) => ({
+      type,
+      target_name: `${subject} (${type})`,
+      description: `A ${type} connection from ${subject}.`,
+    })),
+  }),
+  socratic: (subject, prompt) => {
+    if (!prompt.includes("The learner just responded")) {
+      return {
+        question: `What do you take ${subject} to mean?`,
+        context: "Opening question inviting a first definition.",
+      };
+    }
+
+    // Conclude after four exchanges, as the real prompt asks for 4-6
+    const exchange = Number(prompt.match(/currently at (\d+)/)?.[1] ?? 1);
+    return exchange >= 4
+      ? {
+          response: `You have examined ${subject} carefully.`,
+          question: null,
+          is_complete: true,
+          summary: `Together we explored what ${subject} means and why.`,
+        }
+      : {
+          response: `That is a thoughtful point about ${subject}.`,
+          question: `What would follow if that view of ${subject} were false?`,
+          is_complete: false,
+        };
+  },
+  expanded: (subject) => ({
+    expanded_description: `${subject}, in more depth.\n\nThis fixture text stands in for a generated extended lesson.`,
+  }),
+  quiz: (subject) => ({
+    question: `Which statement best describes ${subject}?`,
+    options: [
+      { text: "A basic description", level: "beginner" },
+      { text: "A more nuanced description", level: "intermediate" },
+      { text: "A technical, precise description", level: "advanced" },
+      { text: "An unrelated claim", level: "incorrect" },
+    ],
+    explanation: "Fixture question for offline runs.",
+  }),
+  keywords: (subject) => ({ keywords: `${subject}, philosophy` }),
+  classify: () => ({
+    subtopics: [{ category: "Ethics", subtopic: "Virtue Ethics" }],
+  }),
+  lens: (subject, prompt) => ({
+    description: `${subject}, retold for ${
+      prompt.match(/Reader level: (\w+)/)?.[1] ?? "any"
+    } readers.\n\nThis fixture text stands in for a generated lesson lens.`,
+  }),
+};
+
+/** Field each streamed task writes as prose ahead of its JSON section */
+const STREAM_PROSE_FIELDS: Partial<Record<LlmTask, string>> = {
+  lesson: "description",
+  expanded: "expanded_description",
+  socratic: "response",
+};
+
+/**
+ * Plain-text form of a fixture, as the streaming prompts request it:
+ * prose first, then any remaining fields as JSON after the delimiter
+ */
+function streamTextOf(task: LlmTask, prompt: string): string {
+  const fixture = FIXTURES[task](subjectOf(prompt), prompt);
+  const field = STREAM_PROSE_FIELDS[task];
+  if (!field || typeof fixture[field] !== "string") {
+    return JSON.stringify(fixture);
+  }
+
+  const { [field]: prose, ...data } = fixture;
+  return Object.keys(data).length > 0
+    ? `${prose}\n${STREAM_DATA_DELIMITER}\n${JSON.stringify(data)}`
+    : String(prose);
+}
+
+/** Dimensions of a fixture embedding, matching text-embedding-3-small */
+const EMBEDDING_DIMENSIONS = 1536;
+
+/** FNV-1a hash of a string */
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Deterministic unit-length embedding of a text: its words hashed into
+ * signed buckets, so texts sharing words are similar, as with real
+ * embeddings
+ */
+export function fixtureEmbedding(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    const h = hash(word);
+    vector[h % EMBEDDING_DIMENSIONS] += h & 0x80000000 ? -1 : 1;
+  }
+
+  const length = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+  if (length === 0) {
+    vector[0] = 1;
+    return vector;
+  }
+  return vector.map((x) => x / length);
+}
+
+export const fixtureProvider: LlmProvider = {
+  name: "fixture",
+  defaultModel: "fixture",
+
+  async generate({ task, prompt }: LlmRequest) {
+    return JSON.stringify(FIXTURES[task](subjectOf(prompt), prompt));
+  },
+
+  // Word-sized chunks, so streaming UIs can be exercised offline
+  async *stream({ task, prompt }: LlmRequest) {
+    yield* streamTextOf(task, prompt).match(/\S+\s*|\s+/g) ?? [];
+  },
+};
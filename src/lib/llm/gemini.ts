@@ -0,0 +1,51 @@
+/**
+ * Google Gemini provider (JSON mode)
+ */
+
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import type { LlmProvider, LlmRequest } from "./types";
+
+// Lazy initialization of Gemini client
+let genAI: GoogleGenerativeAI | null = null;
+
+function getGenAI(): GoogleGenerativeAI {
+  if (!genAI) {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new Error(
+        "GEMINI_API_KEY environment variable is required. Add it to .env.local"
+      );
+    }
+    genAI = new GoogleGenerativeAI(apiKey);
+  }
+  return genAI;
+}
+
+export const geminiProvider: LlmProvider = {
+  name: "gemini",
+  defaultModel: "gemini-1.5-flash",
+
+  async generate({ model, prompt, temperature }: LlmRequest) {
+    const result = await getGenAI()
+      .getGenerativeModel({
+        model,
+        generationConfig: {
+          responseMimeType: "application/json",
+          temperature,
+        },
+      })
+      .generateContent(prompt);
+
+    return result.response.text();
+  },
+
+  async *stream({ model, prompt, temperature }: LlmRequest) {
+    const result = await getGenAI()
+      .getGenerativeModel({ model, generationConfig: { temperature } })
+      .generateContentStream(prompt);
+
+    for await (const chunk of result.stream) {
+      yield chunk.text();
+    }
+  },
+};
@@ -0,0 +1,114 @@
+/**
+ * LLM Provider Abstraction
+ *
+ * Routes each generation task to a configurable provider and model.
+ * Providers: Gemini, OpenAI chat, and a deterministic offline fixture.
+ *
+ * Configuration (environment variables):
+ * - LLM_PROVIDER - Default provider: gemini | openai | fixture (default gemini)
+ * - LLM_MODEL - Default model for the default provider
+ * - LLM_PROVIDER_<TASK> - Provider override for one task
+ * - LLM_MODEL_<TASK> - Model override for one task
+ * - LLM_PROVIDER_EMBEDDING - Embeddings provider (lib/openai): openai |
+ *   fixture (default fixture if LLM_PROVIDER is, else openai)
+ *
+ * Tasks: LESSON, BRANCHES, SOCRATIC, EXPANDED, QUIZ, KEYWORDS, CLASSIFY,
+ * LENS.
+ * A task that overrides the provider without a model uses that provider's
+ * default model, since LLM_MODEL names a model of the default provider.
+ */
+
+import { geminiProvider } from "./gemini";
+import { openaiProvider } from "./openai";
+import { fixtureProvider } from "./fixture";
+import type { LlmProvider, LlmProviderName, LlmTask } from "./types";
+
+export { STREAM_DATA_DELIMITER } from "./types";
+export { fixtureEmbedding } from "./fixture";
+export type {
+  LlmProvider,
+  LlmProviderName,
+  LlmRequest,
+  LlmTask,
+} from "./types";
+
+const PROVIDERS: Record<LlmProviderName, LlmProvider> = {
+  gemini: geminiProvider,
+  openai: openaiProvider,
+  fixture: fixtureProvider,
+};
+
+const DEFAULT_TEMPERATURE = 0.7;
+
+function getProvider(name: string): LlmProvider {
+  if (!(name in PROVIDERS)) {
+    const known = Object.keys(PROVIDERS).join(", ");
+    throw new Error(`Unknown LLM provider "${name}". Expected one of: ${known}`);
+  }
+  return PROVIDERS[name as LlmProviderName];
+}
+
+/**
+ * Resolve the provider and model configured for a task
+ */
+export function getTaskConfig(task: LlmTask): {
+  provider: LlmProvider;
+  model: string;
+} {
+  const key = task.toUpperCase();
+  const taskProvider = process.env[`LLM_PROVIDER_${key}`];
+  const provider = getProvider(
+    taskProvider || process.env.LLM_PROVIDER || "gemini"
+  );
+
+  const model =
+    process.env[`LLM_MODEL_${key}`] ||
+    (!taskProvider && process.env.LLM_MODEL) ||
+    provider.defaultModel;
+
+  return { provider, model };
+}
+
+/**
+ * Whether embeddings come from the offline fixture instead of OpenAI
+ */
+export function usesFixtureEmbeddings(): boolean {
+  return (
+    (process.env.LLM_PROVIDER_EMBEDDING || process.env.LLM_PROVIDER) ===
+    "fixture"
+  );
+}
+
+/**
+ * Generate a JSON text response for a task with its configured provider.
+ * Throws on provider errors; callers handle parsing and fallbacks.
+ */
+export async function generateForTask(
+  task: LlmTask,
+  prompt: string
+): Promise<string> {
+  const { provider, model } = getTaskConfig(task);
+  return provider.generate({
+    task,
+    model,
+    prompt,
+    temperature: DEFAULT_TEMPERATURE,
+  });
+}
+
+/**
+ * Stream a plain-text response for a task with its configured provider.
+ * Throws (on iteration) on provider errors.
+ */
+export function streamForTask(
+  task: LlmTask,
+  prompt: string
+): AsyncIterable<string> {
+  const { provider, model } = getTaskConfig(task);
+  return provider.stream({
+    task,
+    model,
+    prompt,
+    temperature: DEFAULT_TEMPERATURE,
+  });
+}
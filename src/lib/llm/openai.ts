@@ -0,0 +1,52 @@
+/**
+ * OpenAI chat completions provider (JSON mode)
+ */
+
+import OpenAI from "openai";
+import type { LlmProvider, LlmRequest } from "./types";
+
+// Lazy initialization of OpenAI client
+let openai: OpenAI | null = null;
+
+function getOpenAI(): OpenAI {
+  if (!openai) {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error(
+        "OPENAI_API_KEY environment variable is required. Add it to .env.local"
+      );
+    }
+    openai = new OpenAI({ apiKey });
+  }
+  return openai;
+}
+
+export const openaiProvider: LlmProvider = {
+  name: "openai",
+  defaultModel: "gpt-4o-mini",
+
+  async generate({ model, prompt, temperature }: LlmRequest) {
+    const completion = await getOpenAI().chat.completions.create({
+      model,
+      temperature,
+      response_format: { type: "json_object" },
+      messages: [{ role: "user", content: prompt }],
+    });
+
+    return completion.choices[0]?.message?.content ?? "";
+  },
+
+  async *stream({ model, prompt, temperature }: LlmRequest) {
+    const stream = await getOpenAI().chat.completions.create({
+      model,
+      temperature,
+      stream: true,
+      messages: [{ role: "user", content: prompt }],
+    });
+
+    for await (const chunk of stream) {
+      const text = chunk.choices[0]?.delta?.content;
+      if (text) yield text;
+    }
+  },
+};
@@ -0,0 +1,39 @@
+/**
+ * LLM provider types
+ */
+
+/** Generation tasks that can each be routed to their own provider/model */
+export type LlmTask =
+  | "lesson"
+  | "branches"
+  | "socratic"
+  | "expanded"
+  | "quiz"
+  | "keywords"
+  | "classify"
+  | "lens";
+
+export type LlmProviderName = "gemini" | "openai" | "fixture";
+
+export interface LlmRequest {
+  task: LlmTask;
+  model: string;
+  prompt: string;
+  temperature: number;
+}
+
+/**
+ * Separates the prose of a streamed response from a trailing JSON section.
+ * Streamed prompts ask for it on its own line after the prose.
+ */
+export const STREAM_DATA_DELIMITER = "<<<DATA>>>";
+
+/** A backend that turns a prompt into a JSON text response */
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  /** Default model when none is configured for a task */
+  readonly defaultModel: string;
+  generate(request: LlmRequest): Promise<string>;
+  /** Stream a plain-text (not JSON mode) response as it is written */
+  stream(request: LlmRequest): AsyncIterable<string>;
+}
@@ -4,7 +4,12 @@
  * Canonical philosophical texts and category structure for the onboarding flow.
  */
 
-import type { CanonicalText, CategoryWithSubtopics } from "@/types";
+import type {
+  CanonicalText,
+  CategoryWithSubtopics,
+  FamiliarityLevel,
+  RecommendedConcept,
+} from "@/types";
 
 // =============================================
 // CANONICAL PHILOSOPHICAL TEXTS
@@ -53,6 +58,13 @@ export const CANONICAL_TEXTS: CanonicalText[] = [
   { title: "Sources of the Self", author: "Charles Taylor", year: "1989" },
 ];
 
+/**
+ * Name a canonical text is stored under in user_text_familiarity.text_name
+ */
+export function canonicalTextName(text: CanonicalText): string {
+  return `${text.title} by ${text.author}`;
+}
+
 // =============================================
 // PHILOSOPHICAL CATEGORIES WITH SUBTOPICS
 // =============================================
@@ -156,6 +168,95 @@ export const CATEGORIES: CategoryWithSubtopics[] = [
   },
 ];
 
+/**
+ * Whether a name is one of the CATEGORIES
+ */
+export function isCategory(category: string): boolean {
+  return CATEGORIES.some((c) => c.name === category);
+}
+
+/**
+ * Whether a category/subtopic pair is one of the CATEGORIES subtopics
+ */
+export function isCategorySubtopic(category: string, subtopic: string): boolean {
+  return CATEGORIES.some(
+    (c) => c.name === category && c.subtopics.includes(subtopic)
+  );
+}
+
+/**
+ * What each CATEGORIES subtopic covers, keyed by subtopic name (names are
+ * unique across categories). Embedded with the subtopic to classify
+ * concepts (see lib/categories).
+ */
+export const SUBTOPIC_DESCRIPTIONS: Record<string, string> = {
+  // Ethics
+  "Virtue Ethics": "Morality grounded in character, the virtues and human flourishing",
+  Deontology: "Morality as duty, rules and rights, whatever the consequences",
+  Consequentialism: "Actions judged right or wrong by their outcomes, as in utilitarianism",
+  "Meta-Ethics": "The nature of moral facts, moral language and moral knowledge",
+  "Applied Ethics": "Moral questions in practice: bioethics, animals, the environment, war",
+
+  // Metaphysics
+  Ontology: "What exists and the basic categories of being: substance, properties, universals",
+  "Free Will": "Whether and how choices can be free in a world of causes",
+  "Mind-Body Problem": "How the mind relates to the body: dualism, materialism, idealism",
+  "Time and Persistence": "The nature of time and how things persist and change through it",
+  Causation: "What it is for one thing to cause another, and the laws of nature",
+
+  // Epistemology
+  Rationalism: "Knowledge through reason and innate ideas, independent of experience",
+  Empiricism: "Knowledge derived from sensory experience and observation",
+  Skepticism: "Doubts about whether knowledge or certainty is possible at all",
+  "Justified Belief": "What makes a belief justified: foundationalism, coherentism, reliabilism",
+  "Knowledge and Truth": "The definition of knowledge, the Gettier problem, and truth as its aim",
+
+  // Philosophy of Mind
+  Consciousness: "Subjective experience and the hard problem of explaining it",
+  "Personal Identity": "What makes a person the same self over time: memory, body, soul",
+  "Mental Causation": "How mental states such as beliefs and desires can cause action",
+  Intentionality: "How thoughts are about things: mental content and representation",
+  Qualia: "The felt qualities of experience, such as what it is like to see red",
+
+  // Political Philosophy
+  "Social Contract": "Political authority founded on agreement: Hobbes, Locke, Rousseau, Rawls",
+  "Justice and Rights": "What people are owed, and the grounds of natural and human rights",
+  "Liberty and Authority": "The limits of state power over individual freedom",
+  Democracy: "Self-government, political legitimacy and the rule of the people",
+  "Property and Distribution": "Ownership and the fair distribution of wealth and resources",
+
+  // Logic and Language
+  "Formal Logic": "Valid inference, deductive systems, and propositional and predicate logic",
+  "Philosophy of Language": "How language works and its relation to thought and the world",
+  "Meaning and Reference": "How words get their meaning and pick out things: sense, reference, names",
+  "Truth Theories": "What truth is: correspondence, coherence, pragmatist and deflationary theories",
+  Paradoxes: "Puzzles such as the liar, the sorites and Zeno's paradoxes",
+
+  // Aesthetics
+  "Beauty and Taste": "The nature of beauty and whether judgments of taste can be objective",
+  "Art and Expression": "What art is, and how it represents and expresses emotion",
+  "Aesthetic Experience": "The distinctive experience of appreciating art and nature, and the sublime",
+  "Criticism and Interpretation": "How artworks are interpreted and evaluated, and the role of intention",
+
+  // Philosophy of Science
+  "Scientific Method": "How science confirms theories: induction, falsification, evidence",
+  "Realism vs Anti-Realism": "Whether scientific theories describe unobservable reality or are only useful",
+  "Explanation and Laws": "What scientific explanation and laws of nature are",
+  "Theory Change": "How science changes over time: paradigms, revolutions, research programmes",
+
+  // Existentialism
+  Authenticity: "Living true to oneself rather than to convention: Heidegger, Sartre, Kierkegaard",
+  "Absurdity and Meaning": "Finding meaning in a universe without inherent purpose: Camus, nihilism",
+  "Freedom and Responsibility": "Radical freedom and the responsibility for choosing who one is",
+  "Anxiety and Death": "Dread, finitude and mortality in human existence",
+
+  // Eastern Philosophy
+  Buddhism: "Suffering, impermanence, non-self and the path to liberation",
+  Confucianism: "Ethics of virtue, ritual, family and social harmony from Confucius and Mencius",
+  Taoism: "The Tao, naturalness and effortless action (wu wei) in Laozi and Zhuangzi",
+  "Hindu Philosophy": "Vedanta, the Upanishads, Brahman and Atman, and the classical schools",
+};
+
 // =============================================
 // STARTING CONCEPT RECOMMENDATIONS
 // =============================================
@@ -163,11 +264,10 @@ export const CATEGORIES: CategoryWithSubtopics[] = [
 /**
  * Maps familiarity levels to recommended starting concepts.
  * Each entry has concepts that work well for users at that level.
+ * Fallback for the recommender (lib/recommendations) when nothing in the
+ * graph matches the user's interests.
  */
-export const STARTING_CONCEPTS: Record<
-  string,
-  { slug: string; name: string; description: string }[]
-> = {
+export const STARTING_CONCEPTS: Record<FamiliarityLevel, RecommendedConcept[]> = {
   // Good starting points for beginners
   beginner: [
     {
@@ -240,36 +340,3 @@ export const STARTING_CONCEPTS: Record<
     },
   ],
 };
-
-/**
- * Get recommended starting concepts based on a user's category familiarities.
- * Finds the dominant level across all categories and returns matching concepts.
- */
-export function getRecommendedConcepts(
-  familiarities: { category: string; subtopic: string; familiarity: string }[]
-): {
-  level: "beginner" | "intermediate" | "advanced";
-  concepts: { slug: string; name: string; description: string }[];
-} {
-  if (familiarities.length === 0) {
-    return { level: "beginner", concepts: STARTING_CONCEPTS.beginner };
-  }
-
-  // Count familiarity levels
-  const counts = { beginner: 0, intermediate: 0, advanced: 0 };
-  for (const f of familiarities) {
-    if (f.familiarity in counts) {
-      counts[f.familiarity as keyof typeof counts]++;
-    }
-  }
-
-  // Determine dominant level
-  let dominantLevel: "beginner" | "intermediate" | "advanced" = "beginner";
-  if (counts.advanced > counts.intermediate && counts.advanced > counts.beginner) {
-    dominantLevel = "advanced";
-  } else if (counts.intermediate >= counts.advanced && counts.intermediate > counts.beginner) {
-    dominantLevel = "intermediate";
-  }
-
-  return { level: dominantLevel, concepts: STARTING_CONCEPTS[dominantLevel] };
-}
@@ -3,9 +3,12 @@
  *
  * Generates 1536-dimensional vector embeddings using text-embedding-3-small.
  * Used for semantic search and finding nearest neighbor concepts.
+ * With the fixture provider chosen for embeddings (see lib/llm), returns
+ * deterministic offline embeddings instead.
  */
 
 import OpenAI from "openai";
+import { fixtureEmbedding, usesFixtureEmbeddings } from "@/lib/llm";
 
 // Lazy initialization of OpenAI client
 let openai: OpenAI | null = null;
@@ -33,6 +36,8 @@ function getOpenAI(): OpenAI {
 export async function generateEmbedding(
   text: string
 ): Promise<number[] | null> {
+  if (usesFixtureEmbeddings()) return fixtureEmbedding(text);
+
   try {
     const response = await getOpenAI().embeddings.create({
       model: "text-embedding-3-small",
@@ -73,6 +78,7 @@ export async function generateEmbeddings(
   texts: string[]
 ): Promise<(number[] | null)[]> {
   if (texts.length === 0) return [];
+  if (usesFixtureEmbeddings()) return texts.map(fixtureEmbedding);
 
   try {
     const response = await getOpenAI().embeddings.create({
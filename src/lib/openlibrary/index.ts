@@ -0,0 +1,86 @@
+/**
+ * Open Library Search API Integration
+ *
+ * Looks up book identifiers (ISBN, Open Library work ID) for recommended
+ * readings. Public API; no key required, but Open Library asks callers to
+ * identify themselves with a User-Agent.
+ */
+
+const OPEN_LIBRARY_BASE = "https://openlibrary.org";
+
+/** Give up on a lookup after this long; identifiers are optional */
+const LOOKUP_TIMEOUT_MS = 5000;
+
+interface OpenLibrarySearchDoc {
+  /** Work key, e.g. "/works/OL45804W" */
+  key: string;
+  isbn?: string[];
+}
+
+interface OpenLibrarySearchResponse {
+  numFound: number;
+  docs: OpenLibrarySearchDoc[];
+}
+
+/** Identifiers for a book found on Open Library */
+export interface BookIdentifiers {
+  isbn: string | null;
+  openLibraryId: string;
+}
+
+/**
+ * Find a book on Open Library by title and author.
+ *
+ * @returns The best match's work ID and an ISBN (ISBN-13 preferred),
+ *   or null if nothing matched or the lookup failed
+ */
+export async function findBookIdentifiers(
+  title: string,
+  author: string
+): Promise<BookIdentifiers | null> {
+  const params = new URLSearchParams({
+    title,
+    author,
+    limit: "1",
+    fields: "key,isbn",
+  });
+
+  try {
+    const response = await fetch(`${OPEN_LIBRARY_BASE}/search.json?${params}`, {
+      headers: { "User-Agent": "PhilTreeCrawler (reading list lookup)" },
+      signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      console.error("Open Library API error:", response.status);
+      return null;
+    }
+
+    const data: OpenLibrarySearchResponse = await response.json();
+    const doc = data.docs?.[0];
+    if (!doc?.key) return null;
+
+    const isbns = doc.isbn || [];
+    return {
+      isbn: isbns.find((isbn) => isbn.length === 13) ?? isbns[0] ?? null,
+      openLibraryId: doc.key.replace(/^\/works\//, ""),
+    };
+  } catch (error) {
+    console.error("Error looking up book on Open Library:", error);
+    return null;
+  }
+}
+
+/**
+ * Link to a work's Open Library page
+ */
+export function openLibraryWorkUrl(openLibraryId: string): string {
+  return `${OPEN_LIBRARY_BASE}/works/${openLibraryId}`;
+}
+
+/**
+ * Medium-size cover image for an ISBN
+ */
+export function openLibraryCoverUrl(isbn: string): string {
+  return `https://covers.openlibrary.org/b/isbn/${isbn}-M.jpg`;
+}
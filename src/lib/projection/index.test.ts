@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from "vitest";
+import { projectTo2D } from "./index";
+
+// The projection job's database reads and writes aren't exercised here
+vi.mock("@/lib/supabase", () => ({}));
+
+describe("projectTo2D", () => {
+  it("places fewer than two vectors at the origin", () => {
+    expect(projectTo2D([])).toEqual([]);
+    expect(projectTo2D([[1, 2, 3]])).toEqual([[0, 0]]);
+  });
+
+  it("lays collinear points out along the first axis, in order", () => {
+    const points = projectTo2D([
+      [0, 0, 0],
+      [1, 2, 2],
+      [2, 4, 4],
+      [4, 8, 8],
+    ]);
+
+    const xs = points.map(([x]) => x);
+    const spacing = xs.slice(1).map((x, i) => x - xs[i]);
+    // Evenly spaced inputs stay evenly spaced, in one direction
+    expect(spacing[1]).toBeCloseTo(spacing[0]);
+    expect(spacing[2]).toBeCloseTo(spacing[0] * 2);
+    for (const [, y] of points) expect(y).toBeCloseTo(0);
+  });
+
+  it("puts the direction of greatest variance on x", () => {
+    const points = projectTo2D([
+      [10, 0, 1],
+      [-10, 0, 1],
+      [0, 1, 1],
+      [0, -1, 1],
+    ]);
+
+    expect(Math.abs(points[0][0])).toBeCloseTo(1);
+    expect(points[0][0]).toBeCloseTo(-points[1][0]);
+    expect(points[0][1]).toBeCloseTo(0);
+    expect(Math.abs(points[2][1])).toBeCloseTo(0.1);
+    expect(points[2][0]).toBeCloseTo(0);
+  });
+
+  it("scales so the furthest coordinate is 1, keeping the aspect ratio", () => {
+    const points = projectTo2D([
+      [3, 0],
+      [-3, 0],
+      [0, 1],
+      [0, -1],
+    ]);
+
+    const extent = Math.max(
+      ...points.map(([x, y]) => Math.max(Math.abs(x), Math.abs(y)))
+    );
+    expect(extent).toBeCloseTo(1);
+    expect(Math.abs(points[2][1])).toBeCloseTo(1 / 3);
+  });
+
+  it("gives the same layout on repeated runs", () => {
+    const vectors = [
+      [0.2, 0.9, -0.4, 0.1],
+      [0.5, -0.3, 0.8, 0.0],
+      [-0.7, 0.1, 0.2, 0.6],
+      [0.1, 0.4, -0.9, -0.2],
+    ];
+    expect(projectTo2D(vectors)).toEqual(projectTo2D(vectors));
+  });
+
+  it("leaves identical vectors at the origin", () => {
+    expect(
+      projectTo2D([
+        [1, 1],
+        [1, 1],
+      ])
+    ).toEqual([
+      [0, 0],
+      [0, 0],
+    ]);
+  });
+});
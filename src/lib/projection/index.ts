@@ -0,0 +1,125 @@
+/**
+ * Embedding Projection Service
+ *
+ * Reduces concept embeddings (1536-d) to 2D coordinates with PCA, computed
+ * in pure TypeScript by power iteration, and stores them for the semantic
+ * map view. Nearby points are semantically similar concepts.
+ */
+
+import {
+  getConceptEmbeddings,
+  saveConceptPositions,
+} from "@/lib/supabase";
+
+const POWER_ITERATIONS = 100;
+const CONVERGENCE_TOLERANCE = 1e-9;
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+function normalize(v: number[]): number[] {
+  const length = Math.sqrt(dot(v, v));
+  return length === 0 ? v : v.map((x) => x / length);
+}
+
+/**
+ * Find the top principal component of centred rows by power iteration on
+ * XᵀX (computed as Xᵀ(Xv), never materialising the d×d covariance),
+ * keeping the vector orthogonal to already-found components.
+ */
+function principalComponent(rows: number[][], found: number[][]): number[] {
+  const dimensions = rows[0].length;
+
+  // Deterministic start so repeated runs give the same layout
+  let v = normalize(
+    Array.from({ length: dimensions }, (_, j) => ((j * 7919) % 13) - 6 + 0.5)
+  );
+
+  for (let iteration = 0; iteration < POWER_ITERATIONS; iteration++) {
+    const next = new Array<number>(dimensions).fill(0);
+    for (const row of rows) {
+      const projection = dot(row, v);
+      for (let j = 0; j < dimensions; j++) next[j] += row[j] * projection;
+    }
+
+    // Deflate: remove components already found
+    for (const component of found) {
+      const overlap = dot(next, component);
+      for (let j = 0; j < dimensions; j++) next[j] -= overlap * component[j];
+    }
+
+    const normalized = normalize(next);
+    const delta = 1 - Math.abs(dot(normalized, v));
+    v = normalized;
+    if (delta < CONVERGENCE_TOLERANCE) break;
+  }
+
+  // Fix the sign so the largest coordinate is positive (stable orientation)
+  let largest = 0;
+  for (let j = 1; j < dimensions; j++) {
+    if (Math.abs(v[j]) > Math.abs(v[largest])) largest = j;
+  }
+  return v[largest] < 0 ? v.map((x) => -x) : v;
+}
+
+/**
+ * Project vectors to 2D with PCA.
+ * Coordinates are scaled together so the furthest point lies at distance
+ * 1 from the origin on either axis (aspect ratio is preserved).
+ *
+ * @param vectors - Equal-length vectors (e.g. embeddings)
+ * @returns One [x, y] pair per input vector, in input order
+ */
+export function projectTo2D(vectors: number[][]): [number, number][] {
+  if (vectors.length < 2) {
+    return vectors.map(() => [0, 0]);
+  }
+
+  const dimensions = vectors[0].length;
+  const mean = new Array<number>(dimensions).fill(0);
+  for (const vector of vectors) {
+    for (let j = 0; j < dimensions; j++) mean[j] += vector[j] / vectors.length;
+  }
+  const centred = vectors.map((vector) => vector.map((x, j) => x - mean[j]));
+
+  const first = principalComponent(centred, []);
+  const second = principalComponent(centred, [first]);
+
+  const points = centred.map(
+    (row) => [dot(row, first), dot(row, second)] as [number, number]
+  );
+
+  const scale = Math.max(
+    ...points.map(([x, y]) => Math.max(Math.abs(x), Math.abs(y)))
+  );
+  return scale === 0
+    ? points
+    : points.map(([x, y]) => [x / scale, y / scale] as [number, number]);
+}
+
+/**
+ * Recompute 2D positions for every concept with an embedding and store them.
+ * The projection is global, so all positions are rewritten on each run.
+ *
+ * @returns The number of concepts positioned, or null if the job failed
+ */
+export async function runProjectionJob(): Promise<number | null> {
+  const concepts = await getConceptEmbeddings();
+  if (concepts.length === 0) {
+    return 0;
+  }
+
+  const points = projectTo2D(concepts.map((c) => c.embedding));
+  const saved = await saveConceptPositions(
+    concepts.map((concept, i) => ({
+      conceptId: concept.id,
+      x: points[i][0],
+      y: points[i][1],
+    }))
+  );
+
+  return saved ? concepts.length : null;
+}
@@ -0,0 +1,171 @@
+/**
+ * Quiz Question Bank
+ *
+ * Questions for the familiarity quiz come from the quiz_questions bank
+ * first, per CATEGORIES subtopic and difficulty, so most quizzes need no
+ * LLM call. Only when the bank has nothing new to ask at the target
+ * difficulty is a question generated live; it is then saved to the bank
+ * for later quizzes. Admins can pre-fill the bank (fillQuizBank) and retire
+ * questions that users flag as unfair.
+ */
+
+import { CATEGORIES } from "@/lib/onboarding/data";
+import { generateQuizQuestion } from "@/lib/gemini";
+import {
+  countBankQuizQuestions,
+  getBankQuizQuestions,
+  recordQuizQuestionAsked,
+  saveBankQuizQuestion,
+} from "@/lib/supabase";
+import type {
+  FamiliarityLevel,
+  QuizAnswer,
+  QuizBankQuestion,
+  QuizQuestionResponse,
+} from "@/types";
+
+/** Least-asked bank questions to choose among at random */
+const BANK_CANDIDATES = 5;
+
+/** Active questions wanted per subtopic and difficulty */
+const BANK_TARGET_PER_DIFFICULTY = 3;
+
+const DIFFICULTIES: FamiliarityLevel[] = ["beginner", "intermediate", "advanced"];
+
+function toQuestionResponse(question: QuizBankQuestion): QuizQuestionResponse {
+  return {
+    id: question.id,
+    question: question.question,
+    options: question.options,
+    explanation: question.explanation,
+    difficulty: question.difficulty,
+  };
+}
+
+/**
+ * Next question for a quiz at the target difficulty: a bank question not
+ * yet asked in this quiz (one of the least asked, at random), or else a
+ * live-generated one, saved to the bank.
+ *
+ * @returns The question, or null if the bank had none and generation failed
+ */
+export async function nextQuizQuestion(
+  category: string,
+  subtopic: string,
+  difficulty: FamiliarityLevel,
+  priorAnswers: QuizAnswer[]
+): Promise<QuizQuestionResponse | null> {
+  const askedIds = priorAnswers
+    .map((a) => a.questionId)
+    .filter((id): id is string => typeof id === "string");
+
+  const candidates = await getBankQuizQuestions(
+    category,
+    subtopic,
+    difficulty,
+    askedIds,
+    BANK_CANDIDATES
+  );
+  if (candidates.length > 0) {
+    const question =
+      candidates[Math.floor(Math.random() * candidates.length)];
+    await recordQuizQuestionAsked(question.id);
+    return toQuestionResponse(question);
+  }
+
+  const result = await generateQuizQuestion(
+    category,
+    subtopic,
+    difficulty,
+    priorAnswers
+  );
+  if (!result.ok) {
+    console.error(`Quiz question failed (${result.reason}):`, result.message);
+    return null;
+  }
+
+  const saved = await saveBankQuizQuestion(
+    category,
+    subtopic,
+    difficulty,
+    result.data,
+    "generated"
+  );
+  if (!saved) {
+    // Still ask it; it just won't be in the bank
+    return { id: null, ...result.data, difficulty };
+  }
+
+  await recordQuizQuestionAsked(saved.id);
+  return toQuestionResponse(saved);
+}
+
+/**
+ * Pre-generate bank questions for subtopic/difficulty slots below
+ * BANK_TARGET_PER_DIFFICULTY, one at a time, up to a limit per call.
+ *
+ * @param only - Restrict filling to one subtopic
+ * @returns Questions added, and slots still below target afterwards
+ */
+export async function fillQuizBank(
+  limit: number,
+  only?: { category: string; subtopic: string }
+): Promise<{ created: number; remaining: number }> {
+  const counts = await countBankQuizQuestions();
+
+  const slots = CATEGORIES.flatMap((category) =>
+    category.subtopics.flatMap((subtopic) =>
+      DIFFICULTIES.map((difficulty) => ({
+        category: category.name,
+        subtopic,
+        difficulty,
+      }))
+    )
+  ).filter(
+    (slot) =>
+      (!only ||
+        (slot.category === only.category && slot.subtopic === only.subtopic)) &&
+      (counts.get(`${slot.category}|${slot.subtopic}|${slot.difficulty}`) ??
+        0) < BANK_TARGET_PER_DIFFICULTY
+  );
+
+  let created = 0;
+  let remaining = slots.length;
+  for (const slot of slots) {
+    let have =
+      counts.get(`${slot.category}|${slot.subtopic}|${slot.difficulty}`) ?? 0;
+
+    while (have < BANK_TARGET_PER_DIFFICULTY && created < limit) {
+      const result = await generateQuizQuestion(
+        slot.category,
+        slot.subtopic,
+        slot.difficulty
+      );
+      if (!result.ok) {
+        console.error(
+          `Quiz bank generation failed (${result.reason}):`,
+          result.message
+        );
+        break;
+      }
+
+      // A repeat of a question the bank already has isn't saved
+      const saved = await saveBankQuizQuestion(
+        slot.category,
+        slot.subtopic,
+        slot.difficulty,
+        result.data,
+        "generated"
+      );
+      if (!saved) break;
+
+      have++;
+      created++;
+    }
+
+    if (have >= BANK_TARGET_PER_DIFFICULTY) remaining--;
+    if (created >= limit) break;
+  }
+
+  return { created, remaining };
+}
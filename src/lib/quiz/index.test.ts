@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import type { FamiliarityLevel, QuizAnswer } from "@/types";
+import {
+  evaluateQuizAnswers,
+  MAX_QUIZ_QUESTIONS,
+  MIN_QUIZ_QUESTIONS,
+} from "./index";
+
+function answer(
+  level: QuizAnswer["level"],
+  difficulty: FamiliarityLevel = "intermediate"
+): QuizAnswer {
+  return { question: "Q?", answer: "A", level, difficulty };
+}
+
+describe("evaluateQuizAnswers", () => {
+  it("starts at intermediate difficulty with an even belief", () => {
+    const { complete, result, nextDifficulty } = evaluateQuizAnswers([]);
+
+    expect(complete).toBe(false);
+    expect(nextDifficulty).toBe("intermediate");
+    expect(result.familiarity).toBe("beginner");
+    expect(result.confidence).toBeCloseTo(1 / 3, 2);
+  });
+
+  it("moves the estimate and next difficulty towards the answers", () => {
+    const up = evaluateQuizAnswers([answer("advanced")]);
+    expect(up.result.familiarity).toBe("advanced");
+    expect(up.nextDifficulty).toBe("advanced");
+
+    const down = evaluateQuizAnswers([
+      answer("incorrect"),
+      answer("incorrect", "beginner"),
+    ]);
+    expect(down.result.familiarity).toBe("beginner");
+    expect(down.nextDifficulty).toBe("beginner");
+  });
+
+  it("grows more confident as consistent answers accumulate", () => {
+    const confidences = [1, 2, 3].map(
+      (count) =>
+        evaluateQuizAnswers(Array(count).fill(answer("intermediate"))).result
+          .confidence
+    );
+
+    expect(confidences[1]).toBeGreaterThan(confidences[0]);
+    expect(confidences[2]).toBeGreaterThan(confidences[1]);
+  });
+
+  it("never stops before the minimum number of questions", () => {
+    const answers = Array(MIN_QUIZ_QUESTIONS - 1).fill(answer("advanced"));
+    expect(evaluateQuizAnswers(answers).complete).toBe(false);
+  });
+
+  it("stops early once one level is likely enough", () => {
+    const evaluation = evaluateQuizAnswers([
+      answer("advanced"),
+      answer("advanced"),
+    ]);
+
+    expect(evaluation.complete).toBe(true);
+    expect(evaluation.result.familiarity).toBe("advanced");
+    expect(evaluation.result.confidence).toBeGreaterThanOrEqual(0.85);
+    expect(evaluation.result.reasoning).toContain("2 advanced");
+  });
+
+  it("keeps asking while the answers are inconclusive", () => {
+    const evaluation = evaluateQuizAnswers([
+      answer("intermediate"),
+      answer("intermediate"),
+    ]);
+
+    expect(evaluation.complete).toBe(false);
+    expect(evaluation.nextDifficulty).toBe("intermediate");
+  });
+
+  it("stops at the cap with mixed answers and says the estimate is rough", () => {
+    const answers = [
+      answer("advanced"),
+      answer("incorrect", "advanced"),
+      answer("advanced"),
+      answer("beginner", "advanced"),
+      answer("advanced"),
+      answer("incorrect", "advanced"),
+    ];
+    expect(answers).toHaveLength(MAX_QUIZ_QUESTIONS);
+
+    const evaluation = evaluateQuizAnswers(answers);
+    expect(evaluation.complete).toBe(true);
+    expect(evaluation.result.confidence).toBeLessThan(0.85);
+    expect(evaluation.result.reasoning).toContain("rough estimate");
+  });
+
+  it("weighs a wrong answer to a hard question less than to an easy one", () => {
+    const hard = evaluateQuizAnswers([answer("incorrect", "advanced")]);
+    const easy = evaluateQuizAnswers([answer("incorrect", "beginner")]);
+
+    expect(hard.result.familiarity).toBe("beginner");
+    expect(easy.result.confidence).toBeGreaterThan(hard.result.confidence);
+  });
+
+  it("treats unknown levels as incorrect and unknown difficulties as intermediate", () => {
+    const bogus = {
+      ...answer("incorrect"),
+      level: "genius",
+      difficulty: "expert",
+    } as unknown as QuizAnswer;
+
+    expect(evaluateQuizAnswers([bogus])).toEqual(
+      evaluateQuizAnswers([answer("incorrect", "intermediate")])
+    );
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Adaptive Familiarity Quiz
+ *
+ * Estimates a user's familiarity with a subtopic from their quiz answers
+ * (algorithmic, not LLM-based). The estimate is a probability for each
+ * level, updated with every answer:
+ *
+ * - Each question is pitched at a target difficulty: the level the answers
+ *   so far point to (the first at intermediate)
+ * - The quiz stops early once one level is likely enough, and continues up
+ *   to a cap while answers conflict
+ * - The result's confidence is the probability of the chosen level
+ */
+
+import type {
+  FamiliarityLevel,
+  QuizAnswer,
+  QuizResultResponse,
+} from "@/types";
+
+/** Questions asked before the quiz may stop early */
+export const MIN_QUIZ_QUESTIONS = 2;
+
+/** Questions after which the quiz stops however mixed the answers */
+export const MAX_QUIZ_QUESTIONS = 6;
+
+/** Probability of the leading level at which the quiz stops */
+const CONFIDENCE_TARGET = 0.85;
+
+const LEVELS: FamiliarityLevel[] = ["beginner", "intermediate", "advanced"];
+
+type AnswerLevel = QuizAnswer["level"];
+
+const ANSWER_LEVELS: AnswerLevel[] = [
+  "incorrect",
+  "beginner",
+  "intermediate",
+  "advanced",
+];
+
+/** Probability of each level, in LEVELS order */
+type LevelBelief = number[];
+
+/**
+ * How likely someone at each level is to choose each kind of option on a
+ * question pitched at their own level. Most pick the option matching their
+ * level; some under- or over-reach.
+ */
+const ANSWER_LIKELIHOOD: Record<FamiliarityLevel, Record<AnswerLevel, number>> = {
+  beginner: { incorrect: 0.3, beginner: 0.5, intermediate: 0.15, advanced: 0.05 },
+  intermediate: { incorrect: 0.1, beginner: 0.2, intermediate: 0.55, advanced: 0.15 },
+  advanced: { incorrect: 0.05, beginner: 0.1, intermediate: 0.25, advanced: 0.6 },
+};
+
+/**
+ * Chance of guessing among the options, by how many levels a question is
+ * pitched above the answerer's level
+ */
+const GUESS_RATE = [0.1, 0.4, 0.7];
+
+/** Result of evaluating the answers so far */
+export interface QuizEvaluation {
+  /** Whether the quiz should stop and report the result */
+  complete: boolean;
+  /** The estimate now, whether or not the quiz is complete */
+  result: QuizResultResponse;
+  /** Difficulty to pitch the next question at (if not complete) */
+  nextDifficulty: FamiliarityLevel;
+}
+
+function levelIndex(level: FamiliarityLevel): number {
+  return LEVELS.indexOf(level);
+}
+
+/** Treat anything the client sent outside the known levels as intermediate */
+function asDifficulty(value: unknown): FamiliarityLevel {
+  return LEVELS.includes(value as FamiliarityLevel)
+    ? (value as FamiliarityLevel)
+    : "intermediate";
+}
+
+/** Treat anything the client sent outside the known answer levels as incorrect */
+function asAnswerLevel(value: unknown): AnswerLevel {
+  return ANSWER_LEVELS.includes(value as AnswerLevel)
+    ? (value as AnswerLevel)
+    : "incorrect";
+}
+
+/**
+ * Probability that someone at a level chooses an option of the given kind
+ * on a question of the given difficulty. A question above their level
+ * makes them likelier to guess; one far below it can't tell them apart
+ * from someone only a level above the question.
+ */
+function answerLikelihood(
+  level: FamiliarityLevel,
+  difficulty: FamiliarityLevel,
+  answer: AnswerLevel
+): number {
+  const shown = LEVELS[Math.min(levelIndex(level), levelIndex(difficulty) + 1)];
+  const guess =
+    GUESS_RATE[Math.max(0, levelIndex(difficulty) - levelIndex(level))];
+  return (
+    (1 - guess) * ANSWER_LIKELIHOOD[shown][answer] +
+    guess / ANSWER_LEVELS.length
+  );
+}
+
+/** Update a belief with one answer (Bayes' rule) */
+function update(
+  belief: LevelBelief,
+  difficulty: FamiliarityLevel,
+  answer: AnswerLevel
+): LevelBelief {
+  const posterior = belief.map(
+    (p, i) => p * answerLikelihood(LEVELS[i], difficulty, answer)
+  );
+  const total = posterior.reduce((sum, p) => sum + p, 0);
+  return total > 0 ? posterior.map((p) => p / total) : belief;
+}
+
+/**
+ * The level nearest the belief's expected level: the difficulty that best
+ * tests where the answers so far place the user
+ */
+function expectedLevel(belief: LevelBelief): FamiliarityLevel {
+  const mean = belief.reduce((sum, p, i) => sum + p * i, 0);
+  return LEVELS[Math.round(mean)];
+}
+
+/** Describe the answers given, e.g. "2 advanced, 1 incorrect" */
+function describeAnswers(answers: AnswerLevel[]): string {
+  return (["advanced", "intermediate", "beginner", "incorrect"] as const)
+    .map((level) => [level, answers.filter((a) => a === level).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([level, count]) => `${count} ${level}`)
+    .join(", ");
+}
+
+/**
+ * Evaluate the answers so far: the familiarity estimate with its
+ * confidence, whether the quiz is done, and what to ask next if not.
+ */
+export function evaluateQuizAnswers(answers: QuizAnswer[]): QuizEvaluation {
+  let belief: LevelBelief = LEVELS.map(() => 1 / LEVELS.length);
+  for (const answer of answers) {
+    belief = update(
+      belief,
+      asDifficulty(answer.difficulty),
+      asAnswerLevel(answer.level)
+    );
+  }
+
+  // Ties go to the lower level
+  const best = belief.reduce((b, p, i) => (p > belief[b] ? i : b), 0);
+  const familiarity = LEVELS[best];
+  const confidence = Math.round(belief[best] * 100) / 100;
+
+  const settled = belief[best] >= CONFIDENCE_TARGET;
+  const complete =
+    answers.length >= MAX_QUIZ_QUESTIONS ||
+    (answers.length >= MIN_QUIZ_QUESTIONS && settled);
+
+  let reasoning: string;
+  if (answers.length === 0) {
+    reasoning = "No answers provided; defaulting to beginner level.";
+  } else {
+    const percent = Math.round(confidence * 100);
+    reasoning = `Based on ${answers.length} answers (${describeAnswers(
+      answers.map((a) => asAnswerLevel(a.level))
+    )}), ${familiarity} familiarity is most likely (${percent}% confidence).`;
+    if (complete && !settled) {
+      reasoning += " Your answers were mixed, so treat this as a rough estimate.";
+    }
+  }
+
+  return {
+    complete,
+    result: {
+      familiarity: answers.length === 0 ? "beginner" : familiarity,
+      reasoning,
+      confidence,
+    },
+    nextDifficulty: expectedLevel(belief),
+  };
+}
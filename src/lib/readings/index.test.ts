@@ -0,0 +1,43 @@
+import { describe, expect, it, vi } from "vitest";
+import { readingKey } from "./index";
+
+// Reading storage isn't exercised here
+vi.mock("@/lib/supabase", () => ({}));
+
+describe("readingKey", () => {
+  it("keys a text by its title and the author's surname", () => {
+    expect(readingKey("Critique of Pure Reason", "Immanuel Kant")).toBe(
+      "critique of pure reason|kant"
+    );
+  });
+
+  it("matches a bare surname to the full name", () => {
+    expect(readingKey("Critique of Pure Reason", "Kant")).toBe(
+      readingKey("Critique of Pure Reason", "Immanuel Kant")
+    );
+  });
+
+  it("ignores subtitles and a leading article", () => {
+    expect(
+      readingKey("The Critique of Pure Reason: Unified Edition", "Kant")
+    ).toBe(readingKey("Critique of Pure Reason", "Kant"));
+    expect(readingKey("A Treatise of Human Nature", "David Hume")).toBe(
+      "treatise of human nature|hume"
+    );
+  });
+
+  it("ignores case, accents and punctuation", () => {
+    expect(readingKey("Being & Time", "Martin Heidegger")).toBe(
+      "being and time|heidegger"
+    );
+    expect(readingKey("L'Être et le néant", "Jean-Paul Sartre")).toBe(
+      readingKey("LEtre et le Neant", "Jean Paul SARTRE")
+    );
+  });
+
+  it("keeps different authors of the same title apart", () => {
+    expect(readingKey("Ethics", "Spinoza")).not.toBe(
+      readingKey("Ethics", "Aristotle")
+    );
+  });
+});
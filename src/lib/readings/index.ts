@@ -0,0 +1,141 @@
+/**
+ * Reading List Service
+ *
+ * Stores a lesson's recommended reading as shared reading entities linked
+ * to its concept, keeping the structure the LLM returns (title, author,
+ * year, relevance). The same text suggested by different lessons, e.g.
+ * "Critique of Pure Reason" by "Kant" and "The Critique of Pure Reason:
+ * Unified Edition" by "Immanuel Kant", becomes one reading, keyed by its
+ * normalised title and author surname. Readings are looked up on Open
+ * Library for their ISBN and work ID.
+ *
+ * The same key matches readings to the onboarding CANONICAL_TEXTS, so a
+ * lesson can show which recommended texts the user has already read.
+ */
+
+import { findBookIdentifiers } from "@/lib/openlibrary";
+import { CANONICAL_TEXTS, canonicalTextName } from "@/lib/onboarding/data";
+import {
+  upsertReadings,
+  setReadingIdentifiers,
+  linkConceptReadings,
+} from "@/lib/supabase";
+import type {
+  ConceptReading,
+  LessonGeneration,
+  LessonReading,
+} from "@/types";
+
+type ReadingSuggestion = LessonGeneration["recommended_reading"][number];
+
+/**
+ * Lowercase, strip accents and punctuation, and collapse whitespace
+ */
+function normalizeText(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/['’]/g, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * Deduplication key for a text: its title without subtitle or leading
+ * article, plus the author's surname (so "Kant" and "Immanuel Kant" agree).
+ */
+export function readingKey(title: string, author: string): string {
+  const baseTitle = normalizeText(title.split(":")[0]).replace(
+    /^(the|a|an) /,
+    ""
+  );
+  const surname = normalizeText(author).split(" ").pop() ?? "";
+  return `${baseTitle}|${surname}`;
+}
+
+/**
+ * Store a concept's recommended readings and link them to it in the
+ * lesson's order. Texts already known from other lessons are reused;
+ * readings without Open Library identifiers are looked up.
+ * Failures are logged rather than thrown: the lesson stands without them.
+ */
+export async function saveConceptReadings(
+  conceptId: string,
+  suggestions: ReadingSuggestion[]
+): Promise<void> {
+  // A lesson may list the same text twice under different titles
+  const unique = new Map<string, ReadingSuggestion>();
+  for (const suggestion of suggestions) {
+    const key = readingKey(suggestion.title, suggestion.author);
+    if (!unique.has(key)) unique.set(key, suggestion);
+  }
+  if (unique.size === 0) return;
+
+  const stored = await upsertReadings(
+    [...unique].map(([key, suggestion]) => ({
+      title: suggestion.title,
+      author: suggestion.author,
+      year: suggestion.year || null,
+      readingKey: key,
+    }))
+  );
+
+  await Promise.all(
+    stored
+      .filter((reading) => !reading.openlibrary_id)
+      .map(async (reading) => {
+        const ids = await findBookIdentifiers(reading.title, reading.author);
+        if (ids) {
+          await setReadingIdentifiers(reading.id, ids.isbn, ids.openLibraryId);
+        }
+      })
+  );
+
+  const storedByKey = new Map(stored.map((r) => [r.reading_key, r]));
+  const links = [...unique].flatMap(([key, suggestion], position) => {
+    const reading = storedByKey.get(key);
+    return reading
+      ? [{ readingId: reading.id, relevance: suggestion.relevance, position }]
+      : [];
+  });
+  await linkConceptReadings(conceptId, links);
+}
+
+/** Canonical text names by reading key, built on first use */
+let canonicalTextNames: Map<string, string> | null = null;
+
+/**
+ * Name of the onboarding canonical text a reading is, if any
+ * (as stored in user_text_familiarity.text_name)
+ */
+export function findCanonicalTextName(key: string): string | null {
+  canonicalTextNames ??= new Map(
+    CANONICAL_TEXTS.map((text) => [
+      readingKey(text.title, text.author),
+      canonicalTextName(text),
+    ])
+  );
+  return canonicalTextNames.get(key) ?? null;
+}
+
+/**
+ * Annotate a concept's readings with their canonical text and whether the
+ * viewer has read it.
+ *
+ * @param readTextNames - text_names the viewer has marked read
+ */
+export function withReadStatus(
+  readings: ConceptReading[],
+  readTextNames: Set<string>
+): LessonReading[] {
+  return readings.map((reading) => {
+    const name = findCanonicalTextName(reading.reading_key);
+    return {
+      ...reading,
+      canonical_text_name: name,
+      has_read: name !== null && readTextNames.has(name),
+    };
+  });
+}
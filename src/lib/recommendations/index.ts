@@ -0,0 +1,299 @@
+/**
+ * Starting Point Recommender
+ *
+ * Recommends concepts to start exploring from, based on the user's
+ * familiarity profile: per-subtopic familiarity ratings and the canonical
+ * texts they have read. Each interest area (a subtopic the user knows, or a
+ * text they have read) is embedded (once per process) and matched against
+ * the user's unvisited lessons with match_unvisited_concepts, so
+ * recommendations are concepts that already exist near what the user knows.
+ *
+ * Familiarity sets the level: beginners get the concepts closest to an
+ * area, its core ideas; more familiar users skip past those to the more
+ * specialised concepts around it. The static STARTING_CONCEPTS lists are
+ * only used when nothing in the graph matches (e.g. an empty graph).
+ *
+ * Recommendations can be limited to one category: the interest areas are
+ * then that category's subtopics, and only concepts tagged with it (see
+ * lib/categories) are recommended.
+ */
+
+import {
+  CANONICAL_TEXTS,
+  CATEGORIES,
+  STARTING_CONCEPTS,
+  canonicalTextName,
+} from "@/lib/onboarding/data";
+import { generateEmbeddings } from "@/lib/openai";
+import {
+  findNearestUnvisitedConcepts,
+  getCategoryFamiliarity,
+  getConceptCategories,
+  getTextFamiliarity,
+} from "@/lib/supabase";
+import type {
+  CategoryFamiliarity,
+  Concept,
+  FamiliarityLevel,
+  RecommendedConcept,
+} from "@/types";
+
+/** Number of concepts to recommend */
+const RECOMMENDATION_COUNT = 4;
+
+/** Most interest areas embedded and matched per request */
+const MAX_INTEREST_AREAS = 6;
+
+/** Nearest concepts fetched per interest area */
+const CANDIDATES_PER_AREA = 10;
+
+/**
+ * Minimum cosine similarity between an interest and a concept. Lower than
+ * concept-to-concept matching: a short subtopic name embeds less richly
+ * than a concept's name and lesson description.
+ */
+const INTEREST_MIN_SIMILARITY = 0.3;
+
+/** How many of an area's closest concepts to skip, by familiarity */
+const LEVEL_SKIP: Record<FamiliarityLevel, number> = {
+  beginner: 0,
+  intermediate: 1,
+  advanced: 3,
+};
+
+/** Order of preference between interest areas */
+const LEVEL_RANK: Record<FamiliarityLevel, number> = {
+  advanced: 0,
+  intermediate: 1,
+  beginner: 2,
+};
+
+/** A recommendable concept: what is shown of it */
+type Candidate = Pick<Concept, "id" | "name" | "slug" | "description">;
+
+/**
+ * Interest area query embeddings, by query. Areas are subtopics, canonical
+ * texts and categories, so this stays small.
+ */
+const areaEmbeddings = new Map<string, number[]>();
+
+/** Something the user knows about, to find concepts near */
+interface InterestArea {
+  /** Text embedded to find nearby concepts */
+  query: string;
+  level: FamiliarityLevel;
+  /** Shown with the concepts recommended for this area */
+  reason: string;
+}
+
+/** Recommended starting points and the user's overall level */
+export interface Recommendations {
+  level: FamiliarityLevel;
+  concepts: RecommendedConcept[];
+}
+
+/**
+ * The user's dominant familiarity level across all rated subtopics
+ */
+export function getOverallLevel(
+  familiarities: Pick<CategoryFamiliarity, "familiarity">[]
+): FamiliarityLevel {
+  const counts = { beginner: 0, intermediate: 0, advanced: 0 };
+  for (const f of familiarities) {
+    if (f.familiarity in counts) {
+      counts[f.familiarity]++;
+    }
+  }
+
+  if (counts.advanced > counts.intermediate && counts.advanced > counts.beginner) {
+    return "advanced";
+  }
+  if (counts.intermediate >= counts.advanced && counts.intermediate > counts.beginner) {
+    return "intermediate";
+  }
+  return "beginner";
+}
+
+/**
+ * The user's interest areas, strongest first: subtopics they rated
+ * advanced or intermediate, and texts they have read. Users with no strong
+ * areas get each category as a beginner area.
+ */
+function getInterestAreas(
+  familiarities: CategoryFamiliarity[],
+  readTextNames: Set<string>
+): InterestArea[] {
+  const subtopicAreas: InterestArea[] = familiarities
+    .filter((f) => f.familiarity !== "beginner")
+    .map((f) => ({
+      query: `${f.category}: ${f.subtopic}`,
+      level: f.familiarity,
+      reason: `You know ${f.subtopic}`,
+    }));
+
+  const textAreas: InterestArea[] = CANONICAL_TEXTS.filter((text) =>
+    readTextNames.has(canonicalTextName(text))
+  ).map((text) => ({
+    query: `${text.title} by ${text.author}`,
+    level: "intermediate",
+    reason: `You've read ${text.title}`,
+  }));
+
+  const strong = [...subtopicAreas, ...textAreas].sort(
+    (a, b) => LEVEL_RANK[a.level] - LEVEL_RANK[b.level]
+  );
+  if (strong.length > 0) return strong.slice(0, MAX_INTEREST_AREAS);
+
+  return CATEGORIES.slice(0, MAX_INTEREST_AREAS).map((category) => ({
+    query: category.name,
+    level: "beginner",
+    reason: `A way into ${category.name}`,
+  }));
+}
+
+/**
+ * Interest areas within one category: its subtopics, strongest first, at
+ * the user's level in each (beginner where unrated)
+ */
+function getCategoryAreas(
+  familiarities: CategoryFamiliarity[],
+  category: string
+): InterestArea[] {
+  const subtopics =
+    CATEGORIES.find((c) => c.name === category)?.subtopics ?? [];
+  const levels = new Map(
+    familiarities
+      .filter((f) => f.category === category)
+      .map((f) => [f.subtopic, f.familiarity])
+  );
+
+  return subtopics
+    .map((subtopic): InterestArea => {
+      const level = levels.get(subtopic);
+      return {
+        query: `${category}: ${subtopic}`,
+        level: level ?? "beginner",
+        reason:
+          level && level !== "beginner"
+            ? `You know ${subtopic}`
+            : `A way into ${subtopic}`,
+      };
+    })
+    .sort((a, b) => LEVEL_RANK[a.level] - LEVEL_RANK[b.level])
+    .slice(0, MAX_INTEREST_AREAS);
+}
+
+/**
+ * An area's candidates at the user's level: past the closest few for
+ * familiar areas, but never skipping every candidate
+ */
+function atLevel(
+  candidates: Candidate[],
+  level: FamiliarityLevel
+): Candidate[] {
+  const skip = Math.min(LEVEL_SKIP[level], Math.max(0, candidates.length - 1));
+  return [...candidates.slice(skip), ...candidates.slice(0, skip)];
+}
+
+/**
+ * Embed interest area queries, embedding only those not already cached
+ *
+ * @returns One embedding per query, in order (null where embedding failed)
+ */
+async function embedAreas(queries: string[]): Promise<(number[] | null)[]> {
+  const missing = [...new Set(queries)].filter((q) => !areaEmbeddings.has(q));
+  if (missing.length > 0) {
+    const embeddings = await generateEmbeddings(missing);
+    missing.forEach((query, index) => {
+      const embedding = embeddings[index];
+      if (embedding) areaEmbeddings.set(query, embedding);
+    });
+  }
+  return queries.map((query) => areaEmbeddings.get(query) ?? null);
+}
+
+/**
+ * Recommend starting concepts for a user: unvisited concepts with lessons,
+ * near their strongest interest areas and at their level there, taking one
+ * per area in turn so one area doesn't crowd out the rest.
+ *
+ * @param category - Only recommend concepts in this CATEGORIES category.
+ *   There is no static fallback then, so the list may be empty.
+ */
+export async function recommendConcepts(
+  userId: string,
+  category?: string
+): Promise<Recommendations> {
+  const [familiarities, texts] = await Promise.all([
+    getCategoryFamiliarity(userId),
+    getTextFamiliarity(userId),
+  ]);
+
+  const level = getOverallLevel(
+    category
+      ? familiarities.filter((f) => f.category === category)
+      : familiarities
+  );
+  const fallback = {
+    level,
+    concepts: category ? [] : STARTING_CONCEPTS[level],
+  };
+
+  const areas = category
+    ? getCategoryAreas(familiarities, category)
+    : getInterestAreas(
+        familiarities,
+        new Set(texts.filter((t) => t.has_read).map((t) => t.text_name))
+      );
+  const embeddings = await embedAreas(areas.map((a) => a.query));
+
+  const candidatesByArea = await Promise.all(
+    areas.map(async (area, index) => {
+      const embedding = embeddings[index];
+      if (!embedding) return [];
+
+      const nearest = await findNearestUnvisitedConcepts(
+        embedding,
+        userId,
+        CANDIDATES_PER_AREA,
+        INTEREST_MIN_SIMILARITY
+      );
+      return atLevel(nearest, area.level);
+    })
+  );
+
+  if (category) {
+    const inCategory = new Set(
+      (await getConceptCategories(candidatesByArea.flat().map((c) => c.id)))
+        .filter((tag) => tag.category === category)
+        .map((tag) => tag.concept_id)
+    );
+    candidatesByArea.forEach((candidates, index) => {
+      candidatesByArea[index] = candidates.filter((c) => inCategory.has(c.id));
+    });
+  }
+
+  const picked = new Set<string>();
+  const concepts: RecommendedConcept[] = [];
+  const rounds = Math.max(0, ...candidatesByArea.map((c) => c.length));
+
+  for (let round = 0; round < rounds; round++) {
+    for (const [index, candidates] of candidatesByArea.entries()) {
+      if (concepts.length === RECOMMENDATION_COUNT) break;
+
+      const concept = candidates.find((c) => !picked.has(c.id));
+      if (!concept) continue;
+
+      picked.add(concept.id);
+      concepts.push({
+        slug: concept.slug,
+        name: concept.name,
+        // The lesson's opening paragraph
+        description: concept.description.split(/\n\s*\n/)[0].trim(),
+        reason: areas[index].reason,
+      });
+    }
+  }
+
+  return concepts.length > 0 ? { level, concepts } : fallback;
+}
@@ -0,0 +1,85 @@
+/**
+ * Socratic Dialogue Helpers
+ *
+ * Request validation and response shaping shared by the JSON and
+ * streaming respond routes.
+ * The dialogue history is client-held, so it is bounded before being
+ * replayed into a prompt.
+ */
+
+import type {
+  SocraticMessage,
+  SocraticRespondRequest,
+  SocraticRespondResponse,
+  SocraticResponseGeneration,
+} from "@/types";
+
+const MAX_ANSWER_LENGTH = 2000;
+const MAX_MESSAGE_LENGTH = 4000;
+const MAX_HISTORY_MESSAGES = 24;
+
+/**
+ * Check that a client-supplied dialogue history is well-formed and bounded.
+ */
+function isValidHistory(history: unknown): history is SocraticMessage[] {
+  return (
+    Array.isArray(history) &&
+    history.length <= MAX_HISTORY_MESSAGES &&
+    history.every(
+      (msg) =>
+        msg &&
+        (msg.role === "assistant" || msg.role === "user") &&
+        typeof msg.content === "string" &&
+        msg.content.length <= MAX_MESSAGE_LENGTH
+    )
+  );
+}
+
+/**
+ * Validate a respond request body.
+ *
+ * @returns The request with a trimmed answer, or the 400 error message
+ */
+export function validateRespondRequest(
+  body: SocraticRespondRequest
+): { request: SocraticRespondRequest } | { error: string } {
+  if (!body.conceptId || typeof body.conceptId !== "string") {
+    return { error: "conceptId is required" };
+  }
+
+  if (!isValidHistory(body.history)) {
+    return {
+      error: `history must be an array of at most ${MAX_HISTORY_MESSAGES} messages`,
+    };
+  }
+
+  const answer = typeof body.answer === "string" ? body.answer.trim() : "";
+  if (!answer) {
+    return { error: "answer is required" };
+  }
+
+  if (answer.length > MAX_ANSWER_LENGTH) {
+    return {
+      error: `answer must be ${MAX_ANSWER_LENGTH} characters or fewer`,
+    };
+  }
+
+  return {
+    request: { conceptId: body.conceptId, history: body.history, answer },
+  };
+}
+
+/**
+ * Shape a validated generation as the respond routes' response.
+ * A concluding turn never carries a follow-up question.
+ */
+export function toRespondResponse(
+  data: SocraticResponseGeneration
+): SocraticRespondResponse {
+  return {
+    response: data.response,
+    question: data.is_complete ? null : data.question,
+    isComplete: data.is_complete,
+    summary: data.summary || undefined,
+  };
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  eventStreamResponse,
+  readEventStream,
+  type StreamEvent,
+} from "./index";
+
+/** A response whose body arrives in the given chunks */
+function chunkedResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  return new Response(
+    new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+        controller.close();
+      },
+    })
+  );
+}
+
+async function readAll(response: Response): Promise<StreamEvent[]> {
+  const events: StreamEvent[] = [];
+  await readEventStream(response, (event) => events.push(event));
+  return events;
+}
+
+describe("eventStreamResponse", () => {
+  it("frames each event as an event line and a JSON data line", async () => {
+    const response = eventStreamResponse(async (send) => {
+      send({ event: "delta", data: { text: "Hello" } });
+      send({ event: "done", data: { ok: true } });
+    });
+
+    expect(response.headers.get("Content-Type")).toBe(
+      "text/event-stream; charset=utf-8"
+    );
+    expect(await response.text()).toBe(
+      'event: delta\ndata: {"text":"Hello"}\n\n' +
+        'event: done\ndata: {"ok":true}\n\n'
+    );
+  });
+
+  it("reports an error thrown while streaming as a final error event", async () => {
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    const response = eventStreamResponse(async (send) => {
+      send({ event: "delta", data: { text: "Partial" } });
+      throw new Error("Generation failed");
+    });
+
+    expect(await readAll(response)).toEqual([
+      { event: "delta", data: { text: "Partial" } },
+      { event: "error", data: { error: "Stream failed", status: 500 } },
+    ]);
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
+
+describe("readEventStream", () => {
+  it("reads back the events a stream response writes", async () => {
+    const events = [
+      { event: "delta", data: { text: "line one\nline two" } },
+      { event: "done", data: null },
+    ];
+    const response = eventStreamResponse(async (send) => {
+      for (const event of events) send(event);
+    });
+
+    const seen: StreamEvent[] = [];
+    const last = await readEventStream(response, (event) => seen.push(event));
+    expect(seen).toEqual(events);
+    expect(last).toEqual(events[1]);
+  });
+
+  it("joins events split across chunks, with CRLF line endings", async () => {
+    const response = chunkedResponse([
+      "event: del",
+      'ta\r\ndata: {"te',
+      'xt":"a"}\r\n\r\nevent: done\r\n',
+      "data: {}\r\n\r\n",
+    ]);
+
+    expect(await readAll(response)).toEqual([
+      { event: "delta", data: { text: "a" } },
+      { event: "done", data: {} },
+    ]);
+  });
+
+  it("joins multi-line data and defaults the event name to message", async () => {
+    const response = chunkedResponse(['data: {"a":\ndata: 1}\n\n']);
+    expect(await readAll(response)).toEqual([
+      { event: "message", data: { a: 1 } },
+    ]);
+  });
+
+  it("reads a final event without a trailing blank line", async () => {
+    const response = chunkedResponse(['event: done\ndata: {"ok":true}']);
+    expect(await readEventStream(response)).toEqual({
+      event: "done",
+      data: { ok: true },
+    });
+  });
+
+  it("skips blocks without data and resolves null for an empty stream", async () => {
+    expect(await readEventStream(chunkedResponse([": ping\n\n"]))).toBeNull();
+    expect(await readEventStream(chunkedResponse([]))).toBeNull();
+  });
+
+  it("throws when the response has no body", async () => {
+    await expect(readEventStream(new Response(null))).rejects.toThrow(
+      "Response has no body to stream"
+    );
+  });
+});
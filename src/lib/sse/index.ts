@@ -0,0 +1,113 @@
+/**
+ * Server-Sent Events Helpers
+ *
+ * Shared by streamed API routes (which write events) and client hooks
+ * (which read them). Events are named, with a JSON `data` payload:
+ *
+ *   event: delta
+ *   data: {"text":"..."}
+ *
+ * Streams are POSTed with fetch rather than opened with EventSource, so
+ * requests can carry a JSON body and are never auto-retried.
+ */
+
+/** A named event with a JSON-serialisable payload */
+export interface StreamEvent {
+  event: string;
+  data: unknown;
+}
+
+/**
+ * Build a text/event-stream response whose events are written by `run`.
+ * Generation keeps running if the client disconnects (so its results are
+ * still persisted); later events are dropped. An error thrown by `run` is
+ * reported as a final `error` event.
+ */
+export function eventStreamResponse<E extends StreamEvent>(
+  run: (send: (event: E) => void) => Promise<void>
+): Response {
+  const encoder = new TextEncoder();
+  let open = true;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = ({ event, data }: StreamEvent) => {
+        if (!open) return;
+        controller.enqueue(
+          encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+        );
+      };
+
+      try {
+        await run(write);
+      } catch (error) {
+        console.error("Error in event stream:", error);
+        write({ event: "error", data: { error: "Stream failed", status: 500 } });
+      } finally {
+        if (open) {
+          open = false;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      open = false;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+/**
+ * Read a text/event-stream response, calling onEvent for each event
+ * in order. Resolves with the last event (typically done or error), or
+ * null if the stream ended without any.
+ */
+export async function readEventStream<E extends StreamEvent>(
+  response: Response,
+  onEvent?: (event: E) => void
+): Promise<E | null> {
+  if (!response.body) {
+    throw new Error("Response has no body to stream");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let last: E | null = null;
+
+  const dispatch = (block: string) => {
+    let event = "message";
+    const data: string[] = [];
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+    }
+    if (data.length > 0) {
+      last = { event, data: JSON.parse(data.join("\n")) } as E;
+      onEvent?.(last);
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      dispatch(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+
+  if (buffer.trim()) dispatch(buffer);
+  return last;
+}
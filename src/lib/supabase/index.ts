@@ -2,21 +2,41 @@
  * Supabase Database Query Functions
  *
  * All database operations for PhilTreeCrawler.
- * Uses the server client for API routes and the browser client for client-side code.
+ * Uses the server client for API routes, the service-role client for writes
+ * to tables clients may only read, and the browser client for client-side code.
  */
 
 import { getSupabaseServerClient } from "./server";
+import { getSupabaseServiceClient } from "./service";
 import type {
   Concept,
+  ConceptCategory,
+  ConceptLens,
   Edge,
   EdgeWithTarget,
   UserProfile,
   TextFamiliarity,
   CategoryFamiliarity,
+  FamiliarityHistoryEntry,
+  FamiliaritySource,
   BranchType,
   FamiliarityLevel,
+  GraphData,
+  GraphEdge,
+  TopConnectedCursor,
+  GenerationJob,
+  GenerationJobKind,
+  GenerationJobStage,
+  GenerationJobResult,
+  Reading,
+  ConceptReading,
+  LibraryEntry,
+  LibraryStatus,
+  QuizBankQuestion,
+  QuizQuestionGeneration,
 } from "@/types";
-import type { Tables } from "./types";
+import type { Json, Tables } from "./types";
+import type { PostgrestError } from "@supabase/supabase-js";
 import slugify from "slugify";
 
 // Re-export clients for convenience
@@ -25,6 +45,52 @@ export { getSupabaseBrowserClient } from "./client";
 export { updateSession } from "./middleware";
 export type { Database } from "./types";
 
+// =============================================
+// VALIDATION
+// =============================================
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Whether a value is a UUID. Check IDs from clients before they reach a
+ * query, so malformed ones are rejected rather than logged as query errors
+ * (and can't inject into a PostgREST filter string).
+ */
+export function isUuid(value: unknown): value is string {
+  return typeof value === "string" && UUID_PATTERN.test(value);
+}
+
+// =============================================
+// PAGINATION
+// =============================================
+
+/** Rows per request when reading a whole result set (PostgREST's max-rows) */
+const PAGE_SIZE = 1000;
+
+/**
+ * Read every row of a query a page at a time, since PostgREST silently
+ * truncates a response at its max-rows limit. The query must be ordered
+ * so pages don't overlap.
+ *
+ * @param page - Runs the query for rows from..to (inclusive)
+ */
+async function fetchAllRows<T>(
+  page: (
+    from: number,
+    to: number
+  ) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>
+): Promise<{ data: T[]; error: PostgrestError | null }> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) return { data: rows, error };
+
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return { data: rows, error: null };
+  }
+}
+
 // =============================================
 // CONCEPT QUERIES
 // =============================================
@@ -48,7 +114,7 @@ export async function getConceptById(id: string): Promise<Concept | null> {
 }
 
 /**
- * Fetch a concept by its URL slug
+ * Fetch a concept by its URL slug, or by the slug of one of its aliases
  */
 export async function getConceptBySlug(slug: string): Promise<Concept | null> {
   const supabase = await getSupabaseServerClient();
@@ -62,12 +128,99 @@ export async function getConceptBySlug(slug: string): Promise<Concept | null> {
     if (error.code !== "PGRST116") {
       // PGRST116 = no rows returned
       console.error("Error fetching concept by slug:", error);
+      return null;
     }
-    return null;
+    return getConceptByAlias("slug", slug);
   }
   return data;
 }
 
+/**
+ * Fetch a concept by its normalised name key, matching either its own
+ * name or one of its aliases
+ */
+export async function getConceptByNameKey(
+  nameKey: string
+): Promise<Concept | null> {
+  const supabase = await getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("concepts")
+    .select("*")
+    .eq("name_key", nameKey)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching concept by name key:", error);
+    return null;
+  }
+  return data ?? getConceptByAlias("name_key", nameKey);
+}
+
+/**
+ * Fetch the concept an alias (looked up by slug or name key) points to
+ */
+async function getConceptByAlias(
+  column: "slug" | "name_key",
+  value: string
+): Promise<Concept | null> {
+  const supabase = await getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("concept_aliases")
+    .select("concept:concepts(*)")
+    .eq(column, value)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching concept by alias:", error);
+    return null;
+  }
+
+  const row = data as unknown as { concept: Concept | null } | null;
+  return row?.concept ?? null;
+}
+
+/**
+ * Attach an alternative name to a concept.
+ * Names whose slug or key is already taken are skipped.
+ */
+export async function createConceptAlias(
+  conceptId: string,
+  name: string,
+  nameKey: string
+): Promise<void> {
+  const supabase = getSupabaseServiceClient();
+  const { error } = await supabase.from("concept_aliases").insert({
+    concept_id: conceptId,
+    name,
+    slug: slugify(name, { lower: true, strict: true }),
+    name_key: nameKey,
+  });
+
+  if (error && error.code !== "23505") {
+    console.error("Error creating concept alias:", error);
+  }
+}
+
+/**
+ * Get an edge by ID
+ */
+export async function getEdgeById(id: string): Promise<Edge | null> {
+  const supabase = await getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("edges")
+    .select("*")
+    .eq("id", id)
+    .single();
+
+  if (error) {
+    if (error.code !== "PGRST116") {
+      console.error("Error fetching edge:", error);
+    }
+    return null;
+  }
+  return data as Edge;
+}
+
 /**
  * Get all outgoing edges from a concept with target concept data
  */
@@ -108,17 +261,20 @@ export async function getEdgesFromConcept(
 /**
  * Find nearest concepts using vector similarity search (pgvector)
  * Uses the match_concepts SQL function defined in schema.sql
+ *
+ * @param minSimilarity - Cosine similarity (0-1) a concept must exceed
  */
 export async function findNearestConcepts(
   embedding: number[],
   limit: number = 3,
-  excludeIds: string[] = []
+  excludeIds: string[] = [],
+  minSimilarity: number = 0.5
 ): Promise<Concept[]> {
   const supabase = await getSupabaseServerClient();
 
   const { data, error } = await supabase.rpc("match_concepts", {
     query_embedding: embedding,
-    match_threshold: 0.5,
+    match_threshold: minSimilarity,
     match_count: limit + excludeIds.length,
   });
 
@@ -134,34 +290,133 @@ export async function findNearestConcepts(
 }
 
 /**
- * Search concepts by name (text search)
+ * Find the lessons nearest an embedding that a user hasn't visited,
+ * without their embeddings
+ * Uses the match_unvisited_concepts SQL function defined in schema.sql
+ *
+ * @param minSimilarity - Cosine similarity (0-1) a concept must exceed
+ */
+export async function findNearestUnvisitedConcepts(
+  embedding: number[],
+  userId: string,
+  limit: number,
+  minSimilarity: number
+): Promise<Pick<Concept, "id" | "name" | "slug" | "description">[]> {
+  const supabase = await getSupabaseServerClient();
+
+  const { data, error } = await supabase.rpc("match_unvisited_concepts", {
+    query_embedding: embedding,
+    match_threshold: minSimilarity,
+    match_count: limit,
+    p_user_id: userId,
+  });
+
+  if (error) {
+    console.error("Error in findNearestUnvisitedConcepts:", error);
+    return [];
+  }
+
+  return (data || []).map(({ id, name, slug, description }) => ({
+    id,
+    name,
+    slug,
+    description,
+  }));
+}
+
+/**
+ * Find the concept most similar to an embedding, if any reaches
+ * minSimilarity (cosine similarity, 0-1)
+ */
+export async function findSimilarConcept(
+  embedding: number[],
+  minSimilarity: number,
+  excludeIds: string[] = []
+): Promise<{ concept: Concept; similarity: number } | null> {
+  const supabase = await getSupabaseServerClient();
+
+  const { data, error } = await supabase.rpc("match_concepts", {
+    query_embedding: embedding,
+    match_threshold: minSimilarity,
+    match_count: 1 + excludeIds.length,
+  });
+
+  if (error) {
+    console.error("Error in findSimilarConcept:", error);
+    return null;
+  }
+
+  const match = (data || []).find((c) => !excludeIds.includes(c.id));
+  if (!match) return null;
+
+  const { similarity, ...concept } = match;
+  return { concept, similarity };
+}
+
+/**
+ * Search concepts by name (text search), including their aliases.
+ * A concept found by both its name and an alias is listed once.
+ *
+ * @param category - Only concepts tagged with this category
  */
 export async function searchConcepts(
   query: string,
-  limit: number = 10
+  limit: number = 10,
+  category?: string
 ): Promise<Concept[]> {
   const supabase = await getSupabaseServerClient();
-  const { data, error } = await supabase
+
+  // An empty inner embed of the tags filters by category without
+  // adding them to the rows
+  const tagged = category ? ", concept_categories!inner()" : "";
+  let nameQuery = supabase
     .from("concepts")
-    .select("*")
+    .select(`*${tagged}`)
     .ilike("name", `%${query}%`)
     .limit(limit);
+  let aliasQuery = supabase
+    .from("concept_aliases")
+    .select(`concept:concepts!inner(*${tagged})`)
+    .ilike("name", `%${query}%`)
+    .limit(limit);
+  if (category) {
+    nameQuery = nameQuery.eq("concept_categories.category", category);
+    aliasQuery = aliasQuery.eq("concept.concept_categories.category", category);
+  }
 
-  if (error) {
-    console.error("Error searching concepts:", error);
+  const [byName, byAlias] = await Promise.all([nameQuery, aliasQuery]);
+
+  if (byName.error) {
+    console.error("Error searching concepts:", byName.error);
     return [];
   }
-  return data || [];
+  if (byAlias.error) {
+    console.error("Error searching concept aliases:", byAlias.error);
+  }
+
+  const aliased = ((byAlias.data || []) as unknown as {
+    concept: Concept | null;
+  }[]).flatMap((row) => (row.concept ? [row.concept] : []));
+
+  const concepts = new Map<string, Concept>();
+  for (const concept of [
+    ...((byName.data || []) as unknown as Concept[]),
+    ...aliased,
+  ]) {
+    if (!concepts.has(concept.id)) concepts.set(concept.id, concept);
+  }
+  return [...concepts.values()].slice(0, limit);
 }
 
 /**
- * Create a new concept with embedding
+ * Create a new concept with embedding (null if embedding failed; an
+ * embedding job fills it in later)
  */
 export async function createConcept(
   name: string,
+  nameKey: string,
   description: string,
-  recommendedReading: string[],
-  embedding: number[]
+  embedding: number[] | null
 ): Promise<Concept | null> {
   const supabase = await getSupabaseServerClient();
 
@@ -172,8 +427,8 @@ export async function createConcept(
     .insert({
       name,
       slug,
+      name_key: nameKey,
       description,
-      recommended_reading: recommendedReading,
       embedding,
     })
     .select()
@@ -186,6 +441,131 @@ export async function createConcept(
   return data;
 }
 
+/**
+ * Create a stub concept (name only) to be generated on first visit.
+ * Returns null if the insert fails, including when the slug or name
+ * is already taken.
+ */
+export async function createStubConcept(
+  name: string,
+  nameKey: string
+): Promise<Concept | null> {
+  const supabase = await getSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from("concepts")
+    .insert({
+      name,
+      slug: slugify(name, { lower: true, strict: true }),
+      name_key: nameKey,
+      status: "stub",
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code !== "23505") {
+      console.error("Error creating stub concept:", error);
+    }
+    return null;
+  }
+  return data;
+}
+
+/**
+ * Claim a concept's lesson generation by moving it to "generating".
+ * Succeeds for stubs, failed generations, and generations claimed before
+ * staleBefore (abandoned by a crashed server); fails if another request
+ * holds a live claim or the lesson is already written.
+ */
+export async function claimConceptGeneration(
+  id: string,
+  staleBefore: Date
+): Promise<boolean> {
+  const supabase = await getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("concepts")
+    .update({
+      status: "generating",
+      generation_started_at: new Date().toISOString(),
+    })
+    .eq("id", id)
+    .or(
+      `status.in.(stub,failed),and(status.eq.generating,generation_started_at.lt.${staleBefore.toISOString()})`
+    )
+    .select("id");
+
+  if (error) {
+    console.error("Error claiming concept generation:", error);
+    return false;
+  }
+  return (data || []).length > 0;
+}
+
+/**
+ * Store a claimed concept's generated lesson and mark it ready
+ * (its readings are linked separately)
+ */
+export async function completeConcept(
+  id: string,
+  description: string,
+  embedding: number[] | null
+): Promise<Concept | null> {
+  const supabase = await getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("concepts")
+    .update({
+      description,
+      embedding,
+      status: "ready",
+    })
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error completing concept:", error);
+    return null;
+  }
+  return data;
+}
+
+/**
+ * Store the embedding for a concept whose lesson was saved without one
+ */
+export async function updateConceptEmbedding(
+  id: string,
+  embedding: number[]
+): Promise<boolean> {
+  const supabase = await getSupabaseServerClient();
+  const { error } = await supabase
+    .from("concepts")
+    .update({ embedding })
+    .eq("id", id);
+
+  if (error) {
+    console.error("Error updating concept embedding:", error);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Release a claimed concept after its lesson generation failed,
+ * so a later visit can retry it
+ */
+export async function markConceptFailed(id: string): Promise<void> {
+  const supabase = await getSupabaseServerClient();
+  const { error } = await supabase
+    .from("concepts")
+    .update({ status: "failed" })
+    .eq("id", id);
+
+  if (error) {
+    console.error("Error marking concept failed:", error);
+  }
+}
+
 /**
  * Create an edge between two concepts
  */
@@ -246,187 +626,1478 @@ export async function createEdge(
 }
 
 // =============================================
-// ANALYTICS QUERIES
+// READING QUERIES
 // =============================================
 
 /**
- * Increment the branch choice counter for analytics
- * Uses the increment_branch_stat SQL function defined in schema.sql (atomic upsert)
+ * Store readings not seen before (by reading_key) and return the stored
+ * row for every key given, whether new or existing
  */
-export async function incrementBranchStat(
-  conceptId: string,
-  branchType: BranchType
+export async function upsertReadings(
+  readings: {
+    title: string;
+    author: string;
+    year: string | null;
+    readingKey: string;
+  }[]
+): Promise<Reading[]> {
+  if (readings.length === 0) return [];
+
+  const supabase = getSupabaseServiceClient();
+  const { error: insertError } = await supabase.from("readings").upsert(
+    readings.map((r) => ({
+      title: r.title,
+      author: r.author,
+      year: r.year,
+      reading_key: r.readingKey,
+    })),
+    { onConflict: "reading_key", ignoreDuplicates: true }
+  );
+
+  if (insertError) {
+    console.error("Error inserting readings:", insertError);
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from("readings")
+    .select()
+    .in(
+      "reading_key",
+      readings.map((r) => r.readingKey)
+    );
+
+  if (error) {
+    console.error("Error fetching readings:", error);
+    return [];
+  }
+  return data || [];
+}
+
+/**
+ * Store the Open Library identifiers found for a reading
+ */
+export async function setReadingIdentifiers(
+  id: string,
+  isbn: string | null,
+  openLibraryId: string | null
 ): Promise<void> {
-  const supabase = await getSupabaseServerClient();
+  const supabase = getSupabaseServiceClient();
+  const { error } = await supabase
+    .from("readings")
+    .update({ isbn, openlibrary_id: openLibraryId })
+    .eq("id", id);
 
-  const { error } = await supabase.rpc("increment_branch_stat", {
-    p_concept_id: conceptId,
-    p_branch_type: branchType,
-  });
+  if (error) {
+    console.error("Error updating reading identifiers:", error);
+  }
+}
+
+/**
+ * Link readings to the concept whose lesson recommends them
+ */
+export async function linkConceptReadings(
+  conceptId: string,
+  links: { readingId: string; relevance: string; position: number }[]
+): Promise<void> {
+  if (links.length === 0) return;
+
+  const supabase = getSupabaseServiceClient();
+  const { error } = await supabase.from("concept_readings").upsert(
+    links.map((link) => ({
+      concept_id: conceptId,
+      reading_id: link.readingId,
+      relevance: link.relevance,
+      position: link.position,
+    })),
+    { onConflict: "concept_id,reading_id" }
+  );
 
   if (error) {
-    console.error("Error incrementing branch stat:", error);
+    console.error("Error linking concept readings:", error);
   }
 }
 
 /**
- * Get branch choice statistics for a concept
+ * Get a concept's recommended readings in the lesson's order
  */
-export async function getBranchStats(
+export async function getConceptReadings(
   conceptId: string
-): Promise<{ type: BranchType; percentage: number; count: number }[]> {
+): Promise<ConceptReading[]> {
   const supabase = await getSupabaseServerClient();
-
   const { data, error } = await supabase
-    .from("branch_analytics")
-    .select("*")
-    .eq("concept_id", conceptId);
+    .from("concept_readings")
+    .select(
+      `
+      relevance,
+      reading:readings!concept_readings_reading_id_fkey(*)
+    `
+    )
+    .eq("concept_id", conceptId)
+    .order("position", { ascending: true });
 
   if (error) {
-    console.error("Error fetching branch stats:", error);
+    console.error("Error fetching concept readings:", error);
     return [];
   }
 
-  const rows = data || [];
-  const total = rows.reduce((sum, row) => sum + (row.chosen_count || 0), 0);
+  // Type assertion needed due to complex join
+  type ReadingLinkWithJoin = { relevance: string; reading: Reading };
+  const links = data as unknown as ReadingLinkWithJoin[];
 
-  return rows.map((row) => ({
-    type: row.branch_type as BranchType,
-    count: row.chosen_count || 0,
-    percentage: total > 0 ? ((row.chosen_count || 0) / total) * 100 : 0,
+  return (links || []).map((link) => ({
+    ...link.reading,
+    relevance: link.relevance,
   }));
 }
 
 // =============================================
-// RATE LIMITING QUERIES
+// CONCEPT CATEGORY QUERIES
 // =============================================
 
-const HOURLY_GENERATION_LIMIT = 10;
-
+/**
+ * Replace a concept's category/subtopic tags
+ *
+ * @param tags - Best fit first; stored with their rank in this order
+ */
+export async function saveConceptCategories(
+  conceptId: string,
+  tags: Pick<ConceptCategory, "category" | "subtopic" | "similarity" | "method">[]
+): Promise<boolean> {
+  const supabase = getSupabaseServiceClient();
+
+  const { error: deleteError } = await supabase
+    .from("concept_categories")
+    .delete()
+    .eq("concept_id", conceptId);
+
+  if (deleteError) {
+    console.error("Error clearing concept categories:", deleteError);
+    return false;
+  }
+  if (tags.length === 0) return true;
+
+  const { error } = await supabase.from("concept_categories").insert(
+    tags.map((tag, rank) => ({
+      concept_id: conceptId,
+      category: tag.category,
+      subtopic: tag.subtopic,
+      similarity: tag.similarity,
+      method: tag.method,
+      rank,
+    }))
+  );
+
+  if (error) {
+    console.error("Error saving concept categories:", error);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Get the category tags of the given concepts, best fit first within each
+ */
+export async function getConceptCategories(
+  conceptIds: string[]
+): Promise<ConceptCategory[]> {
+  if (conceptIds.length === 0) return [];
+
+  const supabase = await getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("concept_categories")
+    .select("*")
+    .in("concept_id", conceptIds)
+    .order("rank", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching concept categories:", error);
+    return [];
+  }
+  return data || [];
+}
+
+/**
+ * Get the category tags of every concept a user has read or completed a
+ * dialogue on
+ * Uses the user_activity_categories SQL function defined in schema.sql
+ */
+export async function getActivityCategories(
+  userId: string
+): Promise<Pick<ConceptCategory, "concept_id" | "category" | "subtopic">[]> {
+  const supabase = await getSupabaseServerClient();
+  const { data, error } = await fetchAllRows((from, to) =>
+    supabase
+      .rpc("user_activity_categories", { p_user_id: userId })
+      .order("concept_id")
+      .order("category")
+      .order("subtopic")
+      .range(from, to)
+  );
+
+  if (error) {
+    console.error("Error fetching activity categories:", error);
+    return [];
+  }
+  return data;
+}
+
+/**
+ * Get the oldest lessons that have no category tags yet (written before
+ * classification, or whose classification failed), and how many there are
+ */
+export async function getUnclassifiedConcepts(limit: number): Promise<{
+  concepts: Pick<Concept, "id" | "name" | "description">[];
+  total: number;
+}> {
+  const supabase = await getSupabaseServerClient();
+
+  // Filtering on an empty embed's absence is an anti-join
+  const { data, count, error } = await supabase
+    .from("concepts")
+    .select("id, name, description, concept_categories()", { count: "exact" })
+    .eq("status", "ready")
+    .is("concept_categories", null)
+    .order("created_at", { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    console.error("Error fetching unclassified concepts:", error);
+    return { concepts: [], total: 0 };
+  }
+
+  const rows = (data || []) as unknown as Pick<
+    Concept,
+    "id" | "name" | "description"
+  >[];
+  return {
+    concepts: rows.map(({ id, name, description }) => ({
+      id,
+      name,
+      description,
+    })),
+    total: count ?? rows.length,
+  };
+}
+
+// =============================================
+// CONCEPT LENS QUERIES
+// =============================================
+
+/**
+ * Get a concept's lesson lens for one level, if it has been generated
+ */
+export async function getConceptLens(
+  conceptId: string,
+  level: FamiliarityLevel
+): Promise<ConceptLens | null> {
+  const supabase = await getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("concept_lenses")
+    .select("*")
+    .eq("concept_id", conceptId)
+    .eq("level", level)
+    .single();
+
+  if (error) {
+    if (error.code !== "PGRST116") {
+      console.error("Error fetching concept lens:", error);
+    }
+    return null;
+  }
+  return data;
+}
+
+/**
+ * Store a generated lesson lens. If another request stored this
+ * concept-level pair first, theirs is kept and returned.
+ */
+export async function saveConceptLens(
+  conceptId: string,
+  level: FamiliarityLevel,
+  description: string
+): Promise<ConceptLens | null> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from("concept_lenses")
+    .insert({ concept_id: conceptId, level, description })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === "23505") {
+      return getConceptLens(conceptId, level);
+    }
+    console.error("Error saving concept lens:", error);
+    return null;
+  }
+  return data;
+}
+
+// =============================================
+// QUIZ BANK QUERIES
+// =============================================
+
+function toQuizBankQuestion(row: Tables<"quiz_questions">): QuizBankQuestion {
+  return {
+    ...row,
+    options: row.options as unknown as QuizBankQuestion["options"],
+    answer_counts: row.answer_counts as QuizBankQuestion["answer_counts"],
+  };
+}
+
+/**
+ * Get active bank questions for a subtopic at a difficulty, least asked
+ * first, skipping those already asked in this quiz
+ *
+ * @param excludeIds - Questions already asked; non-UUIDs are ignored, as
+ *   they come from the client and are built into the filter string
+ */
+export async function getBankQuizQuestions(
+  category: string,
+  subtopic: string,
+  difficulty: FamiliarityLevel,
+  excludeIds: string[],
+  limit: number
+): Promise<QuizBankQuestion[]> {
+  const supabase = await getSupabaseServerClient();
+
+  let query = supabase
+    .from("quiz_questions")
+    .select()
+    .eq("category", category)
+    .eq("subtopic", subtopic)
+    .eq("difficulty", difficulty)
+    .eq("status", "active");
+  const askedIds = excludeIds.filter(isUuid);
+  if (askedIds.length > 0) {
+    query = query.not("id", "in", `(${askedIds.join(",")})`);
+  }
+
+  const { data, error } = await query
+    .order("times_asked", { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    console.error("Error fetching bank quiz questions:", error);
+    return [];
+  }
+  return (data || []).map(toQuizBankQuestion);
+}
+
+/**
+ * Count active bank questions per subtopic and difficulty, keyed
+ * "category|subtopic|difficulty"
+ */
+export async function countBankQuizQuestions(): Promise<Map<string, number>> {
+  const supabase = await getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("quiz_questions")
+    .select("category, subtopic, difficulty")
+    .eq("status", "active");
+
+  if (error) {
+    console.error("Error counting bank quiz questions:", error);
+    return new Map();
+  }
+
+  const counts = new Map<string, number>();
+  for (const row of data || []) {
+    const key = `${row.category}|${row.subtopic}|${row.difficulty}`;
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Add a question to the bank
+ *
+ * @returns The stored question, or null on error (including a question the
+ *   bank already has for the subtopic)
+ */
+export async function saveBankQuizQuestion(
+  category: string,
+  subtopic: string,
+  difficulty: FamiliarityLevel,
+  generation: QuizQuestionGeneration,
+  source: QuizBankQuestion["source"]
+): Promise<QuizBankQuestion | null> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from("quiz_questions")
+    .insert({
+      category,
+      subtopic,
+      difficulty,
+      question: generation.question,
+      options: generation.options as unknown as Json,
+      explanation: generation.explanation,
+      source,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code !== "23505") {
+      console.error("Error saving bank quiz question:", error);
+    }
+    return null;
+  }
+  return toQuizBankQuestion(data);
+}
+
+/**
+ * Get a bank question by ID
+ */
+export async function getBankQuizQuestion(
+  id: string
+): Promise<QuizBankQuestion | null> {
+  const supabase = await getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("quiz_questions")
+    .select()
+    .eq("id", id)
+    .single();
+
+  if (error) {
+    if (error.code !== "PGRST116") {
+      console.error("Error fetching bank quiz question:", error);
+    }
+    return null;
+  }
+  return toQuizBankQuestion(data);
+}
+
+/**
+ * Count a bank question being asked
+ * Uses the record_quiz_question_asked SQL function defined in schema.sql
+ */
+export async function recordQuizQuestionAsked(id: string): Promise<void> {
+  const supabase = getSupabaseServiceClient();
+  const { error } = await supabase.rpc("record_quiz_question_asked", {
+    p_question_id: id,
+  });
+
+  if (error) {
+    console.error("Error recording quiz question asked:", error);
+  }
+}
+
+/**
+ * Count a user's answer to a bank question by the level of the option
+ * chosen, once per user
+ * Uses the record_quiz_answer SQL function defined in schema.sql
+ *
+ * @returns Whether the answer was counted (false if the user had already
+ *   answered it), or null on error
+ */
+export async function recordQuizAnswer(
+  id: string,
+  userId: string,
+  level: QuizBankQuestion["options"][number]["level"]
+): Promise<boolean | null> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase.rpc("record_quiz_answer", {
+    p_question_id: id,
+    p_user_id: userId,
+    p_level: level,
+  });
+
+  if (error) {
+    console.error("Error recording quiz answer:", error);
+    return null;
+  }
+  return data;
+}
+
+/**
+ * Flag a bank question as unfair on behalf of a user
+ * Uses the flag_quiz_question SQL function defined in schema.sql
+ *
+ * @returns Whether the flag was counted (false if the user had already
+ *   flagged it), or null on error
+ */
+export async function flagQuizQuestion(
+  id: string,
+  userId: string,
+  reason: string
+): Promise<boolean | null> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase.rpc("flag_quiz_question", {
+    p_question_id: id,
+    p_user_id: userId,
+    p_reason: reason,
+  });
+
+  if (error) {
+    console.error("Error flagging quiz question:", error);
+    return null;
+  }
+  return data;
+}
+
+/**
+ * Get active bank questions users have flagged, most flagged first
+ */
+export async function getFlaggedQuizQuestions(
+  limit: number
+): Promise<QuizBankQuestion[]> {
+  const supabase = await getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("quiz_questions")
+    .select()
+    .eq("status", "active")
+    .gt("flag_count", 0)
+    .order("flag_count", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error("Error fetching flagged quiz questions:", error);
+    return [];
+  }
+  return (data || []).map(toQuizBankQuestion);
+}
+
+/**
+ * Retire a bank question (no longer asked) or return it to use
+ *
+ * @returns The updated question, or null if not found or on error
+ */
+export async function setQuizQuestionStatus(
+  id: string,
+  status: QuizBankQuestion["status"]
+): Promise<QuizBankQuestion | null> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from("quiz_questions")
+    .update({
+      status,
+      retired_at: status === "retired" ? new Date().toISOString() : null,
+    })
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code !== "PGRST116") {
+      console.error("Error updating quiz question status:", error);
+    }
+    return null;
+  }
+  return toQuizBankQuestion(data);
+}
+
+// =============================================
+// ANALYTICS QUERIES
+// =============================================
+
+/**
+ * Increment the branch choice counter for analytics
+ * Uses the increment_branch_stat SQL function defined in schema.sql (atomic upsert)
+ */
+export async function incrementBranchStat(
+  conceptId: string,
+  branchType: BranchType
+): Promise<void> {
+  const supabase = await getSupabaseServerClient();
+
+  const { error } = await supabase.rpc("increment_branch_stat", {
+    p_concept_id: conceptId,
+    p_branch_type: branchType,
+  });
+
+  if (error) {
+    console.error("Error incrementing branch stat:", error);
+  }
+}
+
+/**
+ * Get branch choice statistics for a concept
+ */
+export async function getBranchStats(
+  conceptId: string
+): Promise<{ type: BranchType; percentage: number; count: number }[]> {
+  const supabase = await getSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from("branch_analytics")
+    .select("*")
+    .eq("concept_id", conceptId);
+
+  if (error) {
+    console.error("Error fetching branch stats:", error);
+    return [];
+  }
+
+  const rows = data || [];
+  const total = rows.reduce((sum, row) => sum + (row.chosen_count || 0), 0);
+
+  return rows.map((row) => ({
+    type: row.branch_type as BranchType,
+    count: row.chosen_count || 0,
+    percentage: total > 0 ? ((row.chosen_count || 0) / total) * 100 : 0,
+  }));
+}
+
+// =============================================
+// RATE LIMITING QUERIES
+// =============================================
+
+const HOURLY_GENERATION_LIMIT = 10;
+
 /**
  * Check if a user can generate new nodes (rate limiting)
  */
-export async function checkRateLimit(
-  userId: string
-): Promise<{ allowed: boolean; remaining: number; resetAt: string | null }> {
+export async function checkRateLimit(
+  userId: string
+): Promise<{ allowed: boolean; remaining: number; resetAt: string | null }> {
+  const supabase = await getSupabaseServerClient();
+
+  const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+
+  const { data, error } = await supabase
+    .from("user_generation_log")
+    .select("generated_at")
+    .eq("user_id", userId)
+    .gte("generated_at", oneHourAgo)
+    .order("generated_at", { ascending: true });
+
+  if (error) {
+    console.error("Error checking rate limit:", error);
+    // On error, allow the action but log it
+    return { allowed: true, remaining: HOURLY_GENERATION_LIMIT, resetAt: null };
+  }
+
+  const rows = data || [];
+  const count = rows.length;
+  const remaining = Math.max(0, HOURLY_GENERATION_LIMIT - count);
+  const allowed = count < HOURLY_GENERATION_LIMIT;
+
+  // Calculate when the oldest entry expires (reset time)
+  let resetAt: string | null = null;
+  if (!allowed && rows.length > 0) {
+    const oldestTime = new Date(rows[0].generated_at!).getTime();
+    resetAt = new Date(oldestTime + 60 * 60 * 1000).toISOString();
+  }
+
+  return { allowed, remaining, resetAt };
+}
+
+/**
+ * Log a generation event for rate limiting
+ */
+export async function logGeneration(userId: string): Promise<void> {
+  const supabase = await getSupabaseServerClient();
+
+  const { error } = await supabase.from("user_generation_log").insert({
+    user_id: userId,
+  });
+
+  if (error) {
+    console.error("Error logging generation:", error);
+  }
+}
+
+// =============================================
+// GENERATION JOB QUERIES
+// =============================================
+
+/**
+ * PostgREST filter matching jobs that can be claimed at `now`: queued jobs
+ * past their backoff, and running jobs whose lease has expired
+ */
+function claimableJobFilter(now: Date): string {
+  const iso = now.toISOString();
+  return `and(status.eq.queued,run_after.lte.${iso}),and(status.eq.running,locked_until.lt.${iso})`;
+}
+
+/**
+ * Get a generation job by ID
+ */
+export async function getGenerationJob(
+  id: string
+): Promise<GenerationJob | null> {
+  const supabase = await getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("generation_jobs")
+    .select()
+    .eq("id", id)
+    .single();
+
+  if (error) {
+    if (error.code !== "PGRST116") {
+      console.error("Error fetching generation job:", error);
+    }
+    return null;
+  }
+  return data as GenerationJob;
+}
+
+/**
+ * Get the generation job for an idempotency key
+ */
+export async function getGenerationJobByKey(
+  idempotencyKey: string
+): Promise<GenerationJob | null> {
+  const supabase = await getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("generation_jobs")
+    .select()
+    .eq("idempotency_key", idempotencyKey)
+    .single();
+
+  if (error) {
+    if (error.code !== "PGRST116") {
+      console.error("Error fetching generation job by key:", error);
+    }
+    return null;
+  }
+  return data as GenerationJob;
+}
+
+/**
+ * Insert a queued generation job.
+ * Returns null if the insert fails, including when a job with the same
+ * idempotency key already exists.
+ */
+export async function insertGenerationJob(
+  kind: GenerationJobKind,
+  idempotencyKey: string,
+  payload: GenerationJob["payload"],
+  conceptId: string | null,
+  requestedBy: string | null
+): Promise<GenerationJob | null> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from("generation_jobs")
+    .insert({
+      kind,
+      idempotency_key: idempotencyKey,
+      payload,
+      concept_id: conceptId,
+      requested_by: requestedBy,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code !== "23505") {
+      console.error("Error inserting generation job:", error);
+    }
+    return null;
+  }
+  return data as GenerationJob;
+}
+
+/**
+ * Queue a finished (succeeded or failed) job to run again with fresh
+ * attempts. Returns null if the job is no longer finished, i.e. another
+ * request re-queued it first.
+ */
+export async function requeueGenerationJob(
+  id: string,
+  payload: GenerationJob["payload"],
+  requestedBy: string | null
+): Promise<GenerationJob | null> {
+  const supabase = getSupabaseServiceClient();
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from("generation_jobs")
+    .update({
+      status: "queued",
+      payload,
+      requested_by: requestedBy,
+      stage: null,
+      attempts: 0,
+      run_after: now,
+      locked_until: null,
+      last_error: null,
+      result: null,
+      updated_at: now,
+    })
+    .eq("id", id)
+    .in("status", ["succeeded", "failed"])
+    .select();
+
+  if (error) {
+    console.error("Error re-queuing generation job:", error);
+    return null;
+  }
+  return (data?.[0] as GenerationJob | undefined) ?? null;
+}
+
+/**
+ * Get jobs that are due to run: queued past their backoff, or running
+ * with an expired lease. Oldest first.
+ */
+export async function getDueGenerationJobs(
+  limit: number
+): Promise<GenerationJob[]> {
+  const supabase = await getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("generation_jobs")
+    .select()
+    .or(claimableJobFilter(new Date()))
+    .order("run_after", { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    console.error("Error fetching due generation jobs:", error);
+    return [];
+  }
+  return (data || []) as GenerationJob[];
+}
+
+/**
+ * Claim a due job for one attempt: marks it running, counts the attempt,
+ * and takes a lease until now + leaseMs. Matching on the attempt count
+ * means only one of several concurrent claimers wins.
+ *
+ * @returns The claimed job, or null if it isn't due or was claimed first
+ */
+export async function claimGenerationJob(
+  job: GenerationJob,
+  leaseMs: number
+): Promise<GenerationJob | null> {
+  const supabase = getSupabaseServiceClient();
+  const now = new Date();
+  const { data, error } = await supabase
+    .from("generation_jobs")
+    .update({
+      status: "running",
+      stage: null,
+      attempts: job.attempts + 1,
+      locked_until: new Date(now.getTime() + leaseMs).toISOString(),
+      updated_at: now.toISOString(),
+    })
+    .eq("id", job.id)
+    .eq("attempts", job.attempts)
+    .or(claimableJobFilter(now))
+    .select();
+
+  if (error) {
+    console.error("Error claiming generation job:", error);
+    return null;
+  }
+  return (data?.[0] as GenerationJob | undefined) ?? null;
+}
+
+/**
+ * Record the stage a running job has reached
+ */
+export async function setGenerationJobStage(
+  job: GenerationJob,
+  stage: GenerationJobStage
+): Promise<void> {
+  const supabase = getSupabaseServiceClient();
+  const { error } = await supabase
+    .from("generation_jobs")
+    .update({ stage, updated_at: new Date().toISOString() })
+    .eq("id", job.id)
+    .eq("attempts", job.attempts);
+
+  if (error) {
+    console.error("Error updating generation job stage:", error);
+  }
+}
+
+/**
+ * Mark a claimed job succeeded with its result.
+ * Ignored (returns null) if the lease was lost and the job re-claimed.
+ */
+export async function completeGenerationJob(
+  job: GenerationJob,
+  result: GenerationJobResult
+): Promise<GenerationJob | null> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from("generation_jobs")
+    .update({
+      status: "succeeded",
+      stage: null,
+      result: { ...result },
+      locked_until: null,
+      last_error: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", job.id)
+    .eq("attempts", job.attempts)
+    .select();
+
+  if (error) {
+    console.error("Error completing generation job:", error);
+    return null;
+  }
+  return (data?.[0] as GenerationJob | undefined) ?? null;
+}
+
+/**
+ * Record a failed attempt on a claimed job: re-queue it to run after
+ * retryAt, or fail it for good if retryAt is null.
+ * Ignored (returns null) if the lease was lost and the job re-claimed.
+ */
+export async function failGenerationJob(
+  job: GenerationJob,
+  message: string,
+  retryAt: Date | null
+): Promise<GenerationJob | null> {
+  const supabase = getSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from("generation_jobs")
+    .update({
+      status: retryAt ? "queued" : "failed",
+      stage: null,
+      last_error: message,
+      locked_until: null,
+      ...(retryAt && { run_after: retryAt.toISOString() }),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", job.id)
+    .eq("attempts", job.attempts)
+    .select();
+
+  if (error) {
+    console.error("Error failing generation job:", error);
+    return null;
+  }
+  return (data?.[0] as GenerationJob | undefined) ?? null;
+}
+
+// =============================================
+// USER PROFILE QUERIES
+// =============================================
+
+/**
+ * Get user profile by ID
+ */
+export async function getUserProfile(
+  userId: string
+): Promise<UserProfile | null> {
+  const supabase = await getSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from("user_profiles")
+    .select("*")
+    .eq("id", userId)
+    .single();
+
+  if (error) {
+    console.error("Error fetching user profile:", error);
+    return null;
+  }
+
+  return {
+    id: data.id,
+    onboarding_complete: data.onboarding_complete ?? false,
+    nodes_explored: data.nodes_explored ?? 0,
+    graph_unlocked: data.graph_unlocked ?? false,
+    created_at: data.created_at,
+  };
+}
+
+/**
+ * Record a visit and increment the nodes explored count on first visit only
+ * Uses the increment_nodes_explored SQL function defined in schema.sql (atomic)
+ */
+export async function incrementNodesExplored(
+  userId: string,
+  conceptId: string
+): Promise<{ nodesExplored: number; graphUnlocked: boolean } | null> {
+  const supabase = await getSupabaseServerClient();
+
+  const { data, error } = await supabase.rpc("increment_nodes_explored", {
+    p_user_id: userId,
+    p_concept_id: conceptId,
+  });
+
+  if (error) {
+    console.error("Error incrementing nodes explored:", error);
+    return null;
+  }
+
+  const result = data?.[0];
+  return {
+    nodesExplored: result?.nodes_explored ?? 0,
+    graphUnlocked: result?.graph_unlocked ?? false,
+  };
+}
+
+/**
+ * Mark onboarding as complete
+ */
+export async function completeOnboarding(userId: string): Promise<void> {
+  const supabase = await getSupabaseServerClient();
+
+  const { error } = await supabase
+    .from("user_profiles")
+    .update({ onboarding_complete: true })
+    .eq("id", userId);
+
+  if (error) {
+    console.error("Error completing onboarding:", error);
+  }
+}
+
+// =============================================
+// EXPLORATION GRAPH QUERIES
+// =============================================
+
+/**
+ * Log a concept visit, and the edge taken to reach it if any
+ */
+export async function logTraversal(
+  userId: string,
+  conceptId: string,
+  edgeId: string | null
+): Promise<void> {
+  const supabase = await getSupabaseServerClient();
+
+  const { error } = await supabase.from("user_traversals").insert({
+    user_id: userId,
+    concept_id: conceptId,
+    edge_id: edgeId,
+  });
+
+  if (error) {
+    console.error("Error logging traversal:", error);
+  }
+}
+
+/**
+ * Rebuild a user's exploration graph: every concept they have visited,
+ * plus the targets of its outgoing edges (as unvisited), matching what the
+ * session graph store builds. Edges they took to reach a concept are
+ * marked traversed.
+ * Uses the user_graph_edges SQL function defined in schema.sql
+ */
+export async function getUserGraph(userId: string): Promise<GraphData> {
+  const supabase = await getSupabaseServerClient();
+
+  const [visitsResult, edgesResult] = await Promise.all([
+    fetchAllRows((from, to) =>
+      supabase
+        .from("user_visits")
+        .select(
+          "concept:concepts!user_visits_concept_id_fkey(id, name, slug)"
+        )
+        .eq("user_id", userId)
+        .order("id")
+        .range(from, to)
+    ),
+    fetchAllRows((from, to) =>
+      supabase
+        .rpc("user_graph_edges", { p_user_id: userId })
+        .order("id")
+        .range(from, to)
+    ),
+  ]);
+
+  if (visitsResult.error || edgesResult.error) {
+    console.error(
+      "Error fetching user graph:",
+      visitsResult.error || edgesResult.error
+    );
+    return { nodes: [], edges: [] };
+  }
+
+  const nodes: GraphData["nodes"] = visitsResult.data.flatMap(({ concept }) =>
+    concept
+      ? [
+          {
+            id: concept.id,
+            label: concept.name,
+            slug: concept.slug,
+            visited: true,
+          },
+        ]
+      : []
+  );
+  const nodeIds = new Set(nodes.map((n) => n.id));
+
+  for (const row of edgesResult.data) {
+    if (!nodeIds.has(row.target_id)) {
+      nodes.push({
+        id: row.target_id,
+        label: row.target_name,
+        slug: row.target_slug,
+        visited: false,
+      });
+      nodeIds.add(row.target_id);
+    }
+  }
+
+  return {
+    nodes,
+    edges: edgesResult.data.map((row) => ({
+      id: row.id,
+      source: row.source_id,
+      target: row.target_id,
+      branchType: row.branch_type as BranchType,
+      traversed: row.traversed,
+    })),
+  };
+}
+
+/**
+ * Get every concept a user has visited, with when they first read its lesson
+ */
+export async function getLessonVisits(
+  userId: string
+): Promise<{ conceptId: string; at: string }[]> {
+  const supabase = await getSupabaseServerClient();
+
+  const { data, error } = await fetchAllRows((from, to) =>
+    supabase
+      .from("user_visits")
+      .select("concept_id, visited_at")
+      .eq("user_id", userId)
+      .order("id")
+      .range(from, to)
+  );
+
+  if (error) {
+    console.error("Error fetching lesson visits:", error);
+    return [];
+  }
+
+  return data.flatMap((row) =>
+    row.concept_id && row.visited_at
+      ? [{ conceptId: row.concept_id, at: row.visited_at }]
+      : []
+  );
+}
+
+/**
+ * Record that a user carried a concept's Socratic dialogue through to its
+ * summary (only the first completion is kept)
+ */
+export async function recordDialogueCompletion(
+  userId: string,
+  conceptId: string
+): Promise<void> {
+  const supabase = await getSupabaseServerClient();
+
+  const { error } = await supabase
+    .from("user_dialogue_completions")
+    .upsert(
+      { user_id: userId, concept_id: conceptId },
+      { onConflict: "user_id,concept_id", ignoreDuplicates: true }
+    );
+
+  if (error) {
+    console.error("Error recording dialogue completion:", error);
+  }
+}
+
+/**
+ * Get every concept whose Socratic dialogue a user has completed, with when
+ */
+export async function getDialogueCompletions(
+  userId: string
+): Promise<{ conceptId: string; at: string }[]> {
+  const supabase = await getSupabaseServerClient();
+
+  const { data, error } = await fetchAllRows((from, to) =>
+    supabase
+      .from("user_dialogue_completions")
+      .select("concept_id, completed_at")
+      .eq("user_id", userId)
+      .order("concept_id")
+      .range(from, to)
+  );
+
+  if (error) {
+    console.error("Error fetching dialogue completions:", error);
+    return [];
+  }
+
+  return data.flatMap((row) =>
+    row.completed_at ? [{ conceptId: row.concept_id, at: row.completed_at }] : []
+  );
+}
+
+/**
+ * Get the IDs of every concept a user has visited
+ */
+export async function getVisitedConceptIds(
+  userId: string
+): Promise<Set<string>> {
+  const supabase = await getSupabaseServerClient();
+
+  const { data, error } = await fetchAllRows((from, to) =>
+    supabase
+      .from("user_visits")
+      .select("concept_id")
+      .eq("user_id", userId)
+      .order("id")
+      .range(from, to)
+  );
+
+  if (error) {
+    console.error("Error fetching visited concepts:", error);
+    return new Set();
+  }
+
+  return new Set(
+    data
+      .map((row) => row.concept_id)
+      .filter((id): id is string => !!id)
+  );
+}
+
+/**
+ * Get edges whose endpoints are both in the given concept set
+ * Uses the edges_among SQL function defined in schema.sql
+ */
+async function getEdgesAmong(conceptIds: string[]): Promise<GraphEdge[]> {
+  if (conceptIds.length === 0) return [];
+
+  const supabase = await getSupabaseServerClient();
+
+  const { data, error } = await fetchAllRows((from, to) =>
+    supabase
+      .rpc("edges_among", { p_concept_ids: conceptIds })
+      .order("id")
+      .range(from, to)
+  );
+
+  if (error) {
+    console.error("Error fetching edges among concepts:", error);
+    return [];
+  }
+
+  return data.map((row) => ({
+    id: row.id,
+    source: row.source_id,
+    target: row.target_id,
+    branchType: row.branch_type as BranchType,
+  }));
+}
+
+/**
+ * Get the k-hop neighbourhood of a concept in the global graph
+ * Uses the concept_neighbourhood SQL function defined in schema.sql
+ */
+export async function getConceptNeighbourhood(
+  conceptId: string,
+  hops: number,
+  maxNodes: number,
+  visitedIds: Set<string>
+): Promise<GraphData> {
   const supabase = await getSupabaseServerClient();
 
-  const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
-
-  const { data, error } = await supabase
-    .from("user_generation_log")
-    .select("generated_at")
-    .eq("user_id", userId)
-    .gte("generated_at", oneHourAgo)
-    .order("generated_at", { ascending: true });
+  const { data, error } = await supabase.rpc("concept_neighbourhood", {
+    p_concept_id: conceptId,
+    p_hops: hops,
+    p_max_nodes: maxNodes,
+  });
 
   if (error) {
-    console.error("Error checking rate limit:", error);
-    // On error, allow the action but log it
-    return { allowed: true, remaining: HOURLY_GENERATION_LIMIT, resetAt: null };
+    console.error("Error fetching concept neighbourhood:", error);
+    return { nodes: [], edges: [] };
   }
 
   const rows = data || [];
-  const count = rows.length;
-  const remaining = Math.max(0, HOURLY_GENERATION_LIMIT - count);
-  const allowed = count < HOURLY_GENERATION_LIMIT;
-
-  // Calculate when the oldest entry expires (reset time)
-  let resetAt: string | null = null;
-  if (!allowed && rows.length > 0) {
-    const oldestTime = new Date(rows[0].generated_at!).getTime();
-    resetAt = new Date(oldestTime + 60 * 60 * 1000).toISOString();
-  }
-
-  return { allowed, remaining, resetAt };
+  return {
+    nodes: rows.map((row) => ({
+      id: row.id,
+      label: row.name,
+      slug: row.slug,
+      visited: visitedIds.has(row.id),
+    })),
+    edges: await getEdgesAmong(rows.map((row) => row.id)),
+  };
 }
 
 /**
- * Log a generation event for rate limiting
+ * Get a page of the most connected concepts in the global graph, ranked
+ * by degree then id, starting after the given cursor
+ * Uses the top_connected_concepts and top_connected_edges SQL functions
+ * defined in schema.sql
+ *
+ * Edges are included when at least one end is on this page and the other
+ * is on this page or an earlier one, so each page links up with the pages
+ * before it.
+ *
+ * @param after - Last concept of the previous page (null for the first)
+ * @param category - Only concepts tagged with this category
+ * @returns The page and the cursor for the next one (null if none)
  */
-export async function logGeneration(userId: string): Promise<void> {
+export async function getTopConnectedGraph(
+  limit: number,
+  after: TopConnectedCursor | null,
+  visitedIds: Set<string>,
+  category?: string
+): Promise<{ graph: GraphData; nextCursor: TopConnectedCursor | null }> {
   const supabase = await getSupabaseServerClient();
-
-  const { error } = await supabase.from("user_generation_log").insert({
-    user_id: userId,
+  const empty = { graph: { nodes: [], edges: [] }, nextCursor: null };
+
+  // Fetch one extra row to know whether another page exists
+  const { data, error } = await supabase.rpc("top_connected_concepts", {
+    p_limit: limit + 1,
+    p_after_degree: after?.degree ?? null,
+    p_after_id: after?.id ?? null,
+    p_category: category ?? null,
   });
 
   if (error) {
-    console.error("Error logging generation:", error);
+    console.error("Error fetching top connected concepts:", error);
+    return empty;
   }
-}
 
-// =============================================
-// USER PROFILE QUERIES
-// =============================================
+  const rows = data || [];
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  if (!last) return empty;
+
+  const { data: edges, error: edgesError } = await fetchAllRows(
+    (from, to) =>
+      supabase
+        .rpc("top_connected_edges", {
+          p_concept_ids: page.map((row) => row.id),
+          p_until_degree: last.degree,
+          p_until_id: last.id,
+          p_category: category ?? null,
+        })
+        .order("id")
+        .range(from, to)
+  );
+
+  if (edgesError) {
+    console.error("Error fetching top connected edges:", edgesError);
+    return empty;
+  }
+
+  return {
+    graph: {
+      nodes: page.map((row) => ({
+        id: row.id,
+        label: row.name,
+        slug: row.slug,
+        visited: visitedIds.has(row.id),
+      })),
+      edges: edges.map((row) => ({
+        id: row.id,
+        source: row.source_id,
+        target: row.target_id,
+        branchType: row.branch_type as BranchType,
+      })),
+    },
+    nextCursor:
+      rows.length > limit ? { degree: last.degree, id: last.id } : null,
+  };
+}
 
 /**
- * Get user profile by ID
+ * Get positioned concepts for the semantic map, with edges among them
+ * Ordered by concept ID so the same concepts come back when there are
+ * more than the limit.
  */
-export async function getUserProfile(
-  userId: string
-): Promise<UserProfile | null> {
+export async function getConceptMap(
+  visitedIds: Set<string>,
+  limit: number
+): Promise<GraphData> {
   const supabase = await getSupabaseServerClient();
 
   const { data, error } = await supabase
-    .from("user_profiles")
-    .select("*")
-    .eq("id", userId)
-    .single();
+    .from("concept_positions")
+    .select(
+      "x, y, concept:concepts!concept_positions_concept_id_fkey(id, name, slug)"
+    )
+    .order("concept_id")
+    .limit(limit);
 
   if (error) {
-    console.error("Error fetching user profile:", error);
-    return null;
+    console.error("Error fetching concept map:", error);
+    return { nodes: [], edges: [] };
   }
 
+  // Type assertion needed due to complex join
+  type PositionRow = Pick<Tables<"concept_positions">, "x" | "y"> & {
+    concept: Pick<Tables<"concepts">, "id" | "name" | "slug"> | null;
+  };
+  const rows = ((data || []) as unknown as PositionRow[]).filter(
+    (row) => row.concept
+  );
+
   return {
-    id: data.id,
-    onboarding_complete: data.onboarding_complete ?? false,
-    nodes_explored: data.nodes_explored ?? 0,
-    graph_unlocked: data.graph_unlocked ?? false,
-    created_at: data.created_at,
+    nodes: rows.map((row) => ({
+      id: row.concept!.id,
+      label: row.concept!.name,
+      slug: row.concept!.slug,
+      visited: visitedIds.has(row.concept!.id),
+      position: { x: row.x, y: row.y },
+    })),
+    edges: await getEdgesAmong(rows.map((row) => row.concept!.id)),
   };
 }
 
+// =============================================
+// PROJECTION QUERIES
+// =============================================
+
 /**
- * Increment the nodes explored count and check if graph should be unlocked
- * Uses the increment_nodes_explored SQL function defined in schema.sql (atomic)
+ * Get the embedding of every concept that has one, or of the given
+ * concepts only, reading a page at a time
+ * pgvector columns may arrive as "[0.1,0.2,...]" strings, so parse them
  */
-export async function incrementNodesExplored(
-  userId: string
-): Promise<{ nodesExplored: number; graphUnlocked: boolean }> {
+export async function getConceptEmbeddings(ids?: string[]): Promise<
+  { id: string; embedding: number[] }[]
+> {
+  if (ids?.length === 0) return [];
+
   const supabase = await getSupabaseServerClient();
 
-  const { data, error } = await supabase.rpc("increment_nodes_explored", {
-    p_user_id: userId,
+  const { data, error } = await fetchAllRows((from, to) => {
+    let query = supabase
+      .from("concepts")
+      .select("id, embedding")
+      .not("embedding", "is", null);
+    if (ids) {
+      query = query.in("id", ids);
+    }
+    return query.order("id").range(from, to);
   });
 
   if (error) {
-    console.error("Error incrementing nodes explored:", error);
-    return { nodesExplored: 0, graphUnlocked: false };
+    console.error("Error fetching concept embeddings:", error);
+    return [];
   }
 
-  const result = data?.[0];
-  return {
-    nodesExplored: result?.nodes_explored ?? 0,
-    graphUnlocked: result?.graph_unlocked ?? false,
-  };
+  return data.map((row) => ({
+    id: row.id,
+    embedding:
+      typeof row.embedding === "string"
+        ? (JSON.parse(row.embedding) as number[])
+        : row.embedding!,
+  }));
 }
 
 /**
- * Mark onboarding as complete
+ * Replace stored 2D positions for the given concepts
  */
-export async function completeOnboarding(userId: string): Promise<void> {
-  const supabase = await getSupabaseServerClient();
-
-  const { error } = await supabase
-    .from("user_profiles")
-    .update({ onboarding_complete: true })
-    .eq("id", userId);
+export async function saveConceptPositions(
+  positions: { conceptId: string; x: number; y: number }[]
+): Promise<boolean> {
+  const supabase = getSupabaseServiceClient();
+  const computedAt = new Date().toISOString();
+
+  const { error } = await supabase.from("concept_positions").upsert(
+    positions.map((p) => ({
+      concept_id: p.conceptId,
+      x: p.x,
+      y: p.y,
+      computed_at: computedAt,
+    })),
+    { onConflict: "concept_id" }
+  );
 
   if (error) {
-    console.error("Error completing onboarding:", error);
+    console.error("Error saving concept positions:", error);
+    return false;
   }
+
+  return true;
 }
 
 // =============================================
@@ -435,11 +2106,16 @@ export async function completeOnboarding(userId: string): Promise<void> {
 
 /**
  * Save text familiarity data for a user
+ * Changes are recorded in user_familiarity_history by a trigger
+ *
+ * @param source - Where the change comes from, recorded in the history
+ * @returns false if the save failed
  */
 export async function saveTextFamiliarity(
   userId: string,
-  texts: { text_name: string; has_read: boolean }[]
-): Promise<void> {
+  texts: { text_name: string; has_read: boolean }[],
+  source: Exclude<FamiliaritySource, "suggestion"> = "onboarding"
+): Promise<boolean> {
   const supabase = await getSupabaseServerClient();
 
   // Upsert all text familiarity records
@@ -447,6 +2123,7 @@ export async function saveTextFamiliarity(
     user_id: userId,
     text_name: t.text_name,
     has_read: t.has_read,
+    source,
   }));
 
   const { error } = await supabase
@@ -457,11 +2134,17 @@ export async function saveTextFamiliarity(
 
   if (error) {
     console.error("Error saving text familiarity:", error);
+    return false;
   }
+  return true;
 }
 
 /**
  * Save category familiarity data for a user
+ * Changes are recorded in user_familiarity_history by a trigger
+ *
+ * @param source - Where the change comes from, recorded in the history
+ * @returns false if the save failed
  */
 export async function saveCategoryFamiliarity(
   userId: string,
@@ -469,8 +2152,9 @@ export async function saveCategoryFamiliarity(
     category: string;
     subtopic: string;
     familiarity: FamiliarityLevel;
-  }[]
-): Promise<void> {
+  }[],
+  source: Exclude<FamiliaritySource, "lesson"> = "onboarding"
+): Promise<boolean> {
   const supabase = await getSupabaseServerClient();
 
   const records = categories.map((c) => ({
@@ -478,6 +2162,7 @@ export async function saveCategoryFamiliarity(
     category: c.category,
     subtopic: c.subtopic,
     familiarity: c.familiarity,
+    source,
   }));
 
   const { error } = await supabase
@@ -488,7 +2173,9 @@ export async function saveCategoryFamiliarity(
 
   if (error) {
     console.error("Error saving category familiarity:", error);
+    return false;
   }
+  return true;
 }
 
 /**
@@ -543,3 +2230,317 @@ export async function getCategoryFamiliarity(
     familiarity: c.familiarity as FamiliarityLevel,
   }));
 }
+
+/**
+ * Get a user's familiarity history, most recent first
+ */
+export async function getFamiliarityHistory(
+  userId: string,
+  limit: number
+): Promise<FamiliarityHistoryEntry[]> {
+  const supabase = await getSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from("user_familiarity_history")
+    .select("*")
+    .eq("user_id", userId)
+    .order("changed_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error("Error fetching familiarity history:", error);
+    return [];
+  }
+
+  return (data || []).map((h) => ({
+    id: h.id,
+    category: h.category,
+    subtopic: h.subtopic,
+    text_name: h.text_name,
+    old_value: h.old_value,
+    new_value: h.new_value,
+    source: h.source as FamiliaritySource,
+    changed_at: h.changed_at ?? new Date().toISOString(),
+  }));
+}
+
+/**
+ * When each of a user's subtopic levels last changed, keyed
+ * "category|subtopic"
+ */
+export async function getLevelChangeTimes(
+  userId: string
+): Promise<Map<string, string>> {
+  const supabase = await getSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from("user_familiarity_history")
+    .select("category, subtopic, changed_at")
+    .eq("user_id", userId)
+    .not("subtopic", "is", null)
+    .order("changed_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching familiarity change times:", error);
+    return new Map();
+  }
+
+  const times = new Map<string, string>();
+  for (const row of data || []) {
+    const key = `${row.category}|${row.subtopic}`;
+    if (row.changed_at && !times.has(key)) times.set(key, row.changed_at);
+  }
+  return times;
+}
+
+/**
+ * Dismiss a suggestion to raise a subtopic to a level, so it isn't made
+ * again (dismissing twice is not an error)
+ *
+ * @returns false if the dismissal failed
+ */
+export async function dismissFamiliaritySuggestion(
+  userId: string,
+  category: string,
+  subtopic: string,
+  level: Exclude<FamiliarityLevel, "beginner">
+): Promise<boolean> {
+  const supabase = await getSupabaseServerClient();
+
+  const { error } = await supabase
+    .from("familiarity_suggestion_dismissals")
+    .upsert(
+      { user_id: userId, category, subtopic, level },
+      {
+        onConflict: "user_id,category,subtopic,level",
+        ignoreDuplicates: true,
+      }
+    );
+
+  if (error) {
+    console.error("Error dismissing familiarity suggestion:", error);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Get the suggestions a user has dismissed, keyed
+ * "category|subtopic|level"
+ */
+export async function getDismissedSuggestions(
+  userId: string
+): Promise<Set<string>> {
+  const supabase = await getSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from("familiarity_suggestion_dismissals")
+    .select("category, subtopic, level")
+    .eq("user_id", userId);
+
+  if (error) {
+    console.error("Error fetching dismissed suggestions:", error);
+    return new Set();
+  }
+
+  return new Set(
+    (data || []).map((d) => `${d.category}|${d.subtopic}|${d.level}`)
+  );
+}
+
+// =============================================
+// LIBRARY QUERIES
+// =============================================
+
+/** Library columns plus the concepts each book was discovered at */
+const LIBRARY_ENTRY_SELECT = `
+  *,
+  discoveries:user_library_concepts(
+    discovered_at,
+    concept:concepts!user_library_concepts_concept_id_fkey(id, name, slug)
+  )
+`;
+
+// Type assertion needed due to complex join
+type LibraryEntryWithJoin = Tables<"user_library"> & {
+  discoveries: {
+    discovered_at: string | null;
+    concept: LibraryEntry["concepts"][number] | null;
+  }[];
+};
+
+function toLibraryEntry(row: LibraryEntryWithJoin): LibraryEntry {
+  const { discoveries, ...entry } = row;
+  return {
+    ...entry,
+    concepts: [...(discoveries || [])]
+      .sort((a, b) =>
+        (a.discovered_at ?? "").localeCompare(b.discovered_at ?? "")
+      )
+      .flatMap((d) => (d.concept ? [d.concept] : [])),
+  };
+}
+
+/**
+ * Get a user's library, most recently updated first
+ */
+export async function getLibrary(userId: string): Promise<LibraryEntry[]> {
+  const supabase = await getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("user_library")
+    .select(LIBRARY_ENTRY_SELECT)
+    .eq("user_id", userId)
+    .order("updated_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching library:", error);
+    return [];
+  }
+
+  return (data as unknown as LibraryEntryWithJoin[]).map(toLibraryEntry);
+}
+
+/**
+ * Get one of a user's library entries
+ */
+export async function getLibraryEntry(
+  userId: string,
+  id: string
+): Promise<LibraryEntry | null> {
+  const supabase = await getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("user_library")
+    .select(LIBRARY_ENTRY_SELECT)
+    .eq("id", id)
+    .eq("user_id", userId)
+    .single();
+
+  if (error) {
+    if (error.code !== "PGRST116") {
+      console.error("Error fetching library entry:", error);
+    }
+    return null;
+  }
+
+  return toLibraryEntry(data as unknown as LibraryEntryWithJoin);
+}
+
+/**
+ * Add a book to a user's library. A book already there (by book_key) is
+ * kept as it is, with its status and notes.
+ *
+ * @returns The entry's ID, or null on error
+ */
+export async function addLibraryEntry(
+  userId: string,
+  book: {
+    title: string;
+    author: string;
+    bookKey: string;
+    readingId: string | null;
+    url: string | null;
+    imageUrl: string | null;
+  }
+): Promise<string | null> {
+  const supabase = await getSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("user_library")
+    .insert({
+      user_id: userId,
+      title: book.title,
+      author: book.author,
+      book_key: book.bookKey,
+      reading_id: book.readingId,
+      url: book.url,
+      image_url: book.imageUrl,
+    })
+    .select("id")
+    .single();
+
+  if (!error) return data.id;
+
+  if (error.code !== "23505") {
+    console.error("Error adding library entry:", error);
+    return null;
+  }
+
+  const { data: existing, error: fetchError } = await supabase
+    .from("user_library")
+    .select("id")
+    .eq("user_id", userId)
+    .eq("book_key", book.bookKey)
+    .single();
+
+  if (fetchError) {
+    console.error("Error fetching existing library entry:", fetchError);
+    return null;
+  }
+  return existing.id;
+}
+
+/**
+ * Record a concept where a library entry's book was discovered
+ */
+export async function linkLibraryConcept(
+  entryId: string,
+  conceptId: string
+): Promise<void> {
+  const supabase = await getSupabaseServerClient();
+  const { error } = await supabase
+    .from("user_library_concepts")
+    .upsert(
+      { entry_id: entryId, concept_id: conceptId },
+      { onConflict: "entry_id,concept_id", ignoreDuplicates: true }
+    );
+
+  if (error) {
+    console.error("Error linking library entry to concept:", error);
+  }
+}
+
+/**
+ * Update a library entry's reading status and/or notes
+ *
+ * @returns false if the update failed
+ */
+export async function updateLibraryEntry(
+  userId: string,
+  id: string,
+  changes: { status?: LibraryStatus; notes?: string }
+): Promise<boolean> {
+  const supabase = await getSupabaseServerClient();
+  const { error } = await supabase
+    .from("user_library")
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("user_id", userId);
+
+  if (error) {
+    console.error("Error updating library entry:", error);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Remove a book from a user's library
+ *
+ * @returns false if the delete failed
+ */
+export async function deleteLibraryEntry(
+  userId: string,
+  id: string
+): Promise<boolean> {
+  const supabase = await getSupabaseServerClient();
+  const { error } = await supabase
+    .from("user_library")
+    .delete()
+    .eq("id", id)
+    .eq("user_id", userId);
+
+  if (error) {
+    console.error("Error deleting library entry:", error);
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,31 @@
+import { createClient } from '@supabase/supabase-js'
+import type { Database } from './types'
+
+let client: ReturnType<typeof createClient<Database>> | undefined
+
+/**
+ * Get or create a singleton Supabase client authenticated with the service
+ * role key. It bypasses RLS, so it is for server-side writes to tables
+ * clients may only read, and must never reach the browser.
+ *
+ * @returns Supabase service-role client instance
+ */
+export function getSupabaseServiceClient() {
+  if (client) {
+    return client
+  }
+
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!url || !serviceRoleKey) {
+    throw new Error(
+      'NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY environment variables are required'
+    )
+  }
+
+  client = createClient<Database>(url, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+
+  return client
+}
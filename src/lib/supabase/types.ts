@@ -28,31 +28,231 @@ export interface Database {
           id: string;
           name: string;
           slug: string;
+          name_key: string;
           description: string;
-          recommended_reading: string[] | null;
           embedding: number[] | null;
+          status: "stub" | "generating" | "ready" | "failed";
+          generation_started_at: string | null;
           created_at: string | null;
         };
         Insert: {
           id?: string;
           name: string;
           slug: string;
-          description: string;
-          recommended_reading?: string[] | null;
+          name_key: string;
+          description?: string;
           embedding?: number[] | null;
+          status?: "stub" | "generating" | "ready" | "failed";
+          generation_started_at?: string | null;
           created_at?: string | null;
         };
         Update: {
           id?: string;
           name?: string;
           slug?: string;
+          name_key?: string;
           description?: string;
-          recommended_reading?: string[] | null;
           embedding?: number[] | null;
+          status?: "stub" | "generating" | "ready" | "failed";
+          generation_started_at?: string | null;
+          created_at?: string | null;
+        };
+        Relationships: [];
+      };
+      concept_aliases: {
+        Row: {
+          id: string;
+          concept_id: string;
+          name: string;
+          slug: string;
+          name_key: string;
+          created_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          concept_id: string;
+          name: string;
+          slug: string;
+          name_key: string;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          concept_id?: string;
+          name?: string;
+          slug?: string;
+          name_key?: string;
+          created_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "concept_aliases_concept_id_fkey";
+            columns: ["concept_id"];
+            referencedRelation: "concepts";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      readings: {
+        Row: {
+          id: string;
+          title: string;
+          author: string;
+          year: string | null;
+          reading_key: string;
+          isbn: string | null;
+          openlibrary_id: string | null;
+          created_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          title: string;
+          author: string;
+          year?: string | null;
+          reading_key: string;
+          isbn?: string | null;
+          openlibrary_id?: string | null;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          title?: string;
+          author?: string;
+          year?: string | null;
+          reading_key?: string;
+          isbn?: string | null;
+          openlibrary_id?: string | null;
           created_at?: string | null;
         };
         Relationships: [];
       };
+      concept_readings: {
+        Row: {
+          concept_id: string;
+          reading_id: string;
+          relevance: string;
+          position: number;
+        };
+        Insert: {
+          concept_id: string;
+          reading_id: string;
+          relevance?: string;
+          position?: number;
+        };
+        Update: {
+          concept_id?: string;
+          reading_id?: string;
+          relevance?: string;
+          position?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "concept_readings_concept_id_fkey";
+            columns: ["concept_id"];
+            referencedRelation: "concepts";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "concept_readings_reading_id_fkey";
+            columns: ["reading_id"];
+            referencedRelation: "readings";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      concept_positions: {
+        Row: {
+          concept_id: string;
+          x: number;
+          y: number;
+          computed_at: string | null;
+        };
+        Insert: {
+          concept_id: string;
+          x: number;
+          y: number;
+          computed_at?: string | null;
+        };
+        Update: {
+          concept_id?: string;
+          x?: number;
+          y?: number;
+          computed_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "concept_positions_concept_id_fkey";
+            columns: ["concept_id"];
+            referencedRelation: "concepts";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      concept_categories: {
+        Row: {
+          concept_id: string;
+          category: string;
+          subtopic: string;
+          similarity: number | null;
+          method: "embedding" | "llm";
+          rank: number;
+          created_at: string | null;
+        };
+        Insert: {
+          concept_id: string;
+          category: string;
+          subtopic: string;
+          similarity?: number | null;
+          method: "embedding" | "llm";
+          rank?: number;
+          created_at?: string | null;
+        };
+        Update: {
+          concept_id?: string;
+          category?: string;
+          subtopic?: string;
+          similarity?: number | null;
+          method?: "embedding" | "llm";
+          rank?: number;
+          created_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "concept_categories_concept_id_fkey";
+            columns: ["concept_id"];
+            referencedRelation: "concepts";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      concept_lenses: {
+        Row: {
+          concept_id: string;
+          level: "beginner" | "intermediate" | "advanced";
+          description: string;
+          created_at: string | null;
+        };
+        Insert: {
+          concept_id: string;
+          level: "beginner" | "intermediate" | "advanced";
+          description: string;
+          created_at?: string | null;
+        };
+        Update: {
+          concept_id?: string;
+          level?: "beginner" | "intermediate" | "advanced";
+          description?: string;
+          created_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "concept_lenses_concept_id_fkey";
+            columns: ["concept_id"];
+            referencedRelation: "concepts";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
       edges: {
         Row: {
           id: string;
@@ -138,18 +338,21 @@ export interface Database {
           user_id: string | null;
           text_name: string;
           has_read: boolean | null;
+          source: "onboarding" | "profile" | "lesson";
         };
         Insert: {
           id?: string;
           user_id?: string | null;
           text_name: string;
           has_read?: boolean | null;
+          source?: "onboarding" | "profile" | "lesson";
         };
         Update: {
           id?: string;
           user_id?: string | null;
           text_name?: string;
           has_read?: boolean | null;
+          source?: "onboarding" | "profile" | "lesson";
         };
         Relationships: [
           {
@@ -167,6 +370,7 @@ export interface Database {
           category: string;
           subtopic: string;
           familiarity: "beginner" | "intermediate" | "advanced" | null;
+          source: "onboarding" | "profile" | "suggestion";
         };
         Insert: {
           id?: string;
@@ -174,6 +378,7 @@ export interface Database {
           category: string;
           subtopic: string;
           familiarity?: "beginner" | "intermediate" | "advanced" | null;
+          source?: "onboarding" | "profile" | "suggestion";
         };
         Update: {
           id?: string;
@@ -181,6 +386,7 @@ export interface Database {
           category?: string;
           subtopic?: string;
           familiarity?: "beginner" | "intermediate" | "advanced" | null;
+          source?: "onboarding" | "profile" | "suggestion";
         };
         Relationships: [
           {
@@ -191,6 +397,80 @@ export interface Database {
           }
         ];
       };
+      user_familiarity_history: {
+        Row: {
+          id: string;
+          user_id: string;
+          category: string | null;
+          subtopic: string | null;
+          text_name: string | null;
+          old_value: string | null;
+          new_value: string;
+          source: string;
+          changed_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          category?: string | null;
+          subtopic?: string | null;
+          text_name?: string | null;
+          old_value?: string | null;
+          new_value: string;
+          source: string;
+          changed_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          category?: string | null;
+          subtopic?: string | null;
+          text_name?: string | null;
+          old_value?: string | null;
+          new_value?: string;
+          source?: string;
+          changed_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "user_familiarity_history_user_id_fkey";
+            columns: ["user_id"];
+            referencedRelation: "user_profiles";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      familiarity_suggestion_dismissals: {
+        Row: {
+          user_id: string;
+          category: string;
+          subtopic: string;
+          level: "intermediate" | "advanced";
+          dismissed_at: string | null;
+        };
+        Insert: {
+          user_id: string;
+          category: string;
+          subtopic: string;
+          level: "intermediate" | "advanced";
+          dismissed_at?: string | null;
+        };
+        Update: {
+          user_id?: string;
+          category?: string;
+          subtopic?: string;
+          level?: "intermediate" | "advanced";
+          dismissed_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "familiarity_suggestion_dismissals_user_id_fkey";
+            columns: ["user_id"];
+            referencedRelation: "user_profiles";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
       branch_analytics: {
         Row: {
           id: string;
@@ -234,6 +514,325 @@ export interface Database {
           }
         ];
       };
+      user_visits: {
+        Row: {
+          id: string;
+          user_id: string | null;
+          concept_id: string | null;
+          visited_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string | null;
+          concept_id?: string | null;
+          visited_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string | null;
+          concept_id?: string | null;
+          visited_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "user_visits_user_id_fkey";
+            columns: ["user_id"];
+            referencedRelation: "user_profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "user_visits_concept_id_fkey";
+            columns: ["concept_id"];
+            referencedRelation: "concepts";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      user_traversals: {
+        Row: {
+          id: string;
+          user_id: string | null;
+          concept_id: string | null;
+          edge_id: string | null;
+          traversed_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string | null;
+          concept_id?: string | null;
+          edge_id?: string | null;
+          traversed_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string | null;
+          concept_id?: string | null;
+          edge_id?: string | null;
+          traversed_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "user_traversals_user_id_fkey";
+            columns: ["user_id"];
+            referencedRelation: "user_profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "user_traversals_concept_id_fkey";
+            columns: ["concept_id"];
+            referencedRelation: "concepts";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "user_traversals_edge_id_fkey";
+            columns: ["edge_id"];
+            referencedRelation: "edges";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      quiz_questions: {
+        Row: {
+          id: string;
+          category: string;
+          subtopic: string;
+          difficulty: "beginner" | "intermediate" | "advanced";
+          question: string;
+          options: Json;
+          explanation: string;
+          source: "curated" | "generated";
+          status: "active" | "retired";
+          times_asked: number;
+          times_answered: number;
+          answer_counts: Json;
+          flag_count: number;
+          created_at: string | null;
+          retired_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          category: string;
+          subtopic: string;
+          difficulty: "beginner" | "intermediate" | "advanced";
+          question: string;
+          options: Json;
+          explanation?: string;
+          source?: "curated" | "generated";
+          status?: "active" | "retired";
+          times_asked?: number;
+          times_answered?: number;
+          answer_counts?: Json;
+          flag_count?: number;
+          created_at?: string | null;
+          retired_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          category?: string;
+          subtopic?: string;
+          difficulty?: "beginner" | "intermediate" | "advanced";
+          question?: string;
+          options?: Json;
+          explanation?: string;
+          source?: "curated" | "generated";
+          status?: "active" | "retired";
+          times_asked?: number;
+          times_answered?: number;
+          answer_counts?: Json;
+          flag_count?: number;
+          created_at?: string | null;
+          retired_at?: string | null;
+        };
+        Relationships: [];
+      };
+      quiz_question_flags: {
+        Row: {
+          question_id: string;
+          user_id: string;
+          reason: string;
+          created_at: string | null;
+        };
+        Insert: {
+          question_id: string;
+          user_id: string;
+          reason?: string;
+          created_at?: string | null;
+        };
+        Update: {
+          question_id?: string;
+          user_id?: string;
+          reason?: string;
+          created_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "quiz_question_flags_question_id_fkey";
+            columns: ["question_id"];
+            referencedRelation: "quiz_questions";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "quiz_question_flags_user_id_fkey";
+            columns: ["user_id"];
+            referencedRelation: "user_profiles";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      quiz_question_answers: {
+        Row: {
+          question_id: string;
+          user_id: string;
+          level: "incorrect" | "beginner" | "intermediate" | "advanced";
+          created_at: string | null;
+        };
+        Insert: {
+          question_id: string;
+          user_id: string;
+          level: "incorrect" | "beginner" | "intermediate" | "advanced";
+          created_at?: string | null;
+        };
+        Update: {
+          question_id?: string;
+          user_id?: string;
+          level?: "incorrect" | "beginner" | "intermediate" | "advanced";
+          created_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "quiz_question_answers_question_id_fkey";
+            columns: ["question_id"];
+            referencedRelation: "quiz_questions";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "quiz_question_answers_user_id_fkey";
+            columns: ["user_id"];
+            referencedRelation: "user_profiles";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      user_library: {
+        Row: {
+          id: string;
+          user_id: string;
+          title: string;
+          author: string;
+          book_key: string;
+          reading_id: string | null;
+          url: string | null;
+          image_url: string | null;
+          status: "want_to_read" | "reading" | "finished";
+          notes: string;
+          created_at: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          title: string;
+          author?: string;
+          book_key: string;
+          reading_id?: string | null;
+          url?: string | null;
+          image_url?: string | null;
+          status?: "want_to_read" | "reading" | "finished";
+          notes?: string;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          title?: string;
+          author?: string;
+          book_key?: string;
+          reading_id?: string | null;
+          url?: string | null;
+          image_url?: string | null;
+          status?: "want_to_read" | "reading" | "finished";
+          notes?: string;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "user_library_user_id_fkey";
+            columns: ["user_id"];
+            referencedRelation: "user_profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "user_library_reading_id_fkey";
+            columns: ["reading_id"];
+            referencedRelation: "readings";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      user_library_concepts: {
+        Row: {
+          entry_id: string;
+          concept_id: string;
+          discovered_at: string | null;
+        };
+        Insert: {
+          entry_id: string;
+          concept_id: string;
+          discovered_at?: string | null;
+        };
+        Update: {
+          entry_id?: string;
+          concept_id?: string;
+          discovered_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "user_library_concepts_entry_id_fkey";
+            columns: ["entry_id"];
+            referencedRelation: "user_library";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "user_library_concepts_concept_id_fkey";
+            columns: ["concept_id"];
+            referencedRelation: "concepts";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      user_dialogue_completions: {
+        Row: {
+          user_id: string;
+          concept_id: string;
+          completed_at: string | null;
+        };
+        Insert: {
+          user_id: string;
+          concept_id: string;
+          completed_at?: string | null;
+        };
+        Update: {
+          user_id?: string;
+          concept_id?: string;
+          completed_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "user_dialogue_completions_user_id_fkey";
+            columns: ["user_id"];
+            referencedRelation: "user_profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "user_dialogue_completions_concept_id_fkey";
+            columns: ["concept_id"];
+            referencedRelation: "concepts";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
       user_generation_log: {
         Row: {
           id: string;
@@ -259,6 +858,76 @@ export interface Database {
           }
         ];
       };
+      generation_jobs: {
+        Row: {
+          id: string;
+          kind: "lesson" | "branches" | "embedding" | "lens";
+          idempotency_key: string;
+          payload: Json;
+          concept_id: string | null;
+          requested_by: string | null;
+          status: "queued" | "running" | "succeeded" | "failed";
+          stage: string | null;
+          attempts: number;
+          max_attempts: number;
+          run_after: string;
+          locked_until: string | null;
+          last_error: string | null;
+          result: Json | null;
+          created_at: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          kind: "lesson" | "branches" | "embedding" | "lens";
+          idempotency_key: string;
+          payload?: Json;
+          concept_id?: string | null;
+          requested_by?: string | null;
+          status?: "queued" | "running" | "succeeded" | "failed";
+          stage?: string | null;
+          attempts?: number;
+          max_attempts?: number;
+          run_after?: string;
+          locked_until?: string | null;
+          last_error?: string | null;
+          result?: Json | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          kind?: "lesson" | "branches" | "embedding" | "lens";
+          idempotency_key?: string;
+          payload?: Json;
+          concept_id?: string | null;
+          requested_by?: string | null;
+          status?: "queued" | "running" | "succeeded" | "failed";
+          stage?: string | null;
+          attempts?: number;
+          max_attempts?: number;
+          run_after?: string;
+          locked_until?: string | null;
+          last_error?: string | null;
+          result?: Json | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "generation_jobs_concept_id_fkey";
+            columns: ["concept_id"];
+            referencedRelation: "concepts";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "generation_jobs_requested_by_fkey";
+            columns: ["requested_by"];
+            referencedRelation: "user_profiles";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
     };
     Views: {
       [_ in never]: never;
@@ -275,12 +944,27 @@ export interface Database {
           name: string;
           slug: string;
           description: string;
-          recommended_reading: string[] | null;
           embedding: number[] | null;
+          status: "stub" | "generating" | "ready" | "failed";
           created_at: string | null;
           similarity: number;
         }[];
       };
+      match_unvisited_concepts: {
+        Args: {
+          query_embedding: number[];
+          match_threshold: number;
+          match_count: number;
+          p_user_id: string;
+        };
+        Returns: {
+          id: string;
+          name: string;
+          slug: string;
+          description: string;
+          similarity: number;
+        }[];
+      };
       increment_branch_stat: {
         Args: {
           p_concept_id: string;
@@ -288,9 +972,108 @@ export interface Database {
         };
         Returns: undefined;
       };
+      record_quiz_question_asked: {
+        Args: {
+          p_question_id: string;
+        };
+        Returns: undefined;
+      };
+      record_quiz_answer: {
+        Args: {
+          p_question_id: string;
+          p_user_id: string;
+          p_level: string;
+        };
+        Returns: boolean;
+      };
+      flag_quiz_question: {
+        Args: {
+          p_question_id: string;
+          p_user_id: string;
+          p_reason: string;
+        };
+        Returns: boolean;
+      };
+      concept_neighbourhood: {
+        Args: {
+          p_concept_id: string;
+          p_hops: number;
+          p_max_nodes: number;
+        };
+        Returns: {
+          id: string;
+          name: string;
+          slug: string;
+          depth: number;
+        }[];
+      };
+      top_connected_concepts: {
+        Args: {
+          p_limit: number;
+          p_after_degree?: number | null;
+          p_after_id?: string | null;
+          p_category?: string | null;
+        };
+        Returns: {
+          id: string;
+          name: string;
+          slug: string;
+          degree: number;
+        }[];
+      };
+      top_connected_edges: {
+        Args: {
+          p_concept_ids: string[];
+          p_until_degree: number;
+          p_until_id: string;
+          p_category?: string | null;
+        };
+        Returns: {
+          id: string;
+          source_id: string;
+          target_id: string;
+          branch_type: string;
+        }[];
+      };
+      edges_among: {
+        Args: {
+          p_concept_ids: string[];
+        };
+        Returns: {
+          id: string;
+          source_id: string;
+          target_id: string;
+          branch_type: string;
+        }[];
+      };
+      user_activity_categories: {
+        Args: {
+          p_user_id: string;
+        };
+        Returns: {
+          concept_id: string;
+          category: string;
+          subtopic: string;
+        }[];
+      };
+      user_graph_edges: {
+        Args: {
+          p_user_id: string;
+        };
+        Returns: {
+          id: string;
+          source_id: string;
+          target_id: string;
+          branch_type: string;
+          target_name: string;
+          target_slug: string;
+          traversed: boolean;
+        }[];
+      };
       increment_nodes_explored: {
         Args: {
           p_user_id: string;
+          p_concept_id: string;
         };
         Returns: {
           nodes_explored: number;
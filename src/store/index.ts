@@ -5,7 +5,7 @@
  * - Exploration path (stack of visited concepts)
  * - Go Deeper content cache (ephemeral, not persisted to DB)
  * - Visited nodes (for graph visualization)
- * - Graph data (accumulated during exploration)
+ * - Graph data (accumulated during exploration, hydrated from the server)
  *
  * Uses Immer for efficient immutable updates with mutable-style syntax.
  */
@@ -14,6 +14,7 @@
 
 import { create } from "zustand";
 import { immer } from "zustand/middleware/immer";
+import { enableMapSet } from "immer";
 import type {
   DeeperCache,
   GraphNode,
@@ -23,8 +24,12 @@ import type {
   Book,
   Concept,
   EdgeWithTarget,
+  GraphData,
 } from "@/types";
 
+// visitedNodes is a Set, which Immer only drafts with the MapSet plugin
+enableMapSet();
+
 // =============================================
 // EXPLORATION STORE
 // =============================================
@@ -85,8 +90,12 @@ interface DeeperCacheState {
   cache: Record<string, DeeperCache>;
   /** Get cached content for a concept */
   getCache: (conceptId: string) => DeeperCache | undefined;
-  /** Set Socratic dialogue history */
-  setSocratic: (conceptId: string, history: SocraticMessage[]) => void;
+  /** Set Socratic dialogue history (and whether the dialogue has concluded) */
+  setSocratic: (
+    conceptId: string,
+    history: SocraticMessage[],
+    complete?: boolean
+  ) => void;
   /** Set expanded description */
   setExpanded: (conceptId: string, description: string) => void;
   /** Set video results */
@@ -107,12 +116,17 @@ export const useDeeperCacheStore = create<DeeperCacheState>()(
       return get().cache[conceptId];
     },
 
-    setSocratic: (conceptId: string, history: SocraticMessage[]) => {
+    setSocratic: (
+      conceptId: string,
+      history: SocraticMessage[],
+      complete: boolean = false
+    ) => {
       set((state) => {
         if (!state.cache[conceptId]) {
           state.cache[conceptId] = {};
         }
         state.cache[conceptId].socratic = history;
+        state.cache[conceptId].socraticComplete = complete;
       });
     },
 
@@ -162,6 +176,8 @@ export const useDeeperCacheStore = create<DeeperCacheState>()(
 // =============================================
 
 interface GraphDataState {
+  /** User whose persisted graph has been merged in (null until hydrated) */
+  ownerId: string | null;
   /** Set of visited concept IDs */
   visitedNodes: Set<string>;
   /** Graph nodes for visualization */
@@ -172,6 +188,11 @@ interface GraphDataState {
   addVisitedNode: (concept: Concept) => void;
   /** Add edges from a concept */
   addEdges: (sourceId: string, edges: EdgeWithTarget[]) => void;
+  /**
+   * Merge a user's persisted graph (from /api/user/graph) into the session
+   * graph. Replaces rather than merges if another user's graph is loaded.
+   */
+  hydrateGraph: (userId: string, data: GraphData) => void;
   /** Check if a node has been visited */
   isVisited: (conceptId: string) => boolean;
   /** Get the number of visited nodes */
@@ -182,6 +203,7 @@ interface GraphDataState {
 
 export const useGraphDataStore = create<GraphDataState>()(
   immer((set, get) => ({
+    ownerId: null,
     visitedNodes: new Set(),
     nodes: [],
     edges: [],
@@ -196,6 +218,14 @@ export const useGraphDataStore = create<GraphDataState>()(
 
       set((state) => {
         state.visitedNodes.add(concept.id);
+
+        // Node may already exist as an unvisited branch target
+        const existing = state.nodes.find((n) => n.id === concept.id);
+        if (existing) {
+          existing.visited = true;
+          return;
+        }
+
         state.nodes.push({
           id: concept.id,
           label: concept.name,
@@ -236,6 +266,43 @@ export const useGraphDataStore = create<GraphDataState>()(
       });
     },
 
+    hydrateGraph: (userId: string, data: GraphData) => {
+      set((state) => {
+        if (state.ownerId && state.ownerId !== userId) {
+          state.visitedNodes.clear();
+          state.nodes.length = 0;
+          state.edges.length = 0;
+        }
+        state.ownerId = userId;
+
+        const nodesById = new Map(state.nodes.map((n) => [n.id, n]));
+        const edgesById = new Map(state.edges.map((e) => [e.id, e]));
+
+        for (const node of data.nodes) {
+          const existing = nodesById.get(node.id);
+          if (existing) {
+            existing.visited = existing.visited || node.visited;
+          } else {
+            state.nodes.push({ ...node });
+            nodesById.set(node.id, node);
+          }
+          if (node.visited) {
+            state.visitedNodes.add(node.id);
+          }
+        }
+
+        for (const edge of data.edges) {
+          const existing = edgesById.get(edge.id);
+          if (existing) {
+            existing.traversed = existing.traversed || edge.traversed;
+          } else {
+            state.edges.push({ ...edge });
+            edgesById.set(edge.id, edge);
+          }
+        }
+      });
+    },
+
     isVisited: (conceptId: string) => {
       return get().visitedNodes.has(conceptId);
     },
@@ -246,6 +313,7 @@ export const useGraphDataStore = create<GraphDataState>()(
 
     clearGraph: () => {
       set((state) => {
+        state.ownerId = null;
         state.visitedNodes.clear();
         state.nodes.length = 0;
         state.edges.length = 0;
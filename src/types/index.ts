@@ -15,14 +15,73 @@ export type BranchType = "constructive" | "critique" | "author" | "wildcard";
 /** Familiarity levels for onboarding */
 export type FamiliarityLevel = "beginner" | "intermediate" | "advanced";
 
+/**
+ * Lesson lifecycle of a concept. Branch targets are created as stubs
+ * (name only) and get their lesson on first visit.
+ */
+export type ConceptStatus = "stub" | "generating" | "ready" | "failed";
+
 /** A philosophical concept node in the graph */
 export interface Concept {
   id: string;
   name: string;
   slug: string;
+  /** Lesson text; empty until status is "ready" */
   description: string;
-  recommended_reading: string[] | null;
   embedding: number[] | null;
+  status: ConceptStatus;
+  created_at: string | null;
+}
+
+/** A text recommended by one or more lessons */
+export interface Reading {
+  id: string;
+  title: string;
+  author: string;
+  year: string | null;
+  /** Normalised title + author surname, shared by all mentions of the text */
+  reading_key: string;
+  isbn: string | null;
+  /** Open Library work ID, e.g. "OL45804W" */
+  openlibrary_id: string | null;
+  created_at: string | null;
+}
+
+/** A reading as recommended by a particular concept's lesson */
+export interface ConceptReading extends Reading {
+  /** Why the text matters for this concept */
+  relevance: string;
+}
+
+/** A recommended reading as shown on a lesson, with the viewer's read status */
+export interface LessonReading extends ConceptReading {
+  /** text_name of the matching onboarding canonical text, if any */
+  canonical_text_name: string | null;
+  /** Whether the viewer has read the canonical text (user_text_familiarity) */
+  has_read: boolean;
+}
+
+/** How a concept's category tag was assigned */
+export type ConceptCategoryMethod = "embedding" | "llm";
+
+/** An onboarding CATEGORIES subtopic a concept belongs to */
+export interface ConceptCategory {
+  concept_id: string;
+  category: string;
+  subtopic: string;
+  /** Cosine similarity to the subtopic; null when the LLM chose it */
+  similarity: number | null;
+  method: ConceptCategoryMethod;
+  /** Position among the concept's tags, 0 for the best fit */
+  rank: number;
+  created_at: string | null;
+}
+
+/** A concept's lesson rewritten for readers at one familiarity level */
+export interface ConceptLens {
+  concept_id: string;
+  level: FamiliarityLevel;
+  description: string;
   created_at: string | null;
 }
 
@@ -67,6 +126,49 @@ export interface CategoryFamiliarity {
   familiarity: FamiliarityLevel;
 }
 
+/** Where a familiarity setting was last changed from */
+export type FamiliaritySource = "onboarding" | "profile" | "lesson" | "suggestion";
+
+/** One change to a user's familiarity profile: a subtopic level or a text read */
+export interface FamiliarityHistoryEntry {
+  id: string;
+  /** Set for a subtopic level change */
+  category: string | null;
+  subtopic: string | null;
+  /** Set for a text marked read or unread */
+  text_name: string | null;
+  /** null when first set */
+  old_value: string | null;
+  /** A familiarity level, or "read" / "unread" */
+  new_value: string;
+  source: FamiliaritySource;
+  changed_at: string;
+}
+
+/** Where a user is with a book in their library */
+export type LibraryStatus = "want_to_read" | "reading" | "finished";
+
+/** A book saved to a user's personal library */
+export interface LibraryEntry {
+  id: string;
+  user_id: string;
+  title: string;
+  author: string;
+  /** Normalised title + author surname, as Reading.reading_key */
+  book_key: string;
+  /** The shared reading, when saved from a lesson's reading list */
+  reading_id: string | null;
+  /** Where the book was found, e.g. a book search result's page */
+  url: string | null;
+  image_url: string | null;
+  status: LibraryStatus;
+  notes: string;
+  created_at: string | null;
+  updated_at: string | null;
+  /** Concepts where the user discovered the book, earliest first */
+  concepts: Pick<Concept, "id" | "name" | "slug">[];
+}
+
 /** Branch analytics for a concept */
 export interface BranchAnalytics {
   id: string;
@@ -82,6 +184,90 @@ export interface GenerationLog {
   generated_at: string;
 }
 
+/** An answer option on a quiz question, tagged with the level it reveals */
+export interface QuizOption {
+  text: string;
+  level: FamiliarityLevel | "incorrect";
+}
+
+/** A question in the familiarity quiz bank */
+export interface QuizBankQuestion {
+  id: string;
+  category: string;
+  subtopic: string;
+  /** Level of understanding the question is pitched at */
+  difficulty: FamiliarityLevel;
+  question: string;
+  options: QuizOption[];
+  explanation: string;
+  /** Written by hand, or saved from live generation */
+  source: "curated" | "generated";
+  /** Retired questions are no longer asked */
+  status: "active" | "retired";
+  times_asked: number;
+  times_answered: number;
+  /** Answers by the level of the option chosen */
+  answer_counts: Partial<Record<QuizOption["level"], number>>;
+  /** Users who flagged the question as unfair */
+  flag_count: number;
+  created_at: string | null;
+  retired_at: string | null;
+}
+
+/** Kinds of queued generation work */
+export type GenerationJobKind = "lesson" | "branches" | "embedding" | "lens";
+
+/**
+ * Lifecycle of a generation job. A failed attempt goes back to "queued"
+ * with a backoff delay until the job runs out of attempts.
+ */
+export type GenerationJobStatus = "queued" | "running" | "succeeded" | "failed";
+
+/**
+ * Progress within a job attempt: lessons go writing, embedding, saving;
+ * branches go proposing, linking; embedding jobs only embed
+ */
+export type GenerationJobStage =
+  | "writing"
+  | "embedding"
+  | "saving"
+  | "proposing"
+  | "linking";
+
+/** Output of a finished generation job */
+export interface GenerationJobResult {
+  /** The concept whose lesson (or lens) was written */
+  conceptId?: string;
+  slug?: string;
+  /** Number of branches linked (branch jobs) */
+  edges?: number;
+}
+
+/** A queued lesson, branch, embedding or lens generation */
+export interface GenerationJob {
+  id: string;
+  kind: GenerationJobKind;
+  idempotency_key: string;
+  /**
+   * Lesson jobs carry the concept name and lens jobs the level; other
+   * kinds use concept_id alone
+   */
+  payload: { name?: string; level?: FamiliarityLevel };
+  concept_id: string | null;
+  requested_by: string | null;
+  status: GenerationJobStatus;
+  stage: GenerationJobStage | null;
+  attempts: number;
+  max_attempts: number;
+  /** Not retried before this time */
+  run_after: string;
+  locked_until: string | null;
+  last_error: string | null;
+  result: GenerationJobResult | null;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
 // =============================================
 // API REQUEST/RESPONSE TYPES
 // =============================================
@@ -124,6 +310,31 @@ export interface CategoryWithSubtopics {
   subtopics: string[];
 }
 
+export interface RecommendedConcept {
+  slug: string;
+  name: string;
+  description: string;
+  /** Why it was recommended, e.g. "You know Virtue Ethics" */
+  reason?: string;
+}
+
+export interface RecommendationsResponse {
+  concepts: RecommendedConcept[];
+  /** The user's dominant familiarity level */
+  level: FamiliarityLevel;
+}
+
+export interface UpdateTextFamiliarityRequest {
+  /** A canonical text's name, as from canonicalTextName() */
+  text_name: string;
+  has_read: boolean;
+}
+
+export interface UpdateTextFamiliarityResponse {
+  text_name: string;
+  has_read: boolean;
+}
+
 export interface SaveFamiliarityRequest {
   texts: { text_name: string; has_read: boolean }[];
   categories: {
@@ -137,6 +348,10 @@ export interface QuizAnswer {
   question: string;
   answer: string;
   level: FamiliarityLevel | "incorrect";
+  /** Difficulty the question was pitched at (intermediate if missing) */
+  difficulty?: FamiliarityLevel;
+  /** The bank question answered, if it came from the bank */
+  questionId?: string | null;
 }
 
 export interface QuizQuestionRequest {
@@ -146,14 +361,41 @@ export interface QuizQuestionRequest {
 }
 
 export interface QuizQuestionResponse {
+  /** Bank question ID, to send back with the answer or flag the question */
+  id: string | null;
   question: string;
-  options: { text: string; level: FamiliarityLevel | "incorrect" }[];
+  options: QuizOption[];
   explanation?: string;
+  /** Difficulty the question is pitched at; send it back with the answer */
+  difficulty: FamiliarityLevel;
 }
 
 export interface QuizResultResponse {
   familiarity: FamiliarityLevel;
   reasoning: string;
+  /** Probability (0-1) that familiarity is the user's level */
+  confidence: number;
+}
+
+export type QuizResponse =
+  | {
+      complete: false;
+      question: QuizQuestionResponse;
+      /** Confidence in the current estimate, before this question */
+      confidence: number;
+      /** Most questions the quiz will ask */
+      maxQuestions: number;
+    }
+  | { complete: true; result: QuizResultResponse };
+
+export interface FlagQuizQuestionRequest {
+  questionId: string;
+  reason?: string;
+}
+
+export interface FlagQuizQuestionResponse {
+  /** False if the user had already flagged the question */
+  flagged: boolean;
 }
 
 // Concepts
@@ -181,12 +423,41 @@ export interface GenerateConceptRequest {
 
 export interface GenerateConceptResponse {
   concept: Concept;
+  /** True if this request generated the concept (false if it already existed) */
+  generated: boolean;
 }
 
 export interface GenerateBranchesResponse {
   edges: EdgeWithTarget[];
 }
 
+export interface ConceptReadingsResponse {
+  readings: LessonReading[];
+}
+
+/** A subtopic a lesson belongs to, with the viewer's level in it */
+export interface LessonCategory {
+  category: string;
+  subtopic: string;
+  /** The viewer's familiarity level, if signed in and rated */
+  familiarity: FamiliarityLevel | null;
+}
+
+export interface ConceptCategoriesResponse {
+  categories: LessonCategory[];
+  /** Level the viewer's lens on the lesson defaults to, if known */
+  lensLevel: FamiliarityLevel | null;
+}
+
+export interface LessonLensRequest {
+  /** Default: the viewer's level in the concept's category */
+  level?: FamiliarityLevel;
+}
+
+export interface LessonLensResponse {
+  lens: ConceptLens;
+}
+
 export interface ChooseBranchRequest {
   branchType: BranchType;
 }
@@ -233,17 +504,33 @@ export interface ExpandDescriptionResponse {
 
 export interface VideoSearchRequest {
   conceptId: string;
-  conceptName: string;
+  /** Ignored server-side; the concept is always loaded by ID */
+  conceptName?: string;
+}
+
+export interface VideoSearchResponse {
+  videos: Video[];
 }
 
 export interface BookSearchRequest {
   conceptId: string;
-  conceptName: string;
+  /** Ignored server-side; the concept is always loaded by ID */
+  conceptName?: string;
+}
+
+export interface BookSearchResponse {
+  books: Book[];
 }
 
 // User
+export interface UserProfileResponse {
+  profile: UserProfile;
+}
+
 export interface ExploreNodeRequest {
   conceptId: string;
+  /** Edge followed to reach the concept, if any */
+  edgeId?: string;
 }
 
 export interface ExploreNodeResponse {
@@ -257,6 +544,155 @@ export interface RateLimitResponse {
   resetAt: string | null;
 }
 
+// User familiarity profile
+export interface FamiliarityProfileResponse {
+  texts: TextFamiliarity[];
+  categories: CategoryFamiliarity[];
+}
+
+/** Either part may be left out to keep it as it is */
+export type UpdateFamiliarityRequest = Partial<SaveFamiliarityRequest>;
+
+export interface FamiliarityHistoryResponse {
+  /** Most recent first */
+  history: FamiliarityHistoryEntry[];
+}
+
+/** A suggestion to raise a subtopic's level, from activity near it */
+export interface FamiliaritySuggestion {
+  category: string;
+  subtopic: string;
+  current: FamiliarityLevel;
+  suggested: FamiliarityLevel;
+  /** Lessons read near the subtopic since its level last changed */
+  lessons: number;
+  /** Socratic dialogues completed near it in that time */
+  dialogues: number;
+}
+
+export interface FamiliaritySuggestionsResponse {
+  suggestions: FamiliaritySuggestion[];
+}
+
+export interface RespondToSuggestionRequest {
+  category: string;
+  subtopic: string;
+  /** The suggested level */
+  level: FamiliarityLevel;
+  /** Raise the level (true) or dismiss the suggestion (false) */
+  accept: boolean;
+}
+
+// User library
+export interface LibraryResponse {
+  entries: LibraryEntry[];
+}
+
+export interface AddLibraryEntryRequest {
+  title: string;
+  author: string;
+  url?: string;
+  imageUrl?: string;
+  /** The shared reading, when saving from a lesson's reading list */
+  readingId?: string;
+  /** The concept where the book was discovered */
+  conceptId?: string;
+}
+
+export interface UpdateLibraryEntryRequest {
+  status?: LibraryStatus;
+  notes?: string;
+}
+
+export interface LibraryEntryResponse {
+  entry: LibraryEntry;
+}
+
+// Graph
+export interface GlobalGraphResponse extends GraphData {
+  /** Cursor for the next page of most-connected concepts, or null if none */
+  nextCursor: string | null;
+}
+
+export interface ProjectionJobResponse {
+  /** Number of concepts given map positions */
+  projected: number;
+}
+
+// Admin
+export interface AdminQuizQuestionsResponse {
+  /** Active questions users have flagged, most flagged first */
+  questions: QuizBankQuestion[];
+}
+
+export interface UpdateQuizQuestionRequest {
+  status: QuizBankQuestion["status"];
+}
+
+export interface AdminQuizQuestionResponse {
+  question: QuizBankQuestion;
+}
+
+export interface FillQuizBankRequest {
+  /** Limit filling to one subtopic (default: every subtopic) */
+  category?: string;
+  subtopic?: string;
+}
+
+export interface FillQuizBankResponse {
+  /** Questions generated and added to the bank */
+  created: number;
+  /** Subtopic/difficulty slots still below target after this call */
+  remaining: number;
+}
+
+export interface ClassifyConceptsResponse {
+  /** Concepts given category tags */
+  classified: number;
+  /** Lessons still without tags after this call */
+  remaining: number;
+}
+
+// Jobs
+export interface GenerationJobResponse {
+  job: GenerationJob;
+}
+
+export interface RunJobsResponse {
+  /** Number of due jobs run */
+  processed: number;
+}
+
+// Streaming (text/event-stream routes)
+export interface StreamErrorEvent {
+  error: string;
+  /** HTTP status the equivalent non-streamed route would have returned */
+  status: number;
+}
+
+/** Events from a streamed generation: prose deltas, then done or error */
+export type GenerationStreamEvent<TDone> =
+  | { event: "delta"; data: { text: string } }
+  | { event: "done"; data: TDone }
+  | { event: "error"; data: StreamErrorEvent };
+
+/** Events from POST /api/concepts/generate/stream */
+export type ConceptStreamEvent =
+  | GenerationStreamEvent<GenerateConceptResponse>
+  | { event: "rate_limited"; data: RateLimitResponse }
+  /** The lesson job moved to a new stage */
+  | { event: "progress"; data: GenerationJobResponse }
+  /** The lesson is running elsewhere or awaiting a retry; poll the job */
+  | { event: "queued"; data: GenerationJobResponse };
+
+/** Events from POST /api/deeper/expand/stream */
+export type ExpandStreamEvent =
+  GenerationStreamEvent<ExpandDescriptionResponse>;
+
+/** Events from POST /api/deeper/socratic/respond/stream */
+export type SocraticStreamEvent =
+  GenerationStreamEvent<SocraticRespondResponse>;
+
 // =============================================
 // EXTERNAL API TYPES
 // =============================================
@@ -286,6 +722,20 @@ export interface Book {
 // GEMINI RESPONSE TYPES
 // =============================================
 
+/** Why an LLM generation could not produce a valid result */
+export type GenerationFailureReason =
+  /** The provider call itself failed (network, auth, quota) */
+  | "provider_error"
+  /** No JSON could be extracted from the response, even after repairs */
+  | "invalid_json"
+  /** JSON did not match the expected schema, even after repairs */
+  | "invalid_schema";
+
+/** Outcome of a validated LLM generation */
+export type GenerationResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; reason: GenerationFailureReason; message: string };
+
 export interface LessonGeneration {
   description: string;
   recommended_reading: {
@@ -322,13 +772,17 @@ export interface ExpandedDescriptionGeneration {
 
 export interface QuizQuestionGeneration {
   question: string;
-  options: { text: string; level: FamiliarityLevel | "incorrect" }[];
+  options: QuizOption[];
   explanation: string;
 }
 
-export interface QuizEvaluationGeneration {
-  familiarity: FamiliarityLevel;
-  reasoning: string;
+export interface LessonLensGeneration {
+  description: string;
+}
+
+export interface ConceptCategoryGeneration {
+  /** Best fit first; empty if no subtopic fits */
+  subtopics: { category: string; subtopic: string }[];
 }
 
 // =============================================
@@ -338,6 +792,8 @@ export interface QuizEvaluationGeneration {
 /** Cached Go Deeper content for a concept */
 export interface DeeperCache {
   socratic?: SocraticMessage[];
+  /** True once the Socratic dialogue has reached its summary */
+  socraticComplete?: boolean;
   expanded?: string;
   videos?: Video[];
   books?: Book[];
@@ -363,6 +819,8 @@ export interface GraphNode {
   label: string;
   slug: string;
   visited: boolean;
+  /** Semantic map coordinates in [-1, 1] (map view only) */
+  position?: { x: number; y: number };
 }
 
 /** Edge data for Cytoscape.js */
@@ -371,6 +829,8 @@ export interface GraphEdge {
   source: string;
   target: string;
   branchType: BranchType;
+  /** Whether the user has taken this edge to reach its target */
+  traversed?: boolean;
 }
 
 /** Combined graph data for visualization */
@@ -379,6 +839,12 @@ export interface GraphData {
   edges: GraphEdge[];
 }
 
+/** Position in the most-connected ranking: the last concept of a page */
+export interface TopConnectedCursor {
+  degree: number;
+  id: string;
+}
+
 // =============================================
 // COMPONENT PROP TYPES
 // =============================================
@@ -403,6 +869,12 @@ export interface SocraticDialogueProps {
   history: SocraticMessage[];
   onSend: (message: string) => void;
   loading: boolean;
+  /** Begin a new dialogue (shown when history is empty or complete) */
+  onStart?: () => void;
+  isComplete?: boolean;
+  error?: string | null;
+  /** Assistant reply still being streamed in (not yet part of history) */
+  draft?: string;
 }
 
 export interface VideoCardProps {
@@ -0,0 +1,38 @@
+/**
+ * Type declarations for react-cytoscapejs (the package ships none).
+ * Covers the props used by GraphCanvas.
+ */
+declare module "react-cytoscapejs" {
+  import type { Component, CSSProperties } from "react";
+  import type {
+    Core,
+    ElementDefinition,
+    LayoutOptions,
+    StylesheetJson,
+  } from "cytoscape";
+
+  interface CytoscapeComponentProps {
+    id?: string;
+    className?: string;
+    style?: CSSProperties;
+    elements: ElementDefinition[];
+    stylesheet?: StylesheetJson;
+    layout?: LayoutOptions;
+    cy?: (cy: Core) => void;
+    zoom?: number;
+    minZoom?: number;
+    maxZoom?: number;
+    pan?: { x: number; y: number };
+    zoomingEnabled?: boolean;
+    userZoomingEnabled?: boolean;
+    panningEnabled?: boolean;
+    userPanningEnabled?: boolean;
+    boxSelectionEnabled?: boolean;
+    autoungrabify?: boolean;
+    autolock?: boolean;
+    autounselectify?: boolean;
+    wheelSensitivity?: number;
+  }
+
+  export default class CytoscapeComponent extends Component<CytoscapeComponentProps> {}
+}
@@ -17,16 +17,87 @@ CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 -- =============================================
 
 -- Core concept storage
+-- Branch targets start as stubs (name only); the lesson, reading list and
+-- embedding are generated on first visit (readings live in concept_readings)
 CREATE TABLE concepts (
   id              UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   name            TEXT UNIQUE NOT NULL,
   slug            TEXT UNIQUE NOT NULL,
-  description     TEXT NOT NULL,
-  recommended_reading TEXT[],
+  name_key        TEXT UNIQUE NOT NULL,  -- normalised name, for duplicate detection
+  description     TEXT NOT NULL DEFAULT '', -- empty until the lesson is generated
   embedding       VECTOR(1536),          -- OpenAI text-embedding-3-small
+  status          TEXT NOT NULL DEFAULT 'ready'
+                  CHECK (status IN ('stub', 'generating', 'ready', 'failed')),
+  generation_started_at TIMESTAMP,       -- when the current/last lesson generation was claimed
+  created_at      TIMESTAMP DEFAULT NOW()
+);
+
+-- Alternative names that resolve to an existing concept
+-- (e.g. "Kant" and "Kant, Immanuel" for "Immanuel Kant")
+CREATE TABLE concept_aliases (
+  id              UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  concept_id      UUID REFERENCES concepts(id) ON DELETE CASCADE NOT NULL,
+  name            TEXT NOT NULL,
+  slug            TEXT UNIQUE NOT NULL,
+  name_key        TEXT UNIQUE NOT NULL,
+  created_at      TIMESTAMP DEFAULT NOW()
+);
+
+-- Texts recommended by lessons. One row per text however many lessons
+-- suggest it, matched on a normalised title + author surname
+CREATE TABLE readings (
+  id              UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  title           TEXT NOT NULL,
+  author          TEXT NOT NULL,
+  year            TEXT,                  -- as given, e.g. '1781' or 'c. 380 BC'
+  reading_key     TEXT UNIQUE NOT NULL,  -- normalised 'title|surname', for deduplication
+  isbn            TEXT,                  -- from Open Library, when found
+  openlibrary_id  TEXT,                  -- Open Library work ID, e.g. 'OL45804W'
   created_at      TIMESTAMP DEFAULT NOW()
 );
 
+-- Which readings each concept's lesson recommends, in the lesson's order
+CREATE TABLE concept_readings (
+  concept_id      UUID REFERENCES concepts(id) ON DELETE CASCADE NOT NULL,
+  reading_id      UUID REFERENCES readings(id) ON DELETE CASCADE NOT NULL,
+  relevance       TEXT NOT NULL DEFAULT '',  -- why this text matters for this concept
+  position        INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (concept_id, reading_id)
+);
+
+-- 2D projection of concept embeddings for the semantic map
+-- (recomputed in bulk by the projection job)
+CREATE TABLE concept_positions (
+  concept_id      UUID PRIMARY KEY REFERENCES concepts(id) ON DELETE CASCADE,
+  x               REAL NOT NULL,
+  y               REAL NOT NULL,
+  computed_at     TIMESTAMP DEFAULT NOW()
+);
+
+-- Onboarding CATEGORIES subtopics each concept belongs to, assigned when
+-- its lesson is written (by embedding similarity, or by the LLM when no
+-- subtopic is near enough)
+CREATE TABLE concept_categories (
+  concept_id      UUID REFERENCES concepts(id) ON DELETE CASCADE NOT NULL,
+  category        TEXT NOT NULL,
+  subtopic        TEXT NOT NULL,
+  similarity      REAL,                  -- to the subtopic's embedding; null when chosen by the LLM
+  method          TEXT NOT NULL CHECK (method IN ('embedding', 'llm')),
+  rank            SMALLINT NOT NULL DEFAULT 0,  -- 0 for the best fit, then in order
+  created_at      TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (concept_id, category, subtopic)
+);
+
+-- Lessons rewritten for each familiarity level ("lenses"), generated the
+-- first time a concept is read at that level and shared by every reader
+CREATE TABLE concept_lenses (
+  concept_id      UUID REFERENCES concepts(id) ON DELETE CASCADE NOT NULL,
+  level           TEXT NOT NULL CHECK (level IN ('beginner', 'intermediate', 'advanced')),
+  description     TEXT NOT NULL,
+  created_at      TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (concept_id, level)
+);
+
 -- Edges between concepts (adjacency list)
 CREATE TABLE edges (
   id              UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -53,6 +124,8 @@ CREATE TABLE user_text_familiarity (
   user_id         UUID REFERENCES user_profiles(id) ON DELETE CASCADE,
   text_name       TEXT NOT NULL,
   has_read        BOOLEAN DEFAULT FALSE,
+  source          TEXT NOT NULL DEFAULT 'onboarding'  -- where it was last set
+                  CHECK (source IN ('onboarding', 'profile', 'lesson')),
   UNIQUE(user_id, text_name)
 );
 
@@ -63,9 +136,77 @@ CREATE TABLE user_category_familiarity (
   category        TEXT NOT NULL,
   subtopic        TEXT NOT NULL,
   familiarity     TEXT CHECK (familiarity IN ('beginner', 'intermediate', 'advanced')),
+  source          TEXT NOT NULL DEFAULT 'onboarding'  -- where it was last set
+                  CHECK (source IN ('onboarding', 'profile', 'suggestion')),
   UNIQUE(user_id, category, subtopic)
 );
 
+-- History of changes to a user's familiarity profile (subtopic levels and
+-- texts read), written by triggers on the two familiarity tables
+CREATE TABLE user_familiarity_history (
+  id              UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id         UUID REFERENCES user_profiles(id) ON DELETE CASCADE NOT NULL,
+  category        TEXT,                  -- set for subtopic level changes
+  subtopic        TEXT,
+  text_name       TEXT,                  -- set for texts marked read or unread
+  old_value       TEXT,                  -- NULL when first set
+  new_value       TEXT NOT NULL,         -- a familiarity level, or 'read' / 'unread'
+  source          TEXT NOT NULL,         -- the changed row's source
+  changed_at      TIMESTAMP DEFAULT NOW(),
+  CHECK ((subtopic IS NOT NULL) <> (text_name IS NOT NULL))
+);
+
+-- Level-up suggestions a user has dismissed, so they aren't offered again
+CREATE TABLE familiarity_suggestion_dismissals (
+  user_id         UUID REFERENCES user_profiles(id) ON DELETE CASCADE NOT NULL,
+  category        TEXT NOT NULL,
+  subtopic        TEXT NOT NULL,
+  level           TEXT NOT NULL          -- the level that was suggested
+                  CHECK (level IN ('intermediate', 'advanced')),
+  dismissed_at    TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (user_id, category, subtopic, level)
+);
+
+-- Onboarding: question bank for the "Help Me Decide" quiz, one row per
+-- question, curated or saved from live generation
+CREATE TABLE quiz_questions (
+  id              UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  category        TEXT NOT NULL,
+  subtopic        TEXT NOT NULL,
+  difficulty      TEXT NOT NULL CHECK (difficulty IN ('beginner', 'intermediate', 'advanced')),
+  question        TEXT NOT NULL,
+  options         JSONB NOT NULL,        -- [{ text, level }], level incl. 'incorrect'
+  explanation     TEXT NOT NULL DEFAULT '',
+  source          TEXT NOT NULL DEFAULT 'generated' CHECK (source IN ('curated', 'generated')),
+  status          TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'retired')),
+  times_asked     INTEGER NOT NULL DEFAULT 0,
+  times_answered  INTEGER NOT NULL DEFAULT 0,
+  answer_counts   JSONB NOT NULL DEFAULT '{}',  -- answers by option level
+  flag_count      INTEGER NOT NULL DEFAULT 0,
+  created_at      TIMESTAMP DEFAULT NOW(),
+  retired_at      TIMESTAMP,
+  UNIQUE(subtopic, question)
+);
+
+-- Users flagging a bank question as unfair (at most once each)
+CREATE TABLE quiz_question_flags (
+  question_id     UUID REFERENCES quiz_questions(id) ON DELETE CASCADE NOT NULL,
+  user_id         UUID REFERENCES user_profiles(id) ON DELETE CASCADE NOT NULL,
+  reason          TEXT NOT NULL DEFAULT '',
+  created_at      TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (question_id, user_id)
+);
+
+-- Users' answers counted towards bank question statistics (at most once
+-- each, so a repeated or replayed request can't skew them)
+CREATE TABLE quiz_question_answers (
+  question_id     UUID REFERENCES quiz_questions(id) ON DELETE CASCADE NOT NULL,
+  user_id         UUID REFERENCES user_profiles(id) ON DELETE CASCADE NOT NULL,
+  level           TEXT NOT NULL CHECK (level IN ('incorrect', 'beginner', 'intermediate', 'advanced')),
+  created_at      TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (question_id, user_id)
+);
+
 -- Analytics: branch choice tracking
 CREATE TABLE branch_analytics (
   id              UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -75,6 +216,60 @@ CREATE TABLE branch_analytics (
   UNIQUE(concept_id, branch_type)
 );
 
+-- Unique concept visits (drives nodes_explored)
+CREATE TABLE user_visits (
+  id              UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id         UUID REFERENCES user_profiles(id) ON DELETE CASCADE,
+  concept_id      UUID REFERENCES concepts(id) ON DELETE CASCADE,
+  visited_at      TIMESTAMP DEFAULT NOW(),
+  UNIQUE(user_id, concept_id)
+);
+
+-- Per-user traversal log (every concept visit and the edge taken to reach it)
+CREATE TABLE user_traversals (
+  id              UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id         UUID REFERENCES user_profiles(id) ON DELETE CASCADE,
+  concept_id      UUID REFERENCES concepts(id) ON DELETE CASCADE,
+  edge_id         UUID REFERENCES edges(id) ON DELETE SET NULL,  -- NULL when reached directly (search, link, graph)
+  traversed_at    TIMESTAMP DEFAULT NOW()
+);
+
+-- Socratic dialogues a user has carried through to their summary, one row
+-- per user per concept (the first completion)
+CREATE TABLE user_dialogue_completions (
+  user_id         UUID REFERENCES user_profiles(id) ON DELETE CASCADE NOT NULL,
+  concept_id      UUID REFERENCES concepts(id) ON DELETE CASCADE NOT NULL,
+  completed_at    TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (user_id, concept_id)
+);
+
+-- Personal reading list: books a user has saved from a lesson's reading
+-- list or from Go Deeper book search
+CREATE TABLE user_library (
+  id              UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id         UUID REFERENCES user_profiles(id) ON DELETE CASCADE NOT NULL,
+  title           TEXT NOT NULL,
+  author          TEXT NOT NULL DEFAULT '',
+  book_key        TEXT NOT NULL,         -- normalised title + surname, as readings.reading_key
+  reading_id      UUID REFERENCES readings(id) ON DELETE SET NULL,  -- set when saved from a lesson
+  url             TEXT,                  -- where the book was found (e.g. a bookshop page)
+  image_url       TEXT,
+  status          TEXT NOT NULL DEFAULT 'want_to_read'
+                  CHECK (status IN ('want_to_read', 'reading', 'finished')),
+  notes           TEXT NOT NULL DEFAULT '',
+  created_at      TIMESTAMP DEFAULT NOW(),
+  updated_at      TIMESTAMP DEFAULT NOW(),
+  UNIQUE(user_id, book_key)
+);
+
+-- Concepts where each library entry's book was discovered
+CREATE TABLE user_library_concepts (
+  entry_id        UUID REFERENCES user_library(id) ON DELETE CASCADE NOT NULL,
+  concept_id      UUID REFERENCES concepts(id) ON DELETE CASCADE NOT NULL,
+  discovered_at   TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (entry_id, concept_id)
+);
+
 -- Rate limiting
 CREATE TABLE user_generation_log (
   id              UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -82,6 +277,30 @@ CREATE TABLE user_generation_log (
   generated_at    TIMESTAMP DEFAULT NOW()
 );
 
+-- Durable queue for long-running generation work (lessons, branches,
+-- embeddings, lesson lenses). A job is usually run by the request that queued it; if that
+-- request dies, the job's lease expires and the worker picks it up again.
+CREATE TABLE generation_jobs (
+  id              UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  kind            TEXT NOT NULL
+                  CHECK (kind IN ('lesson', 'branches', 'embedding', 'lens')),
+  idempotency_key TEXT UNIQUE NOT NULL,  -- e.g. 'lesson:<name_key>'; one live job per unit of work
+  payload         JSONB NOT NULL DEFAULT '{}',
+  concept_id      UUID REFERENCES concepts(id) ON DELETE CASCADE,  -- NULL for a lesson on a new name
+  requested_by    UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+  status          TEXT NOT NULL DEFAULT 'queued'
+                  CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  stage           TEXT,                  -- progress within the current attempt
+  attempts        INTEGER NOT NULL DEFAULT 0,
+  max_attempts    INTEGER NOT NULL DEFAULT 3,
+  run_after       TIMESTAMP NOT NULL DEFAULT NOW(),  -- retry backoff: not claimable before this
+  locked_until    TIMESTAMP,             -- lease on the running attempt
+  last_error      TEXT,
+  result          JSONB,
+  created_at      TIMESTAMP DEFAULT NOW(),
+  updated_at      TIMESTAMP DEFAULT NOW()
+);
+
 
 -- =============================================
 -- INDEXES
@@ -96,6 +315,13 @@ WITH (lists = 100);
 -- Index for concept lookups
 CREATE INDEX idx_concepts_slug ON concepts(slug);
 CREATE INDEX idx_concepts_name ON concepts(name);
+CREATE INDEX idx_concept_aliases_concept_id ON concept_aliases(concept_id);
+
+-- Index for finding the concepts that recommend a reading
+CREATE INDEX idx_concept_readings_reading_id ON concept_readings(reading_id);
+
+-- Index for filtering concepts by category
+CREATE INDEX idx_concept_categories_category ON concept_categories(category, subtopic);
 
 -- Indexes for edge queries
 CREATE INDEX idx_edges_source_id ON edges(source_id);
@@ -105,13 +331,30 @@ CREATE INDEX idx_edges_branch_type ON edges(branch_type);
 -- Indexes for user data
 CREATE INDEX idx_user_text_familiarity_user_id ON user_text_familiarity(user_id);
 CREATE INDEX idx_user_category_familiarity_user_id ON user_category_familiarity(user_id);
+CREATE INDEX idx_user_familiarity_history_user_id_time ON user_familiarity_history(user_id, changed_at DESC);
+
+-- Index for drawing quiz questions from the bank
+CREATE INDEX idx_quiz_questions_subtopic ON quiz_questions(category, subtopic, difficulty) WHERE status = 'active';
 
 -- Index for analytics queries
 CREATE INDEX idx_branch_analytics_concept_id ON branch_analytics(concept_id);
 
+-- Index for visit lookups
+CREATE INDEX idx_user_visits_user_id ON user_visits(user_id);
+
+-- Index for listing a user's library, most recently updated first
+CREATE INDEX idx_user_library_user_id_updated ON user_library(user_id, updated_at DESC);
+
+-- Index for rebuilding a user's exploration graph
+CREATE INDEX idx_user_traversals_user_id_time ON user_traversals(user_id, traversed_at);
+CREATE INDEX idx_user_traversals_user_id_edge ON user_traversals(user_id, edge_id);
+
 -- Index for rate limiting queries (find recent generations)
 CREATE INDEX idx_user_generation_log_user_id_time ON user_generation_log(user_id, generated_at DESC);
 
+-- Index for the worker's due-job scan
+CREATE INDEX idx_generation_jobs_status_run_after ON generation_jobs(status, run_after);
+
 
 -- =============================================
 -- ROW LEVEL SECURITY (RLS) POLICIES
@@ -121,7 +364,27 @@ CREATE INDEX idx_user_generation_log_user_id_time ON user_generation_log(user_id
 ALTER TABLE user_profiles ENABLE ROW LEVEL SECURITY;
 ALTER TABLE user_text_familiarity ENABLE ROW LEVEL SECURITY;
 ALTER TABLE user_category_familiarity ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_familiarity_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE familiarity_suggestion_dismissals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_dialogue_completions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE user_generation_log ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_visits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_traversals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_library ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_library_concepts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quiz_question_flags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quiz_question_answers ENABLE ROW LEVEL SECURITY;
+
+-- Enable RLS on shared tables clients may read but not write. They have no
+-- write policies; the server writes them with the service-role client.
+ALTER TABLE quiz_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE generation_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE concept_positions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE concept_lenses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE concept_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE readings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE concept_readings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE concept_aliases ENABLE ROW LEVEL SECURITY;
 
 -- user_profiles policies
 -- Users can read their own profile
@@ -180,6 +443,26 @@ CREATE POLICY "Users can update own category familiarity"
   FOR UPDATE
   USING (auth.uid() = user_id);
 
+-- user_familiarity_history policies
+-- Users can read their own history (writes go through the familiarity
+-- triggers)
+CREATE POLICY "Users can view own familiarity history"
+  ON user_familiarity_history
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- familiarity_suggestion_dismissals policies
+-- Users can read and add their own dismissals
+CREATE POLICY "Users can view own suggestion dismissals"
+  ON familiarity_suggestion_dismissals
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own suggestion dismissals"
+  ON familiarity_suggestion_dismissals
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
 -- user_generation_log policies
 -- Users can read their own generation log
 CREATE POLICY "Users can view own generation log"
@@ -193,6 +476,158 @@ CREATE POLICY "Users can insert own generation log"
   FOR INSERT
   WITH CHECK (auth.uid() = user_id);
 
+-- user_visits policies
+-- Users can read their own visits (writes go through increment_nodes_explored)
+CREATE POLICY "Users can view own visits"
+  ON user_visits
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- user_traversals policies
+-- Users can read their own traversal log
+CREATE POLICY "Users can view own traversals"
+  ON user_traversals
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Users can insert to their own traversal log
+CREATE POLICY "Users can insert own traversals"
+  ON user_traversals
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- user_dialogue_completions policies
+-- Users can read and record their own completed dialogues
+CREATE POLICY "Users can view own dialogue completions"
+  ON user_dialogue_completions
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own dialogue completions"
+  ON user_dialogue_completions
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- user_library policies
+-- Users can read, add, edit and remove their own library entries
+CREATE POLICY "Users can view own library"
+  ON user_library
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own library entries"
+  ON user_library
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own library entries"
+  ON user_library
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own library entries"
+  ON user_library
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- user_library_concepts policies
+-- Discovery links belong to whoever owns the library entry
+CREATE POLICY "Users can view own library discoveries"
+  ON user_library_concepts
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM user_library l
+    WHERE l.id = entry_id AND l.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can insert own library discoveries"
+  ON user_library_concepts
+  FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM user_library l
+    WHERE l.id = entry_id AND l.user_id = auth.uid()
+  ));
+
+-- quiz_question_flags policies
+-- Users can see and add their own flags (writes go through flag_quiz_question)
+CREATE POLICY "Users can view own quiz flags"
+  ON quiz_question_flags
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own quiz flags"
+  ON quiz_question_flags
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- quiz_questions policies
+-- Anyone can read the bank; statistics, flags and retirement are written by
+-- the server (record_quiz_answer, flag_quiz_question, the admin API)
+CREATE POLICY "Anyone can view quiz questions"
+  ON quiz_questions
+  FOR SELECT
+  USING (true);
+
+-- generation_jobs policies
+-- Anyone can read jobs (progress is polled by ID; rows hold no user content
+-- beyond the concept name); only the job runner writes them
+CREATE POLICY "Anyone can view generation jobs"
+  ON generation_jobs
+  FOR SELECT
+  USING (true);
+
+-- concept_positions policies
+-- Anyone can read positions; only the projection job rewrites them
+CREATE POLICY "Anyone can view concept positions"
+  ON concept_positions
+  FOR SELECT
+  USING (true);
+
+-- concept_lenses policies
+-- Anyone can read lenses (shared like the lessons they rewrite); only the
+-- lens generator writes them
+CREATE POLICY "Anyone can view concept lenses"
+  ON concept_lenses
+  FOR SELECT
+  USING (true);
+
+-- quiz_question_answers policies
+-- Users can see their own counted answers (writes go through
+-- record_quiz_answer)
+CREATE POLICY "Users can view own quiz answers"
+  ON quiz_question_answers
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- concept_aliases policies
+-- Anyone can read aliases (alias slugs resolve to concepts); only the
+-- generation pipeline writes them
+CREATE POLICY "Anyone can view concept aliases"
+  ON concept_aliases
+  FOR SELECT
+  USING (true);
+
+-- readings and concept_readings policies
+-- Anyone can read lessons' reading lists; only the generation pipeline
+-- writes them
+CREATE POLICY "Anyone can view readings"
+  ON readings
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can view concept readings"
+  ON concept_readings
+  FOR SELECT
+  USING (true);
+
+-- concept_categories policies
+-- Anyone can read tags; only the generation pipeline and the admin
+-- backfill write them
+CREATE POLICY "Anyone can view concept categories"
+  ON concept_categories
+  FOR SELECT
+  USING (true);
+
 -- Public read access for concepts and edges (no RLS needed - all users can read)
 -- But we don't enable RLS on these tables, allowing full public read access
 
@@ -220,6 +655,60 @@ CREATE TRIGGER on_auth_user_created
   FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
 
 
+-- Trigger function recording a change to a user's subtopic familiarity
+-- level in user_familiarity_history
+CREATE OR REPLACE FUNCTION public.record_category_familiarity_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR OLD.familiarity IS DISTINCT FROM NEW.familiarity THEN
+    INSERT INTO public.user_familiarity_history
+      (user_id, category, subtopic, old_value, new_value, source)
+    VALUES (
+      NEW.user_id,
+      NEW.category,
+      NEW.subtopic,
+      CASE WHEN TG_OP = 'UPDATE' THEN OLD.familiarity END,
+      NEW.familiarity,
+      NEW.source
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER on_category_familiarity_changed
+  AFTER INSERT OR UPDATE ON user_category_familiarity
+  FOR EACH ROW EXECUTE FUNCTION public.record_category_familiarity_change();
+
+-- Trigger function recording a text being marked read or unread in
+-- user_familiarity_history (texts first saved unread aren't recorded)
+CREATE OR REPLACE FUNCTION public.record_text_familiarity_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (TG_OP = 'INSERT' AND NEW.has_read)
+    OR (TG_OP = 'UPDATE' AND OLD.has_read IS DISTINCT FROM NEW.has_read) THEN
+    INSERT INTO public.user_familiarity_history
+      (user_id, text_name, old_value, new_value, source)
+    VALUES (
+      NEW.user_id,
+      NEW.text_name,
+      CASE
+        WHEN TG_OP = 'UPDATE' THEN
+          CASE WHEN OLD.has_read THEN 'read' ELSE 'unread' END
+      END,
+      CASE WHEN NEW.has_read THEN 'read' ELSE 'unread' END,
+      NEW.source
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER on_text_familiarity_changed
+  AFTER INSERT OR UPDATE ON user_text_familiarity
+  FOR EACH ROW EXECUTE FUNCTION public.record_text_familiarity_change();
+
+
 -- Vector similarity search function for finding nearest concepts
 -- Uses cosine distance with pgvector's <=> operator
 CREATE OR REPLACE FUNCTION public.match_concepts(
@@ -232,8 +721,8 @@ RETURNS TABLE (
   name TEXT,
   slug TEXT,
   description TEXT,
-  recommended_reading TEXT[],
   embedding VECTOR(1536),
+  status TEXT,
   created_at TIMESTAMP,
   similarity FLOAT
 )
@@ -246,8 +735,8 @@ BEGIN
     c.name,
     c.slug,
     c.description,
-    c.recommended_reading,
     c.embedding,
+    c.status,
     c.created_at,
     1 - (c.embedding <=> query_embedding) AS similarity
   FROM concepts c
@@ -259,6 +748,39 @@ END;
 $$;
 
 
+-- Lessons nearest an embedding that a user has not visited yet, without
+-- their embeddings (for recommendations, which only show them)
+CREATE OR REPLACE FUNCTION public.match_unvisited_concepts(
+  query_embedding VECTOR(1536),
+  match_threshold FLOAT,
+  match_count INT,
+  p_user_id UUID
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  slug TEXT,
+  description TEXT,
+  similarity FLOAT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT c.id, c.name, c.slug, c.description,
+         1 - (c.embedding <=> query_embedding) AS similarity
+  FROM concepts c
+  WHERE c.embedding IS NOT NULL
+    AND c.status = 'ready'
+    AND 1 - (c.embedding <=> query_embedding) > match_threshold
+    AND NOT EXISTS (
+      SELECT 1 FROM user_visits v
+      WHERE v.user_id = p_user_id AND v.concept_id = c.id
+    )
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+
 -- Increment branch analytics counter (upsert pattern)
 CREATE OR REPLACE FUNCTION public.increment_branch_stat(
   p_concept_id UUID,
@@ -276,9 +798,90 @@ END;
 $$;
 
 
--- Increment nodes explored and check if graph should be unlocked (atomic)
+-- Count a bank question being asked (atomic)
+CREATE OR REPLACE FUNCTION public.record_quiz_question_asked(
+  p_question_id UUID
+)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  UPDATE quiz_questions
+  SET times_asked = times_asked + 1
+  WHERE id = p_question_id;
+$$;
+
+
+-- Count a user's answer to a bank question by the level of the option
+-- chosen, once per user; counts it only if it is the user's first answer to
+-- that question. Returns whether it was counted.
+CREATE OR REPLACE FUNCTION public.record_quiz_answer(
+  p_question_id UUID,
+  p_user_id UUID,
+  p_level TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO quiz_question_answers (question_id, user_id, level)
+  VALUES (p_question_id, p_user_id, p_level)
+  ON CONFLICT (question_id, user_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE quiz_questions
+  SET times_answered = times_answered + 1,
+      answer_counts = jsonb_set(
+        answer_counts,
+        ARRAY[p_level],
+        to_jsonb(COALESCE((answer_counts->>p_level)::INTEGER, 0) + 1)
+      )
+  WHERE id = p_question_id;
+  RETURN TRUE;
+END;
+$$;
+
+
+-- Flag a bank question as unfair, once per user; counts the flag only if it
+-- is the user's first for that question. Returns whether it was counted.
+CREATE OR REPLACE FUNCTION public.flag_quiz_question(
+  p_question_id UUID,
+  p_user_id UUID,
+  p_reason TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO quiz_question_flags (question_id, user_id, reason)
+  VALUES (p_question_id, p_user_id, p_reason)
+  ON CONFLICT (question_id, user_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE quiz_questions
+  SET flag_count = flag_count + 1
+  WHERE id = p_question_id;
+  RETURN TRUE;
+END;
+$$;
+
+-- Quiz statistics and flags are written only by the server (service role),
+-- so clients can't inflate counts or flag as another user
+REVOKE EXECUTE ON FUNCTION public.record_quiz_question_asked(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_quiz_answer(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.flag_quiz_question(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+
+-- Record a concept visit and, if it is the user's first visit to that
+-- concept, increment nodes explored and check graph unlock (atomic)
 CREATE OR REPLACE FUNCTION public.increment_nodes_explored(
-  p_user_id UUID
+  p_user_id UUID,
+  p_concept_id UUID
 )
 RETURNS TABLE (
   nodes_explored INTEGER,
@@ -291,30 +894,257 @@ DECLARE
   v_nodes_explored INTEGER;
   v_graph_unlocked BOOLEAN;
 BEGIN
-  UPDATE user_profiles
-  SET
-    nodes_explored = COALESCE(user_profiles.nodes_explored, 0) + 1,
-    graph_unlocked = COALESCE(user_profiles.graph_unlocked, FALSE) OR (COALESCE(user_profiles.nodes_explored, 0) + 1 >= 10)
-  WHERE id = p_user_id
-  RETURNING user_profiles.nodes_explored, user_profiles.graph_unlocked
-  INTO v_nodes_explored, v_graph_unlocked;
+  INSERT INTO user_visits (user_id, concept_id)
+  VALUES (p_user_id, p_concept_id)
+  ON CONFLICT (user_id, concept_id) DO NOTHING;
+
+  IF FOUND THEN
+    -- First visit to this concept
+    UPDATE user_profiles
+    SET
+      nodes_explored = COALESCE(user_profiles.nodes_explored, 0) + 1,
+      graph_unlocked = COALESCE(user_profiles.graph_unlocked, FALSE) OR (COALESCE(user_profiles.nodes_explored, 0) + 1 >= 10)
+    WHERE id = p_user_id
+    RETURNING user_profiles.nodes_explored, user_profiles.graph_unlocked
+    INTO v_nodes_explored, v_graph_unlocked;
+  ELSE
+    -- Repeat visit: report the current counts unchanged
+    SELECT
+      COALESCE(user_profiles.nodes_explored, 0),
+      COALESCE(user_profiles.graph_unlocked, FALSE)
+    INTO v_nodes_explored, v_graph_unlocked
+    FROM user_profiles
+    WHERE id = p_user_id;
+  END IF;
 
   RETURN QUERY SELECT v_nodes_explored, v_graph_unlocked;
 END;
 $$;
 
 
+-- k-hop neighbourhood of a concept over edges in either direction
+-- (breadth-first, nearest first, capped at p_max_nodes)
+CREATE OR REPLACE FUNCTION public.concept_neighbourhood(
+  p_concept_id UUID,
+  p_hops INT,
+  p_max_nodes INT
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  slug TEXT,
+  depth INT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH RECURSIVE reach(concept_id, depth) AS (
+    SELECT p_concept_id, 0
+    UNION
+    SELECT
+      CASE WHEN e.source_id = r.concept_id THEN e.target_id ELSE e.source_id END,
+      r.depth + 1
+    FROM reach r
+    JOIN edges e ON e.source_id = r.concept_id OR e.target_id = r.concept_id
+    WHERE r.depth < p_hops
+  )
+  SELECT c.id, c.name, c.slug, MIN(r.depth)::INT AS depth
+  FROM reach r
+  JOIN concepts c ON c.id = r.concept_id
+  GROUP BY c.id, c.name, c.slug
+  ORDER BY depth, c.name
+  LIMIT p_max_nodes;
+$$;
+
+
+-- Replaced by the keyset-paged signature below
+DROP FUNCTION IF EXISTS public.top_connected_concepts(INT, INT, TEXT);
+
+-- Most connected concepts by total degree (in + out edges), optionally only
+-- those tagged with a category. Paged by keyset: pass the degree and id of
+-- the last concept of the previous page to get the concepts ranked after it.
+CREATE OR REPLACE FUNCTION public.top_connected_concepts(
+  p_limit INT,
+  p_after_degree INT DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL,
+  p_category TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  slug TEXT,
+  degree INT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT c.id, c.name, c.slug, COUNT(e.id)::INT AS degree
+  FROM concepts c
+  LEFT JOIN edges e ON e.source_id = c.id OR e.target_id = c.id
+  WHERE p_category IS NULL
+    OR EXISTS (
+      SELECT 1 FROM concept_categories cc
+      WHERE cc.concept_id = c.id AND cc.category = p_category
+    )
+  GROUP BY c.id, c.name, c.slug
+  HAVING p_after_id IS NULL
+    OR COUNT(e.id) < p_after_degree
+    OR (COUNT(e.id) = p_after_degree AND c.id > p_after_id)
+  ORDER BY degree DESC, c.id
+  LIMIT p_limit;
+$$;
+
+
+-- Edges from the given page of top_connected_concepts to concepts on the
+-- same page or ranked before it (up to and including the page's last
+-- concept), so each page links up with the pages already loaded
+CREATE OR REPLACE FUNCTION public.top_connected_edges(
+  p_concept_ids UUID[],
+  p_until_degree INT,
+  p_until_id UUID,
+  p_category TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  source_id UUID,
+  target_id UUID,
+  branch_type TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH touching AS (
+    SELECT
+      e.id, e.source_id, e.target_id, e.branch_type,
+      CASE WHEN e.source_id = ANY(p_concept_ids)
+        THEN e.target_id ELSE e.source_id END AS other_id
+    FROM edges e
+    WHERE e.source_id = ANY(p_concept_ids)
+      OR e.target_id = ANY(p_concept_ids)
+  ),
+  ranked AS (
+    SELECT
+      t.*,
+      (SELECT COUNT(*)::INT FROM edges d
+        WHERE d.source_id = t.other_id OR d.target_id = t.other_id) AS degree
+    FROM touching t
+  )
+  SELECT r.id, r.source_id, r.target_id, r.branch_type
+  FROM ranked r
+  WHERE r.other_id = ANY(p_concept_ids)
+    OR (
+      (r.degree > p_until_degree
+        OR (r.degree = p_until_degree AND r.other_id < p_until_id))
+      AND (p_category IS NULL OR EXISTS (
+        SELECT 1 FROM concept_categories cc
+        WHERE cc.concept_id = r.other_id AND cc.category = p_category
+      ))
+    );
+$$;
+
+
+-- Edges whose endpoints are both in the given concept set
+-- (an RPC so large ID lists travel in the request body, not the URL)
+CREATE OR REPLACE FUNCTION public.edges_among(
+  p_concept_ids UUID[]
+)
+RETURNS TABLE (
+  id UUID,
+  source_id UUID,
+  target_id UUID,
+  branch_type TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT e.id, e.source_id, e.target_id, e.branch_type
+  FROM edges e
+  WHERE e.source_id = ANY(p_concept_ids)
+    AND e.target_id = ANY(p_concept_ids);
+$$;
+
+
+-- Outgoing edges of every concept a user has visited, with each target's
+-- name and slug and whether the user took the edge (per user_traversals)
+CREATE OR REPLACE FUNCTION public.user_graph_edges(
+  p_user_id UUID
+)
+RETURNS TABLE (
+  id UUID,
+  source_id UUID,
+  target_id UUID,
+  branch_type TEXT,
+  target_name TEXT,
+  target_slug TEXT,
+  traversed BOOLEAN
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT e.id, e.source_id, e.target_id, e.branch_type, t.name, t.slug,
+         EXISTS (
+           SELECT 1 FROM user_traversals ut
+           WHERE ut.user_id = p_user_id AND ut.edge_id = e.id
+         )
+  FROM user_visits v
+  JOIN edges e ON e.source_id = v.concept_id
+  JOIN concepts t ON t.id = e.target_id
+  WHERE v.user_id = p_user_id;
+$$;
+
+
+-- Category tags of every concept a user has read or completed a dialogue
+-- on (an RPC so the join needn't send their concept IDs in the URL)
+CREATE OR REPLACE FUNCTION public.user_activity_categories(
+  p_user_id UUID
+)
+RETURNS TABLE (
+  concept_id UUID,
+  category TEXT,
+  subtopic TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT cc.concept_id, cc.category, cc.subtopic
+  FROM concept_categories cc
+  WHERE cc.concept_id IN (
+    SELECT v.concept_id FROM user_visits v WHERE v.user_id = p_user_id
+    UNION
+    SELECT d.concept_id FROM user_dialogue_completions d
+    WHERE d.user_id = p_user_id
+  );
+$$;
+
+
 -- =============================================
 -- COMMENTS
 -- =============================================
 
 COMMENT ON TABLE concepts IS 'Core philosophical concepts with embeddings for similarity search';
+COMMENT ON TABLE concept_aliases IS 'Alternative names for concepts; alias slugs resolve to the canonical concept';
+COMMENT ON TABLE readings IS 'Texts recommended by lessons, shared across concepts, with Open Library identifiers where found';
+COMMENT ON TABLE concept_readings IS 'Many-to-many link from concepts to their recommended readings, with per-concept relevance';
+COMMENT ON TABLE concept_positions IS 'PCA projection of concept embeddings to 2D, for the semantic map view';
+COMMENT ON TABLE concept_categories IS 'Onboarding category/subtopic tags on concepts, by embedding similarity or LLM classification';
+COMMENT ON TABLE concept_lenses IS 'Each concept''s lesson rewritten for beginner, intermediate and advanced readers, generated on first use';
 COMMENT ON TABLE edges IS 'Directed edges between concepts representing different types of relationships';
 COMMENT ON TABLE user_profiles IS 'Extended user profile data beyond Supabase Auth';
 COMMENT ON TABLE user_text_familiarity IS 'Tracks which canonical texts users have read during onboarding';
 COMMENT ON TABLE user_category_familiarity IS 'Stores user familiarity levels for philosophical categories';
+COMMENT ON TABLE user_familiarity_history IS 'Changes to users'' subtopic levels and texts read, recorded by triggers';
+COMMENT ON TABLE familiarity_suggestion_dismissals IS 'Level-up suggestions users have dismissed';
+COMMENT ON TABLE quiz_questions IS 'Question bank for the familiarity quiz, by subtopic and difficulty, with usage and flag statistics';
+COMMENT ON TABLE quiz_question_flags IS 'Users flagging bank questions as unfair, at most once per question';
+COMMENT ON TABLE quiz_question_answers IS 'Users'' answers counted towards bank question statistics, at most once per question';
 COMMENT ON TABLE branch_analytics IS 'Aggregated statistics on which branch types users choose';
+COMMENT ON TABLE user_visits IS 'One row per user per concept visited, so exploration counts are unique';
+COMMENT ON TABLE user_dialogue_completions IS 'Socratic dialogues users have completed, once per user per concept';
+COMMENT ON TABLE user_traversals IS 'Log of concept visits and edges taken, used to rebuild each user''s exploration graph';
+COMMENT ON TABLE user_library IS 'Books users have saved to their personal reading list, with reading status and notes';
+COMMENT ON TABLE user_library_concepts IS 'Concepts where each saved book was discovered';
 COMMENT ON TABLE user_generation_log IS 'Tracks when users generate new nodes for rate limiting';
+COMMENT ON TABLE generation_jobs IS 'Queued lesson, branch, embedding and lens generations with retry state and progress';
 
 COMMENT ON COLUMN concepts.embedding IS 'Vector embedding from OpenAI text-embedding-3-small (1536 dimensions)';
 COMMENT ON COLUMN edges.branch_type IS 'Type of relationship: constructive (builds on), critique (challenges), author (same thinker), wildcard (unexpected connection)';